@@ -1,90 +1,108 @@
 import './App.css'
 
-import type { FormEvent } from 'react'
-import { useMemo, useState } from 'react'
-
-/** Max characters allowed for lyrics input (to avoid oversized LLM payloads). */
-const MAX_LYRICS_LENGTH = 15_000
-
-type UserLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2'
-
-type LearningItem = {
-  id: string
-  word: string
-  difficultyScore: number
-  difficultyBand: 'comfortable' | 'stretch' | 'challenging'
-  count: number
-  example: string
-  explanation?: string // LLM-provided explanation
-  translation?: string
-  translationError?: string
-}
-
-type NativeLanguage = {
-  code: string
-  label: string
-}
-
-const NATIVE_LANGUAGES: NativeLanguage[] = [
-  { code: 'es', label: 'Spanish' },
-  { code: 'pt', label: 'Portuguese' },
-  { code: 'fr', label: 'French' },
-  { code: 'de', label: 'German' },
-  { code: 'it', label: 'Italian' },
-  { code: 'ru', label: 'Russian' },
-  { code: 'uk', label: 'Ukrainian' },
-  { code: 'pl', label: 'Polish' },
-  { code: 'tr', label: 'Turkish' },
-  { code: 'ar', label: 'Arabic' },
-  { code: 'zh-CN', label: 'Chinese (Simplified)' },
-  { code: 'ja', label: 'Japanese' },
-  { code: 'ko', label: 'Korean' },
-]
-
-/** Ask the LLM to detect the language of the lyrics. Returns language name in English (e.g. "Spanish", "Dutch"). */
-async function detectLyricsLanguage(apiKey: string, lyrics: string): Promise<string> {
-  const sample = lyrics.slice(0, 2500).trim()
-  const prompt = `Identify the language of the following text. Reply with ONLY the language name in English (e.g. English, Spanish, Dutch, Hindi, Korean). No other text.
-
-Text:
-"""
-${sample}
-"""`
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You identify languages. Reply with only the language name in English.',
-        },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0,
-      max_tokens: 30,
-    }),
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `Language detection failed: ${errorData.error?.message || response.statusText}`,
-    )
-  }
-
-  const data = (await response.json()) as {
-    choices?: Array<{ message?: { content?: string } }>
-  }
-  const raw = data.choices?.[0]?.message?.content?.trim() ?? ''
-  const name = raw.replace(/\n.*/s, '').trim() || 'English'
-  return name
-}
+import type { ChangeEvent, FormEvent } from 'react'
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
+
+import type { LLMSettings, ProviderId } from './llm/providers'
+import { PROVIDERS, defaultLLMSettings } from './llm/providers'
+import type { Preferences } from './settings/settings'
+import { importSettingsJSON, loadPlainKey, loadPreferences, savePreferences, toSettingsJSON } from './settings/settings'
+import { createLLMClient, isAbortError } from './llm/client'
+import { clearResponseCache } from './llm/cache'
+import { estimateAnalysisCost, estimateGrammarCost, estimateLineTranslationCost } from './usage/pricing'
+import type { UsageRecord } from './usage/usage'
+import { formatCost, loadBudget, loadUsage, saveBudget, spentInMonth } from './usage/usage'
+import type { SpeechSettings } from './speech/tts'
+import { createSpeechBackend, loadSpeechSettings, saveSpeechSettings } from './speech/tts'
+import type { WordLookup, WordTranslation } from './llm/tasks'
+import {
+  analyzeGrammarWithLLM,
+  analyzeWithLLM,
+  detectLyricsLanguage,
+  detectStanzaLanguages,
+  lookupWordWithLLM,
+  mainLanguage,
+  translateLinesWithLLM,
+  stanzaLyrics,
+  testConnection,
+  translateMixedWordsWithLLM,
+} from './llm/tasks'
+import {
+  BAND_SCORES,
+  analyzeOffline,
+  bandFor,
+  LEVELS,
+  estimateWordLevel,
+  supportsOfflineAnalysis,
+} from './offline/analyze'
+import type { DetectedLanguage } from './offline/detectLanguage'
+import {
+  detectLanguageOffline,
+  languageLabel,
+  sameLanguage,
+} from './offline/detectLanguage'
+import { splitLines } from './text/tokenize'
+import { anchorItems } from './text/anchor'
+import type { AlbumSong } from './text/chunks'
+import { combineItems, itemKey, mergeItems, offsetLines, splitAlbum } from './text/chunks'
+import type { TimedLine } from './text/synced'
+import { parseSyncedLyrics, syncedLyricsText } from './text/synced'
+import type { DifficultyBand, LearningItem, TranslationStyle, UserLevel } from './types'
+import type { ReviewCard } from './review/cards'
+import { addItemsToDeck, loadDeck, removeCard, saveCard } from './review/cards'
+import type { ReviewEvent } from './review/history'
+import { loadReviewHistory, logReview } from './review/history'
+import type { ReviewGrade } from './review/scheduler'
+import { isDue } from './review/scheduler'
+import type { GrammarNotes, LineTranslation, SavedSong, SongAnalysis } from './library/songs'
+import {
+  defaultTitle,
+  deleteSong,
+  findGrammarNotes,
+  findLineTranslation,
+  latestAnalysis,
+  listSongs,
+  saveAnalysis,
+  saveGrammarNotes,
+  saveLineTranslation,
+  updateLatestItems,
+} from './library/songs'
+import type { QuizMode } from './quiz/questions'
+import type { QuizAnswer } from './quiz/sessions'
+import { applyQuizResults, saveQuizSession } from './quiz/sessions'
+import type { ExportContext } from './export/common'
+import { downloadBlob } from './export/common'
+import { parseItemsJSON } from './export/json'
+import type { Lesson, LessonContent } from './export/lesson'
+import { hasLessonFragment, isLessonJSON, lessonFromFragment, parseLesson } from './export/lesson'
+import type { VocabularyEntry, WordStatus } from './vocabulary/profile'
+import {
+  excludedWordsForPrompt,
+  filterByVocabulary,
+  importWords,
+  loadVocabulary,
+  setWordStatus,
+} from './vocabulary/profile'
+import ReviewPanel from './components/ReviewPanel'
+import LibraryPanel from './components/LibraryPanel'
+import VocabularyPanel from './components/VocabularyPanel'
+import ExportMenu from './components/ExportMenu'
+import LyricsReader from './components/LyricsReader'
+import BilingualView from './components/BilingualView'
+import GrammarNotesView from './components/GrammarNotesView'
+import KaraokePlayer from './components/KaraokePlayer'
+import QuizPanel from './components/QuizPanel'
+import UsagePanel from './components/UsagePanel'
+import ProgressPanel from './components/ProgressPanel'
+import type { ItemEdit } from './components/LearningList'
+import LearningList from './components/LearningList'
+import ApiKeyField from './components/ApiKeyField'
+import SpeechPanel from './components/SpeechPanel'
+import LanguagePicker from './components/LanguagePicker'
+import { isRightToLeft, languageName, locale, setLocale, t } from './i18n/i18n'
+
+/** Max characters allowed for lyrics input. Enough for a whole album; longer lyrics are analysed in chunks. */
+const MAX_LYRICS_LENGTH = 150_000
 
 const EXAMPLE_LYRICS = `Ik ga slapen, ik ben moe,
 'k sluit mijn beide oogjes toe,
@@ -116,565 +134,1714 @@ een nieuw hartje wil ik graag.
 Dat eerbiedig luisteren wil,
 en gehoorzaam volgen wil.`
 
-/** Export learning items as tab-separated file for Quizlet import (term \t translation only). */
-function exportForQuizlet(items: LearningItem[]): void {
-  const lines = items.map((item) => {
-    const term = item.word
-    const definition = item.translation || item.translationError || ''
-    return `${term}\t${definition}`
-  })
-  const content = lines.join('\n')
-  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = 'learn-by-song-quizlet.txt'
-  a.click()
-  URL.revokeObjectURL(url)
+/** The language most songs of an album are in. */
+function mostCommonLanguage(languages: DetectedLanguage[]): DetectedLanguage {
+  const counts = new Map<string, number>()
+  for (const language of languages) counts.set(language.code, (counts.get(language.code) ?? 0) + 1)
+  return languages.reduce((best, language) =>
+    (counts.get(language.code) ?? 0) > (counts.get(best.code) ?? 0) ? language : best,
+  )
 }
 
-type LLMWordItem = {
-  word: string
-  phrase?: string
-  difficulty: 'comfortable' | 'stretch' | 'challenging'
-  explanation: string
-  example: string
+/** One list for all songs of an album, with line numbers relative to the pasted text. */
+function combineSongItems(parts: AlbumSong[], songItems: LearningItem[][], langCode: string): LearningItem[] {
+  return mergeItems(
+    songItems.flatMap((items, i) => offsetLines(items, parts[i].firstLine)),
+    langCode,
+  )
 }
 
-async function analyzeWithLLM(
-  lyrics: string,
-  level: UserLevel,
-  apiKey: string,
-  songLangLabel: string,
-): Promise<LearningItem[]> {
-  const levelDescriptions: Record<UserLevel, string> = {
-    A1: 'beginner (A1) - basic vocabulary, simple words',
-    A2: 'elementary (A2) - common everyday words',
-    B1: 'intermediate (B1) - moderately complex vocabulary',
-    B2: 'upper-intermediate (B2) - advanced vocabulary',
-    C1: 'advanced (C1) - sophisticated vocabulary',
-    C2: 'proficient (C2) - very advanced and nuanced vocabulary',
-  }
-
-  const prompt = `You are a ${songLangLabel} language learning assistant. Analyze the following song lyrics (in ${songLangLabel}) and identify words and phrases that would be appropriate for a learner at ${levelDescriptions[level]} level in ${songLangLabel}.
-
-Song lyrics (${songLangLabel}):
-"""
-${lyrics}
-"""
-
-Please identify words and phrases (2-4 words) that:
-1. Are appropriate for ${levelDescriptions[level]} level learners of ${songLangLabel}
-2. Would help expand their vocabulary
-3. Are not too basic (they should challenge the learner slightly)
-4. Include useful idiomatic expressions or phrasal verbs when appropriate for ${songLangLabel}
-
-For each item, provide:
-- The word or phrase in ${songLangLabel}
-- Difficulty level: "comfortable" (just right), "stretch" (slightly challenging), or "challenging" (more difficult but still appropriate)
-- A brief explanation of why this is useful to learn (in English)
-- The exact line from the song where it appears
-
-Return your response as a JSON object with a "words" array property:
-{
-  "words": [
-    {
-      "word": "example",
-      "phrase": "optional phrase if it's a multi-word expression",
-      "difficulty": "comfortable",
-      "explanation": "brief explanation",
-      "example": "exact line from song"
-    }
-  ]
+/** A song's own items, with the translation its word got in the combined album list. */
+function withAlbumTranslations(
+  items: LearningItem[],
+  albumItems: LearningItem[],
+  langCode: string,
+): LearningItem[] {
+  const byKey = new Map(albumItems.map((item) => [itemKey(item, langCode), item]))
+  return items.map((item) => {
+    const albumItem = byKey.get(itemKey(item, langCode))
+    return albumItem
+      ? { ...item, translation: albumItem.translation, translationError: albumItem.translationError }
+      : item
+  })
 }
 
-Return ONLY valid JSON, no additional text before or after.`
+/** Library metadata for the song being analysed. */
+type SongMeta = {
+  songId?: string
+  title: string
+  artist: string
+  timedLines?: TimedLine[]
+  lineTranslations?: LineTranslation[]
+  grammarNotes?: GrammarNotes[]
+}
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini', // Using mini for cost efficiency
-      messages: [
-        {
-          role: 'system',
-          content:
-            `You are a helpful ${songLangLabel} language learning assistant. Always respond with valid JSON only. Return a JSON object with a "words" array.`,
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.7,
-      response_format: { type: 'json_object' },
-    }),
+function App() {
+  const [lyrics, setLyrics] = useState('')
+  // The form's choices from the last visit; the API key only when it was saved without a passphrase.
+  const [savedPreferences] = useState(() => {
+    const preferences = loadPreferences()
+    setLocale(preferences.nativeLang)
+    return preferences
   })
+  const [level, setLevel] = useState<UserLevel>(savedPreferences.level)
+  const [nativeLang, setNativeLang] = useState<string>(savedPreferences.nativeLang)
+  const [offlineMode, setOfflineMode] = useState(savedPreferences.offlineMode)
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(() => ({
+    ...savedPreferences.llm,
+    apiKey: loadPlainKey(savedPreferences.llm.provider),
+  }))
+  // Bumped when settings are imported, so fields that read saved keys start over.
+  const [settingsRevision, setSettingsRevision] = useState(0)
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null)
+  const [learningItems, setLearningItems] = useState<LearningItem[]>([])
+  const [view, setView] = useState<'analyze' | 'review' | 'library' | 'vocabulary' | 'progress' | 'usage'>(
+    'analyze',
+  )
+  const [resultsView, setResultsView] = useState<'list' | 'lyrics' | 'bilingual' | 'grammar' | 'karaoke' | 'quiz'>(
+    'list',
+  )
+  const [songTitle, setSongTitle] = useState('')
+  const [songArtist, setSongArtist] = useState('')
+  const [songLanguage, setSongLanguage] = useState<DetectedLanguage | null>(null)
+  // Language of a multilingual song the learner studies; empty for every language but their own.
+  const [studyLang, setStudyLang] = useState('')
+  const [timedLines, setTimedLines] = useState<TimedLine[] | null>(null)
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [currentSongId, setCurrentSongId] = useState<string | null>(null)
+  const [songs, setSongs] = useState<SavedSong[]>([])
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[]>([])
+  const [deck, setDeck] = useState<ReviewCard[]>([])
+  const [reviewHistory, setReviewHistory] = useState<ReviewEvent[]>([])
+  const [usage, setUsage] = useState<UsageRecord[]>([])
+  const [budget, setBudget] = useState<number | null>(() => loadBudget())
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(() => loadSpeechSettings())
+  const [speechError, setSpeechError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const [translationStyle, setTranslationStyle] = useState<TranslationStyle>('natural')
+  // Latest line translation, kept even when the song isn't in the library yet.
+  const [lineTranslation, setLineTranslation] = useState<(LineTranslation & { lyrics: string }) | null>(null)
+  const [isTranslatingLines, setIsTranslatingLines] = useState(false)
+  const [lineTranslationError, setLineTranslationError] = useState<string | null>(null)
+  // Latest grammar notes, kept like the line translation
+  const [grammarNotes, setGrammarNotes] = useState<(GrammarNotes & { lyrics: string }) | null>(null)
+  const [isFindingGrammar, setIsFindingGrammar] = useState(false)
+  const [grammarError, setGrammarError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isTranslating, setIsTranslating] = useState(false)
+  const [isRetranslating, setIsRetranslating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [warning, setWarning] = useState<string | null>(null)
+  // Requests of the running analysis, line translation and grammar pass, aborted by Cancel or by switching songs.
+  const analysisAbortRef = useRef<AbortController | null>(null)
+  // Latest items, for requests that finish after the list was edited
+  const itemsRef = useRef<LearningItem[]>([])
+  const lineAbortRef = useRef<AbortController | null>(null)
+  const grammarAbortRef = useRef<AbortController | null>(null)
+  // Re-translation of chosen items, which can run beside an analysis without either cancelling the other
+  const retranslateAbortRef = useRef<AbortController | null>(null)
+
+  const providerInfo = PROVIDERS[llmSettings.provider]
+
+  const updateLLMSettings = (patch: Partial<LLMSettings>) =>
+    setLLMSettings((prev) => ({ ...prev, ...patch }))
+
+  const handleProviderChange = (provider: ProviderId) =>
+    setLLMSettings((prev) => ({
+      ...defaultLLMSettings(provider),
+      apiKey: prev.provider === provider ? prev.apiKey : loadPlainKey(provider),
+      baseUrl: prev.baseUrl,
+    }))
+
+  useEffect(() => {
+    savePreferences({
+      level,
+      nativeLang,
+      offlineMode,
+      llm: { provider: llmSettings.provider, baseUrl: llmSettings.baseUrl, models: llmSettings.models },
+    })
+  }, [level, nativeLang, offlineMode, llmSettings.provider, llmSettings.baseUrl, llmSettings.models])
+
+  // The interface follows the native language, so the locale changes before the next render.
+  const changeNativeLang = (code: string) => {
+    setLocale(code)
+    setNativeLang(code)
+  }
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `LLM API error: ${response.status} - ${errorData.error?.message || response.statusText}`,
-    )
+  useEffect(() => {
+    document.documentElement.lang = locale()
+    document.documentElement.dir = isRightToLeft(locale()) ? 'rtl' : 'ltr'
+    document.title = t('app.title')
+  }, [nativeLang])
+
+  const applyPreferences = (preferences: Preferences) => {
+    setLevel(preferences.level)
+    changeNativeLang(preferences.nativeLang)
+    setOfflineMode(preferences.offlineMode)
+    setLLMSettings((prev) => ({
+      ...preferences.llm,
+      apiKey: prev.provider === preferences.llm.provider ? prev.apiKey : loadPlainKey(preferences.llm.provider),
+    }))
   }
 
-  const data = (await response.json()) as {
-    choices?: Array<{ message?: { content?: string } }>
+  const handleTestKey = () => testConnection(createLLMClient(llmSettings, { onUsage: handleUsage }))
+
+  const handleExportSettings = () => {
+    downloadBlob(new Blob([toSettingsJSON()], { type: 'application/json' }), 'learn-by-songs-settings.json')
+    setSettingsMessage(t('settings.exported'))
   }
 
-  const content = data.choices?.[0]?.message?.content
-  if (!content) {
-    throw new Error('No response from LLM')
+  const handleImportSettings = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file
+      .text()
+      .then((text) => {
+        const imported = importSettingsJSON(text)
+        applyPreferences(imported.preferences)
+        setSpeechSettings(imported.speech)
+        setBudget(imported.budget)
+        setSettingsRevision((n) => n + 1)
+        setSettingsMessage(t('settings.imported'))
+      })
+      .catch((err) => setSettingsMessage(err instanceof Error ? err.message : t('settings.importFailed')))
   }
 
-  // Parse JSON response
-  let parsed: { words?: LLMWordItem[] } | LLMWordItem[]
-  try {
-    parsed = JSON.parse(content)
-  } catch (err) {
-    // Sometimes LLM wraps JSON in markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
-    if (jsonMatch) {
-      parsed = JSON.parse(jsonMatch[1])
-    } else {
-      throw new Error('Invalid JSON response from LLM')
-    }
+  useEffect(() => {
+    loadDeck()
+      .then(setDeck)
+      .catch((err) => console.error('Could not load review deck:', err))
+    loadReviewHistory()
+      .then(setReviewHistory)
+      .catch((err) => console.error('Could not load review history:', err))
+    listSongs()
+      .then(setSongs)
+      .catch((err) => console.error('Could not load song library:', err))
+    loadVocabulary()
+      .then(setVocabulary)
+      .catch((err) => console.error('Could not load vocabulary:', err))
+    loadUsage()
+      .then(setUsage)
+      .catch((err) => console.error('Could not load AI usage:', err))
+    const timer = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    itemsRef.current = learningItems
+  }, [learningItems])
+
+  const dueCount = useMemo(() => deck.filter((card) => isDue(card, now)).length, [deck, now])
+
+  // Known and ignored words are hidden as soon as they are marked.
+  const visibleItems = useMemo(
+    () =>
+      filterByVocabulary(learningItems, vocabulary, songLanguage?.code).filter(
+        (item) => !studyLang || sameLanguage(item.langCode ?? songLanguage?.code ?? '', studyLang),
+      ),
+    [learningItems, vocabulary, songLanguage, studyLang],
+  )
+
+  // Languages words were found in, offered as study targets when there is more than one.
+  const itemLanguages = useMemo(
+    () => [
+      ...new Set(
+        learningItems.flatMap((item) => {
+          const code = item.langCode ?? songLanguage?.code
+          return code ? [code] : []
+        }),
+      ),
+    ],
+    [learningItems, songLanguage],
+  )
+
+  // Languages the results can be narrowed to: the detected one, any others words were found in, and the current choice.
+  const studyOptions = [
+    ...new Set([...(songLanguage ? [songLanguage.code] : []), ...itemLanguages, ...(studyLang ? [studyLang] : [])]),
+  ]
+
+  const handleSetWordStatus = (word: string, langCode: string, status: WordStatus | null) => {
+    setWordStatus(word, langCode, status)
+      .then(loadVocabulary)
+      .then(setVocabulary)
+      .catch((err) => console.error('Could not update vocabulary:', err))
   }
 
-  // Handle both { words: [...] } and [...] formats
-  const items: LLMWordItem[] = Array.isArray(parsed)
-    ? parsed
-    : parsed.words || []
-
-  // Convert to LearningItem format
-  const learningItems: LearningItem[] = items.map((item, index) => {
-    const displayText = item.phrase || item.word
-    const difficultyScore =
-      item.difficulty === 'comfortable'
-        ? 3
-        : item.difficulty === 'stretch'
-          ? 5
-          : 7
-
-    return {
-      id: `${displayText}-${index}`,
-      word: displayText,
-      difficultyScore,
-      difficultyBand: item.difficulty,
-      count: 1, // LLM doesn't provide count, default to 1
-      example: item.example,
-      explanation: item.explanation,
-      translation: undefined, // Will be filled later
-    }
-  })
+  /** Save a finished quiz and let its results update which words are marked as learning. */
+  const handleQuizFinished = async (mode: QuizMode, answers: QuizAnswer[]) => {
+    const langCode = songLanguage?.code ?? 'und'
+    const correct = answers.filter((a) => a.correct).length
+    await saveQuizSession({
+      id: crypto.randomUUID(),
+      songId: currentSongId ?? undefined,
+      langCode,
+      mode,
+      answers,
+      correct,
+      total: answers.length,
+      finishedAt: Date.now(),
+    })
+    const feedback = await applyQuizResults(answers, langCode, vocabulary)
+    setVocabulary(await loadVocabulary())
+    return feedback
+  }
 
-  return learningItems
-}
+  const handleImportWords = async (words: string[], langCode: string, status: WordStatus) => {
+    const count = await importWords(words, langCode, status)
+    setVocabulary(await loadVocabulary())
+    return count
+  }
 
-/** Translate words/phrases from the song's language into the user's language using a strong LLM. */
-async function translateWordsWithLLM(
-  apiKey: string,
-  words: string[],
-  sourceLangLabel: string,
-  sourceLangCode: string,
-  targetLangCode: string,
-  targetLangLabel: string,
-): Promise<string[]> {
-  if (words.length === 0) return []
-
-  const wordList = words.map((w, i) => `${i + 1}. ${w}`).join('\n')
-
-  const prompt = `Translate the following ${sourceLangLabel} words or phrases into ${targetLangLabel} (target language code: ${targetLangCode}).
-Source language: ${sourceLangLabel} (${sourceLangCode}).
-Return ONLY a JSON object with a "translations" array: one translation per item, in the exact same order.
-Each translation should be a single string (the most natural translation for a flashcard).
-
-${sourceLangLabel} items:
-${wordList}
-
-Example format: { "translations": ["translation1", "translation2", ...] }
-Return ONLY valid JSON, no other text.`
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o', // Stronger model for better translation quality
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a translator. Respond only with valid JSON. Return a "translations" array with one string per input item in the same order.',
-        },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: 'json_object' },
-    }),
-  })
+  /** Save analysed items to the review deck so they can be practised later. */
+  const addToReviewDeck = (items: LearningItem[], langCode: string) =>
+    addItemsToDeck(items, langCode)
+      .then(loadDeck)
+      .then(setDeck)
+      .catch((err) => console.error('Could not update review deck:', err))
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `Translation API error: ${response.status} - ${errorData.error?.message || response.statusText}`,
-    )
+  const handleUsage = (record: UsageRecord) => setUsage((prev) => [record, ...prev])
+
+  const handleBudgetChange = (value: number | null) => {
+    saveBudget(value)
+    setBudget(value)
   }
 
-  const data = (await response.json()) as {
-    choices?: Array<{ message?: { content?: string } }>
+  const speechBackend = useMemo(
+    () => createSpeechBackend(speechSettings.backend, speechSettings.serverUrl),
+    [speechSettings.backend, speechSettings.serverUrl],
+  )
+
+  const updateSpeechSettings = (patch: Partial<SpeechSettings>) => {
+    const next = { ...speechSettings, ...patch }
+    saveSpeechSettings(next)
+    setSpeechSettings(next)
   }
-  const content = data.choices?.[0]?.message?.content
-  if (!content) throw new Error('No response from LLM')
 
-  let parsed: { translations?: string[] }
-  try {
-    parsed = JSON.parse(content)
-  } catch {
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
-    if (jsonMatch) parsed = JSON.parse(jsonMatch[1])
-    else throw new Error('Invalid JSON from translation LLM')
+  const handleSpeak = (text: string, langCode: string) => {
+    setSpeechError(null)
+    speechBackend.speak(text, langCode, speechSettings.voices[langCode], speechSettings.rate).catch((err) => {
+      console.error('Speech error:', err)
+      setSpeechError(err instanceof Error ? err.message : t('speech.failed'))
+    })
   }
 
-  const translations = parsed.translations || []
-  if (translations.length !== words.length) {
-    console.warn(
-      `Translation count mismatch: got ${translations.length}, expected ${words.length}`,
+  /** Ask before a request that is expected to take this month's AI spending over the budget. */
+  const confirmWithinBudget = (estimate: number, action: string) => {
+    if (budget === null) return true
+    const spent = spentInMonth(usage, Date.now())
+    if (spent + estimate <= budget) return true
+    return window.confirm(
+      t('budget.confirm', {
+        action,
+        estimate: formatCost(estimate),
+        spent: formatCost(spent),
+        budget: formatCost(budget),
+      }),
     )
   }
-  return translations
-}
 
-function App() {
-  const [lyrics, setLyrics] = useState('')
-  const [level, setLevel] = useState<UserLevel>('B1')
-  const [nativeLang, setNativeLang] = useState<string>('es')
-  const [customLangCode, setCustomLangCode] = useState('')
-  const [apiKey, setApiKey] = useState('')
-  const [learningItems, setLearningItems] = useState<LearningItem[]>([])
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [isTranslating, setIsTranslating] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const handleReviewed = (card: ReviewCard, grade: ReviewGrade) => {
+    setDeck((prev) => prev.map((c) => (c.id === card.id ? card : c)))
+    setNow(Date.now())
+    saveCard(card).catch((err) => console.error('Could not save review:', err))
+    logReview(card, grade)
+      .then((event) => setReviewHistory((prev) => [...prev, event]))
+      .catch((err) => console.error('Could not log review:', err))
+  }
 
-  const effectiveLangCode = useMemo(
-    () => customLangCode.trim() || nativeLang,
-    [customLangCode, nativeLang],
-  )
+  const handleRemoveCard = (id: string) => {
+    setDeck((prev) => prev.filter((c) => c.id !== id))
+    removeCard(id).catch((err) => console.error('Could not remove card:', err))
+  }
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault()
+  const targetLangLabel = languageLabel(nativeLang)
+
+  const showLyrics = resultsView === 'lyrics' && lyrics.trim() !== ''
+  const showBilingual = resultsView === 'bilingual' && lyrics.trim() !== ''
+  const showGrammar = resultsView === 'grammar' && lyrics.trim() !== ''
+  // Timings only apply while the lyrics are exactly the imported lines.
+  const activeTimedLines = timedLines && syncedLyricsText(timedLines) === lyrics ? timedLines : null
+  const showKaraoke = resultsView === 'karaoke' && activeTimedLines !== null
+  const showQuiz = resultsView === 'quiz' && songLanguage !== null && visibleItems.length > 0
+  const showList = !showLyrics && !showBilingual && !showGrammar && !showKaraoke && !showQuiz
+
+  // Voices are picked for the language being studied, or the song's.
+  const speechLang = studyLang || songLanguage?.code
+  const albumSongCount = useMemo(() => splitAlbum(lyrics).length, [lyrics])
+
+  const currentSong = songs.find((song) => song.id === currentSongId && song.lyrics === lyrics)
+  const displayedLineTranslation =
+    (currentSong && findLineTranslation(currentSong, nativeLang, translationStyle)?.lines) ??
+    (lineTranslation &&
+    lineTranslation.lyrics === lyrics &&
+    lineTranslation.targetLang === nativeLang &&
+    lineTranslation.style === translationStyle
+      ? lineTranslation.lines
+      : null)
+  const displayedGrammarNotes =
+    (currentSong && findGrammarNotes(currentSong, nativeLang)?.notes) ??
+    (grammarNotes && grammarNotes.lyrics === lyrics && grammarNotes.nativeLang === nativeLang
+      ? grammarNotes.notes
+      : null)
+  const visibleGrammarNotes =
+    displayedGrammarNotes?.filter(
+      (note) => !studyLang || sameLanguage(note.langCode ?? songLanguage?.code ?? '', studyLang),
+    ) ?? null
+
+  const exportContext: ExportContext = {
+    title: songTitle.trim() || defaultTitle(lyrics),
+    artist: songArtist.trim(),
+    language: songLanguage,
+    level,
+    nativeLang,
+  }
+
+  // Everything but the items, which the export menu adds as they are shown.
+  const lessonContent: Omit<LessonContent, 'items'> = {
+    song: {
+      title: exportContext.title,
+      artist: exportContext.artist,
+      lyrics,
+      language: songLanguage,
+      timedLines: activeTimedLines ?? undefined,
+    },
+    settings: { level, nativeLang, translationStyle, studyLang },
+    lineTranslations:
+      currentSong?.lineTranslations ??
+      (lineTranslation?.lyrics === lyrics
+        ? [
+            {
+              targetLang: lineTranslation.targetLang,
+              style: lineTranslation.style,
+              lines: lineTranslation.lines,
+              translatedAt: lineTranslation.translatedAt,
+            },
+          ]
+        : []),
+    grammarNotes:
+      currentSong?.grammarNotes ??
+      (grammarNotes?.lyrics === lyrics
+        ? [
+            {
+              nativeLang: grammarNotes.nativeLang,
+              level: grammarNotes.level,
+              notes: grammarNotes.notes,
+              analyzedAt: grammarNotes.analyzedAt,
+            },
+          ]
+        : []),
+  }
+
+  /** Store a finished analysis in the song library and the review deck. */
+  const saveResults = (
+    meta: SongMeta,
+    songLyrics: string,
+    songLevel: UserLevel,
+    language: DetectedLanguage,
+    items: LearningItem[],
+    mode: SongAnalysis['mode'],
+    itemsLang = nativeLang,
+  ) => {
+    void addToReviewDeck(items, language.code)
+    saveAnalysis({
+      ...meta,
+      lyrics: songLyrics,
+      language,
+      analysis: { level: songLevel, nativeLang: itemsLang, mode, items, analyzedAt: Date.now() },
+    })
+      .then((song) => {
+        setCurrentSongId(song.id)
+        setSongTitle(song.title)
+        return listSongs()
+      })
+      .then(setSongs)
+      .catch((err) => console.error('Could not save song:', err))
+  }
+
+  /** Store each song of an analysed album as its own library entry, with the album's translations. */
+  const saveAlbumResults = async (
+    meta: SongMeta,
+    parts: AlbumSong[],
+    songLevel: UserLevel,
+    languages: DetectedLanguage[],
+    songItems: LearningItem[][],
+    albumItems: LearningItem[],
+    mode: SongAnalysis['mode'],
+  ) => {
+    setCurrentSongId(null)
+    try {
+      for (const [i, part] of parts.entries()) {
+        const items = withAlbumTranslations(songItems[i], albumItems, languages[i].code)
+        void addToReviewDeck(items, languages[i].code)
+        await saveAnalysis({
+          title: part.title ?? (meta.title ? `${meta.title} ${i + 1}` : ''),
+          artist: meta.artist,
+          lyrics: part.lyrics,
+          language: languages[i],
+          analysis: { level: songLevel, nativeLang, mode, items, analyzedAt: Date.now() },
+        })
+      }
+      setSongs(await listSongs())
+    } catch (err) {
+      console.error('Could not save album:', err)
+    }
+  }
+
+  /** `songStudyLang` is passed in rather than read from state, which a caller may have just changed. */
+  const runAnalysis = async (
+    songLyrics: string,
+    songLevel: UserLevel,
+    songStudyLang: string,
+    meta: SongMeta,
+  ) => {
     setError(null)
+    setWarning(null)
 
-    if (!lyrics.trim()) {
-      setError('Please paste the song lyrics first.')
+    if (!songLyrics.trim()) {
+      setError(t('error.noLyrics'))
       return
     }
 
-    if (lyrics.length > MAX_LYRICS_LENGTH) {
-      setError(
-        `Lyrics are too long (${lyrics.length.toLocaleString()} characters). Maximum is ${MAX_LYRICS_LENGTH.toLocaleString()} characters.`,
-      )
+    if (songLyrics.length > MAX_LYRICS_LENGTH) {
+      setError(t('error.tooLong', { length: songLyrics.length, max: MAX_LYRICS_LENGTH }))
       return
     }
 
-    if (!effectiveLangCode) {
-      setError('Please choose or enter your native language code.')
+    // Songs pasted with separator lines between them are analysed together and saved one by one
+    const albumSongs = splitAlbum(songLyrics)
+    const parts: AlbumSong[] = albumSongs.length > 1 ? albumSongs : [{ lyrics: songLyrics, firstLine: 0 }]
+    const save = (
+      languages: DetectedLanguage[],
+      songItems: LearningItem[][],
+      items: LearningItem[],
+      mode: SongAnalysis['mode'],
+    ) =>
+      parts.length === 1
+        ? saveResults(meta, songLyrics, songLevel, languages[0], items, mode)
+        : void saveAlbumResults(meta, parts, songLevel, languages, songItems, items, mode)
+
+    if (offlineMode) {
+      try {
+        const results = parts.map((part) => analyzeOffline(part.lyrics, songLevel))
+        const languages = results.map((result) => result.language)
+        const language = mostCommonLanguage(languages)
+        const songItems = results.map((result) =>
+          filterByVocabulary(result.items, vocabulary, result.language.code),
+        )
+        const items = combineSongItems(parts, songItems, language.code)
+        setLearningItems(items)
+        setSongLanguage(language)
+        if (items.length === 0) {
+          setError(t('error.noItems'))
+        }
+        save(languages, songItems, items, 'offline')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('error.offlineFailed'))
+      }
       return
     }
 
-    if (!apiKey.trim()) {
-      setError('Please enter your OpenAI API key.')
+    if (!nativeLang) {
+      setError(t('error.noNativeLang'))
       return
     }
 
+    if (providerInfo.keyRequired && !llmSettings.apiKey.trim()) {
+      setError(t('error.apiKey', { provider: providerInfo.label }))
+      return
+    }
+
+    if (!confirmWithinBudget(estimateAnalysisCost(llmSettings, songLyrics), t('budget.analysis'))) {
+      return
+    }
+
+    const controller = new AbortController()
+    analysisAbortRef.current?.abort()
+    analysisAbortRef.current = controller
+    setLearningItems([])
     setIsProcessing(true)
     setIsTranslating(false)
     try {
-      const songLangLabel = await detectLyricsLanguage(apiKey.trim(), lyrics)
-      const items = await analyzeWithLLM(lyrics, level, apiKey.trim(), songLangLabel)
+      const client = createLLMClient(llmSettings, {
+        song: meta.title || defaultTitle(songLyrics),
+        onUsage: handleUsage,
+        signal: controller.signal,
+      })
+      const stanzaLanguages = await Promise.all(
+        parts.map((part) => detectStanzaLanguages(client, part.lyrics)),
+      )
+      // Stanzas in the learner's own language have nothing to teach. With a study language chosen,
+      // only its stanzas are analysed.
+      const studied = stanzaLanguages.map((stanzas) =>
+        stanzas.filter(
+          (stanza) =>
+            !sameLanguage(stanza.code, nativeLang) &&
+            (!songStudyLang || sameLanguage(stanza.code, songStudyLang)),
+        ),
+      )
+      if (studied.every((stanzas) => stanzas.length === 0)) {
+        setError(
+          songStudyLang
+            ? t('error.noStudyLines', { language: languageName(songStudyLang) })
+            : t('error.allNative', { language: languageName(nativeLang) }),
+        )
+        return
+      }
+      const languages = stanzaLanguages.map((stanzas, i) =>
+        mainLanguage(studied[i].length > 0 ? studied[i] : stanzas),
+      )
+      const language = mostCommonLanguage(languages)
+      setSongLanguage(language)
+      const labels = new Map(stanzaLanguages.flat().map((stanza) => [stanza.code, stanza.language]))
+      const languageOf = (code: string): DetectedLanguage => ({
+        code,
+        label: labels.get(code) ?? languageLabel(code),
+      })
+
+      const anchorSong = (analyzed: LearningItem[], i: number) =>
+        filterByVocabulary(
+          anchorItems(analyzed, parts[i].lyrics, languages[i].code),
+          vocabulary,
+          languages[i].code,
+        ).filter((item) => {
+          const itemLang = item.langCode ?? languages[i].code
+          return (
+            !sameLanguage(itemLang, nativeLang) && (!songStudyLang || sameLanguage(itemLang, songStudyLang))
+          )
+        })
+      const streamed: LearningItem[][] = parts.map(() => [])
+      const analyses = await Promise.all(
+        parts.map((part, i) => {
+          if (studied[i].length === 0) return { items: [], rejected: [] }
+          const codes = [...new Set(studied[i].map((stanza) => stanza.code))]
+          return analyzeWithLLM(
+            client,
+            stanzaLyrics(part.lyrics, studied[i]),
+            songLevel,
+            codes.map((code) => languageOf(code).label).join(' and '),
+            codes.flatMap((code) => excludedWordsForPrompt(vocabulary, code)),
+            {
+              langCode: languages[i].code,
+              nativeLangLabel: targetLangLabel,
+              studyOnly: Boolean(songStudyLang),
+            },
+            (partial) => {
+              streamed[i] = anchorSong(partial, i)
+              setLearningItems(combineSongItems(parts, streamed, language.code))
+            },
+          )
+        }),
+      )
+      const songItems = analyses.map((analysis, i) => anchorSong(analysis.items, i))
+      const rejected = analyses.flatMap((analysis) => analysis.rejected)
+      const items = combineSongItems(parts, songItems, language.code)
       setLearningItems(items)
       setIsProcessing(false)
+      if (rejected.length > 0) {
+        setWarning(
+          t('warning.rejected', { count: rejected.length, list: rejected.join('; ') }),
+        )
+      }
 
       if (items.length === 0) {
-        setError('No learning items found. Try adjusting your level or check the lyrics.')
+        setError(t('error.noItems'))
         return
       }
 
       setIsTranslating(true)
-      const targetLangLabel =
-        NATIVE_LANGUAGES.find((l) => l.code === effectiveLangCode)?.label ??
-        effectiveLangCode
-      const words = items.map((item) => item.word)
-      let translations: string[]
+      const words = items.map((item) => ({ word: item.word, language: languageOf(item.langCode ?? language.code) }))
+      const received = new Map<number, string>()
+      let translations: WordTranslation[]
       try {
-        translations = await translateWordsWithLLM(
-          apiKey.trim(),
+        translations = await translateMixedWordsWithLLM(
+          client,
           words,
-          songLangLabel,
-          songLangLabel,
-          effectiveLangCode,
+          nativeLang,
           targetLangLabel,
+          (index, translation) => {
+            received.set(index, translation)
+            const id = items[index].id
+            setLearningItems((prev) =>
+              prev.map((item) => (item.id === id ? { ...item, translation } : item)),
+            )
+          },
         )
       } catch (err) {
-        const message = err instanceof Error ? err.message : 'Translation failed'
-        setLearningItems(
-          items.map((item) => ({ ...item, translationError: message })),
-        )
+        if (isAbortError(err)) {
+          // The analysis itself finished, so keep it along with whatever translations arrived.
+          const partialItems = items.map((item, i) => ({ ...item, translation: received.get(i) }))
+          setLearningItems(partialItems)
+          if (analysisAbortRef.current === controller) {
+            setWarning(t('warning.translationCancelled'))
+          }
+          save(languages, songItems, partialItems, 'llm')
+          return
+        }
+        const message = err instanceof Error ? err.message : t('error.translationFailed')
+        const failedItems = items.map((item) => ({ ...item, translationError: message }))
+        setLearningItems(failedItems)
         setIsTranslating(false)
+        save(languages, songItems, failedItems, 'llm')
         return
       }
       setIsTranslating(false)
 
       const translatedItems: LearningItem[] = items.map((item, i) => ({
         ...item,
-        translation: translations[i],
-        translationError: translations[i] ? undefined : 'No translation',
+        translation: translations[i].translation,
+        translationError: translations[i].translation
+          ? undefined
+          : t('error.noTranslation', { reason: translations[i].error ?? t('error.missingFromResponse') }),
       }))
       setLearningItems(translatedItems)
+      save(languages, songItems, translatedItems, 'llm')
     } catch (err) {
+      if (isAbortError(err)) {
+        // Cancelled by the user; a run superseded by another song or a new run stays quiet.
+        if (analysisAbortRef.current === controller) {
+          setWarning(t('warning.analysisCancelled'))
+        }
+        return
+      }
       const message =
-        err instanceof Error ? err.message : 'Unexpected error occurred'
+        err instanceof Error ? err.message : t('error.unexpected')
       setError(message)
       console.error('Analysis error:', err)
     } finally {
-      setIsProcessing(false)
-      setIsTranslating(false)
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null
+        setIsProcessing(false)
+        setIsTranslating(false)
+      }
     }
   }
 
+  /** Translate the lyrics line by line and cache the result on the song. */
+  const handleTranslateLines = async () => {
+    setLineTranslationError(null)
+    if (offlineMode) {
+      setLineTranslationError(t('error.lineNeedsAI'))
+      return
+    }
+    if (providerInfo.keyRequired && !llmSettings.apiKey.trim()) {
+      setLineTranslationError(t('error.apiKey', { provider: providerInfo.label }))
+      return
+    }
+
+    const songLyrics = lyrics
+    const song = currentSong
+    if (!confirmWithinBudget(estimateLineTranslationCost(llmSettings, songLyrics), t('budget.translation'))) {
+      return
+    }
+    const controller = new AbortController()
+    lineAbortRef.current = controller
+    setIsTranslatingLines(true)
+    try {
+      // "Translate again" must not be answered from the cache
+      const client = createLLMClient(llmSettings, {
+        cache: displayedLineTranslation ? 'refresh' : 'use',
+        song: songTitle.trim() || defaultTitle(songLyrics),
+        onUsage: handleUsage,
+        signal: controller.signal,
+      })
+      const sourceLangLabel = songLanguage?.label ?? (await detectLyricsLanguage(client, songLyrics))
+      const translation: LineTranslation = {
+        targetLang: nativeLang,
+        style: translationStyle,
+        lines: await translateLinesWithLLM(
+          client,
+          songLyrics,
+          sourceLangLabel,
+          targetLangLabel,
+          translationStyle,
+        ),
+        translatedAt: Date.now(),
+      }
+      setLineTranslation({ ...translation, lyrics: songLyrics })
+      if (song) {
+        await saveLineTranslation(song.id, translation)
+        setSongs(await listSongs())
+      }
+    } catch (err) {
+      if (isAbortError(err)) return
+      setLineTranslationError(err instanceof Error ? err.message : t('error.lineFailed'))
+      console.error('Line translation error:', err)
+    } finally {
+      if (lineAbortRef.current === controller) {
+        lineAbortRef.current = null
+        setIsTranslatingLines(false)
+      }
+    }
+  }
+
+  /** Find the grammar points and idioms of the lyrics and cache them on the song. */
+  const handleFindGrammar = async () => {
+    setGrammarError(null)
+    if (offlineMode) {
+      setGrammarError(t('error.grammarNeedsAI'))
+      return
+    }
+    if (providerInfo.keyRequired && !llmSettings.apiKey.trim()) {
+      setGrammarError(t('error.apiKey', { provider: providerInfo.label }))
+      return
+    }
+
+    const songLyrics = lyrics
+    const song = currentSong
+    if (!confirmWithinBudget(estimateGrammarCost(llmSettings, songLyrics), t('budget.grammar'))) {
+      return
+    }
+    const controller = new AbortController()
+    grammarAbortRef.current = controller
+    setIsFindingGrammar(true)
+    try {
+      // "Find again" must not be answered from the cache
+      const client = createLLMClient(llmSettings, {
+        cache: displayedGrammarNotes ? 'refresh' : 'use',
+        song: songTitle.trim() || defaultTitle(songLyrics),
+        onUsage: handleUsage,
+        signal: controller.signal,
+      })
+      const songLangLabel = studyLang
+        ? languageLabel(studyLang)
+        : (songLanguage?.label ?? (await detectLyricsLanguage(client, songLyrics)))
+      const notes: GrammarNotes = {
+        nativeLang,
+        level,
+        notes: await analyzeGrammarWithLLM(client, songLyrics, level, songLangLabel, {
+          langCode: studyLang || songLanguage?.code,
+          nativeLangLabel: targetLangLabel,
+          studyOnly: Boolean(studyLang),
+        }),
+        analyzedAt: Date.now(),
+      }
+      setGrammarNotes({ ...notes, lyrics: songLyrics })
+      if (song) {
+        await saveGrammarNotes(song.id, notes)
+        setSongs(await listSongs())
+      }
+    } catch (err) {
+      if (isAbortError(err)) return
+      setGrammarError(err instanceof Error ? err.message : t('error.grammarFailed'))
+      console.error('Grammar analysis error:', err)
+    } finally {
+      if (grammarAbortRef.current === controller) {
+        grammarAbortRef.current = null
+        setIsFindingGrammar(false)
+      }
+    }
+  }
+
+  /** On-demand lookup of a word clicked in the lyrics reader. Offline mode can only grade it. */
+  const handleLookupWord = async (word: string, line: string): Promise<WordLookup> => {
+    if (offlineMode) {
+      if (!songLanguage || !supportsOfflineAnalysis(songLanguage.code)) {
+        throw new Error(t('error.offlineLookup'))
+      }
+      const wordLevel = estimateWordLevel(word, songLanguage.code)
+      return {
+        translation: '',
+        explanation: t('lookup.offlineEstimate', { level: wordLevel }),
+        difficulty: bandFor(wordLevel, level) ?? 'comfortable',
+      }
+    }
+    if (providerInfo.keyRequired && !llmSettings.apiKey.trim()) {
+      throw new Error(t('error.apiKey', { provider: providerInfo.label }))
+    }
+    return lookupWordWithLLM(
+      createLLMClient(llmSettings, {
+        song: songTitle.trim() || defaultTitle(lyrics),
+        onUsage: handleUsage,
+      }),
+      word,
+      line,
+      songLanguage?.label ?? 'the song language',
+      targetLangLabel,
+      level,
+    )
+  }
+
+  /** Add a word looked up in the lyrics reader to the current list, deck and library entry. */
+  const handleAddWord = (word: string, line: string, lookup: WordLookup) => {
+    const item: LearningItem = {
+      id: `${word}-added-${Date.now()}`,
+      word,
+      difficultyScore: BAND_SCORES[lookup.difficulty],
+      difficultyBand: lookup.difficulty,
+      count: 1,
+      example: line,
+      explanation: lookup.explanation || undefined,
+      translation: lookup.translation || undefined,
+    }
+    addItem(item)
+  }
+
+  /** Replace the song's items and keep its library copy in step, so edits survive reloads. */
+  const commitItems = (items: LearningItem[]) => {
+    setLearningItems(items)
+    if (currentSongId) {
+      updateLatestItems(currentSongId, items)
+        .then(listSongs)
+        .then(setSongs)
+        .catch((err) => console.error('Could not update song:', err))
+    }
+  }
+
+  /** Add a word the learner picked to the list and the review deck, anchored in the lyrics. */
+  const addItem = (item: LearningItem) => {
+    const [anchored] = anchorItems([item], lyrics, songLanguage?.code)
+    commitItems([...learningItems, anchored])
+    if (songLanguage) void addToReviewDeck([anchored], songLanguage.code)
+  }
+
+  const handleAddManualItem = (word: string, translation: string, band: DifficultyBand) =>
+    addItem({
+      id: `${word}-added-${Date.now()}`,
+      word,
+      difficultyScore: BAND_SCORES[band],
+      difficultyBand: band,
+      count: 1,
+      example: '',
+      translation: translation || undefined,
+      langCode: studyLang || undefined,
+    })
+
+  const handleEditItem = (id: string, edit: ItemEdit) =>
+    commitItems(
+      learningItems.map((item) =>
+        item.id === id
+          ? { ...item, ...edit, translationError: edit.translation ? undefined : item.translationError }
+          : item,
+      ),
+    )
+
+  const handleDeleteItems = (ids: string[]) => commitItems(learningItems.filter((item) => !ids.includes(item.id)))
+
+  const handleMergeItems = ([first, ...rest]: string[]) => {
+    const byId = new Map(learningItems.map((item) => [item.id, item]))
+    const base = byId.get(first)
+    if (!base) return
+    const combined = rest.flatMap((id) => byId.get(id) ?? []).reduce(combineItems, base)
+    // Counted again in the lyrics, since the words may share lines
+    const [merged] = anchorItems([combined], lyrics, songLanguage?.code)
+    commitItems(
+      learningItems.filter((item) => !rest.includes(item.id)).map((item) => (item.id === first ? merged : item)),
+    )
+  }
+
+  /** Translate the chosen items again, bypassing cached answers. Other edits made meanwhile are kept. */
+  const handleRetranslate = async (ids: string[]) => {
+    if (!songLanguage) return
+    if (providerInfo.keyRequired && !llmSettings.apiKey.trim()) {
+      setError(t('error.apiKey', { provider: providerInfo.label }))
+      return
+    }
+    const chosen = learningItems.filter((item) => ids.includes(item.id))
+    const controller = new AbortController()
+    retranslateAbortRef.current?.abort()
+    retranslateAbortRef.current = controller
+    setError(null)
+    setIsRetranslating(true)
+    try {
+      const client = createLLMClient(llmSettings, {
+        cache: 'refresh',
+        song: songTitle.trim() || defaultTitle(lyrics),
+        onUsage: handleUsage,
+        signal: controller.signal,
+      })
+      const words = chosen.map((item) => {
+        const code = item.langCode ?? songLanguage.code
+        return {
+          word: item.word,
+          language: sameLanguage(code, songLanguage.code) ? songLanguage : { code, label: languageLabel(code) },
+        }
+      })
+      const translations = await translateMixedWordsWithLLM(client, words, nativeLang, targetLangLabel)
+      const results = new Map(chosen.map((item, i) => [item.id, translations[i]]))
+      commitItems(
+        itemsRef.current.map((item) => {
+          const result = results.get(item.id)
+          if (!result) return item
+          return result.translation
+            ? { ...item, translation: result.translation, translationError: undefined }
+            : { ...item, translationError: t('error.noTranslation', { reason: result.error ?? t('error.missingFromResponse') }) }
+        }),
+      )
+    } catch (err) {
+      if (isAbortError(err)) return
+      setError(err instanceof Error ? err.message : t('error.translationFailed'))
+      console.error('Translation error:', err)
+    } finally {
+      if (retranslateAbortRef.current === controller) {
+        retranslateAbortRef.current = null
+        setIsRetranslating(false)
+      }
+    }
+  }
+
+  /** Open a shared lesson as the current song, with its settings, and keep it in the library. */
+  const openLesson = (lesson: Lesson) => {
+    const { song, settings, items, lineTranslations, grammarNotes: lessonNotes } = lesson
+    const language = song.language ?? detectLanguageOffline(song.lyrics)
+    startNewSong()
+    setSongTitle(song.title)
+    setSongArtist(song.artist)
+    setLyrics(song.lyrics)
+    setTimedLines(song.timedLines ?? null)
+    setLevel(settings.level)
+    changeNativeLang(settings.nativeLang)
+    setTranslationStyle(settings.translationStyle)
+    setStudyLang(settings.studyLang)
+    setSongLanguage(language)
+    setLearningItems(items)
+    const shown = lineTranslations.find(
+      (translation) =>
+        translation.targetLang === settings.nativeLang && translation.style === settings.translationStyle,
+    )
+    setLineTranslation(shown ? { ...shown, lyrics: song.lyrics } : null)
+    const notes = lessonNotes.find((n) => n.nativeLang === settings.nativeLang)
+    setGrammarNotes(notes ? { ...notes, lyrics: song.lyrics } : null)
+    setResultsView('list')
+    setView('analyze')
+    if (language) {
+      saveResults(
+        {
+          title: song.title,
+          artist: song.artist,
+          timedLines: song.timedLines,
+          lineTranslations,
+          grammarNotes: lessonNotes,
+        },
+        song.lyrics,
+        settings.level,
+        language,
+        items,
+        'import',
+        settings.nativeLang,
+      )
+    }
+  }
+
+  // A lesson link opens the lesson once; the fragment is dropped so that a reload doesn't import it again.
+  const openLinkedLesson = useEffectEvent(() => {
+    const { hash, pathname, search } = window.location
+    if (!hasLessonFragment(hash)) return
+    history.replaceState(null, '', pathname + search)
+    lessonFromFragment(hash)
+      .then(openLesson)
+      .catch((err) => setError(err instanceof Error ? err.message : t('error.lessonLink')))
+  })
+
+  useEffect(() => {
+    const onHashChange = () => openLinkedLesson()
+    onHashChange()
+    window.addEventListener('hashchange', onHashChange)
+    return () => window.removeEventListener('hashchange', onHashChange)
+  }, [])
+
+  const handleImportFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file
+      .text()
+      .then((text) => {
+        if (isLessonJSON(text)) {
+          openLesson(parseLesson(text))
+          return
+        }
+        const { song, items, grammarNotes: fileNotes } = parseItemsJSON(text)
+        const language = song.language ?? detectLanguageOffline(song.lyrics)
+        setCurrentSongId(null)
+        setSongTitle(song.title)
+        setSongArtist(song.artist)
+        setLyrics(song.lyrics)
+        setTimedLines(null)
+        setLevel(song.level)
+        setSongLanguage(language)
+        setLearningItems(items)
+        const notes = fileNotes.find((n) => n.nativeLang === nativeLang)
+        setGrammarNotes(notes ? { ...notes, lyrics: song.lyrics } : null)
+        setError(null)
+        if (language) {
+          saveResults(
+            { title: song.title, artist: song.artist, grammarNotes: fileNotes },
+            song.lyrics,
+            song.level,
+            language,
+            items,
+            'import',
+          )
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : t('error.importFailed')))
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    void runAnalysis(lyrics, level, studyLang, {
+      songId: currentSongId ?? undefined,
+      title: songTitle.trim(),
+      artist: songArtist.trim(),
+      timedLines: activeTimedLines ?? undefined,
+    })
+  }
+
+  const handleAudioFile = (file: File) => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl)
+    setAudioUrl(URL.createObjectURL(file))
+  }
+
+  /** Abort every request in flight. Results of a cancelled run are left as they are. */
+  const cancelRequests = () => {
+    analysisAbortRef.current?.abort()
+    lineAbortRef.current?.abort()
+    grammarAbortRef.current?.abort()
+    retranslateAbortRef.current?.abort()
+  }
+
+  /** Abort and forget the running requests, so they no longer touch the song being replaced. */
+  const dropRequests = () => {
+    cancelRequests()
+    analysisAbortRef.current = null
+    lineAbortRef.current = null
+    grammarAbortRef.current = null
+    retranslateAbortRef.current = null
+    setIsProcessing(false)
+    setIsTranslating(false)
+    setIsRetranslating(false)
+    setIsTranslatingLines(false)
+    setIsFindingGrammar(false)
+  }
+
+  const startNewSong = () => {
+    dropRequests()
+    setCurrentSongId(null)
+    setSongTitle('')
+    setSongArtist('')
+    setLyrics('')
+    setTimedLines(null)
+    if (audioUrl) URL.revokeObjectURL(audioUrl)
+    setAudioUrl(null)
+    setSongLanguage(null)
+    setStudyLang('')
+    setLearningItems([])
+    setError(null)
+    setWarning(null)
+    setLineTranslationError(null)
+    setGrammarError(null)
+  }
+
+  /** Load an `.lrc` or `.srt` file as a new song, keeping its timestamps for karaoke practice. */
+  const handleImportSynced = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file
+      .text()
+      .then((text) => {
+        const synced = parseSyncedLyrics(text, file.name)
+        const songLyrics = syncedLyricsText(synced.lines)
+        if (songLyrics.length > MAX_LYRICS_LENGTH) {
+          throw new Error(t('error.fileTooLong', { file: file.name }))
+        }
+        startNewSong()
+        setLyrics(songLyrics)
+        setTimedLines(synced.lines)
+        setSongTitle(synced.title ?? file.name.replace(/\.(lrc|srt)$/i, ''))
+        setSongArtist(synced.artist ?? '')
+        setResultsView('karaoke')
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : t('error.importFailed')))
+  }
+
+  const openSong = (song: SavedSong) => {
+    dropRequests()
+    const latest = latestAnalysis(song)
+    setCurrentSongId(song.id)
+    setSongTitle(song.title)
+    setSongArtist(song.artist)
+    setLyrics(song.lyrics)
+    setTimedLines(song.timedLines ?? null)
+    setSongLanguage(song.language)
+    setStudyLang('')
+    setLearningItems(latest?.items ?? [])
+    if (latest) setLevel(latest.level)
+    setError(null)
+    setWarning(null)
+    setLineTranslationError(null)
+    setGrammarError(null)
+    setView('analyze')
+  }
+
+  const handleRerunSong = (song: SavedSong, songLevel: UserLevel) => {
+    openSong(song)
+    setLearningItems([])
+    setLevel(songLevel)
+    // openSong clears the study language
+    void runAnalysis(song.lyrics, songLevel, '', {
+      songId: song.id,
+      title: song.title,
+      artist: song.artist,
+      timedLines: song.timedLines,
+    })
+  }
+
+  const handleDeleteSong = (song: SavedSong) => {
+    setSongs((prev) => prev.filter((s) => s.id !== song.id))
+    if (currentSongId === song.id) setCurrentSongId(null)
+    deleteSong(song.id).catch((err) => console.error('Could not delete song:', err))
+  }
+
   return (
     <div className="app">
       <header className="app-header">
-        <h1 className="app-title">Learn English by Songs</h1>
-        <p className="app-subtitle">
-          Paste song lyrics in any language and get a list of words that match
-          your level, with translations into your language.
-        </p>
+        <h1 className="app-title">{t('app.title')}</h1>
+        <p className="app-subtitle">{t('app.subtitle')}</p>
+        <nav className="app-tabs">
+          <button
+            type="button"
+            className={`tab${view === 'analyze' ? ' tab-active' : ''}`}
+            onClick={() => setView('analyze')}
+          >
+            {t('nav.analyze')}
+          </button>
+          <button
+            type="button"
+            className={`tab${view === 'review' ? ' tab-active' : ''}`}
+            onClick={() => setView('review')}
+          >
+            {t('nav.review')}{dueCount > 0 && <span className="tab-count">{dueCount}</span>}
+          </button>
+          <button
+            type="button"
+            className={`tab${view === 'library' ? ' tab-active' : ''}`}
+            onClick={() => setView('library')}
+          >
+            {t('nav.library')}{songs.length > 0 && <span className="tab-count">{songs.length}</span>}
+          </button>
+          <button
+            type="button"
+            className={`tab${view === 'vocabulary' ? ' tab-active' : ''}`}
+            onClick={() => setView('vocabulary')}
+          >
+            {t('nav.vocabulary')}
+          </button>
+          <button
+            type="button"
+            className={`tab${view === 'progress' ? ' tab-active' : ''}`}
+            onClick={() => setView('progress')}
+          >
+            {t('nav.progress')}
+          </button>
+          <button
+            type="button"
+            className={`tab${view === 'usage' ? ' tab-active' : ''}`}
+            onClick={() => setView('usage')}
+          >
+            {t('nav.usage')}
+          </button>
+        </nav>
       </header>
 
-      <main className="app-main">
-        <section className="card card-input">
-          <form onSubmit={handleSubmit} className="form">
-            <div className="form-row">
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.3rem' }}>
-                <label htmlFor="lyrics" className="form-label" style={{ marginBottom: 0 }}>
-                  Song lyrics
-                </label>
-                <button
-                  type="button"
-                  onClick={() => setLyrics(EXAMPLE_LYRICS)}
-                  style={{
-                    padding: '0.35rem 0.75rem',
-                    fontSize: '0.8rem',
-                    border: '1px solid #d1d5db',
-                    borderRadius: '0.5rem',
-                    background: '#f9fafb',
-                    color: '#6b7280',
-                    cursor: 'pointer',
-                    fontWeight: 500,
-                  }}
-                >
-                  Try with example
-                </button>
+      {view === 'review' && (
+        <main className="app-main app-main-single">
+          <ReviewPanel
+            deck={deck}
+            now={now}
+            onReviewed={handleReviewed}
+            onRemove={handleRemoveCard}
+          />
+        </main>
+      )}
+
+      {view === 'library' && (
+        <main className="app-main app-main-single">
+          <LibraryPanel
+            songs={songs}
+            onOpen={openSong}
+            onRerun={handleRerunSong}
+            onDelete={handleDeleteSong}
+          />
+        </main>
+      )}
+
+      {view === 'vocabulary' && (
+        <main className="app-main app-main-single">
+          <VocabularyPanel
+            vocabulary={vocabulary}
+            defaultLangCode={songLanguage?.code}
+            onSetStatus={handleSetWordStatus}
+            onImport={handleImportWords}
+          />
+        </main>
+      )}
+
+      {view === 'progress' && (
+        <main className="app-main app-main-single">
+          <ProgressPanel
+            deck={deck}
+            vocabulary={vocabulary}
+            songs={songs}
+            history={reviewHistory}
+            now={now}
+            level={level}
+            lyrics={lyrics}
+            songLanguage={songLanguage}
+            onOpen={openSong}
+          />
+        </main>
+      )}
+
+      {view === 'usage' && (
+        <main className="app-main app-main-single">
+          <UsagePanel
+            usage={usage}
+            now={now}
+            budget={budget}
+            onBudgetChange={handleBudgetChange}
+            onClearCache={clearResponseCache}
+          />
+        </main>
+      )}
+
+      {view === 'analyze' && (
+        <main className="app-main">
+          <section className="card card-input">
+            <form onSubmit={handleSubmit} className="form">
+              <div className="form-grid">
+                <div className="form-row">
+                  <label htmlFor="songTitle" className="form-label">
+                    {t('form.title')}
+                  </label>
+                  <input
+                    id="songTitle"
+                    className="input"
+                    placeholder={t('form.optional')}
+                    value={songTitle}
+                    onChange={(e) => setSongTitle(e.target.value)}
+                  />
+                </div>
+                <div className="form-row">
+                  <label htmlFor="songArtist" className="form-label">
+                    {t('form.artist')}
+                  </label>
+                  <input
+                    id="songArtist"
+                    className="input"
+                    placeholder={t('form.optional')}
+                    value={songArtist}
+                    onChange={(e) => setSongArtist(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.3rem' }}>
+                  <label htmlFor="lyrics" className="form-label" style={{ marginBottom: 0 }}>
+                    {t('form.lyrics')}
+                  </label>
+                  {currentSongId && (
+                    <button type="button" className="link-button" onClick={startNewSong}>
+                      {t('form.newSong')}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      startNewSong()
+                      setLyrics(EXAMPLE_LYRICS)
+                    }}
+                    style={{
+                      padding: '0.35rem 0.75rem',
+                      fontSize: '0.8rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '0.5rem',
+                      background: '#f9fafb',
+                      color: '#6b7280',
+                      cursor: 'pointer',
+                      fontWeight: 500,
+                    }}
+                  >
+                    {t('form.example')}
+                  </button>
+                  <label className="link-button">
+                    {t('form.importSynced')}
+                    <input type="file" accept=".lrc,.srt" hidden onChange={handleImportSynced} />
+                  </label>
+                </div>
+                <textarea
+                  id="lyrics"
+                  className="textarea"
+                  rows={10}
+                  maxLength={MAX_LYRICS_LENGTH}
+                  placeholder={t('form.lyricsPlaceholder')}
+                  dir="auto"
+                  value={lyrics}
+                  onChange={(e) => setLyrics(e.target.value.slice(0, MAX_LYRICS_LENGTH))}
+                />
+                <small className="form-help" style={{ marginTop: '0.25rem' }}>
+                  {t('form.characters', { count: lyrics.length, max: MAX_LYRICS_LENGTH })}
+                  {lyrics.length >= MAX_LYRICS_LENGTH && (
+                    <span style={{ color: '#b91c1c', fontWeight: 600 }}> {t('form.maxLength')}</span>
+                  )}
+                  {albumSongCount > 1 && ` · ${t('form.songCount', { count: albumSongCount })}`}
+                </small>
+                <small className="form-help">
+                  {t('form.albumHelp')}
+                </small>
               </div>
-              <textarea
-                id="lyrics"
-                className="textarea"
-                rows={10}
-                maxLength={MAX_LYRICS_LENGTH}
-                placeholder="Paste the full lyrics here..."
-                value={lyrics}
-                onChange={(e) => setLyrics(e.target.value.slice(0, MAX_LYRICS_LENGTH))}
-              />
-              <small className="form-help" style={{ marginTop: '0.25rem' }}>
-                {lyrics.length.toLocaleString()} / {MAX_LYRICS_LENGTH.toLocaleString()} characters
-                {lyrics.length >= MAX_LYRICS_LENGTH && (
-                  <span style={{ color: '#b91c1c', fontWeight: 600 }}> (max length reached)</span>
-                )}
-              </small>
-            </div>
 
-            <div className="form-row">
-              <label htmlFor="apiKey" className="form-label">
-                OpenAI API Key
+              <label className="form-checkbox">
+                <input
+                  type="checkbox"
+                  checked={offlineMode}
+                  onChange={(e) => setOfflineMode(e.target.checked)}
+                />
+                {t('form.offline')}
               </label>
-              <input
-                id="apiKey"
-                type="password"
-                className="input"
-                placeholder="sk-..."
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-              />
-              <small className="form-help">
-                Your API key is stored locally and never sent to our servers. Get one at{' '}
-                <a
-                  href="https://platform.openai.com/api-keys"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  style={{ color: '#6366f1', textDecoration: 'underline' }}
-                >
-                  platform.openai.com
-                </a>
-              </small>
-            </div>
 
-            <div className="form-grid">
-              <div className="form-row">
-                <label htmlFor="level" className="form-label">
-                  Your level (in the song&apos;s language)
-                </label>
-                <select
-                  id="level"
-                  className="select"
-                  value={level}
-                  onChange={(e) => setLevel(e.target.value as UserLevel)}
-                >
-                  <option value="A1">A1 – Beginner</option>
-                  <option value="A2">A2 – Elementary</option>
-                  <option value="B1">B1 – Intermediate</option>
-                  <option value="B2">B2 – Upper‑intermediate</option>
-                  <option value="C1">C1 – Advanced</option>
-                  <option value="C2">C2 – Proficient</option>
-                </select>
+              {!offlineMode && (
+                <>
+                  <div className="form-grid">
+                    <div className="form-row">
+                      <label htmlFor="provider" className="form-label">
+                        {t('form.provider')}
+                      </label>
+                      <select
+                        id="provider"
+                        className="select"
+                        value={llmSettings.provider}
+                        onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                      >
+                        {(Object.keys(PROVIDERS) as ProviderId[]).map((id) => (
+                          <option key={id} value={id}>
+                            {PROVIDERS[id].label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {llmSettings.provider === 'openai-compatible' && (
+                      <div className="form-row">
+                        <label htmlFor="baseUrl" className="form-label">
+                          {t('form.serverUrl')}
+                        </label>
+                        <input
+                          id="baseUrl"
+                          className="input"
+                          placeholder="http://localhost:11434/v1"
+                          value={llmSettings.baseUrl}
+                          onChange={(e) => updateLLMSettings({ baseUrl: e.target.value })}
+                        />
+                        <small className="form-help">
+                          {t('form.serverHelp', { path: '/chat/completions' })}
+                        </small>
+                      </div>
+                    )}
+                  </div>
+
+                  <ApiKeyField
+                    key={`${llmSettings.provider}-${settingsRevision}`}
+                    provider={llmSettings.provider}
+                    apiKey={llmSettings.apiKey}
+                    onApiKeyChange={(apiKey) => updateLLMSettings({ apiKey })}
+                    onTest={handleTestKey}
+                  />
+
+                  <details className="form-details">
+                    <summary className="form-label">{t('form.models')}</summary>
+                    <div className="form-grid">
+                      {(['detect', 'analyze', 'translate'] as const).map((task) => (
+                        <div key={task} className="form-row">
+                          <label htmlFor={`model-${task}`} className="form-help">
+                            {t(`task.${task}`)}
+                          </label>
+                          <input
+                            id={`model-${task}`}
+                            className="input"
+                            value={llmSettings.models[task]}
+                            onChange={(e) =>
+                              updateLLMSettings({
+                                models: { ...llmSettings.models, [task]: e.target.value },
+                              })
+                            }
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                </>
+              )}
+
+              <div className="form-grid">
+                <div className="form-row">
+                  <label htmlFor="level" className="form-label">
+                    {t('form.level')}
+                  </label>
+                  <select
+                    id="level"
+                    className="select"
+                    value={level}
+                    onChange={(e) => setLevel(e.target.value as UserLevel)}
+                  >
+                    {LEVELS.map((value) => (
+                      <option key={value} value={value}>
+                        {value} – {t(`level.${value}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="form-row">
+                  <label htmlFor="nativeLang" className="form-label">
+                    {t('form.nativeLang')}
+                  </label>
+                  <LanguagePicker id="nativeLang" value={nativeLang} onChange={changeNativeLang} />
+                  <small className="form-help">
+                    {t('form.nativeLangHelp')}
+                  </small>
+                </div>
+
+                <div className="form-row">
+                  <label htmlFor="studyLang" className="form-label">
+                    {t('form.studyLang')}
+                  </label>
+                  <LanguagePicker
+                    id="studyLang"
+                    value={studyLang}
+                    onChange={setStudyLang}
+                    emptyLabel={t('form.studyLangAny')}
+                  />
+                  <small className="form-help">
+                    {t('form.studyLangHelp')}
+                  </small>
+                </div>
               </div>
 
-              <div className="form-row">
-                <label htmlFor="nativeLang" className="form-label">
-                  Your native language
+              <div className="library-actions">
+                <button type="button" className="link-button" onClick={handleExportSettings}>
+                  {t('settings.export')}
+                </button>
+                <label className="link-button">
+                  {t('settings.import')}
+                  <input type="file" accept=".json,application/json" hidden onChange={handleImportSettings} />
                 </label>
-                <select
-                  id="nativeLang"
-                  className="select"
-                  value={nativeLang}
-                  onChange={(e) => setNativeLang(e.target.value)}
+                {settingsMessage && <span className="muted">{settingsMessage}</span>}
+              </div>
+
+              <div className="submit-row">
+                <button
+                  type="submit"
+                  className="button-primary"
+                  disabled={isProcessing || isTranslating}
                 >
-                  {NATIVE_LANGUAGES.map((lang) => (
-                    <option key={lang.code} value={lang.code}>
-                      {lang.label}
-                    </option>
-                  ))}
-                </select>
-                <small className="form-help">
-                  We use language codes like `es` (Spanish), `ru` (Russian).
-                </small>
+                  {isProcessing
+                    ? learningItems.length > 0
+                      ? t('submit.analyzingFound', { count: learningItems.length })
+                      : t('submit.analyzing')
+                    : isTranslating
+                      ? t('submit.translating', {
+                          done: learningItems.filter((item) => item.translation).length,
+                          total: learningItems.length,
+                        })
+                      : offlineMode
+                        ? t('submit.offline')
+                        : t('submit.llm')}
+                </button>
+                {(isProcessing || isTranslating) && (
+                  <button type="button" className="link-button" onClick={cancelRequests}>
+                    {t('common.cancel')}
+                  </button>
+                )}
               </div>
 
-              <div className="form-row">
-                <label htmlFor="customLang" className="form-label">
-                  Custom language code (optional)
+              {error && <p className="error-text">{error}</p>}
+              {warning && <p className="warning-text">{warning}</p>}
+            </form>
+          </section>
+
+          <section className="card card-results">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.75rem' }}>
+              <h2 className="card-title" style={{ marginBottom: 0 }}>
+                {t('results.title')}
+                {songLanguage && <span className="badge badge-title">{languageName(songLanguage.code)}</span>}
+              </h2>
+              <div className="results-actions">
+                {studyOptions.length > 0 && (
+                  <select
+                    className="select select-small"
+                    aria-label={t('results.studyLang')}
+                    value={studyLang}
+                    onChange={(e) => setStudyLang(e.target.value)}
+                  >
+                    <option value="">{t('results.allLanguages')}</option>
+                    {studyOptions.map((code) => (
+                      <option key={code} value={code}>
+                        {t('results.study', { language: languageName(code) })}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {lyrics.trim() && (
+                  <div className="results-toggle">
+                    <button
+                      type="button"
+                      className={`tab${resultsView === 'list' ? ' tab-active' : ''}`}
+                      onClick={() => setResultsView('list')}
+                    >
+                      {t('view.list')}
+                    </button>
+                    <button
+                      type="button"
+                      className={`tab${resultsView === 'lyrics' ? ' tab-active' : ''}`}
+                      onClick={() => setResultsView('lyrics')}
+                    >
+                      {t('view.lyrics')}
+                    </button>
+                    <button
+                      type="button"
+                      className={`tab${resultsView === 'bilingual' ? ' tab-active' : ''}`}
+                      onClick={() => setResultsView('bilingual')}
+                    >
+                      {t('view.bilingual')}
+                    </button>
+                    <button
+                      type="button"
+                      className={`tab${resultsView === 'grammar' ? ' tab-active' : ''}`}
+                      onClick={() => setResultsView('grammar')}
+                    >
+                      {t('view.grammar')}
+                      {visibleGrammarNotes && visibleGrammarNotes.length > 0 && (
+                        <span className="tab-count">{visibleGrammarNotes.length}</span>
+                      )}
+                    </button>
+                    {activeTimedLines && (
+                      <button
+                        type="button"
+                        className={`tab${resultsView === 'karaoke' ? ' tab-active' : ''}`}
+                        onClick={() => setResultsView('karaoke')}
+                      >
+                        {t('view.karaoke')}
+                      </button>
+                    )}
+                    {songLanguage && visibleItems.length > 0 && (
+                      <button
+                        type="button"
+                        className={`tab${resultsView === 'quiz' ? ' tab-active' : ''}`}
+                        onClick={() => setResultsView('quiz')}
+                      >
+                        {t('view.quiz')}
+                      </button>
+                    )}
+                  </div>
+                )}
+                <label className="link-button">
+                  {t('results.importJSON')}
+                  <input type="file" accept=".json,application/json" hidden onChange={handleImportFile} />
                 </label>
-                <input
-                  id="customLang"
-                  className="input"
-                  placeholder="Example: `cs` for Czech, `nl` for Dutch..."
-                  value={customLangCode}
-                  onChange={(e) => setCustomLangCode(e.target.value)}
-                />
-                <small className="form-help">
-                  If filled, this will override the dropdown above.
-                </small>
+                {visibleItems.length > 0 && (
+                  <ExportMenu items={visibleItems} context={exportContext} lyrics={lyrics} lesson={lessonContent} />
+                )}
               </div>
             </div>
+            {speechLang && lyrics.trim() && (
+              <SpeechPanel
+                settings={speechSettings}
+                backend={speechBackend}
+                langCode={speechLang}
+                sample={visibleItems[0]?.example ?? splitLines(lyrics).find((line) => line.trim())?.trim() ?? ''}
+                onChange={updateSpeechSettings}
+                onSpeak={handleSpeak}
+              />
+            )}
+            {speechError && <p className="error-text">{speechError}</p>}
+
+            {showLyrics && (
+              <LyricsReader
+                lyrics={lyrics}
+                items={visibleItems}
+                langCode={songLanguage?.code}
+                onLookup={handleLookupWord}
+                onAddItem={handleAddWord}
+                onSpeak={handleSpeak}
+              />
+            )}
 
-            <button
-              type="submit"
-              className="button-primary"
-              disabled={isProcessing || isTranslating}
-            >
-              {isProcessing
-                ? 'AI analyzing lyrics...'
-                : isTranslating
-                  ? 'Translating words...'
-                  : 'Find words I should learn'}
-            </button>
-
-            {error && <p className="error-text">{error}</p>}
-          </form>
-        </section>
-
-        <section className="card card-results">
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.75rem' }}>
-            <h2 className="card-title" style={{ marginBottom: 0 }}>Words to learn from this song</h2>
-            {learningItems.length > 0 && (
-              <button
-                type="button"
-                className="button-primary"
-                style={{ padding: '0.5rem 1rem', fontSize: '0.85rem' }}
-                onClick={() => exportForQuizlet(learningItems)}
-              >
-                Export for Quizlet
-              </button>
+            {showBilingual && (
+              <BilingualView
+                lyrics={lyrics}
+                langCode={songLanguage?.code}
+                translation={displayedLineTranslation}
+                targetLangLabel={languageName(nativeLang)}
+                style={translationStyle}
+                onStyleChange={setTranslationStyle}
+                onTranslate={() => void handleTranslateLines()}
+                isTranslating={isTranslatingLines}
+                onCancel={() => lineAbortRef.current?.abort()}
+                error={lineTranslationError}
+                onSpeak={handleSpeak}
+              />
             )}
-          </div>
-          {learningItems.length === 0 && (
-            <p className="muted">
-              Your list will appear here after you analyze a song.
-            </p>
-          )}
-
-          {learningItems.length > 0 && (
-            <ul className="learning-list">
-              {learningItems.map((item) => (
-                <li key={item.id} className="learning-item">
-                  <div className="learning-main">
-                    <div className="learning-word">
-                      <span className="learning-word-text">{item.word}</span>
-                      <span className="badge">
-                        Difficulty: {item.difficultyBand}
-                      </span>
-                      {item.count > 1 && (
-                        <span className="badge badge-soft">
-                          appears {item.count}×
-                        </span>
-                      )}
-                    </div>
-                    <div className="learning-translation">
-                      {item.translation && (
-                        <span className="translation-text">
-                          {item.translation}
-                        </span>
-                      )}
-                      {item.translationError && (
-                        <span className="translation-error">
-                          {item.translationError}
-                        </span>
-                      )}
-                      {!item.translation &&
-                        !item.translationError &&
-                        isTranslating && (
-                          <span className="translation-loading">
-                            Translating...
-                          </span>
-                        )}
-                    </div>
-                  </div>
-                  <p className="learning-example">
-                    <span className="example-label">Line from song:</span>{' '}
-                    <span className="example-text">{item.example}</span>
-                  </p>
-                  {item.explanation && (
-                    <p className="learning-explanation" style={{ marginTop: '0.4rem', fontSize: '0.85rem', color: '#6b7280', fontStyle: 'italic' }}>
-                      💡 {item.explanation}
-                    </p>
-                  )}
-                </li>
-              ))}
-            </ul>
-          )}
-        </section>
-      </main>
+
+            {showGrammar && (
+              <GrammarNotesView
+                lyrics={lyrics}
+                langCode={studyLang || songLanguage?.code}
+                notes={visibleGrammarNotes}
+                onFind={() => void handleFindGrammar()}
+                isFinding={isFindingGrammar}
+                onCancel={() => grammarAbortRef.current?.abort()}
+                error={grammarError}
+                onSpeak={handleSpeak}
+              />
+            )}
+
+            {showKaraoke && (
+              <KaraokePlayer
+                lines={activeTimedLines}
+                items={visibleItems}
+                audioUrl={audioUrl}
+                onAudioFile={handleAudioFile}
+              />
+            )}
+
+            {showQuiz && (
+              <QuizPanel
+                key={currentSongId ?? lyrics}
+                items={visibleItems}
+                langCode={songLanguage.code}
+                onFinish={handleQuizFinished}
+              />
+            )}
+
+            {showList && visibleItems.length === 0 && (
+              <p className="muted">{t('results.empty')}</p>
+            )}
+
+            {showList && visibleItems.length > 0 && (
+              <LearningList
+                items={visibleItems}
+                langCode={songLanguage?.code}
+                vocabulary={vocabulary}
+                isTranslating={isTranslating || isRetranslating}
+                showLanguages={itemLanguages.length > 1}
+                onSetStatus={handleSetWordStatus}
+                onSpeak={handleSpeak}
+                onEditItem={handleEditItem}
+                onDeleteItems={handleDeleteItems}
+                onMergeItems={handleMergeItems}
+                onAddItem={handleAddManualItem}
+                onRetranslate={offlineMode || !songLanguage ? undefined : (ids) => void handleRetranslate(ids)}
+              />
+            )}
+          </section>
+        </main>
+      )}
 
       <footer className="app-footer">
-        <span>
-          This is an educational prototype. Difficulty is estimated
-          automatically and meant only as guidance while you learn from music.
-        </span>
+        <span>{t('app.footer')}</span>
       </footer>
     </div>
   )
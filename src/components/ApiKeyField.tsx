@@ -0,0 +1,137 @@
+import { useState } from 'react'
+
+import type { ProviderId } from '../llm/providers'
+import { PROVIDERS } from '../llm/providers'
+import type { StoredKey } from '../settings/settings'
+import { forgetKey, loadStoredKey, storeKey, unlockKey } from '../settings/settings'
+import { t } from '../i18n/i18n'
+
+type ApiKeyFieldProps = {
+  provider: ProviderId
+  apiKey: string
+  onApiKeyChange: (apiKey: string) => void
+  /** Make a small request with the current key and models. */
+  onTest: () => Promise<void>
+}
+
+type Message = { kind: 'ok' | 'error'; text: string }
+
+/** The provider's API key: typed, saved on this device (optionally under a passphrase), forgotten or tested. */
+function ApiKeyField({ provider, apiKey, onApiKeyChange, onTest }: ApiKeyFieldProps) {
+  const [stored, setStored] = useState<StoredKey | null>(() => loadStoredKey(provider))
+  const [passphrase, setPassphrase] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<Message | null>(null)
+
+  const info = PROVIDERS[provider]
+  const locked = stored?.encrypted === true && !apiKey
+
+  const run = (action: () => Promise<string>) => {
+    setBusy(true)
+    setMessage(null)
+    action()
+      .then((text) => setMessage({ kind: 'ok', text }))
+      .catch((err) => setMessage({ kind: 'error', text: err instanceof Error ? err.message : String(err) }))
+      .finally(() => setBusy(false))
+  }
+
+  const handleSave = () =>
+    run(async () => {
+      setStored(await storeKey(provider, apiKey.trim(), passphrase))
+      setPassphrase('')
+      return t(passphrase ? 'apiKey.savedEncrypted' : 'apiKey.saved')
+    })
+
+  const handleUnlock = () =>
+    run(async () => {
+      if (!stored) return ''
+      onApiKeyChange(await unlockKey(stored, passphrase))
+      setPassphrase('')
+      return t('apiKey.unlocked')
+    })
+
+  const handleForget = () => {
+    forgetKey(provider)
+    setStored(null)
+    onApiKeyChange('')
+    setMessage({ kind: 'ok', text: t('apiKey.removed') })
+  }
+
+  const handleTest = () =>
+    run(async () => {
+      await onTest()
+      return t('apiKey.works')
+    })
+
+  return (
+    <div className="form-row">
+      <label htmlFor="apiKey" className="form-label">
+        {t('apiKey.label', { provider: info.label })}
+      </label>
+      <input
+        id="apiKey"
+        type="password"
+        className="input"
+        placeholder={locked ? t('apiKey.locked') : info.keyPlaceholder}
+        value={apiKey}
+        onChange={(e) => onApiKeyChange(e.target.value)}
+      />
+      <div className="library-actions">
+        <input
+          type="password"
+          className="input"
+          aria-label={t('apiKey.passphrase')}
+          placeholder={locked ? t('apiKey.passphrase') : t('apiKey.passphraseOptional')}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {locked ? (
+          <button type="button" className="tab" disabled={busy || !passphrase} onClick={handleUnlock}>
+            {t('apiKey.unlock')}
+          </button>
+        ) : (
+          <button type="button" className="tab" disabled={busy || !apiKey.trim()} onClick={handleSave}>
+            {t('apiKey.save')}
+          </button>
+        )}
+        <button
+          type="button"
+          className="tab"
+          disabled={busy || (info.keyRequired && !apiKey.trim())}
+          onClick={handleTest}
+        >
+          {busy ? t('common.working') : t('apiKey.test')}
+        </button>
+        {stored && (
+          <button type="button" className="link-button" onClick={handleForget}>
+            {t('apiKey.forget')}
+          </button>
+        )}
+      </div>
+      <small className="form-help">
+        {stored?.encrypted
+          ? t('apiKey.storedEncrypted')
+          : stored
+            ? t('apiKey.storedPlain')
+            : t('apiKey.notStored')}{' '}
+        {t('apiKey.sentOnlyTo', { provider: info.label })}
+        {info.keyHelpUrl && (
+          <>
+            {' '}{t('apiKey.getOne')}{' '}
+            <a
+              href={info.keyHelpUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ color: '#6366f1', textDecoration: 'underline' }}
+            >
+              {new URL(info.keyHelpUrl).host}
+            </a>
+          </>
+        )}
+      </small>
+      {message && <p className={message.kind === 'error' ? 'error-text' : 'muted'}>{message.text}</p>}
+    </div>
+  )
+}
+
+export default ApiKeyField
@@ -0,0 +1,105 @@
+import type { TranslationStyle } from '../types'
+import { splitLines } from '../text/tokenize'
+import { t } from '../i18n/i18n'
+
+const STYLES: TranslationStyle[] = ['literal', 'natural']
+
+type BilingualViewProps = {
+  lyrics: string
+  /** Language of the original lines, for pronunciation. */
+  langCode?: string
+  /** One entry per lyric line, or `null` when this song has no translation in the chosen style yet. */
+  translation: string[] | null
+  targetLangLabel: string
+  style: TranslationStyle
+  onStyleChange: (style: TranslationStyle) => void
+  onTranslate: () => void
+  isTranslating: boolean
+  onCancel: () => void
+  error: string | null
+  onSpeak: (text: string, langCode: string) => void
+}
+
+/** The original lyrics and their line-by-line translation in parallel columns, stanza by stanza. */
+function BilingualView({
+  lyrics,
+  langCode,
+  translation,
+  targetLangLabel,
+  style,
+  onStyleChange,
+  onTranslate,
+  isTranslating,
+  onCancel,
+  error,
+  onSpeak,
+}: BilingualViewProps) {
+  const lines = splitLines(lyrics)
+
+  return (
+    <div className="bilingual-view">
+      <div className="bilingual-toolbar">
+        <div className="results-toggle" role="group" aria-label={t('bilingual.style')}>
+          {STYLES.map((s) => (
+            <button
+              key={s}
+              type="button"
+              className={`tab${style === s ? ' tab-active' : ''}`}
+              onClick={() => onStyleChange(s)}
+            >
+              {t(`bilingual.${s}`)}
+            </button>
+          ))}
+        </div>
+        {translation ? (
+          <button type="button" className="link-button" disabled={isTranslating} onClick={onTranslate}>
+            {isTranslating ? t('common.translating') : t('common.translateAgain')}
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="button-primary button-small"
+            disabled={isTranslating}
+            onClick={onTranslate}
+          >
+            {isTranslating ? t('bilingual.translating') : t('bilingual.translate', { language: targetLangLabel })}
+          </button>
+        )}
+        {isTranslating && (
+          <button type="button" className="link-button" onClick={onCancel}>
+            {t('common.cancel')}
+          </button>
+        )}
+      </div>
+      {error && <p className="error-text">{error}</p>}
+
+      <div className="bilingual-grid">
+        {lines.map((line, i) =>
+          line.trim() ? (
+            <div key={i} className="bilingual-row">
+              <span className="bilingual-original" dir="auto">
+                {line}
+                {langCode && (
+                  <button
+                    type="button"
+                    className="speak-button"
+                    aria-label={t('speech.line')}
+                    title={t('speech.line')}
+                    onClick={() => onSpeak(line.trim(), langCode)}
+                  >
+                    🔊
+                  </button>
+                )}
+              </span>
+              <span className="bilingual-translation" dir="auto">{translation?.[i] ?? ''}</span>
+            </div>
+          ) : (
+            <div key={i} className="bilingual-row bilingual-gap" />
+          ),
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default BilingualView
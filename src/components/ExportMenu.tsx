@@ -0,0 +1,220 @@
+import { useState } from 'react'
+
+import type { LearningItem } from '../types'
+import type { ExportContext, UntranslatedPolicy } from '../export/common'
+import { downloadBlob, exportFileStem, hasTranslation } from '../export/common'
+import type { CsvColumn } from '../export/csv'
+import { CSV_COLUMNS, DEFAULT_CSV_COLUMNS, toCSV } from '../export/csv'
+import { toItemsJSON } from '../export/json'
+import type { LessonContent } from '../export/lesson'
+import { MAX_LINK_LENGTH, createLesson, lessonLink, toLessonJSON } from '../export/lesson'
+import { toQuizletTSV } from '../export/quizlet'
+import { toAnkiPackage } from '../export/anki'
+import { t } from '../i18n/i18n'
+
+type ExportFormat = 'anki' | 'csv' | 'json' | 'quizlet' | 'lesson'
+
+const FORMATS: ExportFormat[] = ['anki', 'csv', 'json', 'quizlet', 'lesson']
+
+type ExportMenuProps = {
+  items: LearningItem[]
+  context: ExportContext
+  lyrics: string
+  /** The song, settings, line translations and grammar notes a shared lesson holds besides the items. */
+  lesson: Omit<LessonContent, 'items'>
+}
+
+function ExportMenu({ items, context, lyrics, lesson }: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>('anki')
+  const [untranslated, setUntranslated] = useState<UntranslatedPolicy>('exclude')
+  const [columns, setColumns] = useState<CsvColumn[]>(DEFAULT_CSV_COLUMNS)
+  const [delimiter, setDelimiter] = useState<',' | ';' | '\t'>(',')
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  const untranslatedCount = items.filter((item) => !hasTranslation(item)).length
+  const stem = exportFileStem(context)
+
+  const toggleColumn = (column: CsvColumn) =>
+    setColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((c) => c !== column)
+        : (Object.keys(CSV_COLUMNS) as CsvColumn[]).filter((c) => c === column || prev.includes(c)),
+    )
+
+  const handleExport = async () => {
+    setError(null)
+    setLinkCopied(false)
+    setIsExporting(true)
+    try {
+      switch (format) {
+        case 'anki':
+          downloadBlob(await toAnkiPackage(items, context, untranslated), `${stem}.apkg`)
+          break
+        case 'csv': {
+          const csv = toCSV(items, context, { columns, delimiter, header: true, untranslated })
+          // BOM so that Excel opens UTF-8 correctly
+          downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), `${stem}.csv`)
+          break
+        }
+        case 'json':
+          downloadBlob(
+            new Blob([toItemsJSON(items, context, lyrics, lesson.grammarNotes)], { type: 'application/json' }),
+            `${stem}.json`,
+          )
+          break
+        case 'quizlet':
+          downloadBlob(
+            new Blob([toQuizletTSV(items, untranslated)], { type: 'text/plain;charset=utf-8' }),
+            `${stem}-quizlet.txt`,
+          )
+          break
+        case 'lesson':
+          downloadBlob(
+            new Blob([toLessonJSON(createLesson({ ...lesson, items }))], { type: 'application/json' }),
+            `${stem}.lesson.json`,
+          )
+          break
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('export.failed'))
+      console.error('Export error:', err)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    setError(null)
+    setLinkCopied(false)
+    setIsExporting(true)
+    try {
+      const link = await lessonLink(createLesson({ ...lesson, items }), window.location.href)
+      if (link.length > MAX_LINK_LENGTH) {
+        setError(t('export.linkTooLong'))
+        return
+      }
+      await navigator.clipboard.writeText(link)
+      setLinkCopied(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('export.failed'))
+      console.error('Lesson link error:', err)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <details className="export-menu">
+      <summary className="button-primary button-small">{t('export.button')}</summary>
+      <div className="export-popover form">
+        <div className="form-row">
+          <label htmlFor="exportFormat" className="form-label">
+            {t('export.format')}
+          </label>
+          <select
+            id="exportFormat"
+            className="select"
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as ExportFormat)
+              setLinkCopied(false)
+            }}
+          >
+            {FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {t(`export.${f}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {format !== 'json' && format !== 'lesson' && untranslatedCount > 0 && (
+          <div className="form-row">
+            <label htmlFor="exportUntranslated" className="form-label">
+              {t('export.untranslated', { count: untranslatedCount })}
+            </label>
+            <select
+              id="exportUntranslated"
+              className="select"
+              value={untranslated}
+              onChange={(e) => setUntranslated(e.target.value as UntranslatedPolicy)}
+            >
+              <option value="exclude">{t('export.exclude')}</option>
+              <option value="mark">{t('export.mark')}</option>
+            </select>
+          </div>
+        )}
+
+        {format === 'csv' && (
+          <>
+            <fieldset className="export-columns">
+              <legend className="form-label">{t('export.columns')}</legend>
+              {(Object.keys(CSV_COLUMNS) as CsvColumn[]).map((column) => (
+                <label key={column} className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {t(CSV_COLUMNS[column].label)}
+                </label>
+              ))}
+            </fieldset>
+            <div className="form-row">
+              <label htmlFor="exportDelimiter" className="form-label">
+                {t('export.separator')}
+              </label>
+              <select
+                id="exportDelimiter"
+                className="select"
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as ',' | ';' | '\t')}
+              >
+                <option value=",">{t('export.comma')}</option>
+                <option value=";">{t('export.semicolon')}</option>
+                <option value={'\t'}>{t('export.tab')}</option>
+              </select>
+            </div>
+          </>
+        )}
+
+        {format === 'json' && (
+          <small className="form-help">
+            {t('export.jsonHelp')}
+          </small>
+        )}
+
+        {format === 'lesson' && (
+          <small className="form-help">
+            {t('export.lessonHelp')}
+          </small>
+        )}
+
+        <button
+          type="button"
+          className="button-primary"
+          disabled={isExporting || (format === 'csv' && columns.length === 0)}
+          onClick={() => void handleExport()}
+        >
+          {isExporting ? t('export.preparing') : t('export.download')}
+        </button>
+        {format === 'lesson' && (
+          <button
+            type="button"
+            className="link-button"
+            disabled={isExporting}
+            onClick={() => void handleCopyLink()}
+          >
+            {t('export.copyLink')}
+          </button>
+        )}
+        {linkCopied && <small className="form-help">{t('export.linkCopied')}</small>}
+        {error && <p className="error-text">{error}</p>}
+      </div>
+    </details>
+  )
+}
+
+export default ExportMenu
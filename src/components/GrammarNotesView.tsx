@@ -0,0 +1,100 @@
+import type { GrammarNote } from '../types'
+import { highlightSegments } from '../text/anchor'
+import { splitLines } from '../text/tokenize'
+import { t } from '../i18n/i18n'
+
+type GrammarNotesViewProps = {
+  lyrics: string
+  /** Language of the lyrics, for matching and pronunciation. */
+  langCode?: string
+  /** Notes explained in the learner's language, or `null` when the song has none in it yet. */
+  notes: GrammarNote[] | null
+  onFind: () => void
+  isFinding: boolean
+  onCancel: () => void
+  error: string | null
+  onSpeak: (text: string, langCode: string) => void
+}
+
+/** Grammar points and idioms of the song, each shown on the lyric lines it occurs in. */
+function GrammarNotesView({ lyrics, langCode, notes, onFind, isFinding, onCancel, error, onSpeak }: GrammarNotesViewProps) {
+  const lines = splitLines(lyrics)
+
+  return (
+    <div className="grammar-view">
+      <div className="grammar-toolbar">
+        <small className="form-help">{t('grammar.help')}</small>
+        {notes ? (
+          <button type="button" className="link-button" disabled={isFinding} onClick={onFind}>
+            {isFinding ? t('grammar.finding') : t('grammar.findAgain')}
+          </button>
+        ) : (
+          <button type="button" className="button-primary button-small" disabled={isFinding} onClick={onFind}>
+            {isFinding ? t('grammar.finding') : t('grammar.find')}
+          </button>
+        )}
+        {isFinding && (
+          <button type="button" className="link-button" onClick={onCancel}>
+            {t('common.cancel')}
+          </button>
+        )}
+      </div>
+      {error && <p className="error-text">{error}</p>}
+      {notes?.length === 0 && <p className="muted">{t('grammar.none')}</p>}
+
+      {notes && notes.length > 0 && (
+        <ul className="learning-list">
+          {notes.map((note) => {
+            const noteLang = note.langCode ?? langCode
+            return (
+              <li key={note.id} className="learning-item">
+                <div className="learning-main">
+                  <div className="learning-word">
+                    <span className="learning-word-text" dir="auto">{note.title}</span>
+                  </div>
+                  <span className={`badge${note.kind === 'idiom' ? ' badge-soft' : ''}`}>
+                    {t(`grammar.${note.kind}`)}
+                  </span>
+                </div>
+                {note.lines.map((n) => (
+                  <p key={n} className="learning-example">
+                    <span className="example-label">{t('grammar.line', { line: n + 1 })}</span>{' '}
+                    <span className="example-text" dir="auto">
+                      {highlightSegments(lines[n], note.text, noteLang).map((seg, i) =>
+                        seg.match ? <mark key={i}>{seg.text}</mark> : <span key={i}>{seg.text}</span>,
+                      )}
+                    </span>
+                  </p>
+                ))}
+                <p className="grammar-rule" dir="auto">{note.rule}</p>
+                {note.examples.length > 0 && (
+                  <ul className="grammar-examples">
+                    {note.examples.map((example, i) => (
+                      <li key={i} dir="auto">
+                        {example}
+                        {noteLang && (
+                          <button
+                            type="button"
+                            className="speak-button"
+                            aria-label={t('speech.line')}
+                            title={t('speech.line')}
+                            // Examples end with their translation in parentheses, which isn't read out
+                            onClick={() => onSpeak(example.replace(/\s*\([^)]*\)\s*$/, ''), noteLang)}
+                          >
+                            🔊
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default GrammarNotesView
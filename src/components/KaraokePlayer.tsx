@@ -0,0 +1,150 @@
+import type { ChangeEvent } from 'react'
+import { useEffect, useRef, useState } from 'react'
+
+import type { LearningItem } from '../types'
+import type { TimedLine } from '../text/synced'
+import { activeLineIndex, lineEndTime } from '../text/synced'
+import { t } from '../i18n/i18n'
+
+type KaraokePlayerProps = {
+  lines: TimedLine[]
+  items: LearningItem[]
+  /** Object URL of the audio file the user picked, if any. */
+  audioUrl: string | null
+  onAudioFile: (file: File) => void
+}
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${String(s).padStart(2, '0')}`
+}
+
+/** Synced lyrics played along with a local audio file: the current line follows playback and can be looped. */
+function KaraokePlayer({ lines, items, audioUrl, onAudioFile }: KaraokePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const listRef = useRef<HTMLOListElement>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [loopIndex, setLoopIndex] = useState<number | null>(null)
+
+  const activeIndex = activeLineIndex(lines, currentTime)
+  const lineItems = items.filter((item) => item.lines?.includes(activeIndex))
+
+  // `timeupdate` only fires a few times a second, too coarse for karaoke and looping.
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio || !isPlaying) return
+    let frame = 0
+    const tick = () => {
+      if (loopIndex !== null && audio.currentTime >= lineEndTime(lines, loopIndex, audio.duration)) {
+        audio.currentTime = lines[loopIndex].time
+      }
+      setCurrentTime(audio.currentTime)
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, loopIndex, lines])
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-line="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [activeIndex])
+
+  const seekTo = (index: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = lines[index].time
+    setCurrentTime(lines[index].time)
+    void audio.play()
+  }
+
+  const toggleLoop = (index: number) => {
+    if (loopIndex === index) {
+      setLoopIndex(null)
+      return
+    }
+    setLoopIndex(index)
+    seekTo(index)
+  }
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) onAudioFile(file)
+  }
+
+  return (
+    <div className="karaoke">
+      <div className="karaoke-audio">
+        {audioUrl ? (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEmptied={() => setIsPlaying(false)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        ) : (
+          <p className="muted">{t('karaoke.help')}</p>
+        )}
+        <label className="link-button">
+          {audioUrl ? t('karaoke.change') : t('karaoke.choose')}
+          <input type="file" accept="audio/*" hidden onChange={handleFile} />
+        </label>
+      </div>
+
+      <div className="karaoke-body">
+        <ol ref={listRef} className="karaoke-lines">
+          {lines.map((line, i) => (
+            <li
+              key={i}
+              data-line={i}
+              className={`karaoke-line${i === activeIndex ? ' karaoke-line-active' : ''}${line.text ? '' : ' karaoke-line-empty'}`}
+            >
+              <button
+                type="button"
+                className="karaoke-seek"
+                disabled={!audioUrl}
+                onClick={() => seekTo(i)}
+              >
+                <span className="karaoke-time">{formatTime(line.time)}</span>
+                <span dir="auto">{line.text || '♪'}</span>
+              </button>
+              {line.text && (
+                <button
+                  type="button"
+                  className={`karaoke-loop${loopIndex === i ? ' karaoke-loop-active' : ''}`}
+                  disabled={!audioUrl}
+                  title={loopIndex === i ? t('karaoke.stopLoop') : t('karaoke.loop')}
+                  onClick={() => toggleLoop(i)}
+                >
+                  ⟲
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <aside className="karaoke-items">
+          <h3 className="karaoke-items-title">{t('karaoke.onLine')}</h3>
+          {lineItems.length === 0 && <p className="muted">{t('karaoke.noWords')}</p>}
+          <ul>
+            {lineItems.map((item) => (
+              <li key={item.id}>
+                <span className={`lyric-word hl-${item.difficultyBand}`}>{item.word}</span>
+                {item.translation && <span className="translation-text"> — {item.translation}</span>}
+              </li>
+            ))}
+          </ul>
+        </aside>
+      </div>
+    </div>
+  )
+}
+
+export default KaraokePlayer
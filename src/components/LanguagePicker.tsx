@@ -0,0 +1,128 @@
+import type { KeyboardEvent } from 'react'
+import { useState } from 'react'
+
+import type { LanguageOption } from '../languages/languages'
+import { languageOption, parseLanguageCode, searchLanguages } from '../languages/languages'
+import { t } from '../i18n/i18n'
+
+/** Matches shown at once; typing narrows them down. */
+const MAX_MATCHES = 50
+
+type LanguagePickerProps = {
+  id: string
+  /** A language code, or '' for none. */
+  value: string
+  onChange: (code: string) => void
+  /** When set, the picker can be cleared, and shows this while empty. */
+  emptyLabel?: string
+}
+
+function optionText(option: LanguageOption): string {
+  return option.nativeName.toLowerCase() === option.label.toLowerCase()
+    ? `${option.label} (${option.code})`
+    : `${option.label} · ${option.nativeName} (${option.code})`
+}
+
+/**
+ * A searchable list of languages by English name, native name or code. Codes that aren't listed can be
+ * typed in as long as they are valid BCP-47 tags; anything else is rejected.
+ */
+function LanguagePicker({ id, value, onChange, emptyLabel }: LanguagePickerProps) {
+  // What is being typed, or null while the picker shows its value
+  const [query, setQuery] = useState<string | null>(null)
+  const [active, setActive] = useState(0)
+
+  const matches = query === null ? [] : searchLanguages(query).slice(0, MAX_MATCHES)
+  const typed = query ? parseLanguageCode(query) : null
+  // A valid code that isn't in the list is offered as it is
+  const choices =
+    typed && !matches.some((m) => m.code === typed) ? [languageOption(typed), ...matches] : matches
+  const canClear = emptyLabel !== undefined && value !== ''
+
+  const close = () => {
+    setQuery(null)
+    setActive(0)
+  }
+
+  const choose = (code: string) => {
+    onChange(code)
+    close()
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (query === null) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActive((i) => Math.min(Math.max(i + step, 0), Math.max(choices.length - 1, 0)))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (choices[active]) choose(choices[active].code)
+    } else if (e.key === 'Escape') {
+      close()
+    }
+  }
+
+  return (
+    <div className="language-picker">
+      <input
+        id={id}
+        className="input"
+        role="combobox"
+        aria-expanded={query !== null}
+        aria-controls={`${id}-options`}
+        aria-autocomplete="list"
+        autoComplete="off"
+        placeholder={emptyLabel ?? t('languagePicker.search')}
+        value={query ?? (value ? optionText(languageOption(value)) : '')}
+        onFocus={() => setQuery('')}
+        onBlur={close}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setActive(0)
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {query !== null && (
+        <ul id={`${id}-options`} className="language-picker-options" role="listbox">
+          {canClear && (
+            <li
+              role="option"
+              aria-selected={false}
+              className="language-picker-option muted"
+              onMouseDown={(e) => {
+                e.preventDefault()
+                choose('')
+              }}
+            >
+              {emptyLabel}
+            </li>
+          )}
+          {choices.map((option, i) => (
+            <li
+              key={option.code}
+              role="option"
+              aria-selected={i === active}
+              className={`language-picker-option${i === active ? ' language-picker-active' : ''}`}
+              onMouseDown={(e) => {
+                // Keep focus so the blur doesn't close the list before the choice registers
+                e.preventDefault()
+                choose(option.code)
+              }}
+              onMouseEnter={() => setActive(i)}
+            >
+              {optionText(option)}
+            </li>
+          ))}
+          {choices.length === 0 && (
+            <li className="language-picker-option error-text">
+              {t('languagePicker.invalid', { query })}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default LanguagePicker
@@ -0,0 +1,595 @@
+import type { FormEvent } from 'react'
+import { useState } from 'react'
+
+import type { DifficultyBand, LearningItem, PartOfSpeech } from '../types'
+import type { VocabularyEntry, WordStatus } from '../vocabulary/profile'
+import { statusOf } from '../vocabulary/profile'
+import type { MessageKey } from '../i18n/i18n'
+import { languageName, t } from '../i18n/i18n'
+
+type GroupBy = 'none' | 'partOfSpeech' | 'gender'
+
+const GROUP_OPTIONS: Array<{ value: GroupBy; label: MessageKey }> = [
+  { value: 'none', label: 'list.groupNone' },
+  { value: 'partOfSpeech', label: 'list.groupPos' },
+  { value: 'gender', label: 'list.groupGender' },
+]
+
+type SortBy = 'song' | 'hardest' | 'easiest' | 'frequency'
+
+const SORT_OPTIONS: Array<{ value: SortBy; label: MessageKey }> = [
+  { value: 'song', label: 'list.sortSong' },
+  { value: 'hardest', label: 'list.sortHardest' },
+  { value: 'easiest', label: 'list.sortEasiest' },
+  { value: 'frequency', label: 'list.sortFrequency' },
+]
+
+type TranslationFilter = '' | 'translated' | 'untranslated' | 'failed'
+
+const TRANSLATION_OPTIONS: Array<{ value: TranslationFilter; label: MessageKey }> = [
+  { value: '', label: 'list.anyStatus' },
+  { value: 'translated', label: 'list.translated' },
+  { value: 'untranslated', label: 'list.untranslated' },
+  { value: 'failed', label: 'list.failed' },
+]
+
+const BANDS: DifficultyBand[] = ['comfortable', 'stretch', 'challenging']
+
+type GrammarField = 'partOfSpeech' | 'gender'
+
+type Filters = Record<GrammarField, string> & {
+  band: DifficultyBand | ''
+  translation: TranslationFilter
+}
+
+/** The fields that can be corrected by hand. */
+export type ItemEdit = Pick<LearningItem, 'translation' | 'explanation'>
+
+type LearningListProps = {
+  items: LearningItem[]
+  /** Language of items that aren't tagged with their own. */
+  langCode: string | undefined
+  vocabulary: VocabularyEntry[]
+  isTranslating: boolean
+  /** Show each item's language, for songs that mix several. */
+  showLanguages: boolean
+  onSetStatus: (word: string, langCode: string, status: WordStatus) => void
+  onSpeak: (text: string, langCode: string) => void
+  onEditItem: (id: string, edit: ItemEdit) => void
+  onDeleteItems: (ids: string[]) => void
+  /** Combine the items into the first of them. */
+  onMergeItems: (ids: string[]) => void
+  onAddItem: (word: string, translation: string, band: DifficultyBand) => void
+  /** Translate the items again; absent when there is no AI to do it. */
+  onRetranslate?: (ids: string[]) => void
+}
+
+type CardProps = Pick<
+  LearningListProps,
+  'langCode' | 'vocabulary' | 'isTranslating' | 'showLanguages' | 'onSetStatus' | 'onSpeak' | 'onEditItem'
+> & {
+  item: LearningItem
+  selected: boolean
+  onToggle: () => void
+  onDelete: () => void
+}
+
+const GENDER_LABELS: Record<string, MessageKey> = {
+  masculine: 'gender.masculine',
+  feminine: 'gender.feminine',
+  neuter: 'gender.neuter',
+  common: 'gender.common',
+}
+
+/** A part of speech or gender in the interface language. Genders it has no name for are shown as stored. */
+function grammarLabel(field: GrammarField, value: string): string {
+  if (field === 'partOfSpeech') return t(`pos.${value as PartOfSpeech}`)
+  return Object.hasOwn(GENDER_LABELS, value) ? t(GENDER_LABELS[value]) : value
+}
+
+/** Values a field takes in the list, most frequent first. */
+function valuesOf(items: LearningItem[], field: GrammarField): string[] {
+  const counts = new Map<string, number>()
+  for (const item of items) {
+    const value = item[field]
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+  return [...counts.keys()].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+}
+
+/** "oogjes → oog" when the song uses other forms than the dictionary one. */
+function formNote(item: LearningItem): string | null {
+  if (!item.lemma) return null
+  const forms = (item.forms ?? [item.word]).filter((f) => f.toLowerCase() !== item.lemma?.toLowerCase())
+  return forms.length > 0 ? `${forms.join(', ')} → ${item.lemma}` : null
+}
+
+function matchesTranslation(item: LearningItem, filter: TranslationFilter): boolean {
+  if (filter === 'translated') return Boolean(item.translation)
+  if (filter === 'untranslated') return !item.translation
+  if (filter === 'failed') return !item.translation && Boolean(item.translationError)
+  return true
+}
+
+/** Items in the chosen order. Ties keep the order of the analysis. */
+function sortItems(items: LearningItem[], sortBy: SortBy): LearningItem[] {
+  // Items that aren't in the lyrics go last
+  const firstLine = (item: LearningItem) => item.lines?.[0] ?? Infinity
+  const compare: Record<SortBy, (a: LearningItem, b: LearningItem) => number> = {
+    song: (a, b) => firstLine(a) - firstLine(b),
+    hardest: (a, b) => b.difficultyScore - a.difficultyScore,
+    easiest: (a, b) => a.difficultyScore - b.difficultyScore,
+    frequency: (a, b) => b.count - a.count,
+  }
+  // `|| 0` also covers Infinity - Infinity, which is NaN
+  return [...items].sort((a, b) => compare[sortBy](a, b) || 0)
+}
+
+function LearningItemCard({
+  item,
+  langCode,
+  vocabulary,
+  isTranslating,
+  showLanguages,
+  selected,
+  onSetStatus,
+  onSpeak,
+  onEditItem,
+  onToggle,
+  onDelete,
+}: CardProps) {
+  const [editing, setEditing] = useState<{ translation: string; explanation: string } | null>(null)
+
+  const itemLang = item.langCode ?? langCode
+  const note = formNote(item)
+  const grammar = [
+    item.partOfSpeech && grammarLabel('partOfSpeech', item.partOfSpeech),
+    item.gender && grammarLabel('gender', item.gender),
+    item.article && t('list.article', { article: item.article }),
+  ].filter(Boolean)
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    onEditItem(item.id, {
+      translation: editing.translation.trim() || undefined,
+      explanation: editing.explanation.trim() || undefined,
+    })
+    setEditing(null)
+  }
+
+  return (
+    <li className={`learning-item${selected ? ' learning-item-selected' : ''}`}>
+      <div className="learning-main">
+        <div className="learning-word">
+          <input
+            type="checkbox"
+            aria-label={t('list.select', { word: item.word })}
+            checked={selected}
+            onChange={onToggle}
+          />
+          <span className="learning-word-text" dir="auto">{item.word}</span>
+          {itemLang && (
+            <button
+              type="button"
+              className="speak-button"
+              aria-label={t('speech.word', { word: item.word })}
+              title={t('speech.pronounce')}
+              onClick={() => onSpeak(item.word, itemLang)}
+            >
+              🔊
+            </button>
+          )}
+          {item.ipa && <span className="learning-ipa">/{item.ipa}/</span>}
+          <span className="badge">
+            {t('list.difficulty', { band: t(`band.${item.difficultyBand}`) })}
+          </span>
+          {item.count > 1 && (
+            <span className="badge badge-soft">
+              {t('list.appears', { count: item.count })}
+            </span>
+          )}
+          {showLanguages && item.langCode && (
+            <span className="badge badge-soft" title={languageName(item.langCode)}>
+              {item.langCode}
+            </span>
+          )}
+          {item.notInLyrics && (
+            <span className="badge badge-warning" title={t('list.notInSongHelp')}>
+              {t('list.notInSong')}
+            </span>
+          )}
+        </div>
+        {!editing && (
+          <div className="learning-translation">
+            {item.translation && (
+              <span className="translation-text">
+                {item.translation}
+              </span>
+            )}
+            {!item.translation && item.translationError && (
+              <span className="translation-error">
+                {item.translationError}
+              </span>
+            )}
+            {!item.translation &&
+              !item.translationError &&
+              isTranslating && (
+                <span className="translation-loading">
+                  {t('common.translating')}
+                </span>
+              )}
+          </div>
+        )}
+      </div>
+      {(grammar.length > 0 || note) && (
+        <p className="learning-grammar">
+          {grammar.join(' · ')}
+          {grammar.length > 0 && note && ' · '}
+          {note}
+        </p>
+      )}
+      {item.example && (
+        <p className="learning-example">
+          <span className="example-label">{t('list.line')}</span>{' '}
+          <span className="example-text" dir="auto">{item.example}</span>
+        </p>
+      )}
+      {editing ? (
+        <form className="learning-edit" onSubmit={handleSave}>
+          <input
+            className="input"
+            aria-label={t('list.translation')}
+            placeholder={t('list.translation')}
+            value={editing.translation}
+            onChange={(e) => setEditing({ ...editing, translation: e.target.value })}
+          />
+          <textarea
+            className="textarea"
+            aria-label={t('list.explanation')}
+            placeholder={t('list.explanationOptional')}
+            rows={2}
+            value={editing.explanation}
+            onChange={(e) => setEditing({ ...editing, explanation: e.target.value })}
+          />
+          <div className="library-actions">
+            <button type="submit" className="button-primary button-small">
+              {t('common.save')}
+            </button>
+            <button type="button" className="link-button" onClick={() => setEditing(null)}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        item.explanation && (
+          <p className="learning-explanation">
+            💡 {item.explanation}
+          </p>
+        )
+      )}
+      <div className="item-actions">
+        {itemLang && (
+          <>
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onSetStatus(item.word, itemLang, 'known')}
+            >
+              {t('status.markKnown')}
+            </button>
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onSetStatus(item.word, itemLang, 'ignored')}
+            >
+              {t('status.markIgnored')}
+            </button>
+            {statusOf(vocabulary, item.word, itemLang) === 'learning' ? (
+              <span className="badge badge-soft">{t('status.learning')}</span>
+            ) : (
+              <button
+                type="button"
+                className="link-button"
+                onClick={() => onSetStatus(item.word, itemLang, 'learning')}
+              >
+                {t('status.markLearning')}
+              </button>
+            )}
+          </>
+        )}
+        {!editing && (
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => setEditing({ translation: item.translation ?? '', explanation: item.explanation ?? '' })}
+          >
+            {t('common.edit')}
+          </button>
+        )}
+        <button type="button" className="link-button" onClick={onDelete}>
+          {t('common.delete')}
+        </button>
+      </div>
+    </li>
+  )
+}
+
+/** A word the learner adds to the list by hand. */
+function AddItemForm({ onAdd }: { onAdd: LearningListProps['onAddItem'] }) {
+  const [open, setOpen] = useState(false)
+  const [word, setWord] = useState('')
+  const [translation, setTranslation] = useState('')
+  const [band, setBand] = useState<DifficultyBand>('stretch')
+
+  if (!open) {
+    return (
+      <button type="button" className="link-button" onClick={() => setOpen(true)}>
+        {t('list.addWord')}
+      </button>
+    )
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!word.trim()) return
+    onAdd(word.trim(), translation.trim(), band)
+    setWord('')
+    setTranslation('')
+  }
+
+  return (
+    <form className="learning-add" onSubmit={handleSubmit}>
+      <input
+        className="input"
+        aria-label={t('list.word')}
+        placeholder={t('list.wordPlaceholder')}
+        value={word}
+        onChange={(e) => setWord(e.target.value)}
+      />
+      <input
+        className="input"
+        aria-label={t('list.translation')}
+        placeholder={t('list.translationOptional')}
+        value={translation}
+        onChange={(e) => setTranslation(e.target.value)}
+      />
+      <select
+        className="select select-small"
+        aria-label={t('list.difficultyLabel')}
+        value={band}
+        onChange={(e) => setBand(e.target.value as DifficultyBand)}
+      >
+        {BANDS.map((b) => (
+          <option key={b} value={b}>
+            {t(`band.${b}`)}
+          </option>
+        ))}
+      </select>
+      <button type="submit" className="button-primary button-small" disabled={!word.trim()}>
+        {t('common.add')}
+      </button>
+      <button type="button" className="link-button" onClick={() => setOpen(false)}>
+        {t('common.done')}
+      </button>
+    </form>
+  )
+}
+
+/**
+ * The learning items with their grammar: sortable, filterable, groupable and editable by hand.
+ * Selected rows can be deleted, merged or translated again together.
+ */
+function LearningList({
+  items,
+  onDeleteItems,
+  onMergeItems,
+  onAddItem,
+  onRetranslate,
+  ...cardProps
+}: LearningListProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('none')
+  const [sortBy, setSortBy] = useState<SortBy>('song')
+  const [filters, setFilters] = useState<Filters>({ partOfSpeech: '', gender: '', band: '', translation: '' })
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+
+  const partsOfSpeech = valuesOf(items, 'partOfSpeech')
+  const genders = valuesOf(items, 'gender')
+  const shown = sortItems(
+    items.filter(
+      (item) =>
+        (!filters.partOfSpeech || item.partOfSpeech === filters.partOfSpeech) &&
+        (!filters.gender || item.gender === filters.gender) &&
+        (!filters.band || item.difficultyBand === filters.band) &&
+        matchesTranslation(item, filters.translation),
+    ),
+    sortBy,
+  )
+  // In list order, and only rows that are still shown
+  const selectedIds = shown.filter((item) => selected.has(item.id)).map((item) => item.id)
+
+  const groups: Array<[title: string | null, items: LearningItem[]]> = []
+  if (groupBy === 'none') {
+    groups.push([null, shown])
+  } else {
+    for (const value of [...valuesOf(shown, groupBy), '']) {
+      const members = shown.filter((item) => (item[groupBy] ?? '') === value)
+      if (members.length > 0) groups.push([value ? grammarLabel(groupBy, value) : t('list.other'), members])
+    }
+  }
+
+  const setFilter = <K extends keyof Filters>(field: K, value: Filters[K]) =>
+    setFilters((prev) => ({ ...prev, [field]: value }))
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const clearSelection = () => setSelected(new Set())
+
+  return (
+    <>
+      <div className="learning-filters">
+        <select
+          className="select select-small"
+          aria-label={t('list.sort')}
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as SortBy)}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {t(option.label)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select select-small"
+          aria-label={t('list.difficultyLabel')}
+          value={filters.band}
+          onChange={(e) => setFilter('band', e.target.value as Filters['band'])}
+        >
+          <option value="">{t('list.allDifficulties')}</option>
+          {BANDS.map((band) => (
+            <option key={band} value={band}>
+              {t(`band.${band}`)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select select-small"
+          aria-label={t('list.translationStatus')}
+          value={filters.translation}
+          onChange={(e) => setFilter('translation', e.target.value as TranslationFilter)}
+        >
+          {TRANSLATION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {t(option.label)}
+            </option>
+          ))}
+        </select>
+        {(partsOfSpeech.length > 0 || genders.length > 0) && (
+          <select
+            className="select select-small"
+            aria-label={t('list.group')}
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+          >
+            {GROUP_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.label)}
+              </option>
+            ))}
+          </select>
+        )}
+        {partsOfSpeech.length > 0 && (
+          <select
+            className="select select-small"
+            aria-label={t('list.pos')}
+            value={filters.partOfSpeech}
+            onChange={(e) => setFilter('partOfSpeech', e.target.value)}
+          >
+            <option value="">{t('list.allPos')}</option>
+            {partsOfSpeech.map((pos) => (
+              <option key={pos} value={pos}>
+                {grammarLabel('partOfSpeech', pos)}
+              </option>
+            ))}
+          </select>
+        )}
+        {genders.length > 0 && (
+          <select
+            className="select select-small"
+            aria-label={t('list.gender')}
+            value={filters.gender}
+            onChange={(e) => setFilter('gender', e.target.value)}
+          >
+            <option value="">{t('list.allGenders')}</option>
+            {genders.map((gender) => (
+              <option key={gender} value={gender}>
+                {grammarLabel('gender', gender)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="learning-toolbar">
+        {selectedIds.length > 0 ? (
+          <>
+            <span className="muted">{t('list.selected', { count: selectedIds.length })}</span>
+            {onRetranslate && (
+              <button
+                type="button"
+                className="link-button"
+                disabled={cardProps.isTranslating}
+                onClick={() => onRetranslate(selectedIds)}
+              >
+                {t('common.translateAgain')}
+              </button>
+            )}
+            {selectedIds.length > 1 && (
+              <button
+                type="button"
+                className="link-button"
+                title={t('list.mergeHelp')}
+                onClick={() => {
+                  onMergeItems(selectedIds)
+                  clearSelection()
+                }}
+              >
+                {t('list.merge')}
+              </button>
+            )}
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => {
+                onDeleteItems(selectedIds)
+                clearSelection()
+              }}
+            >
+              {t('common.delete')}
+            </button>
+            <button type="button" className="link-button" onClick={clearSelection}>
+              {t('list.clearSelection')}
+            </button>
+          </>
+        ) : (
+          <AddItemForm onAdd={onAddItem} />
+        )}
+      </div>
+
+      {shown.length === 0 && <p className="muted">{t('list.noMatches')}</p>}
+
+      <ul className="learning-list">
+        {groups.map(([title, members]) => (
+          <li key={title ?? 'all'} className="learning-group">
+            {title && (
+              <h3 className="learning-group-title">
+                {title} <span className="muted">({members.length})</span>
+              </h3>
+            )}
+            <ul className="learning-group-items">
+              {members.map((item) => (
+                <LearningItemCard
+                  key={item.id}
+                  item={item}
+                  selected={selected.has(item.id)}
+                  onToggle={() => toggle(item.id)}
+                  onDelete={() => onDeleteItems([item.id])}
+                  {...cardProps}
+                />
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </>
+  )
+}
+
+export default LearningList
@@ -0,0 +1,103 @@
+import { useState } from 'react'
+
+import type { UserLevel } from '../types'
+import type { SavedSong } from '../library/songs'
+import { latestAnalysis, searchSongs } from '../library/songs'
+import { LEVELS } from '../offline/analyze'
+import { languageName, locale, t } from '../i18n/i18n'
+
+type LibraryPanelProps = {
+  songs: SavedSong[]
+  onOpen: (song: SavedSong) => void
+  onRerun: (song: SavedSong, level: UserLevel) => void
+  onDelete: (song: SavedSong) => void
+}
+
+function LibraryPanel({ songs, onOpen, onRerun, onDelete }: LibraryPanelProps) {
+  const [query, setQuery] = useState('')
+  const [rerunLevels, setRerunLevels] = useState<Record<string, UserLevel>>({})
+
+  const results = searchSongs(songs, query)
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2 className="card-title">{t('library.title')}</h2>
+        <span className="muted">{t('library.saved', { count: songs.length })}</span>
+      </div>
+
+      <input
+        type="search"
+        className="input library-search"
+        placeholder={t('library.search')}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {songs.length === 0 && (
+        <p className="muted">{t('library.empty')}</p>
+      )}
+      {songs.length > 0 && results.length === 0 && (
+        <p className="muted">{t('library.noMatches', { query })}</p>
+      )}
+
+      <ul className="learning-list library-list">
+        {results.map((song) => {
+          const latest = latestAnalysis(song)
+          const rerunLevel = rerunLevels[song.id] ?? latest?.level ?? 'B1'
+          return (
+            <li key={song.id} className="learning-item">
+              <div className="learning-main">
+                <div className="learning-word">
+                  <span className="learning-word-text" dir="auto">{song.title}</span>
+                  {song.artist && <span className="muted">— {song.artist}</span>}
+                </div>
+                <span className="badge">{languageName(song.language.code)}</span>
+              </div>
+              <p className="learning-example">
+                {latest
+                  ? `${t('library.words', { count: latest.items.length, level: latest.level })} · ${new Date(latest.analyzedAt).toLocaleDateString(locale())}`
+                  : t('library.notAnalysed')}
+                {song.analyses.length > 1 &&
+                  ` · ${t('library.levels', { levels: [...new Set(song.analyses.map((a) => a.level))].join(', ') })}`}
+              </p>
+              <div className="library-actions">
+                <button type="button" className="tab" onClick={() => onOpen(song)}>
+                  {t('library.open')}
+                </button>
+                <select
+                  className="select select-small"
+                  aria-label={t('library.rerunLevel')}
+                  value={rerunLevel}
+                  onChange={(e) =>
+                    setRerunLevels((prev) => ({ ...prev, [song.id]: e.target.value as UserLevel }))
+                  }
+                >
+                  {LEVELS.map((l) => (
+                    <option key={l} value={l}>
+                      {l}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="tab" onClick={() => onRerun(song, rerunLevel)}>
+                  {t('library.rerun')}
+                </button>
+                <button
+                  type="button"
+                  className="link-button"
+                  onClick={() => {
+                    if (window.confirm(t('library.confirmDelete', { title: song.title }))) onDelete(song)
+                  }}
+                >
+                  {t('common.delete')}
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
+
+export default LibraryPanel
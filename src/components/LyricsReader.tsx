@@ -0,0 +1,200 @@
+import type { ReactNode } from 'react'
+import { useMemo, useState } from 'react'
+
+import type { LearningItem } from '../types'
+import type { WordLookup } from '../llm/tasks'
+import type { Token } from '../text/tokenize'
+import { splitLines, tokenizeLyrics } from '../text/tokenize'
+import { findOccurrences } from '../text/anchor'
+import { t } from '../i18n/i18n'
+
+type LookupState =
+  | { status: 'loading' }
+  | { status: 'done'; result: WordLookup }
+  | { status: 'error'; error: string }
+
+type LyricsReaderProps = {
+  lyrics: string
+  items: LearningItem[]
+  langCode?: string
+  /** Translate a word the learner clicked, in the context of its line. */
+  onLookup: (word: string, line: string) => Promise<WordLookup>
+  onAddItem: (word: string, line: string, lookup: WordLookup) => void
+  onSpeak: (text: string, langCode: string) => void
+}
+
+function tokenKey(token: Token): string {
+  return `${token.line}:${token.start}`
+}
+
+/** The lyrics line by line, with learning items highlighted by difficulty and every word clickable. */
+function LyricsReader({ lyrics, items, langCode, onLookup, onAddItem, onSpeak }: LyricsReaderProps) {
+  const [selected, setSelected] = useState<Token | null>(null)
+  const [lookups, setLookups] = useState<Record<string, LookupState>>({})
+
+  const lines = useMemo(() => splitLines(lyrics), [lyrics])
+  const tokens = useMemo(() => tokenizeLyrics(lyrics, langCode), [lyrics, langCode])
+
+  const tokensByLine = useMemo(() => {
+    const byLine = new Map<number, Token[]>()
+    for (const token of tokens) {
+      const line = byLine.get(token.line)
+      if (line) line.push(token)
+      else byLine.set(token.line, [token])
+    }
+    return byLine
+  }, [tokens])
+
+  // Earlier items win when two items cover the same word.
+  const itemByToken = useMemo(() => {
+    const map = new Map<string, LearningItem>()
+    for (const item of items) {
+      if (item.notInLyrics) continue
+      for (const form of item.forms ?? [item.word]) {
+        for (const occurrence of findOccurrences(tokens, form, langCode)) {
+          for (const token of occurrence) {
+            if (!map.has(tokenKey(token))) map.set(tokenKey(token), item)
+          }
+        }
+      }
+    }
+    return map
+  }, [items, tokens, langCode])
+
+  const lookupKey = (token: Token) => `${token.line}:${token.norm}`
+
+  const handleClick = (token: Token) => {
+    if (selected && tokenKey(selected) === tokenKey(token)) {
+      setSelected(null)
+      return
+    }
+    setSelected(token)
+    const key = lookupKey(token)
+    if (itemByToken.has(tokenKey(token)) || lookups[key]?.status === 'done') return
+    setLookups((prev) => ({ ...prev, [key]: { status: 'loading' } }))
+    onLookup(token.norm, lines[token.line].trim())
+      .then((result) => setLookups((prev) => ({ ...prev, [key]: { status: 'done', result } })))
+      .catch((err) => {
+        const error = err instanceof Error ? err.message : t('lookup.failed')
+        setLookups((prev) => ({ ...prev, [key]: { status: 'error', error } }))
+      })
+  }
+
+  const renderPopover = (token: Token) => {
+    const item = itemByToken.get(tokenKey(token))
+    if (item) {
+      return (
+        <>
+          <span className="lyric-popover-word">{item.word}</span>
+          <span className="badge">{t(`band.${item.difficultyBand}`)}</span>
+          {item.translation && <span className="translation-text">{item.translation}</span>}
+          {!item.translation && (
+            <span className="translation-error">{item.translationError ?? t('lookup.noTranslationYet')}</span>
+          )}
+          {item.explanation && <span className="learning-explanation">💡 {item.explanation}</span>}
+        </>
+      )
+    }
+
+    const lookup = lookups[lookupKey(token)]
+    return (
+      <>
+        <span className="lyric-popover-word">{token.norm}</span>
+        {lookup?.status === 'loading' && <span className="translation-loading">{t('lookup.loading')}</span>}
+        {lookup?.status === 'error' && <span className="translation-error">{lookup.error}</span>}
+        {lookup?.status === 'done' && (
+          <>
+            <span className="badge">{lookup.result.difficulty}</span>
+            {lookup.result.translation ? (
+              <span className="translation-text">{lookup.result.translation}</span>
+            ) : (
+              <span className="translation-error">{t('lookup.noTranslation')}</span>
+            )}
+            {lookup.result.explanation && (
+              <span className="learning-explanation">💡 {lookup.result.explanation}</span>
+            )}
+            <button
+              type="button"
+              className="button-primary button-small"
+              onClick={() => {
+                onAddItem(token.norm, lines[token.line].trim(), lookup.result)
+                setSelected(null)
+              }}
+            >
+              {t('lookup.add')}
+            </button>
+          </>
+        )}
+      </>
+    )
+  }
+
+  const renderLine = (lineText: string, index: number) => {
+    const lineTokens = tokensByLine.get(index) ?? []
+    if (!lineText.trim()) return <div key={index} className="lyric-line lyric-line-empty" />
+
+    const parts: ReactNode[] = []
+    let pos = 0
+    for (const token of lineTokens) {
+      if (token.start > pos) parts.push(lineText.slice(pos, token.start))
+      const item = itemByToken.get(tokenKey(token))
+      const isSelected = selected !== null && tokenKey(selected) === tokenKey(token)
+      parts.push(
+        <span key={token.start} className="lyric-word-wrap">
+          <button
+            type="button"
+            className={`lyric-word${item ? ` hl-${item.difficultyBand}` : ''}${isSelected ? ' lyric-word-selected' : ''}`}
+            onClick={() => handleClick(token)}
+          >
+            {token.text}
+          </button>
+          {isSelected && (
+            <span className="lyric-popover" role="dialog">
+              <button
+                type="button"
+                className="lyric-popover-close"
+                aria-label={t('common.close')}
+                onClick={() => setSelected(null)}
+              >
+                ×
+              </button>
+              {renderPopover(token)}
+            </span>
+          )}
+        </span>,
+      )
+      pos = token.end
+    }
+    if (pos < lineText.length) parts.push(lineText.slice(pos))
+    return (
+      <div key={index} className="lyric-line" dir="auto">
+        {parts}
+        {langCode && (
+          <button
+            type="button"
+            className="speak-button"
+            aria-label={t('speech.line')}
+            title={t('speech.line')}
+            onClick={() => onSpeak(lineText.trim(), langCode)}
+          >
+            🔊
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="lyrics-reader">
+      <div className="lyrics-legend">
+        <span className="lyric-word hl-comfortable">{t('band.comfortable')}</span>
+        <span className="lyric-word hl-stretch">{t('band.stretch')}</span>
+        <span className="lyric-word hl-challenging">{t('band.challenging')}</span>
+        <span className="muted">{t('lyrics.clickHelp')}</span>
+      </div>
+      {lines.map(renderLine)}
+    </div>
+  )
+}
+
+export default LyricsReader
@@ -0,0 +1,183 @@
+import { useMemo } from 'react'
+
+import type { UserLevel } from '../types'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import type { ReviewCard } from '../review/cards'
+import type { ReviewEvent } from '../review/history'
+import type { SavedSong } from '../library/songs'
+import type { VocabularyEntry } from '../vocabulary/profile'
+import { detectLanguageOffline } from '../offline/detectLanguage'
+import { LEVELS } from '../offline/analyze'
+import {
+  estimateCoverage,
+  isCompleted,
+  knownWords,
+  learnedByLevel,
+  learnedWords,
+  progressByLanguage,
+  reviewStreaks,
+  songProgress,
+} from '../progress/progress'
+import { languageName, locale, t } from '../i18n/i18n'
+
+/** Unfinished library songs suggested for study. */
+const SUGGESTIONS = 5
+
+type ProgressPanelProps = {
+  deck: ReviewCard[]
+  vocabulary: VocabularyEntry[]
+  songs: SavedSong[]
+  history: ReviewEvent[]
+  /** Current time, owned by the parent like the review deck's. */
+  now: number
+  level: UserLevel
+  /** Lyrics in the analyse form, estimated before they are analysed. */
+  lyrics: string
+  songLanguage: DetectedLanguage | null
+  onOpen: (song: SavedSong) => void
+}
+
+function formatShare(share: number): string {
+  return new Intl.NumberFormat(locale(), { style: 'percent' }).format(share)
+}
+
+function ProgressPanel({ deck, vocabulary, songs, history, now, level, lyrics, songLanguage, onOpen }: ProgressPanelProps) {
+  const learned = useMemo(() => learnedWords(deck, vocabulary), [deck, vocabulary])
+  const known = useMemo(() => knownWords(learned, vocabulary, songs), [learned, vocabulary, songs])
+  const byLanguage = progressByLanguage(learned, deck, vocabulary)
+  const byLevel = learnedByLevel(learned, songs)
+  const streaks = reviewStreaks(history, deck, now)
+
+  const songRows = useMemo(() => songs.map((song) => songProgress(song, known, level)), [songs, known, level])
+  const completed = songRows.filter(isCompleted).length
+  const suggestions = songRows
+    .filter((row) => row.total > 0 && !isCompleted(row))
+    .sort((a, b) => b.coverage.share - a.coverage.share)
+    .slice(0, SUGGESTIONS)
+
+  const lyricsLanguage = useMemo(
+    () => (lyrics.trim() ? (songLanguage ?? detectLanguageOffline(lyrics)) : null),
+    [lyrics, songLanguage],
+  )
+  const lyricsCoverage = lyricsLanguage ? estimateCoverage(lyrics, lyricsLanguage.code, known, level) : null
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2 className="card-title">{t('progress.title')}</h2>
+        <span className="muted">{t('progress.reviewedToday', { count: streaks.reviewedToday })}</span>
+      </div>
+
+      <div className="progress-stats">
+        <div className="progress-stat">
+          <strong>{learned.size.toLocaleString(locale())}</strong>
+          <span className="muted">{t('progress.learned')}</span>
+        </div>
+        <div className="progress-stat">
+          <strong>{t('progress.days', { count: streaks.current })}</strong>
+          <span className="muted">
+            {t('progress.streak')} · {t('progress.longest', { count: streaks.longest })}
+          </span>
+        </div>
+        <div className="progress-stat">
+          <strong>{t('progress.songsOf', { done: completed, total: songs.length })}</strong>
+          <span className="muted">{t('progress.songsCompleted')}</span>
+        </div>
+      </div>
+
+      <h3 className="progress-heading">{t('progress.coverage')}</h3>
+      {lyricsCoverage && lyricsLanguage ? (
+        <>
+          <p>
+            {t('progress.coverageOf', {
+              percent: formatShare(lyricsCoverage.share),
+              known: lyricsCoverage.known,
+              total: lyricsCoverage.total,
+              language: languageName(lyricsLanguage.code),
+            })}
+          </p>
+          <div className="usage-meter" aria-hidden="true">
+            <div className="usage-meter-fill" style={{ width: `${lyricsCoverage.share * 100}%` }} />
+          </div>
+          <small className="form-help">{t('progress.coverageHelp', { level })}</small>
+        </>
+      ) : (
+        <p className="muted">{t('progress.noLyrics')}</p>
+      )}
+
+      {learned.size === 0 && deck.length === 0 && (
+        <p className="muted">{t('progress.empty')}</p>
+      )}
+
+      {byLanguage.length > 0 && (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>{t('progress.language')}</th>
+              <th>{t('progress.learnedColumn')}</th>
+              <th>{t('progress.learningColumn')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byLanguage.map((row) => (
+              <tr key={row.langCode}>
+                <td>{languageName(row.langCode)}</td>
+                <td>{row.learned}</td>
+                <td>{row.learning}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {learned.size > 0 && (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>{t('progress.level')}</th>
+              <th>{t('progress.learnedColumn')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {LEVELS.map((l) => (
+              <tr key={l}>
+                <td>{l}</td>
+                <td>{byLevel[l]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {suggestions.length > 0 && (
+        <>
+          <h3 className="progress-heading">{t('progress.suggestions')}</h3>
+          <small className="form-help">{t('progress.suggestionsHelp')}</small>
+          <ul className="learning-list library-list">
+            {suggestions.map(({ song, done, total, coverage }) => (
+              <li key={song.id} className="learning-item">
+                <div className="learning-main">
+                  <div className="learning-word">
+                    <span className="learning-word-text" dir="auto">{song.title}</span>
+                    {song.artist && <span className="muted">— {song.artist}</span>}
+                  </div>
+                  <span className="badge">{languageName(song.language.code)}</span>
+                </div>
+                <p className="learning-example">
+                  {t('progress.songCoverage', { percent: formatShare(coverage.share), done, total })}
+                </p>
+                <div className="library-actions">
+                  <button type="button" className="tab" onClick={() => onOpen(song)}>
+                    {t('library.open')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  )
+}
+
+export default ProgressPanel
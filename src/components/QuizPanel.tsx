@@ -0,0 +1,218 @@
+import type { FormEvent } from 'react'
+import { useState } from 'react'
+
+import type { LearningItem } from '../types'
+import type { QuizMode, QuizQuestion } from '../quiz/questions'
+import { QUIZ_MODES, availableQuestions, buildQuiz, isCorrect } from '../quiz/questions'
+import type { QuizAnswer, QuizFeedback } from '../quiz/sessions'
+import { t } from '../i18n/i18n'
+
+type QuizPanelProps = {
+  items: LearningItem[]
+  langCode: string
+  /** Store the finished session and update learning status; resolves with what changed. */
+  onFinish: (mode: QuizMode, answers: QuizAnswer[]) => Promise<QuizFeedback>
+}
+
+function QuizPanel({ items, langCode, onFinish }: QuizPanelProps) {
+  const [mode, setMode] = useState<QuizMode | null>(null)
+  const [questions, setQuestions] = useState<QuizQuestion[]>([])
+  const [index, setIndex] = useState(0)
+  const [input, setInput] = useState('')
+  const [lastAnswer, setLastAnswer] = useState<{ given: string; correct: boolean } | null>(null)
+  const [answers, setAnswers] = useState<QuizAnswer[]>([])
+  const [feedback, setFeedback] = useState<QuizFeedback | null>(null)
+
+  const question = questions[index]
+  const finished = mode !== null && index >= questions.length
+  const score = answers.filter((a) => a.correct).length
+
+  const start = (quizMode: QuizMode) => {
+    setMode(quizMode)
+    setQuestions(buildQuiz(items, quizMode, langCode))
+    setIndex(0)
+    setInput('')
+    setLastAnswer(null)
+    setAnswers([])
+    setFeedback(null)
+  }
+
+  const submit = (given: string) => {
+    if (!question || lastAnswer) return
+    const correct = isCorrect(question, given, langCode)
+    setLastAnswer({ given, correct })
+    const { item } = question
+    setAnswers((prev) => [...prev, { itemId: item.id, word: item.word, langCode: item.langCode, correct }])
+  }
+
+  const next = () => {
+    setInput('')
+    setLastAnswer(null)
+    setIndex((i) => i + 1)
+    if (index + 1 >= questions.length && mode) {
+      onFinish(mode, answers)
+        .then(setFeedback)
+        .catch((err) => console.error('Could not save quiz results:', err))
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (lastAnswer) next()
+    else if (input.trim()) submit(input)
+  }
+
+  if (!mode) {
+    return (
+      <div className="quiz">
+        <p className="muted">{t('quiz.intro')}</p>
+        <div className="quiz-modes">
+          {(Object.keys(QUIZ_MODES) as QuizMode[]).map((m) => {
+            const count = availableQuestions(items, m, langCode).length
+            return (
+              <button
+                key={m}
+                type="button"
+                className="quiz-mode"
+                disabled={count === 0}
+                onClick={() => start(m)}
+              >
+                <strong>{t(QUIZ_MODES[m].label)}</strong>
+                <span>{t(QUIZ_MODES[m].description)}</span>
+                <small className="muted">
+                  {count === 0 ? t('quiz.needsTranslations') : t('quiz.available', { count })}
+                </small>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    )
+  }
+
+  if (finished) {
+    const missed = questions.filter((q) => answers.some((a) => a.itemId === q.item.id && !a.correct))
+    return (
+      <div className="quiz">
+        <div className="quiz-score">
+          <span className="quiz-score-number">
+            {score} / {questions.length}
+          </span>
+          <span className="muted">{t(QUIZ_MODES[mode].label)}</span>
+        </div>
+        {missed.length > 0 && (
+          <ul className="quiz-missed">
+            {missed.map((q) => (
+              <li key={q.id}>
+                <strong>{q.item.word}</strong>
+                {q.item.translation && <span className="translation-text"> — {q.item.translation}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {feedback && feedback.markedLearning.length > 0 && (
+          <p className="muted">{t('quiz.markedLearning', { words: feedback.markedLearning.join(', ') })}</p>
+        )}
+        {feedback && feedback.cleared.length > 0 && (
+          <p className="muted">{t('quiz.cleared', { words: feedback.cleared.join(', ') })}</p>
+        )}
+        <div className="library-actions">
+          <button type="button" className="button-primary button-small" onClick={() => start(mode)}>
+            {t('quiz.again')}
+          </button>
+          <button type="button" className="link-button" onClick={() => setMode(null)}>
+            {t('quiz.another')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="quiz">
+      <div className="quiz-progress">
+        <span className="muted">
+          {t(QUIZ_MODES[mode].label)} · {index + 1} / {questions.length}
+        </span>
+        <span className="muted">{t('quiz.score', { score })}</span>
+      </div>
+
+      {question.mode === 'cloze' && question.line && (
+        <p className="quiz-line" dir="auto">
+          {question.line.map((seg, i) =>
+            seg.match ? (
+              <span key={i} className="quiz-gap">
+                {lastAnswer ? seg.text : '_____'}
+              </span>
+            ) : (
+              <span key={i}>{seg.text}</span>
+            ),
+          )}
+        </p>
+      )}
+      {question.mode !== 'choice' && question.prompt && (
+        <p className={question.mode === 'recall' ? 'quiz-prompt' : 'muted'}>
+          {question.mode === 'cloze' ? t('quiz.hint', { hint: question.prompt }) : question.prompt}
+        </p>
+      )}
+      {question.mode === 'choice' && <p className="quiz-prompt">{question.prompt}</p>}
+
+      {question.mode === 'choice' && question.choices && (
+        <div className="quiz-choices">
+          {question.choices.map((choice) => {
+            const state = !lastAnswer
+              ? ''
+              : question.answers.includes(choice)
+                ? ' quiz-choice-correct'
+                : choice === lastAnswer.given
+                  ? ' quiz-choice-wrong'
+                  : ''
+            return (
+              <button
+                key={choice}
+                type="button"
+                className={`quiz-choice${state}`}
+                disabled={lastAnswer !== null}
+                onClick={() => submit(choice)}
+              >
+                {choice}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      <form className="quiz-answer" onSubmit={handleSubmit}>
+        {question.mode !== 'choice' && (
+          <input
+            className="input"
+            autoFocus
+            placeholder={t('quiz.typeWord')}
+            value={input}
+            readOnly={lastAnswer !== null}
+            onChange={(e) => setInput(e.target.value)}
+          />
+        )}
+        {lastAnswer ? (
+          <button type="submit" className="button-primary button-small">
+            {index + 1 < questions.length ? t('quiz.next') : t('quiz.results')}
+          </button>
+        ) : (
+          question.mode !== 'choice' && (
+            <button type="submit" className="button-primary button-small" disabled={!input.trim()}>
+              {t('quiz.check')}
+            </button>
+          )
+        )}
+      </form>
+
+      {lastAnswer && (
+        <p className={lastAnswer.correct ? 'quiz-result-correct' : 'quiz-result-wrong'}>
+          {lastAnswer.correct ? t('quiz.correct') : t('quiz.answer', { answer: question.answers[0] })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default QuizPanel
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+
+import type { ReviewCard } from '../review/cards'
+import type { ReviewGrade } from '../review/scheduler'
+import { isDue, previewInterval, review } from '../review/scheduler'
+import { highlightSegments } from '../text/anchor'
+import { t } from '../i18n/i18n'
+
+const GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+type ReviewPanelProps = {
+  deck: ReviewCard[]
+  /** Current time, owned by the parent so "due" stays consistent across the app. */
+  now: number
+  onReviewed: (card: ReviewCard, grade: ReviewGrade) => void
+  onRemove: (id: string) => void
+}
+
+function ReviewPanel({ deck, now, onReviewed, onRemove }: ReviewPanelProps) {
+  const [revealed, setRevealed] = useState(false)
+
+  const due = deck.filter((card) => isDue(card, now)).sort((a, b) => a.due - b.due)
+  const card = due[0]
+  const learned = deck.filter((c) => c.repetitions > 0).length
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return
+    setRevealed(false)
+    onReviewed({ ...card, ...review(card, grade) }, grade)
+  }
+
+  return (
+    <section className="card review-card">
+      <div className="card-header">
+        <h2 className="card-title">{t('review.title')}</h2>
+        <span className="muted">
+          {t('review.stats', { due: due.length, learned, total: deck.length })}
+        </span>
+      </div>
+
+      {deck.length === 0 && (
+        <p className="muted">{t('review.empty')}</p>
+      )}
+
+      {deck.length > 0 && !card && (
+        <p className="muted">{t('review.nothingDue')}</p>
+      )}
+
+      {card && (
+        <div className="flashcard">
+          <div className="flashcard-front">
+            <span className="flashcard-word" dir="auto">{card.word}</span>
+            <span className="badge">{card.langCode}</span>
+            {card.lapses > 0 && (
+              <span className="badge badge-warning">{t('review.lapses', { count: card.lapses })}</span>
+            )}
+          </div>
+          {card.examples[0] && (
+            <p className="learning-example">
+              <span className="example-label">{t('list.line')}</span>{' '}
+              <span className="example-text" dir="auto">
+                {highlightSegments(card.examples[0], card.word, card.langCode).map((seg, i) =>
+                  seg.match ? <mark key={i}>{seg.text}</mark> : <span key={i}>{seg.text}</span>,
+                )}
+              </span>
+            </p>
+          )}
+
+          {!revealed && (
+            <button type="button" className="button-primary" onClick={() => setRevealed(true)}>
+              {t('review.show')}
+            </button>
+          )}
+
+          {revealed && (
+            <>
+              <div className="flashcard-back">
+                <span className="translation-text">{card.translation ?? t('review.noTranslation')}</span>
+                {card.explanation && (
+                  <p className="learning-explanation">💡 {card.explanation}</p>
+                )}
+                {card.examples.length > 1 && (
+                  <ul className="flashcard-examples">
+                    {card.examples.slice(1).map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="grade-buttons">
+                {GRADES.map((grade) => (
+                  <button
+                    key={grade}
+                    type="button"
+                    className={`grade-button grade-${grade}`}
+                    onClick={() => handleGrade(grade)}
+                  >
+                    {t(`review.${grade}`)}
+                    <small>{previewInterval(card, grade, now)}</small>
+                  </button>
+                ))}
+              </div>
+              <button type="button" className="link-button" onClick={() => onRemove(card.id)}>
+                {t('review.remove')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default ReviewPanel
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+
+import type { SpeechBackend, SpeechSettings, SpeechVoice } from '../speech/tts'
+import { DEFAULT_SERVER_URL, MAX_RATE, MIN_RATE, SPEECH_BACKENDS } from '../speech/tts'
+import { languageName, t } from '../i18n/i18n'
+
+type SpeechPanelProps = {
+  settings: SpeechSettings
+  backend: SpeechBackend
+  /** Language whose voice is being picked: the song's, or the one being studied. */
+  langCode: string
+  /** Text to try the voice on. */
+  sample: string
+  onChange: (patch: Partial<SpeechSettings>) => void
+  onSpeak: (text: string, langCode: string) => void
+}
+
+/** Pronunciation settings: where speech comes from, the voice for the song's language and the speed. */
+function SpeechPanel({ settings, backend, langCode, sample, onChange, onSpeak }: SpeechPanelProps) {
+  const [voices, setVoices] = useState<{ langCode: string; backend: SpeechBackend; list: SpeechVoice[] } | null>(
+    null,
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    backend
+      .voices(langCode)
+      .then((list) => {
+        if (!cancelled) setVoices({ langCode, backend, list })
+      })
+      .catch((err) => console.error('Voice list error:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [backend, langCode])
+
+  const list = voices?.langCode === langCode && voices.backend === backend ? voices.list : []
+  const voice = settings.voices[langCode] ?? ''
+  const setVoice = (value: string) => {
+    const next = { ...settings.voices }
+    if (value) next[langCode] = value
+    else delete next[langCode]
+    onChange({ voices: next })
+  }
+
+  return (
+    <details className="form-details speech-panel">
+      <summary className="form-label">{t('speech.title')}</summary>
+      <div className="form-grid">
+        <div className="form-row">
+          <label htmlFor="speechBackend" className="form-help">
+            {t('speech.backend')}
+          </label>
+          <select
+            id="speechBackend"
+            className="select select-small"
+            value={settings.backend}
+            onChange={(e) => onChange({ backend: e.target.value as SpeechSettings['backend'] })}
+          >
+            {Object.entries(SPEECH_BACKENDS).map(([id, info]) => (
+              <option key={id} value={id}>
+                {t(info.label)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {settings.backend === 'server' && (
+          <div className="form-row">
+            <label htmlFor="speechServer" className="form-help">
+              {t('form.serverUrl')}
+            </label>
+            <input
+              id="speechServer"
+              className="input"
+              placeholder={DEFAULT_SERVER_URL}
+              value={settings.serverUrl}
+              onChange={(e) => onChange({ serverUrl: e.target.value })}
+            />
+          </div>
+        )}
+
+        <div className="form-row">
+          <label htmlFor="speechVoice" className="form-help">
+            {t('speech.voice', { language: languageName(langCode) })}
+          </label>
+          {settings.backend === 'server' && list.length === 0 ? (
+            <input
+              id="speechVoice"
+              className="input"
+              placeholder={t('speech.serverDefault')}
+              value={voice}
+              onChange={(e) => setVoice(e.target.value)}
+            />
+          ) : (
+            <select
+              id="speechVoice"
+              className="select select-small"
+              value={voice}
+              onChange={(e) => setVoice(e.target.value)}
+            >
+              <option value="">{list.length > 0 ? t('speech.bestMatch') : t('speech.noVoice')}</option>
+              {list.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="form-row">
+          <label htmlFor="speechRate" className="form-help">
+            {t('speech.speed', { rate: settings.rate.toFixed(2) })}
+          </label>
+          <input
+            id="speechRate"
+            type="range"
+            min={MIN_RATE}
+            max={MAX_RATE}
+            step="0.05"
+            value={settings.rate}
+            onChange={(e) => onChange({ rate: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+      <div className="library-actions">
+        <button type="button" className="link-button" onClick={() => onSpeak(sample, langCode)}>
+          {t('speech.try')}
+        </button>
+      </div>
+    </details>
+  )
+}
+
+export default SpeechPanel
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+
+import type { UsageRecord, UsageTotals } from '../usage/usage'
+import { formatCost, monthKey, spentInMonth, totalsBy } from '../usage/usage'
+import { locale, t } from '../i18n/i18n'
+
+/** Most recent calls listed individually. */
+const RECENT_CALLS = 20
+
+type UsagePanelProps = {
+  usage: UsageRecord[]
+  /** Current time, owned by the parent like the review deck's. */
+  now: number
+  budget: number | null
+  onBudgetChange: (budget: number | null) => void
+  onClearCache: () => Promise<void>
+}
+
+function TotalsTable({ title, totals }: { title: string; totals: UsageTotals[] }) {
+  return (
+    <table className="usage-table">
+      <thead>
+        <tr>
+          <th>{title}</th>
+          <th>{t('usage.calls')}</th>
+          <th>{t('usage.tokens')}</th>
+          <th>{t('usage.cost')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {totals.map((row) => (
+          <tr key={row.key}>
+            <td>{row.key}</td>
+            <td>{row.calls}</td>
+            <td>
+              {row.inputTokens.toLocaleString(locale())} / {row.outputTokens.toLocaleString(locale())}
+            </td>
+            <td title={row.unpriced > 0 ? t('usage.unpriced', { count: row.unpriced }) : undefined}>
+              {formatCost(row.cost)}
+              {row.unpriced > 0 && ' +?'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function UsagePanel({ usage, now, budget, onBudgetChange, onClearCache }: UsagePanelProps) {
+  const [budgetInput, setBudgetInput] = useState(budget ? String(budget) : '')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const spent = spentInMonth(usage, now)
+  const byMonth = totalsBy(usage, (r) => monthKey(r.createdAt))
+  const bySong = totalsBy(usage, (r) => r.song ?? t('usage.otherRequests'))
+
+  const handleClearCache = () => {
+    onClearCache()
+      .then(() => setMessage(t('usage.cacheCleared')))
+      .catch((err) => setMessage(err instanceof Error ? err.message : t('usage.cacheFailed')))
+  }
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2 className="card-title">{t('usage.title')}</h2>
+        <span className="muted">
+          {budget === null
+            ? t('usage.spent', { spent: formatCost(spent) })
+            : t('usage.spentOfBudget', { spent: formatCost(spent), budget: formatCost(budget) })}
+        </span>
+      </div>
+
+      {budget !== null && (
+        <div className="usage-meter" aria-hidden="true">
+          <div
+            className={`usage-meter-fill${spent > budget ? ' usage-meter-over' : ''}`}
+            style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <div className="form">
+        <div className="form-row">
+          <label htmlFor="budget" className="form-label">
+            {t('usage.budget')}
+          </label>
+          <div className="library-actions">
+            <input
+              id="budget"
+              className="input"
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder={t('usage.noBudget')}
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+            />
+            <button
+              type="button"
+              className="tab"
+              onClick={() => {
+                const value = Number(budgetInput)
+                onBudgetChange(value > 0 ? value : null)
+                setMessage(value > 0 ? t('usage.budgetSet', { budget: formatCost(value) }) : t('usage.budgetRemoved'))
+              }}
+            >
+              {t('common.save')}
+            </button>
+          </div>
+          <small className="form-help">
+            {t('usage.budgetHelp')}
+          </small>
+        </div>
+        <div className="library-actions">
+          <button type="button" className="link-button" onClick={handleClearCache}>
+            {t('usage.clearCache')}
+          </button>
+        </div>
+        {message && <p className="muted">{message}</p>}
+      </div>
+
+      {usage.length === 0 && (
+        <p className="muted">{t('usage.empty')}</p>
+      )}
+
+      {usage.length > 0 && (
+        <>
+          <TotalsTable title={t('usage.month')} totals={byMonth} />
+          <TotalsTable title={t('usage.song')} totals={bySong} />
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>{t('usage.recent')}</th>
+                <th>{t('usage.model')}</th>
+                <th>{t('usage.tokens')}</th>
+                <th>{t('usage.cost')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.slice(0, RECENT_CALLS).map((r) => (
+                <tr key={r.id}>
+                  <td>
+                    {new Date(r.createdAt).toLocaleString(locale())} · {t(`task.${r.task}`)}
+                  </td>
+                  <td>{r.model}</td>
+                  <td title={r.estimated ? t('usage.estimated') : undefined}>
+                    {r.estimated && '~'}
+                    {r.inputTokens.toLocaleString(locale())} / {r.outputTokens.toLocaleString(locale())}
+                  </td>
+                  <td>{r.cost === null ? t('usage.unknown') : formatCost(r.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  )
+}
+
+export default UsagePanel
@@ -0,0 +1,178 @@
+import type { ChangeEvent } from 'react'
+import { useState } from 'react'
+
+import type { VocabularyEntry, WordStatus } from '../vocabulary/profile'
+import { parseWordList } from '../vocabulary/profile'
+import { t } from '../i18n/i18n'
+
+const STATUSES: WordStatus[] = ['known', 'learning', 'ignored']
+
+type VocabularyPanelProps = {
+  vocabulary: VocabularyEntry[]
+  /** Language of the current song, preselected when there is one. */
+  defaultLangCode?: string
+  onSetStatus: (word: string, langCode: string, status: WordStatus | null) => void
+  onImport: (words: string[], langCode: string, status: WordStatus) => Promise<number>
+}
+
+function VocabularyPanel({ vocabulary, defaultLangCode, onSetStatus, onImport }: VocabularyPanelProps) {
+  const languages = [...new Set(vocabulary.map((e) => e.langCode))].sort()
+  const [langCode, setLangCode] = useState(defaultLangCode ?? languages[0] ?? '')
+  const [statusFilter, setStatusFilter] = useState<WordStatus | 'all'>('all')
+  const [importStatus, setImportStatus] = useState<WordStatus>('known')
+  const [importText, setImportText] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const entries = vocabulary
+    .filter((e) => e.langCode === langCode && (statusFilter === 'all' || e.status === statusFilter))
+    .sort((a, b) => a.word.localeCompare(b.word, langCode || undefined))
+  const counts = STATUSES.map(
+    (status) => vocabulary.filter((e) => e.langCode === langCode && e.status === status).length,
+  )
+
+  const runImport = async (text: string) => {
+    const code = langCode.trim()
+    if (!code) {
+      setMessage(t('vocab.noLanguage'))
+      return
+    }
+    const words = parseWordList(text)
+    if (words.length === 0) {
+      setMessage(t('vocab.noWords'))
+      return
+    }
+    const count = await onImport(words, code, importStatus)
+    setMessage(t('vocab.imported', { count, status: t(`status.${importStatus}`) }))
+    setImportText('')
+  }
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file
+      .text()
+      .then(runImport)
+      .catch((err) => setMessage(err instanceof Error ? err.message : t('vocab.readFailed')))
+  }
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2 className="card-title">{t('vocab.title')}</h2>
+        <span className="muted">
+          {t('vocab.stats', { known: counts[0], learning: counts[1], ignored: counts[2] })}
+        </span>
+      </div>
+
+      <div className="form">
+        <div className="form-grid">
+          <div className="form-row">
+            <label htmlFor="vocabLang" className="form-label">
+              {t('vocab.language')}
+            </label>
+            <input
+              id="vocabLang"
+              className="input"
+              list="vocabLangs"
+              placeholder={t('vocab.languagePlaceholder')}
+              value={langCode}
+              onChange={(e) => setLangCode(e.target.value.trim())}
+            />
+            <datalist id="vocabLangs">
+              {languages.map((code) => (
+                <option key={code} value={code} />
+              ))}
+            </datalist>
+          </div>
+          <div className="form-row">
+            <label htmlFor="vocabFilter" className="form-label">
+              {t('vocab.show')}
+            </label>
+            <select
+              id="vocabFilter"
+              className="select"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as WordStatus | 'all')}
+            >
+              <option value="all">{t('vocab.all')}</option>
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {t(`status.${status}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <details className="form-details">
+          <summary className="form-label">{t('vocab.importList')}</summary>
+          <div className="form-row">
+            <textarea
+              className="textarea textarea-small"
+              rows={4}
+              placeholder={t('vocab.importPlaceholder')}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <div className="library-actions">
+              <select
+                className="select select-small"
+                aria-label={t('vocab.importStatus')}
+                value={importStatus}
+                onChange={(e) => setImportStatus(e.target.value as WordStatus)}
+              >
+                {STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {t('vocab.as', { status: t(`status.${status}`) })}
+                  </option>
+                ))}
+              </select>
+              <button type="button" className="tab" onClick={() => void runImport(importText)}>
+                {t('vocab.import')}
+              </button>
+              <label className="tab">
+                {t('vocab.importFile')}
+                <input type="file" accept=".txt,text/plain" hidden onChange={handleFile} />
+              </label>
+            </div>
+          </div>
+        </details>
+        {message && <p className="muted">{message}</p>}
+      </div>
+
+      {entries.length === 0 && (
+        <p className="muted">{t('vocab.empty')}</p>
+      )}
+
+      <ul className="vocab-list">
+        {entries.map((entry) => (
+          <li key={entry.id} className="vocab-entry">
+            <span dir="auto">{entry.word}</span>
+            <select
+              className="select select-small"
+              aria-label={t('vocab.statusOf', { word: entry.word })}
+              value={entry.status}
+              onChange={(e) => onSetStatus(entry.word, entry.langCode, e.target.value as WordStatus)}
+            >
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {t(`status.${status}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onSetStatus(entry.word, entry.langCode, null)}
+            >
+              {t('common.remove')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export default VocabularyPanel
@@ -0,0 +1,255 @@
+import { strToU8, zipSync } from 'fflate'
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url'
+
+import type { LearningItem } from '../types'
+import { highlightSegments } from '../text/anchor'
+import type { ExportContext, UntranslatedPolicy } from './common'
+import { hasTranslation, prepareItems, untranslatedMark } from './common'
+
+// Fixed ids so that re-importing an export updates the same note type instead of adding a copy.
+const MODEL_ID = 1718290311001
+const MODEL_NAME = 'Learn by Songs'
+
+const FIELDS = ['Word', 'Translation', 'SongLine', 'SongLineCloze', 'Explanation', 'Difficulty', 'Song']
+
+const CSS = `.card { font-family: system-ui, sans-serif; font-size: 20px; text-align: center; color: #0f172a; background: #fff; }
+.word { font-size: 1.6em; font-weight: 700; }
+.line { margin-top: 0.8em; font-style: italic; color: #4b5563; }
+.translation { font-size: 1.2em; color: #0f766e; }
+.explanation { margin-top: 0.6em; font-size: 0.8em; color: #6b7280; }
+.meta { margin-top: 0.8em; font-size: 0.7em; color: #9ca3af; text-transform: uppercase; letter-spacing: 0.08em; }
+.cloze { font-weight: 700; color: #6366f1; }`
+
+const TEMPLATES = [
+  {
+    name: 'Recognition',
+    qfmt: '<div class="word">{{Word}}</div>{{#SongLine}}<div class="line">{{SongLine}}</div>{{/SongLine}}',
+    afmt:
+      '{{FrontSide}}<hr id=answer><div class="translation">{{Translation}}</div>' +
+      '{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}' +
+      '<div class="meta">{{Difficulty}}{{#Song}} · {{Song}}{{/Song}}</div>',
+  },
+  {
+    name: 'Lyric cloze',
+    qfmt:
+      '{{#SongLineCloze}}<div class="line">{{SongLineCloze}}</div>' +
+      '<div class="explanation">{{Translation}}</div>{{/SongLineCloze}}',
+    afmt: '{{FrontSide}}<hr id=answer><div class="word">{{Word}}</div><div class="line">{{SongLine}}</div>',
+  },
+]
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+async function sha1Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text))
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Anki tags may not contain spaces. */
+function tag(text: string): string {
+  return text.trim().replace(/\s+/g, '_')
+}
+
+/** The song line as HTML, with the item either in bold or replaced by a cloze blank. */
+function lineHtml(item: LearningItem, langCode: string | undefined, mode: 'bold' | 'cloze'): string {
+  const segments = highlightSegments(item.example, item.word, langCode)
+  if (mode === 'cloze' && !segments.some((seg) => seg.match)) return ''
+  return segments
+    .map((seg) => {
+      if (!seg.match) return escapeHtml(seg.text)
+      return mode === 'bold' ? `<b>${escapeHtml(seg.text)}</b>` : '<span class="cloze">[...]</span>'
+    })
+    .join('')
+}
+
+function noteFields(item: LearningItem, context: ExportContext): string[] {
+  const langCode = item.langCode ?? context.language?.code
+  return [
+    escapeHtml(item.word),
+    escapeHtml(item.translation?.trim() || untranslatedMark()),
+    lineHtml(item, langCode, 'bold'),
+    lineHtml(item, langCode, 'cloze'),
+    escapeHtml(item.explanation ?? ''),
+    item.difficultyBand,
+    escapeHtml([context.title, context.artist].filter(Boolean).join(' — ')),
+  ]
+}
+
+function collectionJSON(deckId: number, deckName: string, now: number) {
+  const seconds = Math.floor(now / 1000)
+  const model = {
+    id: MODEL_ID,
+    name: MODEL_NAME,
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    css: CSS,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    flds: FIELDS.map((name, ord) => ({
+      name,
+      ord,
+      font: 'Arial',
+      size: 20,
+      media: [],
+      rtl: false,
+      sticky: false,
+    })),
+    tmpls: TEMPLATES.map((tmpl, ord) => ({ ...tmpl, ord, did: null, bqfmt: '', bafmt: '' })),
+    // Card 1 needs Word, card 2 needs SongLineCloze.
+    req: [
+      [0, 'any', [0]],
+      [1, 'any', [3]],
+    ],
+  }
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  })
+  return {
+    conf: {
+      activeDecks: [1],
+      curDeck: 1,
+      curModel: MODEL_ID,
+      nextPos: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+      newBury: true,
+    },
+    models: { [MODEL_ID]: model },
+    decks: { 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) },
+    dconf: {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, bury: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  }
+}
+
+/**
+ * Build an Anki `.apkg` package: a zipped SQLite collection with one note type ("Learn by Songs")
+ * giving a recognition card and, when the word is on its song line, a lyric cloze card.
+ */
+export async function toAnkiPackage(
+  items: LearningItem[],
+  context: ExportContext,
+  policy: UntranslatedPolicy,
+): Promise<Blob> {
+  const { default: initSqlJs } = await import('sql.js')
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl })
+  const db = new SQL.Database()
+
+  try {
+    const now = Date.now()
+    const seconds = Math.floor(now / 1000)
+    const deckName = ['Learn by Songs', context.title || 'Song'].join('::')
+    const deckId = parseInt((await sha1Hex(deckName)).slice(0, 12), 16)
+    const { conf, models, decks, dconf } = collectionJSON(deckId, deckName, now)
+
+    db.run(SCHEMA)
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      seconds,
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify(dconf),
+      '{}',
+    ])
+
+    const prepared = prepareItems(items, policy)
+    for (const [index, item] of prepared.entries()) {
+      const langCode = item.langCode ?? context.language?.code ?? 'und'
+      const fields = noteFields(item, context)
+      const noteId = now + index
+      const hash = await sha1Hex(`${langCode}:${item.word}`)
+      const tags = [
+        'learn-by-songs',
+        `difficulty::${item.difficultyBand}`,
+        `lang::${tag(langCode)}`,
+        ...(hasTranslation(item) ? [] : ['untranslated']),
+      ]
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        noteId,
+        hash.slice(0, 10),
+        MODEL_ID,
+        seconds,
+        ` ${tags.join(' ')} `,
+        fields.join('\x1f'),
+        item.word,
+        parseInt((await sha1Hex(item.word)).slice(0, 8), 16),
+      ])
+      // Card ordinals with their required field present.
+      const ords = fields[3] ? [0, 1] : [0]
+      for (const ord of ords) {
+        db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [
+          noteId * 10 + ord,
+          noteId,
+          deckId,
+          ord,
+          seconds,
+          index + 1,
+        ])
+      }
+    }
+
+    const zip = zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}'),
+    })
+    return new Blob([zip], { type: 'application/zip' })
+  } finally {
+    db.close()
+  }
+}
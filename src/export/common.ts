@@ -0,0 +1,58 @@
+import type { LearningItem, UserLevel } from '../types'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import { highlightSegments } from '../text/anchor'
+import { t } from '../i18n/i18n'
+
+/** Song details written alongside the items. */
+export type ExportContext = {
+  title: string
+  artist: string
+  language: DetectedLanguage | null
+  level: UserLevel
+  /** Language the items were translated into. */
+  nativeLang: string
+}
+
+/** What to do with items whose translation failed: leave them out, or keep them marked as untranslated. */
+export type UntranslatedPolicy = 'exclude' | 'mark'
+
+/** Stands in for a missing translation on exported cards, in the learner's language. */
+export function untranslatedMark(): string {
+  return t('export.noTranslation')
+}
+
+export function hasTranslation(item: LearningItem): boolean {
+  return Boolean(item.translation?.trim())
+}
+
+/** Items to export under the given policy. Items not found in the lyrics are never exported. */
+export function prepareItems(items: LearningItem[], policy: UntranslatedPolicy): LearningItem[] {
+  return items.filter((item) => !item.notInLyrics && (policy === 'mark' || hasTranslation(item)))
+}
+
+/** The example line with the item blanked out, for cloze cards. Empty when the item isn't on the line. */
+export function clozeLine(item: LearningItem, langCode?: string, blank = '[...]'): string {
+  const segments = highlightSegments(item.example, item.word, langCode)
+  if (!segments.some((seg) => seg.match)) return ''
+  return segments.map((seg) => (seg.match ? blank : seg.text)).join('')
+}
+
+/** File name stem based on the song title, e.g. `learn-by-song-ik-ga-slapen`. */
+export function exportFileStem(context: ExportContext): string {
+  const slug = context.title
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+    .slice(0, 40)
+  return slug ? `learn-by-song-${slug}` : 'learn-by-song'
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,77 @@
+import type { LearningItem } from '../types'
+import type { ExportContext, UntranslatedPolicy } from './common'
+import { clozeLine, hasTranslation, prepareItems, untranslatedMark } from './common'
+import type { MessageKey } from '../i18n/i18n'
+import { t } from '../i18n/i18n'
+
+export type CsvColumn =
+  | 'word'
+  | 'translation'
+  | 'example'
+  | 'cloze'
+  | 'explanation'
+  | 'difficulty'
+  | 'score'
+  | 'count'
+  | 'lines'
+  | 'language'
+  | 'song'
+  | 'status'
+
+export const CSV_COLUMNS: Record<
+  CsvColumn,
+  { label: MessageKey; value: (item: LearningItem, context: ExportContext) => string }
+> = {
+  word: { label: 'csv.word', value: (item) => item.word },
+  translation: {
+    label: 'csv.translation',
+    value: (item) => item.translation?.trim() || untranslatedMark(),
+  },
+  example: { label: 'csv.example', value: (item) => item.example },
+  cloze: {
+    label: 'csv.cloze',
+    value: (item, context) => clozeLine(item, item.langCode ?? context.language?.code),
+  },
+  explanation: { label: 'csv.explanation', value: (item) => item.explanation ?? '' },
+  difficulty: { label: 'csv.difficulty', value: (item) => item.difficultyBand },
+  score: { label: 'csv.score', value: (item) => String(item.difficultyScore) },
+  count: { label: 'csv.count', value: (item) => String(item.count) },
+  lines: {
+    label: 'csv.lines',
+    value: (item) => (item.lines ?? []).map((n) => n + 1).join(' '),
+  },
+  language: { label: 'csv.language', value: (item, context) => item.langCode ?? context.language?.code ?? '' },
+  song: {
+    label: 'csv.song',
+    value: (_item, context) => [context.title, context.artist].filter(Boolean).join(' — '),
+  },
+  status: {
+    label: 'csv.status',
+    value: (item) => (hasTranslation(item) ? 'ok' : 'untranslated'),
+  },
+}
+
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = ['word', 'translation', 'example', 'explanation', 'difficulty']
+
+type CsvOptions = {
+  columns: CsvColumn[]
+  delimiter: ',' | ';' | '\t'
+  header: boolean
+  untranslated: UntranslatedPolicy
+}
+
+function escapeCell(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes('\n') || value.includes('\r') || value.includes(delimiter)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+export function toCSV(items: LearningItem[], context: ExportContext, options: CsvOptions): string {
+  const rows: string[][] = []
+  if (options.header) rows.push(options.columns.map((col) => t(CSV_COLUMNS[col].label)))
+  for (const item of prepareItems(items, options.untranslated)) {
+    rows.push(options.columns.map((col) => CSV_COLUMNS[col].value(item, context)))
+  }
+  return rows.map((row) => row.map((cell) => escapeCell(cell, options.delimiter)).join(options.delimiter)).join('\r\n')
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import type { LearningItem } from '../types'
+import { parseItemsJSON, toItemsJSON } from './json'
+
+const ITEM: LearningItem = {
+  id: 'corazón-0',
+  word: 'corazón',
+  difficultyScore: 5,
+  difficultyBand: 'stretch',
+  count: 1,
+  example: 'Mi corazón late',
+}
+
+const FILE = toItemsJSON(
+  [ITEM],
+  { title: 'Canción', artist: 'Alguien', language: null, level: 'B1', nativeLang: 'en' },
+  'Mi corazón late',
+)
+
+/** The export file with its song changed by `patch`. */
+function withSong(patch: Record<string, unknown>): string {
+  const data = JSON.parse(FILE)
+  return JSON.stringify({ ...data, song: { ...data.song, ...patch } })
+}
+
+describe('parseItemsJSON', () => {
+  it('reads back an exported file', () => {
+    const { song, items } = parseItemsJSON(FILE)
+    expect(song).toMatchObject({ title: 'Canción', artist: 'Alguien', level: 'B1' })
+    expect(items).toEqual([ITEM])
+  })
+
+  it('leaves out a title or artist that is not text', () => {
+    const { song } = parseItemsJSON(withSong({ title: undefined, artist: 42 }))
+    expect(song).toMatchObject({ title: '', artist: '' })
+  })
+
+  it('rejects an unknown level', () => {
+    expect(() => parseItemsJSON(withSong({ level: 'Z9' }))).toThrow()
+    expect(() => parseItemsJSON(withSong({ level: undefined }))).toThrow()
+  })
+})
@@ -0,0 +1,144 @@
+import type { DifficultyBand, GrammarNote, LearningItem, PartOfSpeech } from '../types'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import type { GrammarNotes } from '../library/songs'
+import { LEVELS } from '../offline/analyze'
+import { PARTS_OF_SPEECH, checkGender, checkLanguageCode } from '../llm/schema'
+import { t } from '../i18n/i18n'
+import type { ExportContext } from './common'
+
+const FORMAT = 'learn-by-songs/items'
+const VERSION = 1
+
+/** Lossless export of a song's learning items, re-importable into the app. */
+export type ItemsExport = {
+  format: typeof FORMAT
+  version: number
+  exportedAt: string
+  song: ExportContext & { lyrics: string }
+  items: LearningItem[]
+  /** Grammar and idiom notes on the song; missing in files from before they existed. */
+  grammarNotes: GrammarNotes[]
+}
+
+export function toItemsJSON(
+  items: LearningItem[],
+  context: ExportContext,
+  lyrics: string,
+  grammarNotes: GrammarNotes[] = [],
+): string {
+  const data: ItemsExport = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    song: { ...context, lyrics },
+    items,
+    grammarNotes,
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+const BANDS: DifficultyBand[] = ['comfortable', 'stretch', 'challenging']
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+/** Language codes are used to lowercase and compare words, which throws on a malformed one. */
+export const isLanguageCode = (value: unknown): value is string => checkLanguageCode(value) !== undefined
+
+const isLineList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n) && n >= 0)
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value)
+}
+
+export function isDetectedLanguage(value: unknown): value is DetectedLanguage {
+  const language = value as Partial<DetectedLanguage> | null
+  return isLanguageCode(language?.code) && typeof language.label === 'string'
+}
+
+export function isLearningItem(value: unknown): value is LearningItem {
+  if (!value || typeof value !== 'object') return false
+  const item = value as Record<string, unknown>
+  return (
+    typeof item.id === 'string' &&
+    typeof item.word === 'string' &&
+    typeof item.example === 'string' &&
+    typeof item.count === 'number' &&
+    typeof item.difficultyScore === 'number' &&
+    BANDS.includes(item.difficultyBand as DifficultyBand) &&
+    isOptional(item.lines, isLineList) &&
+    isOptional(item.notInLyrics, (v) => typeof v === 'boolean') &&
+    isOptional(item.langCode, isLanguageCode) &&
+    isOptional(item.lemma, isString) &&
+    isOptional(item.partOfSpeech, (v) => PARTS_OF_SPEECH.includes(v as PartOfSpeech)) &&
+    isOptional(item.gender, (v) => checkGender(v) === v) &&
+    isOptional(item.article, isString) &&
+    isOptional(item.ipa, isString) &&
+    isOptional(item.forms, (v) => Array.isArray(v) && v.every(isString)) &&
+    isOptional(item.explanation, isString) &&
+    isOptional(item.translation, isString) &&
+    isOptional(item.translationError, isString)
+  )
+}
+
+function isGrammarNote(value: unknown): value is GrammarNote {
+  const note = value as Partial<GrammarNote> | null
+  return (
+    typeof note?.id === 'string' &&
+    (note.kind === 'grammar' || note.kind === 'idiom') &&
+    typeof note.title === 'string' &&
+    typeof note.text === 'string' &&
+    typeof note.rule === 'string' &&
+    Array.isArray(note.examples) &&
+    note.examples.every((example) => typeof example === 'string') &&
+    isLineList(note.lines) &&
+    isOptional(note.langCode, isLanguageCode)
+  )
+}
+
+/** Whether a value is a set of grammar notes as stored on a song, for files that carry them. */
+export function isGrammarNotes(value: unknown): value is GrammarNotes {
+  const notes = value as Partial<GrammarNotes> | null
+  return (
+    isLanguageCode(notes?.nativeLang) &&
+    notes.level !== undefined &&
+    LEVELS.includes(notes.level) &&
+    typeof notes.analyzedAt === 'number' &&
+    Array.isArray(notes.notes) &&
+    notes.notes.every(isGrammarNote)
+  )
+}
+
+/** Parse a file written by `toItemsJSON`. Throws a user-facing error for anything else. */
+export function parseItemsJSON(text: string): ItemsExport {
+  let data: Partial<ItemsExport>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error(t('error.invalidJSON'))
+  }
+  if (data.format !== FORMAT || typeof data.version !== 'number') {
+    throw new Error(t('error.notExportFile'))
+  }
+  if (data.version > VERSION) {
+    throw new Error(t('error.newerFile'))
+  }
+  const { song } = data
+  if (!song || typeof song.lyrics !== 'string' || !LEVELS.includes(song.level) || !Array.isArray(data.items)) {
+    throw new Error(t('error.exportIncomplete'))
+  }
+  const invalid = data.items.findIndex((item) => !isLearningItem(item))
+  if (invalid !== -1) {
+    throw new Error(t('error.exportItem', { n: invalid + 1 }))
+  }
+  return {
+    ...(data as ItemsExport),
+    song: {
+      ...song,
+      title: typeof song.title === 'string' ? song.title : '',
+      artist: typeof song.artist === 'string' ? song.artist : '',
+      language: isDetectedLanguage(song.language) ? song.language : null,
+    },
+    grammarNotes: Array.isArray(data.grammarNotes) ? data.grammarNotes.filter(isGrammarNotes) : [],
+  }
+}
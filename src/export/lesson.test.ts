@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+
+import type { LearningItem } from '../types'
+import type { Lesson } from './lesson'
+import {
+  createLesson,
+  hasLessonFragment,
+  lessonFromFragment,
+  lessonLink,
+  parseLesson,
+  toLessonJSON,
+} from './lesson'
+
+const ITEM: LearningItem = {
+  id: 'corazón-0',
+  word: 'corazón',
+  langCode: 'es',
+  difficultyScore: 5,
+  difficultyBand: 'stretch',
+  count: 2,
+  example: 'Mi corazón late',
+  lines: [0],
+  translation: 'heart',
+}
+
+const LESSON: Lesson = createLesson({
+  song: {
+    title: 'Canción',
+    artist: 'Alguien',
+    lyrics: 'Mi corazón late\nTu corazón',
+    language: { code: 'es', label: 'Spanish' },
+  },
+  settings: { level: 'B1', nativeLang: 'en', translationStyle: 'natural', studyLang: '' },
+  items: [ITEM],
+  lineTranslations: [
+    { targetLang: 'en', style: 'natural', lines: ['My heart beats', 'Your heart'], translatedAt: 0 },
+  ],
+  grammarNotes: [],
+})
+
+/** The lesson as JSON, with some of its fields replaced. */
+function withPatch(patch: (lesson: Lesson) => unknown): string {
+  return JSON.stringify(patch(structuredClone(LESSON)))
+}
+
+describe('lesson files and links', () => {
+  it('reads back a lesson file as it was written', () => {
+    expect(parseLesson(toLessonJSON(LESSON))).toEqual(LESSON)
+  })
+
+  it('reads back a lesson link as it was made', async () => {
+    const link = await lessonLink(LESSON, 'https://example.com/app/#old')
+    const { hash } = new URL(link)
+    expect(hasLessonFragment(hash)).toBe(true)
+    expect(await lessonFromFragment(hash)).toEqual(LESSON)
+  })
+
+  it('rejects damaged links', async () => {
+    await expect(lessonFromFragment('#lesson=not-a-lesson')).rejects.toThrow()
+  })
+})
+
+describe('parseLesson', () => {
+  it('rejects files that are not lessons', () => {
+    expect(() => parseLesson('{')).toThrow()
+    expect(() => parseLesson(JSON.stringify({ format: 'something-else', version: 1 }))).toThrow()
+  })
+
+  it('rejects an invalid native language', () => {
+    const text = withPatch((l) => ({ ...l, settings: { ...l.settings, nativeLang: 'not a code' } }))
+    expect(() => parseLesson(text)).toThrow()
+  })
+
+  it('rejects items with an invalid language or fields of the wrong type', () => {
+    expect(() => parseLesson(withPatch((l) => ({ ...l, items: [{ ...ITEM, langCode: '%%' }] })))).toThrow()
+    expect(() => parseLesson(withPatch((l) => ({ ...l, items: [{ ...ITEM, forms: [1] }] })))).toThrow()
+    expect(() => parseLesson(withPatch((l) => ({ ...l, items: [{ ...ITEM, lines: ['0'] }] })))).toThrow()
+  })
+
+  it('drops an invalid song or study language', () => {
+    const lesson = parseLesson(
+      withPatch((l) => ({
+        ...l,
+        song: { ...l.song, language: { code: 'x y', label: 'Broken' } },
+        settings: { ...l.settings, studyLang: 'x y' },
+        lineTranslations: [{ ...l.lineTranslations[0], targetLang: 'x y' }],
+      })),
+    )
+    expect(lesson.song.language).toBeNull()
+    expect(lesson.settings.studyLang).toBe('')
+    expect(lesson.lineTranslations).toEqual([])
+  })
+})
@@ -0,0 +1,180 @@
+import type { LearningItem, TranslationStyle, UserLevel } from '../types'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import type { GrammarNotes, LineTranslation } from '../library/songs'
+import type { TimedLine } from '../text/synced'
+import { LEVELS } from '../offline/analyze'
+import { t } from '../i18n/i18n'
+import { isDetectedLanguage, isGrammarNotes, isLanguageCode, isLearningItem } from './json'
+
+const FORMAT = 'learn-by-songs/lesson'
+const VERSION = 1
+
+/** Fragment prefix of a lesson link: `#lesson=` followed by the compressed lesson. */
+const FRAGMENT_PREFIX = '#lesson='
+
+/** Longest lesson link offered. Longer lessons are shared as a file. */
+export const MAX_LINK_LENGTH = 32_000
+
+/** The choices a lesson was made with, applied when it is opened. */
+export type LessonSettings = {
+  level: UserLevel
+  /** Language the items and lines were translated into. */
+  nativeLang: string
+  translationStyle: TranslationStyle
+  /** Language studied in multilingual lyrics, or empty for all of them. */
+  studyLang: string
+}
+
+/**
+ * An analysed song, ready to hand to a class: everything needed to study it without an API key
+ * or any further AI calls.
+ */
+export type Lesson = {
+  format: typeof FORMAT
+  version: number
+  exportedAt: string
+  song: {
+    title: string
+    artist: string
+    lyrics: string
+    language: DetectedLanguage | null
+    timedLines?: TimedLine[]
+  }
+  settings: LessonSettings
+  items: LearningItem[]
+  lineTranslations: LineTranslation[]
+  grammarNotes: GrammarNotes[]
+}
+
+/** What goes into a lesson; the format fields are added by `createLesson`. */
+export type LessonContent = Omit<Lesson, 'format' | 'version' | 'exportedAt'>
+
+export function createLesson(content: LessonContent): Lesson {
+  return { format: FORMAT, version: VERSION, exportedAt: new Date().toISOString(), ...content }
+}
+
+export function toLessonJSON(lesson: Lesson): string {
+  return JSON.stringify(lesson, null, 2)
+}
+
+/** Whether a file is a lesson rather than another kind of export. */
+export function isLessonJSON(text: string): boolean {
+  try {
+    return (JSON.parse(text) as { format?: unknown })?.format === FORMAT
+  } catch {
+    return false
+  }
+}
+
+function isLineTranslation(value: unknown): value is LineTranslation {
+  const translation = value as Partial<LineTranslation> | null
+  return (
+    isLanguageCode(translation?.targetLang) &&
+    (translation.style === 'literal' || translation.style === 'natural') &&
+    Array.isArray(translation.lines) &&
+    translation.lines.every((line) => typeof line === 'string')
+  )
+}
+
+function isTimedLine(value: unknown): value is TimedLine {
+  const line = value as Partial<TimedLine> | null
+  return typeof line?.time === 'number' && typeof line.text === 'string'
+}
+
+/** Parse a lesson file or decoded link. Throws a user-facing error for anything else. */
+export function parseLesson(text: string): Lesson {
+  let data: Partial<Lesson>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error(t('error.lessonInvalid'))
+  }
+  if (data.format !== FORMAT || typeof data.version !== 'number') {
+    throw new Error(t('error.notLesson'))
+  }
+  if (data.version > VERSION) {
+    throw new Error(t('error.newerLesson'))
+  }
+  const { song, settings } = data
+  if (!song || typeof song.lyrics !== 'string' || !Array.isArray(data.items)) {
+    throw new Error(t('error.lessonIncomplete'))
+  }
+  if (!settings || !LEVELS.includes(settings.level) || !isLanguageCode(settings.nativeLang)) {
+    throw new Error(t('error.lessonSettings'))
+  }
+  const invalid = data.items.findIndex((item) => !isLearningItem(item))
+  if (invalid !== -1) {
+    throw new Error(t('error.lessonItem', { n: invalid + 1 }))
+  }
+
+  return {
+    format: FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    song: {
+      title: typeof song.title === 'string' ? song.title : '',
+      artist: typeof song.artist === 'string' ? song.artist : '',
+      lyrics: song.lyrics,
+      language: isDetectedLanguage(song.language) ? song.language : null,
+      timedLines:
+        Array.isArray(song.timedLines) && song.timedLines.every(isTimedLine) ? song.timedLines : undefined,
+    },
+    settings: {
+      level: settings.level,
+      nativeLang: settings.nativeLang,
+      translationStyle: settings.translationStyle === 'literal' ? 'literal' : 'natural',
+      // A language studied in this song only, so a bad one just leaves every language in
+      studyLang: isLanguageCode(settings.studyLang) ? settings.studyLang : '',
+    },
+    items: data.items,
+    lineTranslations: Array.isArray(data.lineTranslations) ? data.lineTranslations.filter(isLineTranslation) : [],
+    grammarNotes: Array.isArray(data.grammarNotes) ? data.grammarNotes.filter(isGrammarNotes) : [],
+  }
+}
+
+// Links carry the lesson as deflated JSON in URL-safe base64, so it never reaches a server.
+
+async function deflate(text: string): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  // In chunks, as spreading a large array into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0))
+}
+
+/** A link to this page that opens the lesson. */
+export async function lessonLink(lesson: Lesson, pageUrl: string): Promise<string> {
+  const url = new URL(pageUrl)
+  url.hash = ''
+  return `${url.href}${FRAGMENT_PREFIX}${toBase64Url(await deflate(JSON.stringify(lesson)))}`
+}
+
+export function hasLessonFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX)
+}
+
+/** The lesson in a link's fragment, e.g. `location.hash`. Throws a user-facing error if it is damaged. */
+export async function lessonFromFragment(hash: string): Promise<Lesson> {
+  let text: string
+  try {
+    text = await inflate(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)))
+  } catch {
+    throw new Error(t('error.lessonDamaged'))
+  }
+  return parseLesson(text)
+}
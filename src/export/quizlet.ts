@@ -0,0 +1,10 @@
+import type { LearningItem } from '../types'
+import type { UntranslatedPolicy } from './common'
+import { prepareItems, untranslatedMark } from './common'
+
+/** Tab-separated `term \t definition` lines for Quizlet import. */
+export function toQuizletTSV(items: LearningItem[], policy: UntranslatedPolicy): string {
+  return prepareItems(items, policy)
+    .map((item) => `${item.word}\t${item.translation?.trim() || untranslatedMark()}`)
+    .join('\n')
+}
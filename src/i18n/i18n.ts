@@ -0,0 +1,97 @@
+import en from './locales/en'
+import ar from './locales/ar'
+import de from './locales/de'
+import es from './locales/es'
+import fr from './locales/fr'
+import it from './locales/it'
+import ja from './locales/ja'
+import ko from './locales/ko'
+import pl from './locales/pl'
+import pt from './locales/pt'
+import ru from './locales/ru'
+import tr from './locales/tr'
+import uk from './locales/uk'
+import zhCN from './locales/zh-CN'
+
+export type MessageKey = keyof typeof en
+
+/** Every interface string in one language. English is the reference; the others must have every key. */
+export type Messages = Record<MessageKey, string>
+
+/** Interface languages, by language code. Other native languages get the closest one, or English. */
+const CATALOGS: Record<string, Messages> = {
+  en,
+  ar,
+  de,
+  es,
+  fr,
+  it,
+  ja,
+  ko,
+  pl,
+  pt,
+  ru,
+  tr,
+  uk,
+  'zh-CN': zhCN,
+}
+
+/** Scripts written right to left, by primary language subtag. */
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ps', 'ur', 'yi'])
+
+/** The interface language for a native language: the same code, then the same language, then English. */
+export function uiLanguage(code: string): string {
+  if (CATALOGS[code]) return code
+  const primary = code.split('-')[0].toLowerCase()
+  return Object.keys(CATALOGS).find((ui) => ui.split('-')[0] === primary) ?? 'en'
+}
+
+export function isRightToLeft(code: string): boolean {
+  return RTL_LANGUAGES.has(code.split('-')[0].toLowerCase())
+}
+
+let current = 'en'
+
+/** Switch the interface language. Components pick it up on their next render. */
+export function setLocale(code: string): void {
+  current = uiLanguage(code)
+}
+
+/** The interface language, for `lang` attributes and number and date formatting. */
+export function locale(): string {
+  return current
+}
+
+/** A language's name in the interface language, e.g. "neerlandés" for `nl` in Spanish. */
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames([current], { type: 'language' }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+/**
+ * Pick the form of a message for a count. Messages that depend on one are written as
+ * `one:{count} song|other:{count} songs`, with the categories of `Intl.PluralRules`.
+ */
+function pluralForm(message: string, count: number): string {
+  const forms = new Map(
+    message.split('|').map((form) => {
+      const colon = form.indexOf(':')
+      return [form.slice(0, colon), form.slice(colon + 1)] as const
+    }),
+  )
+  return forms.get(new Intl.PluralRules(current).select(count)) ?? forms.get('other') ?? message
+}
+
+/** The interface string for a key, with `{name}` placeholders filled in. Numbers are formatted for the locale. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  let message = CATALOGS[current][key] ?? en[key]
+  if (message.includes('|') && typeof params.count === 'number') message = pluralForm(message, params.count)
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    if (value === undefined) return placeholder
+    return typeof value === 'number' ? value.toLocaleString(current) : value
+  })
+}
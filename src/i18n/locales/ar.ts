@@ -0,0 +1,459 @@
+import type { Messages } from '../i18n'
+
+const ar: Messages = {
+  'app.title': 'تعلّم بالأغاني',
+  'app.subtitle': 'الصق كلمات أغنية بأي لغة واحصل على قائمة كلمات تناسب مستواك، مترجمة إلى لغتك.',
+  'app.footer':
+    'هذا نموذج تعليمي أولي. تُقدَّر الصعوبة تلقائيًا، فاستخدمها دليلًا فقط أثناء التعلّم بالموسيقى.',
+
+  'nav.analyze': 'تحليل أغنية',
+  'nav.review': 'المراجعة',
+  'nav.library': 'المكتبة',
+  'nav.vocabulary': 'المفردات',
+  'nav.progress': 'التقدّم',
+  'nav.usage': 'الاستخدام',
+
+  'common.add': 'إضافة',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.done': 'تم',
+  'common.edit': 'تعديل',
+  'common.remove': 'إزالة',
+  'common.save': 'حفظ',
+  'common.translateAgain': 'إعادة الترجمة',
+  'common.translating': 'جارٍ الترجمة...',
+  'common.working': 'جارٍ العمل...',
+
+  'form.title': 'العنوان',
+  'form.artist': 'الفنان',
+  'form.optional': 'اختياري',
+  'form.lyrics': 'كلمات الأغنية',
+  'form.newSong': 'بدء أغنية جديدة',
+  'form.example': 'جرّب مثالًا',
+  'form.importSynced': 'استيراد ‎.lrc / .srt',
+  'form.lyricsPlaceholder': 'الصق الكلمات كاملة هنا...',
+  'form.characters': '{count} / {max} حرفًا',
+  'form.maxLength': '(تم بلوغ الحد الأقصى للطول)',
+  'form.songCount':
+    'zero:{count} أغنية|one:أغنية واحدة|two:أغنيتان|few:{count} أغانٍ|many:{count} أغنية|other:{count} أغنية',
+  'form.albumHelp':
+    'هل تلصق ألبومًا كاملًا؟ ضع قبل كل أغنية سطرًا مثل «--- اسم الأغنية ---» لتحليلها معًا وحفظ كل منها على حدة.',
+  'form.offline': 'التحليل دون اتصال (بلا ذكاء اصطناعي ولا مفتاح API)',
+  'form.provider': 'مزوّد الذكاء الاصطناعي',
+  'form.serverUrl': 'عنوان الخادم',
+  'form.serverHelp': 'أي خادم يوفّر {path}، مثل Ollama أو llama.cpp.',
+  'form.models': 'نماذج المهام',
+  'form.level': 'مستواك (في لغة الأغنية)',
+  'form.nativeLang': 'لغتك الأم',
+  'form.nativeLangHelp':
+    'يستخدم التطبيق والترجمات والشروح هذه اللغة. ابحث بالاسم أو اكتب رمز لغة مثل pt-BR.',
+  'form.studyLang': 'لغة الدراسة (اختياري)',
+  'form.studyLangAny': 'كل لغات الأغنية',
+  'form.studyLangHelp': 'في الأغاني متعددة اللغات، ادرس الأسطر المكتوبة بهذه اللغة فقط.',
+
+  'level.A1': 'مبتدئ',
+  'level.A2': 'أساسي',
+  'level.B1': 'متوسط',
+  'level.B2': 'فوق المتوسط',
+  'level.C1': 'متقدم',
+  'level.C2': 'متمكّن',
+
+  'task.detect': 'اكتشاف اللغة',
+  'task.analyze': 'تحليل الكلمات',
+  'task.translate': 'الترجمة',
+
+  'apiKey.label': 'مفتاح API لـ {provider}',
+  'apiKey.locked': 'المفتاح المحفوظ مقفل',
+  'apiKey.passphrase': 'عبارة المرور',
+  'apiKey.passphraseOptional': 'عبارة المرور (اختياري)',
+  'apiKey.unlock': 'فتح القفل',
+  'apiKey.save': 'حفظ المفتاح',
+  'apiKey.test': 'اختبار المفتاح',
+  'apiKey.forget': 'نسيان المفتاح',
+  'apiKey.saved': 'تم حفظ المفتاح على هذا الجهاز.',
+  'apiKey.savedEncrypted': 'تم حفظ المفتاح وتشفيره بعبارة المرور.',
+  'apiKey.unlocked': 'تم فتح قفل المفتاح.',
+  'apiKey.removed': 'تمت إزالة المفتاح من هذا الجهاز.',
+  'apiKey.works': 'المفتاح يعمل.',
+  'apiKey.storedEncrypted': 'محفوظ في هذا المتصفح ومشفّر بعبارة المرور.',
+  'apiKey.storedPlain': 'محفوظ في هذا المتصفح. أضف عبارة مرور لتشفيره.',
+  'apiKey.notStored': 'غير محفوظ: سيُمحى عند إعادة التحميل ما لم تحفظه.',
+  'apiKey.sentOnlyTo': 'لا يُرسَل إلا إلى {provider}.',
+  'apiKey.getOne': 'احصل على مفتاح من',
+
+  'settings.export': 'تصدير الإعدادات',
+  'settings.import': 'استيراد الإعدادات',
+  'settings.exported': 'تم تصدير الإعدادات. لا تُضمَّن مفاتيح API إلا إذا كانت مشفّرة.',
+  'settings.imported': 'تم استيراد الإعدادات.',
+  'settings.importFailed': 'تعذّر استيراد الإعدادات',
+
+  'languagePicker.search': 'ابحث عن لغة...',
+  'languagePicker.invalid': '«{query}» ليس اسم لغة ولا رمز لغة صالحًا.',
+
+  'submit.analyzing': 'الذكاء الاصطناعي يحلّل الكلمات...',
+  'submit.analyzingFound': 'الذكاء الاصطناعي يحلّل الكلمات... عُثر على {count}',
+  'submit.translating': 'جارٍ ترجمة الكلمات... {done}/{total}',
+  'submit.offline': 'البحث عن الكلمات دون اتصال',
+  'submit.llm': 'البحث عن كلمات للتعلّم',
+
+  'error.noLyrics': 'الصق كلمات الأغنية أولًا.',
+  'error.tooLong': 'الكلمات طويلة جدًا ({length} حرفًا). الحد الأقصى {max}.',
+  'error.fileTooLong': 'الكلمات في {file} طويلة جدًا.',
+  'error.noItems': 'لم يُعثر على كلمات للتعلّم. جرّب مستوى آخر أو تحقّق من الكلمات.',
+  'error.offlineFailed': 'فشل التحليل دون اتصال',
+  'error.noNativeLang': 'اختر لغتك الأم.',
+  'error.apiKey': 'أدخل مفتاح API الخاص بـ {provider}.',
+  'error.noStudyLines': 'لا توجد في هذه الكلمات أسطر باللغة: {language}.',
+  'error.allNative': 'هذه الكلمات كلها بلغتك الأم ({language}).',
+  'error.translationFailed': 'فشلت الترجمة',
+  'error.noTranslation': 'لا توجد ترجمة: {reason}',
+  'error.missingFromResponse': 'غير موجودة في الرد',
+  'error.unexpected': 'حدث خطأ غير متوقع',
+  'error.lineNeedsAI': 'تحتاج ترجمة الأسطر إلى مزوّد ذكاء اصطناعي. أوقف وضع عدم الاتصال أولًا.',
+  'error.lineFailed': 'فشلت ترجمة الأسطر',
+  'error.grammarNeedsAI': 'تحتاج ملاحظات القواعد إلى مزوّد ذكاء اصطناعي. أوقف وضع عدم الاتصال أولًا.',
+  'error.grammarFailed': 'فشل تحليل القواعد',
+  'error.offlineLookup': 'يتطلب البحث دون اتصال أغنية بلغة لها قائمة كلمات مدمجة.',
+  'error.importFailed': 'تعذّر استيراد الملف',
+  'error.lessonLink': 'تعذّر فتح رابط الدرس',
+  'error.wrongPassphrase': 'عبارة المرور خاطئة.',
+  'error.invalidJSON': 'هذا الملف ليس بتنسيق JSON صالح.',
+  'error.newerFile': 'صُدِّر هذا الملف بإصدار أحدث من التطبيق.',
+  'error.notSettingsFile': 'هذا ليس ملف إعدادات من «تعلّم بالأغاني».',
+  'error.notExportFile': 'هذا ليس ملف تصدير من «تعلّم بالأغاني».',
+  'error.exportIncomplete': 'ملف التصدير ينقصه الأغنية أو عناصرها.',
+  'error.exportItem': 'العنصر {n} في ملف التصدير غير مكتمل.',
+  'error.noLanguage': 'تعذّر اكتشاف لغة الكلمات.',
+  'error.noWordList':
+    'لا توجد بعد قائمة كلمات للتحليل دون اتصال بلغة {language}. استخدم مزوّد ذكاء اصطناعي بدلًا من ذلك.',
+  'error.noTimedLines': 'لم يُعثر على أسطر ذات توقيت في {file}.',
+  'error.lessonInvalid': 'هذا الدرس ليس بتنسيق JSON صالح.',
+  'error.notLesson': 'هذا ليس درسًا من «تعلّم بالأغاني».',
+  'error.newerLesson': 'أُنشئ هذا الدرس بإصدار أحدث من التطبيق.',
+  'error.lessonIncomplete': 'الدرس ينقصه الأغنية أو عناصرها.',
+  'error.lessonSettings': 'الدرس ينقصه المستوى أو اللغة.',
+  'error.lessonItem': 'العنصر {n} في الدرس غير مكتمل.',
+  'error.lessonDamaged': 'رابط الدرس هذا غير مكتمل أو تالف.',
+  'error.taskFailed': 'فشل {task}: {reason}',
+  'error.noResponse': 'لم يُرسل الذكاء الاصطناعي أي رد',
+  'error.invalidResponse': 'لم يرد الذكاء الاصطناعي بتنسيق JSON صالح',
+  'error.noWordsInResponse': 'فشل تحليل كلمات الأغنية: رد الذكاء الاصطناعي لا يحتوي على قائمة كلمات.',
+  'error.noNotesInResponse': 'فشل التحليل النحوي: رد الذكاء الاصطناعي لا يحتوي على ملاحظات.',
+  'error.linesUntranslated': 'لم تُرجع ترجمة الأسطر ترجمةً لـ {missing} من {total} سطرًا؛ حاول مرة أخرى.',
+  'error.invalidEntry': 'إدخال غير صالح: {reason}',
+  'error.emptyTranslation': 'الترجمة فارغة',
+  'error.noStreaming': 'هذا الخادم لا يدعم البث.',
+  'error.streamFailed': 'أبلغ الخادم عن خطأ أثناء البث.',
+
+  'warning.rejected':
+    'zero:تم تخطي {count} اقتراح ظل الذكاء الاصطناعي يعيد لها بيانات غير صالحة: {list}|one:تم تخطي اقتراح واحد ظل الذكاء الاصطناعي يعيد له بيانات غير صالحة: {list}|two:تم تخطي اقتراحين ظل الذكاء الاصطناعي يعيد لهما بيانات غير صالحة: {list}|few:تم تخطي {count} اقتراحات ظل الذكاء الاصطناعي يعيد لها بيانات غير صالحة: {list}|many:تم تخطي {count} اقتراحًا ظل الذكاء الاصطناعي يعيد لها بيانات غير صالحة: {list}|other:تم تخطي {count} اقتراح ظل الذكاء الاصطناعي يعيد لها بيانات غير صالحة: {list}',
+  'warning.unnamedEntry': 'إدخال',
+  'warning.translationCancelled': 'أُلغيت الترجمة. حُفظت الكلمات التي عُثر عليها؛ وبعضها بلا ترجمة.',
+  'warning.analysisCancelled': 'أُلغي التحليل. تظهر الكلمات التي عُثر عليها حتى الآن لكنها لم تُحفظ.',
+
+  'budget.analysis': 'هذا التحليل',
+  'budget.translation': 'هذه الترجمة',
+  'budget.grammar': 'تحليل القواعد هذا',
+  'budget.confirm':
+    '{action} سيكلّف نحو {estimate}. لقد أنفقت {spent} من ميزانيتك الشهرية البالغة {budget}، لذا ستتجاوزها. هل تريد المتابعة؟',
+
+  'results.title': 'كلمات للتعلّم من هذه الأغنية',
+  'results.studyLang': 'لغة الدراسة',
+  'results.allLanguages': 'كل اللغات',
+  'results.study': 'ادرس: {language}',
+  'results.importJSON': 'استيراد JSON',
+  'results.empty': 'ستظهر قائمتك هنا بعد تحليل أغنية.',
+
+  'view.list': 'القائمة',
+  'view.lyrics': 'الكلمات',
+  'view.bilingual': 'جنبًا إلى جنب',
+  'view.grammar': 'القواعد والتعابير',
+  'view.karaoke': 'كاريوكي',
+  'view.quiz': 'اختبار',
+
+  'band.comfortable': 'مريح',
+  'band.stretch': 'يتطلب جهدًا',
+  'band.challenging': 'صعب',
+
+  'status.known': 'معروفة',
+  'status.learning': 'قيد التعلّم',
+  'status.ignored': 'متجاهَلة',
+  'status.markKnown': 'أعرف هذه',
+  'status.markIgnored': 'تجاهل',
+  'status.markLearning': 'وضع علامة قيد التعلّم',
+
+  'list.sort': 'ترتيب القائمة',
+  'list.sortSong': 'ترتيب الأغنية',
+  'list.sortHardest': 'الأصعب أولًا',
+  'list.sortEasiest': 'الأسهل أولًا',
+  'list.sortFrequency': 'الأكثر تكرارًا أولًا',
+  'list.group': 'تجميع القائمة',
+  'list.groupNone': 'بلا تجميع',
+  'list.groupPos': 'التجميع حسب نوع الكلمة',
+  'list.groupGender': 'التجميع حسب الجنس',
+  'list.translationStatus': 'حالة الترجمة',
+  'list.anyStatus': 'أي حالة ترجمة',
+  'list.translated': 'مترجمة',
+  'list.untranslated': 'غير مترجمة',
+  'list.failed': 'فشلت الترجمة',
+  'list.difficultyLabel': 'الصعوبة',
+  'list.allDifficulties': 'أي صعوبة',
+  'list.pos': 'نوع الكلمة',
+  'list.allPos': 'كل أنواع الكلمات',
+  'list.gender': 'الجنس',
+  'list.allGenders': 'أي جنس',
+  'list.other': 'أخرى',
+  'list.selected': 'المحدد: {count}',
+  'list.merge': 'دمج',
+  'list.mergeHelp': 'دمج الكلمات المحددة في أول كلمة محددة',
+  'list.clearSelection': 'مسح التحديد',
+  'list.noMatches': 'لا توجد كلمات تطابق هذه المرشحات.',
+  'list.select': 'تحديد «{word}»',
+  'list.difficulty': 'الصعوبة: {band}',
+  'list.appears': 'تظهر {count}×',
+  'list.notInSong': 'ليست في الأغنية',
+  'list.notInSongHelp': 'اقترحها الذكاء الاصطناعي لكنها لا ترد في الكلمات.',
+  'list.article': 'أداة التعريف: {article}',
+  'list.line': 'السطر من الأغنية:',
+  'list.translation': 'الترجمة',
+  'list.translationOptional': 'الترجمة (اختياري)',
+  'list.explanation': 'الشرح',
+  'list.explanationOptional': 'الشرح (اختياري)',
+  'list.addWord': '+ إضافة كلمة',
+  'list.word': 'كلمة أو عبارة',
+  'list.wordPlaceholder': 'كلمة أو عبارة من الأغنية',
+
+  'pos.noun': 'اسم',
+  'pos.verb': 'فعل',
+  'pos.adjective': 'صفة',
+  'pos.adverb': 'ظرف',
+  'pos.pronoun': 'ضمير',
+  'pos.preposition': 'حرف جر',
+  'pos.conjunction': 'حرف عطف',
+  'pos.determiner': 'محدِّد',
+  'pos.numeral': 'عدد',
+  'pos.interjection': 'تعجّب',
+  'pos.phrase': 'عبارة',
+  'pos.other': 'أخرى',
+  'gender.masculine': 'مذكر',
+  'gender.feminine': 'مؤنث',
+  'gender.neuter': 'محايد',
+  'gender.common': 'مشترك',
+
+  'lookup.loading': 'جارٍ البحث...',
+  'lookup.failed': 'فشل البحث',
+  'lookup.noTranslation': 'لا تتوفر ترجمة',
+  'lookup.noTranslationYet': 'لا توجد ترجمة بعد',
+  'lookup.add': 'إضافة إلى قائمتي',
+  'lookup.offlineEstimate': 'المستوى المقدَّر: {level}. تتطلب الترجمة مزوّد ذكاء اصطناعي.',
+  'lyrics.clickHelp': 'انقر على أي كلمة للبحث عنها.',
+
+  'offline.core': 'كلمة أساسية ({language}) بمستوى {level}.',
+  'offline.estimated': 'ليست في قائمة الكلمات الأساسية ({language})؛ المستوى المقدَّر: {level}.',
+
+  'bilingual.style': 'أسلوب الترجمة',
+  'bilingual.literal': 'حرفي',
+  'bilingual.natural': 'طبيعي',
+  'bilingual.translate': 'ترجمة إلى: {language}',
+  'bilingual.translating': 'جارٍ ترجمة الأسطر...',
+
+  'grammar.help': 'نقاط القواعد والتعابير الاصطلاحية في الأغنية، لكلٍّ منها قاعدة قصيرة وأمثلة إضافية.',
+  'grammar.find': 'ابحث عن القواعد والتعابير',
+  'grammar.findAgain': 'ابحث مجددًا',
+  'grammar.finding': 'جارٍ البحث عن القواعد والتعابير...',
+  'grammar.none': 'لم يُعثر على نقاط قواعد أو تعابير تستحق الشرح.',
+  'grammar.grammar': 'قواعد',
+  'grammar.idiom': 'تعبير',
+  'grammar.line': 'السطر {line}:',
+
+  'karaoke.help': 'اختر ملف صوت الأغنية لتغنّي معها. يبقى الملف على جهازك ولا يُحفظ.',
+  'karaoke.change': 'تغيير الصوت',
+  'karaoke.choose': 'اختيار ملف صوتي',
+  'karaoke.loop': 'تكرار هذا السطر',
+  'karaoke.stopLoop': 'إيقاف التكرار',
+  'karaoke.onLine': 'في هذا السطر',
+  'karaoke.noWords': 'لا توجد كلمات من قائمتك.',
+
+  'quiz.intro': 'تدرّب على كلمات هذه الأغنية. تُوضع علامة قيد التعلّم على الكلمات التي تخطئ فيها.',
+  'quiz.cloze': 'املأ الفراغ',
+  'quiz.clozeHelp': 'اكتب الكلمة الناقصة في سطر الأغنية.',
+  'quiz.choice': 'اختيار من متعدد',
+  'quiz.choiceHelp': 'اختر الترجمة الصحيحة.',
+  'quiz.recall': 'الاستدعاء العكسي',
+  'quiz.recallHelp': 'انظر إلى الترجمة واكتب الكلمة.',
+  'quiz.needsTranslations': 'يتطلب كلمات مترجمة',
+  'quiz.available':
+    'zero:لا توجد أسئلة|one:سؤال واحد متاح|two:سؤالان متاحان|few:{count} أسئلة متاحة|many:{count} سؤالًا متاحًا|other:{count} سؤال متاح',
+  'quiz.markedLearning': 'وُضعت علامة قيد التعلّم على: {words}',
+  'quiz.cleared': 'لم تعد قيد التعلّم: {words}',
+  'quiz.again': 'حاول مجددًا',
+  'quiz.another': 'اختر اختبارًا آخر',
+  'quiz.score': 'النتيجة: {score}',
+  'quiz.hint': 'تلميح: {hint}',
+  'quiz.typeWord': 'اكتب الكلمة',
+  'quiz.next': 'التالي',
+  'quiz.results': 'عرض النتائج',
+  'quiz.check': 'تحقّق',
+  'quiz.correct': 'صحيح!',
+  'quiz.answer': 'الإجابة: {answer}',
+
+  'export.button': 'تصدير…',
+  'export.format': 'الصيغة',
+  'export.anki': 'حزمة Anki ‏(.apkg)',
+  'export.csv': 'جدول CSV',
+  'export.json': 'JSON (قابل لإعادة الاستيراد)',
+  'export.quizlet': 'Quizlet (المصطلح ⇥ الترجمة)',
+  'export.lesson': 'درس للمشاركة (ملف أو رابط)',
+  'export.untranslated': 'بلا ترجمة: {count}',
+  'export.noTranslation': '(بلا ترجمة)',
+  'export.exclude': 'استبعادها',
+  'export.mark': 'تضمينها مع علامة «غير مترجمة»',
+  'export.columns': 'الأعمدة',
+  'export.separator': 'الفاصل',
+  'export.comma': 'فاصلة',
+  'export.semicolon': 'فاصلة منقوطة',
+  'export.tab': 'علامة جدولة',
+  'export.jsonHelp':
+    'يتضمن الكلمات وكل العناصر وملاحظات القواعد دون تغيير لتتمكن من إعادة استيرادها إلى التطبيق.',
+  'export.lessonHelp':
+    'يتضمن الكلمات والإعدادات والمفردات وترجمات الأسطر وملاحظات القواعد. يمكن للطلاب فتحه دون مفتاح API ودون أي استدعاء للذكاء الاصطناعي.',
+  'export.copyLink': 'نسخ الرابط',
+  'export.linkCopied': 'تم نسخ الرابط. كل من يفتحه يحصل على هذا الدرس.',
+  'export.linkTooLong': 'هذا الدرس أطول من أن يُشارك برابط. نزّله وشارك الملف بدلًا من ذلك.',
+  'export.preparing': 'جارٍ التحضير...',
+  'export.download': 'تنزيل',
+  'export.failed': 'فشل التصدير',
+
+  'csv.word': 'الكلمة',
+  'csv.translation': 'الترجمة',
+  'csv.example': 'سطر الأغنية',
+  'csv.cloze': 'سطر الأغنية (بفراغ)',
+  'csv.explanation': 'الشرح',
+  'csv.difficulty': 'الصعوبة',
+  'csv.score': 'درجة الصعوبة',
+  'csv.count': 'مرات الظهور',
+  'csv.lines': 'أرقام الأسطر',
+  'csv.language': 'اللغة',
+  'csv.song': 'الأغنية',
+  'csv.status': 'الحالة',
+
+  'speech.title': 'النطق',
+  'speech.backend': 'مصدر الصوت',
+  'speech.browser': 'أصوات المتصفح',
+  'speech.server': 'خادم TTS محلي',
+  'speech.voice': 'الصوت ({language})',
+  'speech.serverDefault': 'افتراضي الخادم',
+  'speech.bestMatch': 'الأنسب',
+  'speech.noVoice': 'لا توجد أصوات مثبتة لهذه اللغة',
+  'speech.speed': 'السرعة: {rate}×',
+  'speech.try': 'تجربة هذا الصوت',
+  'speech.pronounce': 'انطق',
+  'speech.word': 'انطق «{word}»',
+  'speech.line': 'انطق هذا السطر',
+  'speech.failed': 'تعذّر تشغيل النطق',
+  'speech.unsupported': 'هذا المتصفح لا يدعم تحويل النص إلى كلام.',
+  'speech.error': 'فشل النطق: {error}',
+  'speech.serverError': 'ردّ خادم TTS بـ {status} {statusText}.',
+  'speech.badAudio': 'أعاد خادم TTS صوتًا لا يستطيع المتصفح تشغيله.',
+
+  'review.title': 'المراجعة',
+  'review.stats': 'مستحقة: {due} · متعلَّمة: {learned} · في المجموعة: {total}',
+  'review.empty': 'تُضاف الكلمات من الأغاني التي تحللها إلى هنا تلقائيًا.',
+  'review.nothingDue': 'لا شيء مستحق للمراجعة الآن. عد لاحقًا!',
+  'review.lapses': 'نُسيت {count}×',
+  'review.show': 'إظهار الإجابة',
+  'review.noTranslation': 'لا توجد ترجمة محفوظة',
+  'review.again': 'مجددًا',
+  'review.hard': 'صعب',
+  'review.good': 'جيد',
+  'review.easy': 'سهل',
+  'review.remove': 'إزالة من المجموعة',
+
+  'library.title': 'مكتبة الأغاني',
+  'library.saved': 'المحفوظ: {count}',
+  'library.search': 'ابحث بالعنوان أو الفنان أو اللغة أو الكلمات...',
+  'library.empty': 'تُحفظ الأغاني هنا تلقائيًا بعد تحليلها.',
+  'library.noMatches': 'لا توجد أغانٍ تطابق «{query}».',
+  'library.words':
+    'zero:{count} كلمة بمستوى {level}|one:كلمة واحدة بمستوى {level}|two:كلمتان بمستوى {level}|few:{count} كلمات بمستوى {level}|many:{count} كلمةً بمستوى {level}|other:{count} كلمة بمستوى {level}',
+  'library.notAnalysed': 'لم تُحلَّل بعد',
+  'library.levels': 'حُلّلت للمستويات {levels}',
+  'library.open': 'فتح',
+  'library.rerunLevel': 'مستوى إعادة التحليل',
+  'library.rerun': 'إعادة التحليل',
+  'library.confirmDelete': 'حذف «{title}» من مكتبتك؟',
+
+  'vocab.title': 'مفرداتي',
+  'vocab.stats': 'معروفة: {known} · قيد التعلّم: {learning} · متجاهَلة: {ignored}',
+  'vocab.language': 'رمز اللغة',
+  'vocab.languagePlaceholder': 'مثل nl أو es أو fr',
+  'vocab.show': 'عرض',
+  'vocab.all': 'كل الكلمات',
+  'vocab.importList': 'استيراد قائمة كلمات',
+  'vocab.importPlaceholder': 'كلمة في كل سطر، أو مفصولة بفواصل',
+  'vocab.importStatus': 'حالة الكلمات المستوردة',
+  'vocab.as': 'بحالة: {status}',
+  'vocab.import': 'استيراد',
+  'vocab.importFile': 'استيراد ملف ‎.txt',
+  'vocab.empty':
+    'لا توجد كلمات بعد. ضع علامة معروفة أو متجاهَلة على الكلمات في قائمة الأغنية، أو استورد قائمة من الأعلى.',
+  'vocab.statusOf': 'حالة «{word}»',
+  'vocab.noLanguage': 'اختر لغة قائمة الكلمات أولًا.',
+  'vocab.noWords': 'لم يُعثر على كلمات في القائمة.',
+  'vocab.imported':
+    'zero:تم استيراد {count} كلمة بحالة: {status}.|one:تم استيراد كلمة واحدة بحالة: {status}.|two:تم استيراد كلمتين بحالة: {status}.|few:تم استيراد {count} كلمات بحالة: {status}.|many:تم استيراد {count} كلمةً بحالة: {status}.|other:تم استيراد {count} كلمة بحالة: {status}.',
+  'vocab.readFailed': 'تعذّرت قراءة الملف',
+
+  'progress.title': 'تقدّمك',
+  'progress.reviewedToday':
+    'zero:لم تُراجَع أي بطاقة اليوم|one:رُوجعت بطاقة واحدة اليوم|two:رُوجعت بطاقتان اليوم|few:رُوجعت {count} بطاقات اليوم|many:رُوجعت {count} بطاقةً اليوم|other:رُوجعت {count} بطاقة اليوم',
+  'progress.learned': 'الكلمات المتعلَّمة',
+  'progress.days':
+    'zero:{count} يوم|one:يوم واحد|two:يومان|few:{count} أيام|many:{count} يومًا|other:{count} يوم',
+  'progress.streak': 'سلسلة المراجعة',
+  'progress.longest':
+    'zero:الأطول {count} يوم|one:الأطول يوم واحد|two:الأطول يومان|few:الأطول {count} أيام|many:الأطول {count} يومًا|other:الأطول {count} يوم',
+  'progress.songsCompleted': 'الأغاني المكتملة',
+  'progress.songsOf': '{done} من {total}',
+  'progress.coverage': 'الأغنية في نموذج التحليل',
+  'progress.coverageOf': 'أنت تعرف بالفعل نحو {percent} من كلماتها ({known} من {total}، {language}).',
+  'progress.coverageHelp':
+    'يحسب الكلمات التي تعلّمتها أو علّمتها كمعروفة أو متجاهَلة، والكلمات الشائعة دون مستواك ({level}).',
+  'progress.noLyrics': 'الصق كلمات أغنية في تبويب التحليل لترى كم تعرف منها بالفعل.',
+  'progress.empty': 'حلّل الأغاني وراجع كلماتها لترى تقدّمك هنا.',
+  'progress.language': 'اللغة',
+  'progress.learnedColumn': 'متعلَّمة',
+  'progress.learningColumn': 'قيد التعلّم',
+  'progress.level': 'المستوى',
+  'progress.suggestions': 'أغانٍ للدراسة تاليًا',
+  'progress.suggestionsHelp': 'أغاني مكتبتك التي لم تُكملها بعد، الأكثر ألفة أولًا.',
+  'progress.songCoverage': '{percent} من الكلمات معروفة · {done} من {total} مفردة معروفة',
+
+  'usage.title': 'استخدام الذكاء الاصطناعي',
+  'usage.spent': '{spent} هذا الشهر',
+  'usage.spentOfBudget': '{spent} من {budget} هذا الشهر',
+  'usage.budget': 'الميزانية الشهرية (USD)',
+  'usage.noBudget': 'بلا ميزانية',
+  'usage.budgetSet': 'تم ضبط الميزانية على {budget} شهريًا.',
+  'usage.budgetRemoved': 'تمت إزالة الميزانية.',
+  'usage.budgetHelp':
+    'سيُطلب منك التأكيد قبل أي طلب يتجاوز ميزانية هذا الشهر. تُقدَّر التكاليف من أسعار القائمة.',
+  'usage.clearCache': 'مسح الردود المخزنة',
+  'usage.cacheCleared': 'تم مسح الردود المخزنة.',
+  'usage.cacheFailed': 'تعذّر مسح ذاكرة التخزين المؤقت',
+  'usage.empty': 'لا توجد استدعاءات للذكاء الاصطناعي بعد. تُلبّى الطلبات المكررة مجانًا من الذاكرة المؤقتة المحلية.',
+  'usage.month': 'الشهر',
+  'usage.song': 'الأغنية',
+  'usage.otherRequests': 'طلبات أخرى',
+  'usage.recent': 'الاستدعاءات الأخيرة',
+  'usage.model': 'النموذج',
+  'usage.calls': 'الاستدعاءات',
+  'usage.tokens': 'الرموز دخل / خرج',
+  'usage.cost': 'التكلفة',
+  'usage.unpriced': 'استدعاءات لنماذج غير معروفة السعر: {count}',
+  'usage.estimated': 'مقدَّر من طول النص',
+  'usage.unknown': 'غير معروف',
+}
+
+export default ar
@@ -0,0 +1,464 @@
+import type { Messages } from '../i18n'
+
+const de: Messages = {
+  'app.title': 'Lernen mit Songs',
+  'app.subtitle':
+    'Füge einen Songtext in einer beliebigen Sprache ein und erhalte eine Liste von Wörtern für dein Niveau, übersetzt in deine Sprache.',
+  'app.footer':
+    'Dies ist ein Lernprototyp. Die Schwierigkeit wird automatisch geschätzt und dient nur als Orientierung beim Lernen mit Musik.',
+
+  'nav.analyze': 'Song analysieren',
+  'nav.review': 'Wiederholen',
+  'nav.library': 'Bibliothek',
+  'nav.vocabulary': 'Wortschatz',
+  'nav.progress': 'Fortschritt',
+  'nav.usage': 'Nutzung',
+
+  'common.add': 'Hinzufügen',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.delete': 'Löschen',
+  'common.done': 'Fertig',
+  'common.edit': 'Bearbeiten',
+  'common.remove': 'Entfernen',
+  'common.save': 'Speichern',
+  'common.translateAgain': 'Erneut übersetzen',
+  'common.translating': 'Wird übersetzt...',
+  'common.working': 'Bitte warten...',
+
+  'form.title': 'Titel',
+  'form.artist': 'Interpret',
+  'form.optional': 'Optional',
+  'form.lyrics': 'Songtext',
+  'form.newSong': 'Neuen Song beginnen',
+  'form.example': 'Mit Beispiel ausprobieren',
+  'form.importSynced': '.lrc / .srt importieren',
+  'form.lyricsPlaceholder': 'Füge hier den vollständigen Text ein...',
+  'form.characters': '{count} / {max} Zeichen',
+  'form.maxLength': '(maximale Länge erreicht)',
+  'form.songCount': 'one:{count} Song|other:{count} Songs',
+  'form.albumHelp':
+    'Ein ganzes Album einfügen? Setze vor jeden Song eine Zeile wie „--- Songtitel ---“, um sie zusammen zu analysieren und als einzelne Songs zu speichern.',
+  'form.offline': 'Offline analysieren (ohne KI, ohne API-Schlüssel)',
+  'form.provider': 'KI-Anbieter',
+  'form.serverUrl': 'Server-URL',
+  'form.serverHelp': 'Jeder Server, der {path} bereitstellt, z. B. Ollama oder llama.cpp.',
+  'form.models': 'Modelle pro Aufgabe',
+  'form.level': 'Dein Niveau (in der Sprache des Songs)',
+  'form.nativeLang': 'Deine Muttersprache',
+  'form.nativeLangHelp':
+    'App, Übersetzungen und Erklärungen verwenden diese Sprache. Suche nach Namen oder gib einen Sprachcode wie pt-BR ein.',
+  'form.studyLang': 'Zu lernende Sprache (optional)',
+  'form.studyLangAny': 'Alle Sprachen im Song',
+  'form.studyLangHelp': 'Bei Songs mit mehreren Sprachen werden nur die Zeilen in dieser Sprache gelernt.',
+
+  'level.A1': 'Anfänger',
+  'level.A2': 'Grundkenntnisse',
+  'level.B1': 'Mittelstufe',
+  'level.B2': 'Gute Mittelstufe',
+  'level.C1': 'Fortgeschritten',
+  'level.C2': 'Kompetent',
+
+  'task.detect': 'Spracherkennung',
+  'task.analyze': 'Textanalyse',
+  'task.translate': 'Übersetzung',
+
+  'apiKey.label': '{provider}-API-Schlüssel',
+  'apiKey.locked': 'Gespeicherter Schlüssel ist gesperrt',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.passphraseOptional': 'Passphrase (optional)',
+  'apiKey.unlock': 'Entsperren',
+  'apiKey.save': 'Schlüssel speichern',
+  'apiKey.test': 'Schlüssel testen',
+  'apiKey.forget': 'Schlüssel vergessen',
+  'apiKey.saved': 'Schlüssel auf diesem Gerät gespeichert.',
+  'apiKey.savedEncrypted': 'Schlüssel gespeichert, mit deiner Passphrase verschlüsselt.',
+  'apiKey.unlocked': 'Schlüssel entsperrt.',
+  'apiKey.removed': 'Schlüssel von diesem Gerät entfernt.',
+  'apiKey.works': 'Der Schlüssel funktioniert.',
+  'apiKey.storedEncrypted': 'In diesem Browser gespeichert, mit deiner Passphrase verschlüsselt.',
+  'apiKey.storedPlain': 'In diesem Browser gespeichert. Füge eine Passphrase hinzu, um ihn zu verschlüsseln.',
+  'apiKey.notStored': 'Nicht gespeichert: Er geht beim Neuladen verloren, wenn du ihn nicht speicherst.',
+  'apiKey.sentOnlyTo': 'Er wird nur an {provider} gesendet.',
+  'apiKey.getOne': 'Einen bekommst du unter',
+
+  'settings.export': 'Einstellungen exportieren',
+  'settings.import': 'Einstellungen importieren',
+  'settings.exported': 'Einstellungen exportiert. API-Schlüssel sind nur enthalten, wenn sie verschlüsselt sind.',
+  'settings.imported': 'Einstellungen importiert.',
+  'settings.importFailed': 'Einstellungen konnten nicht importiert werden',
+
+  'languagePicker.search': 'Sprachen suchen...',
+  'languagePicker.invalid': '„{query}“ ist weder ein Sprachname noch ein gültiger Sprachcode.',
+
+  'submit.analyzing': 'KI analysiert den Text...',
+  'submit.analyzingFound': 'KI analysiert den Text... {count} gefunden',
+  'submit.translating': 'Wörter werden übersetzt... {done}/{total}',
+  'submit.offline': 'Wörter offline finden',
+  'submit.llm': 'Wörter finden, die ich lernen sollte',
+
+  'error.noLyrics': 'Bitte füge zuerst den Songtext ein.',
+  'error.tooLong': 'Der Text ist zu lang ({length} Zeichen). Maximal {max} Zeichen sind erlaubt.',
+  'error.fileTooLong': 'Der Text in {file} ist zu lang.',
+  'error.noItems': 'Keine Lernwörter gefunden. Passe dein Niveau an oder prüfe den Text.',
+  'error.offlineFailed': 'Offline-Analyse fehlgeschlagen',
+  'error.noNativeLang': 'Bitte wähle deine Muttersprache.',
+  'error.apiKey': 'Bitte gib deinen {provider}-API-Schlüssel ein.',
+  'error.noStudyLines': 'In diesem Text gibt es keine Zeilen auf {language}.',
+  'error.allNative': 'Dieser Text ist vollständig auf {language}, deiner Muttersprache.',
+  'error.translationFailed': 'Übersetzung fehlgeschlagen',
+  'error.noTranslation': 'Keine Übersetzung: {reason}',
+  'error.missingFromResponse': 'fehlt in der Antwort',
+  'error.unexpected': 'Ein unerwarteter Fehler ist aufgetreten',
+  'error.lineNeedsAI': 'Zeilenübersetzungen brauchen einen KI-Anbieter. Schalte zuerst den Offline-Modus aus.',
+  'error.lineFailed': 'Zeilenübersetzung fehlgeschlagen',
+  'error.grammarNeedsAI':
+    'Grammatiknotizen brauchen einen KI-Anbieter. Schalte zuerst den Offline-Modus aus.',
+  'error.grammarFailed': 'Grammatikanalyse fehlgeschlagen',
+  'error.offlineLookup': 'Das Nachschlagen offline braucht einen Song in einer Sprache mit mitgelieferter Wortliste.',
+  'error.importFailed': 'Datei konnte nicht importiert werden',
+  'error.lessonLink': 'Der Lektionslink konnte nicht geöffnet werden',
+  'error.wrongPassphrase': 'Falsche Passphrase.',
+  'error.invalidJSON': 'Diese Datei ist kein gültiges JSON.',
+  'error.newerFile': 'Diese Datei wurde mit einer neueren Version der App exportiert.',
+  'error.notSettingsFile': 'Das ist keine Einstellungsdatei von Lernen mit Songs.',
+  'error.notExportFile': 'Das ist keine Exportdatei von Lernen mit Songs.',
+  'error.exportIncomplete': 'In der Exportdatei fehlen der Song oder seine Einträge.',
+  'error.exportItem': 'Eintrag {n} in der Exportdatei ist unvollständig.',
+  'error.noLanguage': 'Die Sprache des Songtexts konnte nicht erkannt werden.',
+  'error.noWordList':
+    'Für {language} gibt es noch keine Wortliste für die Offline-Analyse. Nutze stattdessen einen KI-Anbieter.',
+  'error.noTimedLines': 'Keine Zeilen mit Zeitstempel in {file} gefunden.',
+  'error.lessonInvalid': 'Diese Lektion ist kein gültiges JSON.',
+  'error.notLesson': 'Das ist keine Lektion von Lernen mit Songs.',
+  'error.newerLesson': 'Diese Lektion wurde mit einer neueren Version der App erstellt.',
+  'error.lessonIncomplete': 'In der Lektion fehlen der Song oder seine Einträge.',
+  'error.lessonSettings': 'In der Lektion fehlen Niveau oder Sprache.',
+  'error.lessonItem': 'Eintrag {n} der Lektion ist unvollständig.',
+  'error.lessonDamaged': 'Dieser Lektionslink ist unvollständig oder beschädigt.',
+  'error.taskFailed': '{task} fehlgeschlagen: {reason}',
+  'error.noResponse': 'die KI hat nicht geantwortet',
+  'error.invalidResponse': 'die KI hat nicht mit gültigem JSON geantwortet',
+  'error.noWordsInResponse':
+    'Die Songtext-Analyse ist fehlgeschlagen: Die Antwort der KI enthält keine Wortliste.',
+  'error.noNotesInResponse':
+    'Die Grammatikanalyse ist fehlgeschlagen: Die Antwort der KI enthält keine Hinweise.',
+  'error.linesUntranslated':
+    'Die Zeilenübersetzung lieferte für {missing} von {total} Zeilen keine Übersetzung; versuche es noch einmal.',
+  'error.invalidEntry': 'ungültiger Eintrag: {reason}',
+  'error.emptyTranslation': 'die Übersetzung ist leer',
+  'error.noStreaming': 'Dieser Server unterstützt kein Streaming.',
+  'error.streamFailed': 'Der Server hat beim Streaming einen Fehler gemeldet.',
+
+  'warning.rejected':
+    'one:{count} Vorschlag übersprungen, für den die KI immer wieder ungültige Daten lieferte: {list}|other:{count} Vorschläge übersprungen, für die die KI immer wieder ungültige Daten lieferte: {list}',
+  'warning.unnamedEntry': 'Ein Eintrag',
+  'warning.translationCancelled':
+    'Übersetzung abgebrochen. Die gefundenen Wörter sind gespeichert; einige haben keine Übersetzung.',
+  'warning.analysisCancelled':
+    'Analyse abgebrochen. Die bisher gefundenen Wörter werden angezeigt, aber nicht gespeichert.',
+
+  'budget.analysis': 'Diese Analyse',
+  'budget.translation': 'Diese Übersetzung',
+  'budget.grammar': 'Diese Grammatikanalyse',
+  'budget.confirm':
+    '{action} kostet voraussichtlich {estimate}. Du hast bereits {spent} deines Monatsbudgets von {budget} ausgegeben, es würde also überschritten. Fortfahren?',
+
+  'results.title': 'Wörter zum Lernen aus diesem Song',
+  'results.studyLang': 'Zu lernende Sprache',
+  'results.allLanguages': 'Alle Sprachen',
+  'results.study': '{language} lernen',
+  'results.importJSON': 'JSON importieren',
+  'results.empty': 'Deine Liste erscheint hier, nachdem du einen Song analysiert hast.',
+
+  'view.list': 'Liste',
+  'view.lyrics': 'Text',
+  'view.bilingual': 'Nebeneinander',
+  'view.grammar': 'Grammatik & Redewendungen',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'leicht',
+  'band.stretch': 'fordernd',
+  'band.challenging': 'schwer',
+
+  'status.known': 'bekannt',
+  'status.learning': 'am Lernen',
+  'status.ignored': 'ignoriert',
+  'status.markKnown': 'Kenne ich',
+  'status.markIgnored': 'Ignorieren',
+  'status.markLearning': 'Als „am Lernen“ markieren',
+
+  'list.sort': 'Liste sortieren',
+  'list.sortSong': 'Reihenfolge im Song',
+  'list.sortHardest': 'Schwierigste zuerst',
+  'list.sortEasiest': 'Leichteste zuerst',
+  'list.sortFrequency': 'Häufigste zuerst',
+  'list.group': 'Liste gruppieren',
+  'list.groupNone': 'Keine Gruppierung',
+  'list.groupPos': 'Nach Wortart gruppieren',
+  'list.groupGender': 'Nach Genus gruppieren',
+  'list.translationStatus': 'Übersetzungsstatus',
+  'list.anyStatus': 'Jeder Übersetzungsstatus',
+  'list.translated': 'Übersetzt',
+  'list.untranslated': 'Nicht übersetzt',
+  'list.failed': 'Übersetzung fehlgeschlagen',
+  'list.difficultyLabel': 'Schwierigkeit',
+  'list.allDifficulties': 'Alle Schwierigkeiten',
+  'list.pos': 'Wortart',
+  'list.allPos': 'Alle Wortarten',
+  'list.gender': 'Genus',
+  'list.allGenders': 'Alle Genera',
+  'list.other': 'Sonstige',
+  'list.selected': '{count} ausgewählt',
+  'list.merge': 'Zusammenführen',
+  'list.mergeHelp': 'Die ausgewählten Wörter im ersten zusammenführen',
+  'list.clearSelection': 'Auswahl aufheben',
+  'list.noMatches': 'Keine Wörter passen zu diesen Filtern.',
+  'list.select': '{word} auswählen',
+  'list.difficulty': 'Schwierigkeit: {band}',
+  'list.appears': 'kommt {count}× vor',
+  'list.notInSong': 'nicht im Song',
+  'list.notInSongHelp': 'Die KI hat dies vorgeschlagen, es kommt aber im Text nicht vor.',
+  'list.article': 'Artikel: {article}',
+  'list.line': 'Zeile aus dem Song:',
+  'list.translation': 'Übersetzung',
+  'list.translationOptional': 'Übersetzung (optional)',
+  'list.explanation': 'Erklärung',
+  'list.explanationOptional': 'Erklärung (optional)',
+  'list.addWord': '+ Wort hinzufügen',
+  'list.word': 'Wort oder Ausdruck',
+  'list.wordPlaceholder': 'Wort oder Ausdruck aus dem Song',
+
+  'pos.noun': 'Nomen',
+  'pos.verb': 'Verb',
+  'pos.adjective': 'Adjektiv',
+  'pos.adverb': 'Adverb',
+  'pos.pronoun': 'Pronomen',
+  'pos.preposition': 'Präposition',
+  'pos.conjunction': 'Konjunktion',
+  'pos.determiner': 'Artikelwort',
+  'pos.numeral': 'Zahlwort',
+  'pos.interjection': 'Interjektion',
+  'pos.phrase': 'Wendung',
+  'pos.other': 'Sonstiges',
+  'gender.masculine': 'maskulin',
+  'gender.feminine': 'feminin',
+  'gender.neuter': 'neutral',
+  'gender.common': 'Utrum',
+
+  'lookup.loading': 'Wird nachgeschlagen...',
+  'lookup.failed': 'Nachschlagen fehlgeschlagen',
+  'lookup.noTranslation': 'Keine Übersetzung verfügbar',
+  'lookup.noTranslationYet': 'Noch keine Übersetzung',
+  'lookup.add': 'Zu meiner Liste hinzufügen',
+  'lookup.offlineEstimate': 'Geschätztes Niveau: {level}. Übersetzungen brauchen einen KI-Anbieter.',
+  'lyrics.clickHelp': 'Klicke auf ein Wort, um es nachzuschlagen.',
+
+  'offline.core': 'Grundwort auf Niveau {level} ({language}).',
+  'offline.estimated': 'Nicht in der Grundwortliste ({language}); geschätztes Niveau: {level}.',
+
+  'bilingual.style': 'Übersetzungsstil',
+  'bilingual.literal': 'Wörtlich',
+  'bilingual.natural': 'Natürlich',
+  'bilingual.translate': 'Auf {language} übersetzen',
+  'bilingual.translating': 'Zeilen werden übersetzt...',
+
+  'grammar.help':
+    'Grammatikpunkte und Redewendungen im Song, jeweils mit einer kurzen Regel und weiteren Beispielen.',
+  'grammar.find': 'Grammatik und Redewendungen finden',
+  'grammar.findAgain': 'Erneut suchen',
+  'grammar.finding': 'Suche nach Grammatik und Redewendungen...',
+  'grammar.none': 'Keine erklärenswerten Grammatikpunkte oder Redewendungen gefunden.',
+  'grammar.grammar': 'Grammatik',
+  'grammar.idiom': 'Redewendung',
+  'grammar.line': 'Zeile {line}:',
+
+  'karaoke.help':
+    'Wähle die Audiodatei des Songs, um mitzuspielen. Sie bleibt auf deinem Gerät und wird nicht gespeichert.',
+  'karaoke.change': 'Audio ändern',
+  'karaoke.choose': 'Audiodatei wählen',
+  'karaoke.loop': 'Diese Zeile wiederholen',
+  'karaoke.stopLoop': 'Wiederholung beenden',
+  'karaoke.onLine': 'In dieser Zeile',
+  'karaoke.noWords': 'Keine Wörter aus deiner Liste.',
+
+  'quiz.intro': 'Übe die Wörter dieses Songs. Falsch beantwortete Wörter werden als „am Lernen“ markiert.',
+  'quiz.cloze': 'Lückentext',
+  'quiz.clozeHelp': 'Tippe das fehlende Wort in einer Zeile des Songs.',
+  'quiz.choice': 'Multiple Choice',
+  'quiz.choiceHelp': 'Wähle die richtige Übersetzung.',
+  'quiz.recall': 'Umgekehrtes Abrufen',
+  'quiz.recallHelp': 'Sieh die Übersetzung, tippe das Wort.',
+  'quiz.needsTranslations': 'Braucht übersetzte Wörter',
+  'quiz.available': 'one:{count} Frage verfügbar|other:{count} Fragen verfügbar',
+  'quiz.markedLearning': 'Als „am Lernen“ markiert: {words}',
+  'quiz.cleared': 'Nicht mehr als „am Lernen“ markiert: {words}',
+  'quiz.again': 'Noch einmal',
+  'quiz.another': 'Anderes Quiz wählen',
+  'quiz.score': 'Punkte: {score}',
+  'quiz.hint': 'Tipp: {hint}',
+  'quiz.typeWord': 'Wort eingeben',
+  'quiz.next': 'Weiter',
+  'quiz.results': 'Ergebnis ansehen',
+  'quiz.check': 'Prüfen',
+  'quiz.correct': 'Richtig!',
+  'quiz.answer': 'Lösung: {answer}',
+
+  'export.button': 'Exportieren…',
+  'export.format': 'Format',
+  'export.anki': 'Anki-Paket (.apkg)',
+  'export.csv': 'CSV-Tabelle',
+  'export.json': 'JSON (wieder importierbar)',
+  'export.quizlet': 'Quizlet (Begriff ⇥ Übersetzung)',
+  'export.lesson': 'Lektion zum Teilen (Datei oder Link)',
+  'export.untranslated': '{count} ohne Übersetzung',
+  'export.noTranslation': '(keine Übersetzung)',
+  'export.exclude': 'Weglassen',
+  'export.mark': 'Einschließen, als unübersetzt markiert',
+  'export.columns': 'Spalten',
+  'export.separator': 'Trennzeichen',
+  'export.comma': 'Komma',
+  'export.semicolon': 'Semikolon',
+  'export.tab': 'Tabulator',
+  'export.jsonHelp':
+    'Enthält den Text, alle Einträge und die Grammatiknotizen unverändert, damit sie wieder in die App importiert werden können.',
+  'export.lessonHelp':
+    'Enthält Songtext, Einstellungen, Wörter, Zeilenübersetzungen und Grammatiknotizen. Lernende können sie ohne API-Schlüssel und ohne KI-Aufrufe öffnen.',
+  'export.copyLink': 'Link kopieren',
+  'export.linkCopied': 'Link kopiert. Wer ihn öffnet, erhält diese Lektion.',
+  'export.linkTooLong': 'Diese Lektion ist zu lang für einen Link. Lade sie herunter und teile die Datei.',
+  'export.preparing': 'Wird vorbereitet...',
+  'export.download': 'Herunterladen',
+  'export.failed': 'Export fehlgeschlagen',
+
+  'csv.word': 'Wort',
+  'csv.translation': 'Übersetzung',
+  'csv.example': 'Songzeile',
+  'csv.cloze': 'Songzeile (Lückentext)',
+  'csv.explanation': 'Erklärung',
+  'csv.difficulty': 'Schwierigkeit',
+  'csv.score': 'Schwierigkeitswert',
+  'csv.count': 'Vorkommen',
+  'csv.lines': 'Zeilennummern',
+  'csv.language': 'Sprache',
+  'csv.song': 'Song',
+  'csv.status': 'Status',
+
+  'speech.title': 'Aussprache',
+  'speech.backend': 'Sprachausgabe über',
+  'speech.browser': 'Browser-Stimmen',
+  'speech.server': 'Lokaler TTS-Server',
+  'speech.voice': 'Stimme ({language})',
+  'speech.serverDefault': 'Server-Standard',
+  'speech.bestMatch': 'Beste Übereinstimmung',
+  'speech.noVoice': 'Keine Stimme für diese Sprache installiert',
+  'speech.speed': 'Tempo: {rate}×',
+  'speech.try': 'Diese Stimme testen',
+  'speech.pronounce': 'Aussprechen',
+  'speech.word': '{word} aussprechen',
+  'speech.line': 'Diese Zeile aussprechen',
+  'speech.failed': 'Die Aussprache konnte nicht abgespielt werden',
+  'speech.unsupported': 'Dieser Browser unterstützt keine Sprachausgabe.',
+  'speech.error': 'Sprachausgabe fehlgeschlagen: {error}',
+  'speech.serverError': 'Der TTS-Server antwortete mit {status} {statusText}.',
+  'speech.badAudio': 'Der TTS-Server hat Audio geliefert, das der Browser nicht abspielen kann.',
+
+  'review.title': 'Wiederholen',
+  'review.stats': '{due} fällig · {learned} gelernt · {total} im Stapel',
+  'review.empty': 'Wörter aus den Songs, die du analysierst, landen automatisch hier.',
+  'review.nothingDue': 'Gerade ist nichts fällig. Schau später wieder vorbei!',
+  'review.lapses': '{count}× vergessen',
+  'review.show': 'Antwort zeigen',
+  'review.noTranslation': 'Keine Übersetzung gespeichert',
+  'review.again': 'Nochmal',
+  'review.hard': 'Schwer',
+  'review.good': 'Gut',
+  'review.easy': 'Leicht',
+  'review.remove': 'Aus dem Stapel entfernen',
+
+  'library.title': 'Song-Bibliothek',
+  'library.saved': '{count} gespeichert',
+  'library.search': 'Nach Titel, Interpret, Sprache oder Text suchen...',
+  'library.empty': 'Songs werden hier automatisch gespeichert, nachdem du sie analysiert hast.',
+  'library.noMatches': 'Keine Songs passen zu „{query}“.',
+  'library.words': 'one:{count} Wort auf {level}|other:{count} Wörter auf {level}',
+  'library.notAnalysed': 'Noch nicht analysiert',
+  'library.levels': 'analysiert auf {levels}',
+  'library.open': 'Öffnen',
+  'library.rerunLevel': 'Niveau für die erneute Analyse',
+  'library.rerun': 'Neu analysieren',
+  'library.confirmDelete': '„{title}“ aus deiner Bibliothek löschen?',
+
+  'vocab.title': 'Mein Wortschatz',
+  'vocab.stats': '{known} bekannt · {learning} am Lernen · {ignored} ignoriert',
+  'vocab.language': 'Sprachcode',
+  'vocab.languagePlaceholder': 'z. B. nl, es, fr',
+  'vocab.show': 'Anzeigen',
+  'vocab.all': 'Alle Wörter',
+  'vocab.importList': 'Wortliste importieren',
+  'vocab.importPlaceholder': 'Ein Wort pro Zeile oder durch Kommas getrennt',
+  'vocab.importStatus': 'Status der importierten Wörter',
+  'vocab.as': 'als {status}',
+  'vocab.import': 'Importieren',
+  'vocab.importFile': '.txt-Datei importieren',
+  'vocab.empty':
+    'Noch keine Wörter. Markiere Wörter in der Liste eines Songs als bekannt oder ignoriert, oder importiere oben eine Liste.',
+  'vocab.statusOf': 'Status von {word}',
+  'vocab.noLanguage': 'Wähle zuerst die Sprache der Wortliste.',
+  'vocab.noWords': 'Keine Wörter in der Liste gefunden.',
+  'vocab.imported': 'one:{count} Wort als {status} importiert.|other:{count} Wörter als {status} importiert.',
+  'vocab.readFailed': 'Datei konnte nicht gelesen werden',
+
+  'progress.title': 'Dein Fortschritt',
+  'progress.reviewedToday': 'one:Heute {count} Karte wiederholt|other:Heute {count} Karten wiederholt',
+  'progress.learned': 'Gelernte Wörter',
+  'progress.days': 'one:{count} Tag|other:{count} Tage',
+  'progress.streak': 'Wiederholungsserie',
+  'progress.longest': 'one:Rekord {count} Tag|other:Rekord {count} Tage',
+  'progress.songsCompleted': 'Abgeschlossene Songs',
+  'progress.songsOf': '{done} von {total}',
+  'progress.coverage': 'Song im Analyseformular',
+  'progress.coverageOf': 'Du kennst schon etwa {percent} seiner Wörter ({known} von {total}, {language}).',
+  'progress.coverageHelp':
+    'Zählt Wörter, die du gelernt oder als bekannt oder ignoriert markiert hast, und häufige Wörter unter deinem Niveau ({level}).',
+  'progress.noLyrics':
+    'Füge im Tab „Analysieren“ einen Songtext ein, um zu sehen, wie viel du davon schon kennst.',
+  'progress.empty': 'Analysiere Songs und wiederhole ihre Wörter, um hier deinen Fortschritt zu sehen.',
+  'progress.language': 'Sprache',
+  'progress.learnedColumn': 'Gelernt',
+  'progress.learningColumn': 'Im Lernen',
+  'progress.level': 'Niveau',
+  'progress.suggestions': 'Als Nächstes lernen',
+  'progress.suggestionsHelp':
+    'Songs aus deiner Bibliothek, die du noch nicht abgeschlossen hast, die vertrautesten zuerst.',
+  'progress.songCoverage': '{percent} des Textes bekannt · {done} von {total} Wörtern bekannt',
+
+  'usage.title': 'KI-Nutzung',
+  'usage.spent': '{spent} in diesem Monat',
+  'usage.spentOfBudget': '{spent} von {budget} in diesem Monat',
+  'usage.budget': 'Monatsbudget (USD)',
+  'usage.noBudget': 'Kein Budget',
+  'usage.budgetSet': 'Budget auf {budget} pro Monat festgelegt.',
+  'usage.budgetRemoved': 'Budget entfernt.',
+  'usage.budgetHelp':
+    'Vor einer Anfrage, die das Budget dieses Monats überschreiten würde, wirst du um Bestätigung gebeten. Die Kosten sind Schätzungen nach Listenpreisen.',
+  'usage.clearCache': 'Zwischengespeicherte Antworten löschen',
+  'usage.cacheCleared': 'Zwischengespeicherte Antworten gelöscht.',
+  'usage.cacheFailed': 'Cache konnte nicht gelöscht werden',
+  'usage.empty': 'Noch keine KI-Aufrufe. Wiederholte Anfragen werden kostenlos aus dem lokalen Cache beantwortet.',
+  'usage.month': 'Monat',
+  'usage.song': 'Song',
+  'usage.otherRequests': 'Andere Anfragen',
+  'usage.recent': 'Letzte Aufrufe',
+  'usage.model': 'Modell',
+  'usage.calls': 'Aufrufe',
+  'usage.tokens': 'Tokens ein / aus',
+  'usage.cost': 'Kosten',
+  'usage.unpriced':
+    'one:{count} Aufruf eines Modells mit unbekanntem Preis|other:{count} Aufrufe von Modellen mit unbekanntem Preis',
+  'usage.estimated': 'Aus der Textlänge geschätzt',
+  'usage.unknown': 'unbekannt',
+}
+
+export default de
@@ -0,0 +1,451 @@
+/** Interface strings in English: the reference catalog, which defines the keys. */
+const en = {
+  'app.title': 'Learn by Songs',
+  'app.subtitle':
+    'Paste song lyrics in any language and get a list of words that match your level, with translations into your language.',
+  'app.footer':
+    'This is an educational prototype. Difficulty is estimated automatically and meant only as guidance while you learn from music.',
+
+  'nav.analyze': 'Analyze a song',
+  'nav.review': 'Review',
+  'nav.library': 'Library',
+  'nav.vocabulary': 'Vocabulary',
+  'nav.progress': 'Progress',
+  'nav.usage': 'Usage',
+
+  'common.add': 'Add',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.done': 'Done',
+  'common.edit': 'Edit',
+  'common.remove': 'Remove',
+  'common.save': 'Save',
+  'common.translateAgain': 'Translate again',
+  'common.translating': 'Translating...',
+  'common.working': 'Working...',
+
+  'form.title': 'Title',
+  'form.artist': 'Artist',
+  'form.optional': 'Optional',
+  'form.lyrics': 'Song lyrics',
+  'form.newSong': 'Start a new song',
+  'form.example': 'Try with example',
+  'form.importSynced': 'Import .lrc / .srt',
+  'form.lyricsPlaceholder': 'Paste the full lyrics here...',
+  'form.characters': '{count} / {max} characters',
+  'form.maxLength': '(max length reached)',
+  'form.songCount': 'one:{count} song|other:{count} songs',
+  'form.albumHelp':
+    'Pasting a whole album? Put a line like "--- Song title ---" before each song to analyse them together and save them as separate songs.',
+  'form.offline': 'Analyze offline (no AI, no API key)',
+  'form.provider': 'AI provider',
+  'form.serverUrl': 'Server URL',
+  'form.serverHelp': 'Any server exposing {path}, e.g. Ollama or llama.cpp.',
+  'form.models': 'Models per task',
+  'form.level': "Your level (in the song's language)",
+  'form.nativeLang': 'Your native language',
+  'form.nativeLangHelp':
+    'The app, translations and explanations use this language. Search by name or type a language code such as pt-BR.',
+  'form.studyLang': 'Language to study (optional)',
+  'form.studyLangAny': 'Every language in the song',
+  'form.studyLangHelp': 'For songs that mix languages, only lines in this one are studied.',
+
+  'level.A1': 'Beginner',
+  'level.A2': 'Elementary',
+  'level.B1': 'Intermediate',
+  'level.B2': 'Upper-intermediate',
+  'level.C1': 'Advanced',
+  'level.C2': 'Proficient',
+
+  'task.detect': 'Language detection',
+  'task.analyze': 'Lyrics analysis',
+  'task.translate': 'Translation',
+
+  'apiKey.label': '{provider} API key',
+  'apiKey.locked': 'Saved key is locked',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.passphraseOptional': 'Passphrase (optional)',
+  'apiKey.unlock': 'Unlock',
+  'apiKey.save': 'Save key',
+  'apiKey.test': 'Test key',
+  'apiKey.forget': 'Forget key',
+  'apiKey.saved': 'Key saved on this device.',
+  'apiKey.savedEncrypted': 'Key saved, encrypted with your passphrase.',
+  'apiKey.unlocked': 'Key unlocked.',
+  'apiKey.removed': 'Key removed from this device.',
+  'apiKey.works': 'The key works.',
+  'apiKey.storedEncrypted': 'Saved in this browser, encrypted with your passphrase.',
+  'apiKey.storedPlain': 'Saved in this browser. Add a passphrase to encrypt it.',
+  'apiKey.notStored': 'Not saved: it is forgotten when you reload unless you save it.',
+  'apiKey.sentOnlyTo': 'It is only ever sent to {provider}.',
+  'apiKey.getOne': 'Get one at',
+
+  'settings.export': 'Export settings',
+  'settings.import': 'Import settings',
+  'settings.exported': 'Settings exported. API keys are included only when they are encrypted.',
+  'settings.imported': 'Settings imported.',
+  'settings.importFailed': 'Could not import settings',
+
+  'languagePicker.search': 'Search languages...',
+  'languagePicker.invalid': '"{query}" is not a language name or a valid language code.',
+
+  'submit.analyzing': 'AI analyzing lyrics...',
+  'submit.analyzingFound': 'AI analyzing lyrics... {count} found',
+  'submit.translating': 'Translating words... {done}/{total}',
+  'submit.offline': 'Find words offline',
+  'submit.llm': 'Find words I should learn',
+
+  'error.noLyrics': 'Please paste the song lyrics first.',
+  'error.tooLong': 'Lyrics are too long ({length} characters). Maximum is {max} characters.',
+  'error.fileTooLong': 'Lyrics in {file} are too long.',
+  'error.noItems': 'No learning items found. Try adjusting your level or check the lyrics.',
+  'error.offlineFailed': 'Offline analysis failed',
+  'error.noNativeLang': 'Please choose your native language.',
+  'error.apiKey': 'Please enter your {provider} API key.',
+  'error.noStudyLines': 'No lines in {language} found in these lyrics.',
+  'error.allNative': 'These lyrics are all in {language}, your native language.',
+  'error.translationFailed': 'Translation failed',
+  'error.noTranslation': 'No translation: {reason}',
+  'error.missingFromResponse': 'missing from the response',
+  'error.unexpected': 'Unexpected error occurred',
+  'error.lineNeedsAI': 'Line translations need an AI provider. Turn off offline mode first.',
+  'error.lineFailed': 'Line translation failed',
+  'error.grammarNeedsAI': 'Grammar notes need an AI provider. Turn off offline mode first.',
+  'error.grammarFailed': 'Grammar analysis failed',
+  'error.offlineLookup': 'Offline lookup needs a song in a language with a bundled word list.',
+  'error.importFailed': 'Could not import file',
+  'error.lessonLink': 'Could not open the lesson link',
+  'error.wrongPassphrase': 'Wrong passphrase.',
+  'error.invalidJSON': 'This file is not valid JSON.',
+  'error.newerFile': 'This file was exported by a newer version of the app.',
+  'error.notSettingsFile': 'This is not a Learn by Songs settings file.',
+  'error.notExportFile': 'This is not a Learn by Songs export file.',
+  'error.exportIncomplete': 'The export file is missing the song or its items.',
+  'error.exportItem': 'Item {n} in the export file is incomplete.',
+  'error.noLanguage': 'Could not detect the language of the lyrics.',
+  'error.noWordList': 'Offline analysis has no word list for {language} yet. Use an AI provider instead.',
+  'error.noTimedLines': 'No timestamped lines found in {file}.',
+  'error.lessonInvalid': 'This lesson is not valid JSON.',
+  'error.notLesson': 'This is not a Learn by Songs lesson.',
+  'error.newerLesson': 'This lesson was made by a newer version of the app.',
+  'error.lessonIncomplete': 'The lesson is missing the song or its items.',
+  'error.lessonSettings': 'The lesson is missing its level or language.',
+  'error.lessonItem': 'Item {n} in the lesson is incomplete.',
+  'error.lessonDamaged': 'This lesson link is incomplete or damaged.',
+  'error.taskFailed': '{task} failed: {reason}',
+  'error.noResponse': 'the AI sent no response',
+  'error.invalidResponse': 'the AI did not reply with valid JSON',
+  'error.noWordsInResponse': 'Lyrics analysis failed: the AI response has no word list.',
+  'error.noNotesInResponse': 'Grammar analysis failed: the AI response has no notes.',
+  'error.linesUntranslated':
+    'Line translation returned no translation for {missing} of {total} lines; try again.',
+  'error.invalidEntry': 'invalid entry: {reason}',
+  'error.emptyTranslation': 'the translation is empty',
+  'error.noStreaming': 'Streaming is not supported by this server.',
+  'error.streamFailed': 'The server reported an error while streaming.',
+
+  'warning.rejected':
+    'one:Skipped {count} suggestion the AI kept returning invalid data for: {list}|other:Skipped {count} suggestions the AI kept returning invalid data for: {list}',
+  'warning.unnamedEntry': 'An entry',
+  'warning.translationCancelled': 'Translation cancelled. The words found are saved; some have no translation.',
+  'warning.analysisCancelled': 'Analysis cancelled. Words found so far are shown but not saved.',
+
+  'budget.analysis': 'This analysis',
+  'budget.translation': 'This translation',
+  'budget.grammar': 'This grammar pass',
+  'budget.confirm':
+    "{action} is estimated at {estimate}. You've spent {spent} of your {budget} monthly budget, so this would go over it. Continue?",
+
+  'results.title': 'Words to learn from this song',
+  'results.studyLang': 'Language to study',
+  'results.allLanguages': 'All languages',
+  'results.study': 'Study {language}',
+  'results.importJSON': 'Import JSON',
+  'results.empty': 'Your list will appear here after you analyze a song.',
+
+  'view.list': 'List',
+  'view.lyrics': 'Lyrics',
+  'view.bilingual': 'Side by side',
+  'view.grammar': 'Grammar & idioms',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'comfortable',
+  'band.stretch': 'stretch',
+  'band.challenging': 'challenging',
+
+  'status.known': 'known',
+  'status.learning': 'learning',
+  'status.ignored': 'ignored',
+  'status.markKnown': 'I know this',
+  'status.markIgnored': 'Ignore',
+  'status.markLearning': 'Mark as learning',
+
+  'list.sort': 'Sort the list',
+  'list.sortSong': 'Order in the song',
+  'list.sortHardest': 'Hardest first',
+  'list.sortEasiest': 'Easiest first',
+  'list.sortFrequency': 'Most frequent first',
+  'list.group': 'Group the list',
+  'list.groupNone': 'No grouping',
+  'list.groupPos': 'Group by part of speech',
+  'list.groupGender': 'Group by gender',
+  'list.translationStatus': 'Translation status',
+  'list.anyStatus': 'Any translation status',
+  'list.translated': 'Translated',
+  'list.untranslated': 'Not translated',
+  'list.failed': 'Translation failed',
+  'list.difficultyLabel': 'Difficulty',
+  'list.allDifficulties': 'All difficulties',
+  'list.pos': 'Part of speech',
+  'list.allPos': 'All parts of speech',
+  'list.gender': 'Gender',
+  'list.allGenders': 'All genders',
+  'list.other': 'Other',
+  'list.selected': '{count} selected',
+  'list.merge': 'Merge',
+  'list.mergeHelp': 'Combine the selected words into the first one',
+  'list.clearSelection': 'Clear selection',
+  'list.noMatches': 'No words match these filters.',
+  'list.select': 'Select {word}',
+  'list.difficulty': 'Difficulty: {band}',
+  'list.appears': 'appears {count}×',
+  'list.notInSong': 'not in song',
+  'list.notInSongHelp': 'The AI suggested this, but it does not occur in the lyrics.',
+  'list.article': 'article: {article}',
+  'list.line': 'Line from song:',
+  'list.translation': 'Translation',
+  'list.translationOptional': 'Translation (optional)',
+  'list.explanation': 'Explanation',
+  'list.explanationOptional': 'Explanation (optional)',
+  'list.addWord': '+ Add a word',
+  'list.word': 'Word or phrase',
+  'list.wordPlaceholder': 'Word or phrase from the song',
+
+  'pos.noun': 'noun',
+  'pos.verb': 'verb',
+  'pos.adjective': 'adjective',
+  'pos.adverb': 'adverb',
+  'pos.pronoun': 'pronoun',
+  'pos.preposition': 'preposition',
+  'pos.conjunction': 'conjunction',
+  'pos.determiner': 'determiner',
+  'pos.numeral': 'numeral',
+  'pos.interjection': 'interjection',
+  'pos.phrase': 'phrase',
+  'pos.other': 'other',
+  'gender.masculine': 'masculine',
+  'gender.feminine': 'feminine',
+  'gender.neuter': 'neuter',
+  'gender.common': 'common',
+
+  'lookup.loading': 'Looking up...',
+  'lookup.failed': 'Lookup failed',
+  'lookup.noTranslation': 'No translation available',
+  'lookup.noTranslationYet': 'No translation yet',
+  'lookup.add': 'Add to my list',
+  'lookup.offlineEstimate': 'Estimated {level}. Translations need an AI provider.',
+  'lyrics.clickHelp': 'Click any word to look it up.',
+
+  'offline.core': 'Core {level} word in {language}.',
+  'offline.estimated': 'Not in the core {language} word list; estimated {level}.',
+
+  'bilingual.style': 'Translation style',
+  'bilingual.literal': 'Literal',
+  'bilingual.natural': 'Natural',
+  'bilingual.translate': 'Translate into {language}',
+  'bilingual.translating': 'Translating lines...',
+
+  'grammar.help': 'Grammar points and idioms in the song, each with a short rule and more examples.',
+  'grammar.find': 'Find grammar and idioms',
+  'grammar.findAgain': 'Find again',
+  'grammar.finding': 'Looking for grammar and idioms...',
+  'grammar.none': 'No grammar points or idioms worth explaining were found.',
+  'grammar.grammar': 'Grammar',
+  'grammar.idiom': 'Idiom',
+  'grammar.line': 'Line {line}:',
+
+  'karaoke.help': "Choose the song's audio file to play along. It stays on your device and is not saved.",
+  'karaoke.change': 'Change audio',
+  'karaoke.choose': 'Choose audio file',
+  'karaoke.loop': 'Loop this line',
+  'karaoke.stopLoop': 'Stop looping',
+  'karaoke.onLine': 'On this line',
+  'karaoke.noWords': 'No words from your list.',
+
+  'quiz.intro': "Practise this song's words. Missed words are marked as learning.",
+  'quiz.cloze': 'Fill the gap',
+  'quiz.clozeHelp': 'Type the missing word in a line of the song.',
+  'quiz.choice': 'Multiple choice',
+  'quiz.choiceHelp': 'Pick the right translation.',
+  'quiz.recall': 'Reverse recall',
+  'quiz.recallHelp': 'See the translation, type the word.',
+  'quiz.needsTranslations': 'Needs translated words',
+  'quiz.available': 'one:{count} question available|other:{count} questions available',
+  'quiz.markedLearning': 'Marked as learning: {words}',
+  'quiz.cleared': 'No longer marked as learning: {words}',
+  'quiz.again': 'Try again',
+  'quiz.another': 'Choose another quiz',
+  'quiz.score': 'Score: {score}',
+  'quiz.hint': 'Hint: {hint}',
+  'quiz.typeWord': 'Type the word',
+  'quiz.next': 'Next',
+  'quiz.results': 'See results',
+  'quiz.check': 'Check',
+  'quiz.correct': 'Correct!',
+  'quiz.answer': 'Answer: {answer}',
+
+  'export.button': 'Export…',
+  'export.format': 'Format',
+  'export.anki': 'Anki package (.apkg)',
+  'export.csv': 'CSV spreadsheet',
+  'export.json': 'JSON (re-importable)',
+  'export.quizlet': 'Quizlet (term ⇥ translation)',
+  'export.lesson': 'Lesson to share (file or link)',
+  'export.untranslated': '{count} without translation',
+  'export.noTranslation': '(no translation)',
+  'export.exclude': 'Leave them out',
+  'export.mark': 'Include, marked as untranslated',
+  'export.columns': 'Columns',
+  'export.separator': 'Separator',
+  'export.comma': 'Comma',
+  'export.semicolon': 'Semicolon',
+  'export.tab': 'Tab',
+  'export.jsonHelp':
+    'Includes the lyrics, every item and the grammar notes as-is, so it can be imported back into the app.',
+  'export.lessonHelp':
+    'Holds the lyrics, settings, words, line translations and grammar notes. Students can open it without an API key or any AI calls.',
+  'export.copyLink': 'Copy link',
+  'export.linkCopied': 'Link copied. Anyone who opens it gets this lesson.',
+  'export.linkTooLong': 'This lesson is too long for a link. Download it and share the file instead.',
+  'export.preparing': 'Preparing...',
+  'export.download': 'Download',
+  'export.failed': 'Export failed',
+
+  'csv.word': 'Word',
+  'csv.translation': 'Translation',
+  'csv.example': 'Song line',
+  'csv.cloze': 'Song line (cloze)',
+  'csv.explanation': 'Explanation',
+  'csv.difficulty': 'Difficulty',
+  'csv.score': 'Difficulty score',
+  'csv.count': 'Occurrences',
+  'csv.lines': 'Line numbers',
+  'csv.language': 'Language',
+  'csv.song': 'Song',
+  'csv.status': 'Status',
+
+  'speech.title': 'Pronunciation',
+  'speech.backend': 'Speech from',
+  'speech.browser': 'Browser voices',
+  'speech.server': 'Local TTS server',
+  'speech.voice': '{language} voice',
+  'speech.serverDefault': 'Server default',
+  'speech.bestMatch': 'Best match',
+  'speech.noVoice': 'No voice installed for this language',
+  'speech.speed': 'Speed: {rate}×',
+  'speech.try': 'Try this voice',
+  'speech.pronounce': 'Pronounce',
+  'speech.word': 'Pronounce {word}',
+  'speech.line': 'Pronounce this line',
+  'speech.failed': 'Could not play the pronunciation',
+  'speech.unsupported': 'This browser does not support speech synthesis.',
+  'speech.error': 'Speech failed: {error}',
+  'speech.serverError': 'The TTS server answered {status} {statusText}.',
+  'speech.badAudio': 'The TTS server returned audio the browser cannot play.',
+
+  'review.title': 'Review',
+  'review.stats': '{due} due · {learned} learned · {total} in deck',
+  'review.empty': 'Words from the songs you analyse are added here automatically.',
+  'review.nothingDue': 'Nothing due right now. Come back later!',
+  'review.lapses': 'forgotten {count}×',
+  'review.show': 'Show answer',
+  'review.noTranslation': 'No translation saved',
+  'review.again': 'Again',
+  'review.hard': 'Hard',
+  'review.good': 'Good',
+  'review.easy': 'Easy',
+  'review.remove': 'Remove from deck',
+
+  'library.title': 'Song library',
+  'library.saved': '{count} saved',
+  'library.search': 'Search by title, artist, language or lyrics...',
+  'library.empty': 'Songs are saved here automatically after you analyse them.',
+  'library.noMatches': 'No songs match "{query}".',
+  'library.words': 'one:{count} word at {level}|other:{count} words at {level}',
+  'library.notAnalysed': 'Not analysed yet',
+  'library.levels': 'analysed at {levels}',
+  'library.open': 'Open',
+  'library.rerunLevel': 'Level for re-run',
+  'library.rerun': 'Re-run',
+  'library.confirmDelete': 'Delete "{title}" from your library?',
+
+  'vocab.title': 'My vocabulary',
+  'vocab.stats': '{known} known · {learning} learning · {ignored} ignored',
+  'vocab.language': 'Language code',
+  'vocab.languagePlaceholder': 'e.g. nl, es, fr',
+  'vocab.show': 'Show',
+  'vocab.all': 'All words',
+  'vocab.importList': 'Import a word list',
+  'vocab.importPlaceholder': 'One word per line, or comma-separated',
+  'vocab.importStatus': 'Status for imported words',
+  'vocab.as': 'as {status}',
+  'vocab.import': 'Import',
+  'vocab.importFile': 'Import .txt file',
+  'vocab.empty': "No words yet. Mark words as known or ignored from a song's list, or import a list above.",
+  'vocab.statusOf': 'Status of {word}',
+  'vocab.noLanguage': 'Choose the language of the word list first.',
+  'vocab.noWords': 'No words found in the list.',
+  'vocab.imported': 'one:Imported {count} word as {status}.|other:Imported {count} words as {status}.',
+  'vocab.readFailed': 'Could not read file',
+
+  'progress.title': 'Your progress',
+  'progress.reviewedToday': 'one:{count} card reviewed today|other:{count} cards reviewed today',
+  'progress.learned': 'Words learned',
+  'progress.days': 'one:{count} day|other:{count} days',
+  'progress.streak': 'Review streak',
+  'progress.longest': 'one:best {count} day|other:best {count} days',
+  'progress.songsCompleted': 'Songs completed',
+  'progress.songsOf': '{done} of {total}',
+  'progress.coverage': 'Song in the analyze form',
+  'progress.coverageOf': 'You already know about {percent} of its words ({known} of {total}, {language}).',
+  'progress.coverageHelp':
+    'Counts words you have learned or marked as known or ignored, and common words below your level ({level}).',
+  'progress.noLyrics': 'Paste lyrics on the Analyze tab to see how much of the song you already know.',
+  'progress.empty': 'Analyse songs and review their words to see your progress here.',
+  'progress.language': 'Language',
+  'progress.learnedColumn': 'Learned',
+  'progress.learningColumn': 'Learning',
+  'progress.level': 'Level',
+  'progress.suggestions': 'Songs to study next',
+  'progress.suggestionsHelp': 'Library songs you have not completed yet, the most familiar first.',
+  'progress.songCoverage': '{percent} of the lyrics known · {done} of {total} words known',
+
+  'usage.title': 'AI usage',
+  'usage.spent': '{spent} this month',
+  'usage.spentOfBudget': '{spent} this month of {budget}',
+  'usage.budget': 'Monthly budget (USD)',
+  'usage.noBudget': 'No budget',
+  'usage.budgetSet': 'Budget set to {budget} a month.',
+  'usage.budgetRemoved': 'Budget removed.',
+  'usage.budgetHelp':
+    "You're asked to confirm before a request that would take this month over budget. Costs are estimates from list prices.",
+  'usage.clearCache': 'Clear cached responses',
+  'usage.cacheCleared': 'Cached responses cleared.',
+  'usage.cacheFailed': 'Could not clear cache',
+  'usage.empty': 'No AI calls yet. Repeated requests are answered from the local cache for free.',
+  'usage.month': 'Month',
+  'usage.song': 'Song',
+  'usage.otherRequests': 'Other requests',
+  'usage.recent': 'Recent calls',
+  'usage.model': 'Model',
+  'usage.calls': 'Calls',
+  'usage.tokens': 'Tokens in / out',
+  'usage.cost': 'Cost',
+  'usage.unpriced': 'one:{count} call to a model with unknown prices|other:{count} calls to models with unknown prices',
+  'usage.estimated': 'Estimated from text length',
+  'usage.unknown': 'unknown',
+}
+
+export default en
@@ -0,0 +1,463 @@
+import type { Messages } from '../i18n'
+
+const es: Messages = {
+  'app.title': 'Aprende con canciones',
+  'app.subtitle':
+    'Pega la letra de una canción en cualquier idioma y obtén una lista de palabras adecuadas a tu nivel, traducidas a tu idioma.',
+  'app.footer':
+    'Esto es un prototipo educativo. La dificultad se estima automáticamente y solo sirve como orientación mientras aprendes con música.',
+
+  'nav.analyze': 'Analizar una canción',
+  'nav.review': 'Repasar',
+  'nav.library': 'Biblioteca',
+  'nav.vocabulary': 'Vocabulario',
+  'nav.progress': 'Progreso',
+  'nav.usage': 'Uso',
+
+  'common.add': 'Añadir',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+  'common.done': 'Listo',
+  'common.edit': 'Editar',
+  'common.remove': 'Quitar',
+  'common.save': 'Guardar',
+  'common.translateAgain': 'Traducir de nuevo',
+  'common.translating': 'Traduciendo...',
+  'common.working': 'Procesando...',
+
+  'form.title': 'Título',
+  'form.artist': 'Artista',
+  'form.optional': 'Opcional',
+  'form.lyrics': 'Letra de la canción',
+  'form.newSong': 'Empezar una canción nueva',
+  'form.example': 'Probar con un ejemplo',
+  'form.importSynced': 'Importar .lrc / .srt',
+  'form.lyricsPlaceholder': 'Pega aquí la letra completa...',
+  'form.characters': '{count} / {max} caracteres',
+  'form.maxLength': '(longitud máxima alcanzada)',
+  'form.songCount': 'one:{count} canción|other:{count} canciones',
+  'form.albumHelp':
+    '¿Pegas un álbum entero? Pon una línea como "--- Título de la canción ---" antes de cada canción para analizarlas juntas y guardarlas por separado.',
+  'form.offline': 'Analizar sin conexión (sin IA ni clave de API)',
+  'form.provider': 'Proveedor de IA',
+  'form.serverUrl': 'URL del servidor',
+  'form.serverHelp': 'Cualquier servidor que ofrezca {path}, p. ej. Ollama o llama.cpp.',
+  'form.models': 'Modelos por tarea',
+  'form.level': 'Tu nivel (en el idioma de la canción)',
+  'form.nativeLang': 'Tu lengua materna',
+  'form.nativeLangHelp':
+    'La aplicación, las traducciones y las explicaciones usan este idioma. Busca por nombre o escribe un código de idioma como pt-BR.',
+  'form.studyLang': 'Idioma que estudias (opcional)',
+  'form.studyLangAny': 'Todos los idiomas de la canción',
+  'form.studyLangHelp': 'En canciones que mezclan idiomas, solo se estudian las líneas en este.',
+
+  'level.A1': 'Principiante',
+  'level.A2': 'Elemental',
+  'level.B1': 'Intermedio',
+  'level.B2': 'Intermedio alto',
+  'level.C1': 'Avanzado',
+  'level.C2': 'Dominio',
+
+  'task.detect': 'Detección de idioma',
+  'task.analyze': 'Análisis de la letra',
+  'task.translate': 'Traducción',
+
+  'apiKey.label': 'Clave de API de {provider}',
+  'apiKey.locked': 'La clave guardada está bloqueada',
+  'apiKey.passphrase': 'Contraseña',
+  'apiKey.passphraseOptional': 'Contraseña (opcional)',
+  'apiKey.unlock': 'Desbloquear',
+  'apiKey.save': 'Guardar clave',
+  'apiKey.test': 'Probar clave',
+  'apiKey.forget': 'Olvidar clave',
+  'apiKey.saved': 'Clave guardada en este dispositivo.',
+  'apiKey.savedEncrypted': 'Clave guardada y cifrada con tu contraseña.',
+  'apiKey.unlocked': 'Clave desbloqueada.',
+  'apiKey.removed': 'Clave eliminada de este dispositivo.',
+  'apiKey.works': 'La clave funciona.',
+  'apiKey.storedEncrypted': 'Guardada en este navegador, cifrada con tu contraseña.',
+  'apiKey.storedPlain': 'Guardada en este navegador. Añade una contraseña para cifrarla.',
+  'apiKey.notStored': 'Sin guardar: se olvida al recargar a menos que la guardes.',
+  'apiKey.sentOnlyTo': 'Solo se envía a {provider}.',
+  'apiKey.getOne': 'Consigue una en',
+
+  'settings.export': 'Exportar ajustes',
+  'settings.import': 'Importar ajustes',
+  'settings.exported': 'Ajustes exportados. Las claves de API solo se incluyen si están cifradas.',
+  'settings.imported': 'Ajustes importados.',
+  'settings.importFailed': 'No se pudieron importar los ajustes',
+
+  'languagePicker.search': 'Buscar idiomas...',
+  'languagePicker.invalid': '"{query}" no es un nombre de idioma ni un código de idioma válido.',
+
+  'submit.analyzing': 'La IA está analizando la letra...',
+  'submit.analyzingFound': 'La IA está analizando la letra... {count} encontradas',
+  'submit.translating': 'Traduciendo palabras... {done}/{total}',
+  'submit.offline': 'Buscar palabras sin conexión',
+  'submit.llm': 'Buscar palabras que debería aprender',
+
+  'error.noLyrics': 'Primero pega la letra de la canción.',
+  'error.tooLong': 'La letra es demasiado larga ({length} caracteres). El máximo es {max} caracteres.',
+  'error.fileTooLong': 'La letra de {file} es demasiado larga.',
+  'error.noItems': 'No se encontraron palabras. Prueba a ajustar tu nivel o revisa la letra.',
+  'error.offlineFailed': 'Falló el análisis sin conexión',
+  'error.noNativeLang': 'Elige tu lengua materna.',
+  'error.apiKey': 'Introduce tu clave de API de {provider}.',
+  'error.noStudyLines': 'No hay líneas en {language} en esta letra.',
+  'error.allNative': 'Esta letra está toda en {language}, tu lengua materna.',
+  'error.translationFailed': 'Falló la traducción',
+  'error.noTranslation': 'Sin traducción: {reason}',
+  'error.missingFromResponse': 'falta en la respuesta',
+  'error.unexpected': 'Se produjo un error inesperado',
+  'error.lineNeedsAI': 'Traducir las líneas requiere un proveedor de IA. Desactiva antes el modo sin conexión.',
+  'error.lineFailed': 'Falló la traducción de las líneas',
+  'error.grammarNeedsAI':
+    'Las notas de gramática requieren un proveedor de IA. Desactiva antes el modo sin conexión.',
+  'error.grammarFailed': 'Falló el análisis gramatical',
+  'error.offlineLookup': 'La consulta sin conexión necesita una canción en un idioma con lista de palabras incluida.',
+  'error.importFailed': 'No se pudo importar el archivo',
+  'error.lessonLink': 'No se pudo abrir el enlace de la lección',
+  'error.wrongPassphrase': 'Contraseña incorrecta.',
+  'error.invalidJSON': 'Este archivo no es un JSON válido.',
+  'error.newerFile': 'Este archivo se exportó con una versión más reciente de la aplicación.',
+  'error.notSettingsFile': 'Este no es un archivo de ajustes de Aprende con canciones.',
+  'error.notExportFile': 'Este no es un archivo exportado por Aprende con canciones.',
+  'error.exportIncomplete': 'Al archivo exportado le falta la canción o sus palabras.',
+  'error.exportItem': 'El elemento {n} del archivo exportado está incompleto.',
+  'error.noLanguage': 'No se pudo detectar el idioma de la letra.',
+  'error.noWordList':
+    'El análisis sin conexión aún no tiene lista de palabras para {language}. Usa un proveedor de IA.',
+  'error.noTimedLines': 'No se encontraron líneas con marcas de tiempo en {file}.',
+  'error.lessonInvalid': 'Esta lección no es un JSON válido.',
+  'error.notLesson': 'Esta no es una lección de Aprende con canciones.',
+  'error.newerLesson': 'Esta lección se creó con una versión más reciente de la aplicación.',
+  'error.lessonIncomplete': 'A la lección le falta la canción o sus palabras.',
+  'error.lessonSettings': 'A la lección le falta su nivel o su idioma.',
+  'error.lessonItem': 'El elemento {n} de la lección está incompleto.',
+  'error.lessonDamaged': 'Este enlace de lección está incompleto o dañado.',
+  'error.taskFailed': '{task} falló: {reason}',
+  'error.noResponse': 'la IA no envió ninguna respuesta',
+  'error.invalidResponse': 'la IA no respondió con un JSON válido',
+  'error.noWordsInResponse':
+    'El análisis de la letra falló: la respuesta de la IA no tiene lista de palabras.',
+  'error.noNotesInResponse': 'El análisis gramatical falló: la respuesta de la IA no tiene notas.',
+  'error.linesUntranslated':
+    'La traducción de líneas no devolvió traducción para {missing} de {total} líneas; inténtalo de nuevo.',
+  'error.invalidEntry': 'entrada no válida: {reason}',
+  'error.emptyTranslation': 'la traducción está vacía',
+  'error.noStreaming': 'Este servidor no admite streaming.',
+  'error.streamFailed': 'El servidor informó de un error durante el streaming.',
+
+  'warning.rejected':
+    'one:Se omitió {count} sugerencia para la que la IA devolvía datos no válidos: {list}|other:Se omitieron {count} sugerencias para las que la IA devolvía datos no válidos: {list}',
+  'warning.unnamedEntry': 'Una entrada',
+  'warning.translationCancelled':
+    'Traducción cancelada. Las palabras encontradas se han guardado; algunas no tienen traducción.',
+  'warning.analysisCancelled':
+    'Análisis cancelado. Se muestran las palabras encontradas hasta ahora, pero no se han guardado.',
+
+  'budget.analysis': 'Este análisis',
+  'budget.translation': 'Esta traducción',
+  'budget.grammar': 'Este análisis gramatical',
+  'budget.confirm':
+    '{action} costará unos {estimate}. Llevas gastado {spent} de tu presupuesto mensual de {budget}, así que lo superarías. ¿Continuar?',
+
+  'results.title': 'Palabras para aprender de esta canción',
+  'results.studyLang': 'Idioma que estudias',
+  'results.allLanguages': 'Todos los idiomas',
+  'results.study': 'Estudiar {language}',
+  'results.importJSON': 'Importar JSON',
+  'results.empty': 'Tu lista aparecerá aquí cuando analices una canción.',
+
+  'view.list': 'Lista',
+  'view.lyrics': 'Letra',
+  'view.bilingual': 'En paralelo',
+  'view.grammar': 'Gramática y modismos',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Test',
+
+  'band.comfortable': 'cómodo',
+  'band.stretch': 'reto',
+  'band.challenging': 'difícil',
+
+  'status.known': 'conocida',
+  'status.learning': 'aprendiendo',
+  'status.ignored': 'ignorada',
+  'status.markKnown': 'Ya la sé',
+  'status.markIgnored': 'Ignorar',
+  'status.markLearning': 'Marcar como aprendiendo',
+
+  'list.sort': 'Ordenar la lista',
+  'list.sortSong': 'Orden de la canción',
+  'list.sortHardest': 'Más difíciles primero',
+  'list.sortEasiest': 'Más fáciles primero',
+  'list.sortFrequency': 'Más frecuentes primero',
+  'list.group': 'Agrupar la lista',
+  'list.groupNone': 'Sin agrupar',
+  'list.groupPos': 'Agrupar por categoría gramatical',
+  'list.groupGender': 'Agrupar por género',
+  'list.translationStatus': 'Estado de la traducción',
+  'list.anyStatus': 'Cualquier estado de traducción',
+  'list.translated': 'Traducidas',
+  'list.untranslated': 'Sin traducir',
+  'list.failed': 'Traducción fallida',
+  'list.difficultyLabel': 'Dificultad',
+  'list.allDifficulties': 'Todas las dificultades',
+  'list.pos': 'Categoría gramatical',
+  'list.allPos': 'Todas las categorías',
+  'list.gender': 'Género',
+  'list.allGenders': 'Todos los géneros',
+  'list.other': 'Otras',
+  'list.selected': 'Seleccionadas: {count}',
+  'list.merge': 'Combinar',
+  'list.mergeHelp': 'Combina las palabras seleccionadas en la primera',
+  'list.clearSelection': 'Quitar selección',
+  'list.noMatches': 'Ninguna palabra coincide con estos filtros.',
+  'list.select': 'Seleccionar {word}',
+  'list.difficulty': 'Dificultad: {band}',
+  'list.appears': 'aparece {count}×',
+  'list.notInSong': 'no está en la canción',
+  'list.notInSongHelp': 'La IA la sugirió, pero no aparece en la letra.',
+  'list.article': 'artículo: {article}',
+  'list.line': 'Línea de la canción:',
+  'list.translation': 'Traducción',
+  'list.translationOptional': 'Traducción (opcional)',
+  'list.explanation': 'Explicación',
+  'list.explanationOptional': 'Explicación (opcional)',
+  'list.addWord': '+ Añadir una palabra',
+  'list.word': 'Palabra o expresión',
+  'list.wordPlaceholder': 'Palabra o expresión de la canción',
+
+  'pos.noun': 'sustantivo',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'adjetivo',
+  'pos.adverb': 'adverbio',
+  'pos.pronoun': 'pronombre',
+  'pos.preposition': 'preposición',
+  'pos.conjunction': 'conjunción',
+  'pos.determiner': 'determinante',
+  'pos.numeral': 'numeral',
+  'pos.interjection': 'interjección',
+  'pos.phrase': 'expresión',
+  'pos.other': 'otro',
+  'gender.masculine': 'masculino',
+  'gender.feminine': 'femenino',
+  'gender.neuter': 'neutro',
+  'gender.common': 'común',
+
+  'lookup.loading': 'Buscando...',
+  'lookup.failed': 'Falló la búsqueda',
+  'lookup.noTranslation': 'No hay traducción disponible',
+  'lookup.noTranslationYet': 'Aún sin traducción',
+  'lookup.add': 'Añadir a mi lista',
+  'lookup.offlineEstimate': 'Nivel estimado: {level}. Las traducciones requieren un proveedor de IA.',
+  'lyrics.clickHelp': 'Haz clic en cualquier palabra para consultarla.',
+
+  'offline.core': 'Palabra básica de nivel {level} en {language}.',
+  'offline.estimated': 'No está en la lista básica de {language}; nivel estimado: {level}.',
+
+  'bilingual.style': 'Estilo de traducción',
+  'bilingual.literal': 'Literal',
+  'bilingual.natural': 'Natural',
+  'bilingual.translate': 'Traducir al {language}',
+  'bilingual.translating': 'Traduciendo las líneas...',
+
+  'grammar.help':
+    'Puntos gramaticales y modismos de la canción, cada uno con una regla breve y más ejemplos.',
+  'grammar.find': 'Buscar gramática y modismos',
+  'grammar.findAgain': 'Buscar de nuevo',
+  'grammar.finding': 'Buscando gramática y modismos...',
+  'grammar.none': 'No se encontraron puntos gramaticales ni modismos que merezca la pena explicar.',
+  'grammar.grammar': 'Gramática',
+  'grammar.idiom': 'Modismo',
+  'grammar.line': 'Línea {line}:',
+
+  'karaoke.help':
+    'Elige el archivo de audio de la canción para seguirla. Se queda en tu dispositivo y no se guarda.',
+  'karaoke.change': 'Cambiar audio',
+  'karaoke.choose': 'Elegir archivo de audio',
+  'karaoke.loop': 'Repetir esta línea',
+  'karaoke.stopLoop': 'Dejar de repetir',
+  'karaoke.onLine': 'En esta línea',
+  'karaoke.noWords': 'Ninguna palabra de tu lista.',
+
+  'quiz.intro': 'Practica las palabras de esta canción. Las que falles se marcan como aprendiendo.',
+  'quiz.cloze': 'Completa el hueco',
+  'quiz.clozeHelp': 'Escribe la palabra que falta en una línea de la canción.',
+  'quiz.choice': 'Opción múltiple',
+  'quiz.choiceHelp': 'Elige la traducción correcta.',
+  'quiz.recall': 'Recuerdo inverso',
+  'quiz.recallHelp': 'Ve la traducción y escribe la palabra.',
+  'quiz.needsTranslations': 'Necesita palabras traducidas',
+  'quiz.available': 'one:{count} pregunta disponible|other:{count} preguntas disponibles',
+  'quiz.markedLearning': 'Marcadas como aprendiendo: {words}',
+  'quiz.cleared': 'Ya no están marcadas como aprendiendo: {words}',
+  'quiz.again': 'Intentar de nuevo',
+  'quiz.another': 'Elegir otro test',
+  'quiz.score': 'Puntuación: {score}',
+  'quiz.hint': 'Pista: {hint}',
+  'quiz.typeWord': 'Escribe la palabra',
+  'quiz.next': 'Siguiente',
+  'quiz.results': 'Ver resultados',
+  'quiz.check': 'Comprobar',
+  'quiz.correct': '¡Correcto!',
+  'quiz.answer': 'Respuesta: {answer}',
+
+  'export.button': 'Exportar…',
+  'export.format': 'Formato',
+  'export.anki': 'Paquete de Anki (.apkg)',
+  'export.csv': 'Hoja de cálculo CSV',
+  'export.json': 'JSON (se puede volver a importar)',
+  'export.quizlet': 'Quizlet (término ⇥ traducción)',
+  'export.lesson': 'Lección para compartir (archivo o enlace)',
+  'export.untranslated': 'Sin traducción: {count}',
+  'export.noTranslation': '(sin traducción)',
+  'export.exclude': 'Dejarlas fuera',
+  'export.mark': 'Incluirlas, marcadas como sin traducir',
+  'export.columns': 'Columnas',
+  'export.separator': 'Separador',
+  'export.comma': 'Coma',
+  'export.semicolon': 'Punto y coma',
+  'export.tab': 'Tabulador',
+  'export.jsonHelp':
+    'Incluye la letra, todas las palabras y las notas de gramática tal cual, para poder importarlas de nuevo en la aplicación.',
+  'export.lessonHelp':
+    'Incluye la letra, los ajustes, las palabras, las traducciones de líneas y las notas de gramática. Los estudiantes pueden abrirla sin clave de API ni llamadas a la IA.',
+  'export.copyLink': 'Copiar enlace',
+  'export.linkCopied': 'Enlace copiado. Quien lo abra recibirá esta lección.',
+  'export.linkTooLong': 'Esta lección es demasiado larga para un enlace. Descárgala y comparte el archivo.',
+  'export.preparing': 'Preparando...',
+  'export.download': 'Descargar',
+  'export.failed': 'Falló la exportación',
+
+  'csv.word': 'Palabra',
+  'csv.translation': 'Traducción',
+  'csv.example': 'Línea de la canción',
+  'csv.cloze': 'Línea de la canción (huecos)',
+  'csv.explanation': 'Explicación',
+  'csv.difficulty': 'Dificultad',
+  'csv.score': 'Puntuación de dificultad',
+  'csv.count': 'Apariciones',
+  'csv.lines': 'Números de línea',
+  'csv.language': 'Idioma',
+  'csv.song': 'Canción',
+  'csv.status': 'Estado',
+
+  'speech.title': 'Pronunciación',
+  'speech.backend': 'Voz de',
+  'speech.browser': 'Voces del navegador',
+  'speech.server': 'Servidor TTS local',
+  'speech.voice': 'Voz para {language}',
+  'speech.serverDefault': 'Predeterminada del servidor',
+  'speech.bestMatch': 'La más adecuada',
+  'speech.noVoice': 'No hay ninguna voz instalada para este idioma',
+  'speech.speed': 'Velocidad: {rate}×',
+  'speech.try': 'Probar esta voz',
+  'speech.pronounce': 'Pronunciar',
+  'speech.word': 'Pronunciar {word}',
+  'speech.line': 'Pronunciar esta línea',
+  'speech.failed': 'No se pudo reproducir la pronunciación',
+  'speech.unsupported': 'Este navegador no admite síntesis de voz.',
+  'speech.error': 'Falló la voz: {error}',
+  'speech.serverError': 'El servidor TTS respondió {status} {statusText}.',
+  'speech.badAudio': 'El servidor TTS devolvió un audio que el navegador no puede reproducir.',
+
+  'review.title': 'Repasar',
+  'review.stats': 'Pendientes: {due} · Aprendidas: {learned} · En el mazo: {total}',
+  'review.empty': 'Las palabras de las canciones que analizas se añaden aquí automáticamente.',
+  'review.nothingDue': 'No hay nada pendiente ahora. ¡Vuelve más tarde!',
+  'review.lapses': 'olvidada {count}×',
+  'review.show': 'Mostrar respuesta',
+  'review.noTranslation': 'No hay traducción guardada',
+  'review.again': 'Otra vez',
+  'review.hard': 'Difícil',
+  'review.good': 'Bien',
+  'review.easy': 'Fácil',
+  'review.remove': 'Quitar del mazo',
+
+  'library.title': 'Biblioteca de canciones',
+  'library.saved': 'Guardadas: {count}',
+  'library.search': 'Buscar por título, artista, idioma o letra...',
+  'library.empty': 'Las canciones se guardan aquí automáticamente después de analizarlas.',
+  'library.noMatches': 'Ninguna canción coincide con "{query}".',
+  'library.words': 'one:{count} palabra de nivel {level}|other:{count} palabras de nivel {level}',
+  'library.notAnalysed': 'Aún sin analizar',
+  'library.levels': 'analizada en {levels}',
+  'library.open': 'Abrir',
+  'library.rerunLevel': 'Nivel para repetir el análisis',
+  'library.rerun': 'Repetir',
+  'library.confirmDelete': '¿Eliminar "{title}" de tu biblioteca?',
+
+  'vocab.title': 'Mi vocabulario',
+  'vocab.stats': 'Conocidas: {known} · Aprendiendo: {learning} · Ignoradas: {ignored}',
+  'vocab.language': 'Código de idioma',
+  'vocab.languagePlaceholder': 'p. ej. nl, es, fr',
+  'vocab.show': 'Mostrar',
+  'vocab.all': 'Todas las palabras',
+  'vocab.importList': 'Importar una lista de palabras',
+  'vocab.importPlaceholder': 'Una palabra por línea o separadas por comas',
+  'vocab.importStatus': 'Estado de las palabras importadas',
+  'vocab.as': 'como {status}',
+  'vocab.import': 'Importar',
+  'vocab.importFile': 'Importar archivo .txt',
+  'vocab.empty':
+    'Aún no hay palabras. Marca palabras como conocidas o ignoradas desde la lista de una canción, o importa una lista arriba.',
+  'vocab.statusOf': 'Estado de {word}',
+  'vocab.noLanguage': 'Elige primero el idioma de la lista de palabras.',
+  'vocab.noWords': 'No se encontraron palabras en la lista.',
+  'vocab.imported': 'one:Se importó {count} palabra como {status}.|other:Se importaron {count} palabras como {status}.',
+  'vocab.readFailed': 'No se pudo leer el archivo',
+
+  'progress.title': 'Tu progreso',
+  'progress.reviewedToday': 'one:{count} tarjeta repasada hoy|other:{count} tarjetas repasadas hoy',
+  'progress.learned': 'Palabras aprendidas',
+  'progress.days': 'one:{count} día|other:{count} días',
+  'progress.streak': 'Racha de repaso',
+  'progress.longest': 'one:récord {count} día|other:récord {count} días',
+  'progress.songsCompleted': 'Canciones completadas',
+  'progress.songsOf': '{done} de {total}',
+  'progress.coverage': 'Canción del formulario de análisis',
+  'progress.coverageOf':
+    'Ya conoces alrededor del {percent} de sus palabras ({known} de {total}, {language}).',
+  'progress.coverageHelp':
+    'Cuenta las palabras que has aprendido o marcado como conocidas o ignoradas, y las palabras comunes por debajo de tu nivel ({level}).',
+  'progress.noLyrics': 'Pega una letra en la pestaña Analizar para ver cuánto de la canción ya conoces.',
+  'progress.empty': 'Analiza canciones y repasa sus palabras para ver aquí tu progreso.',
+  'progress.language': 'Idioma',
+  'progress.learnedColumn': 'Aprendidas',
+  'progress.learningColumn': 'En estudio',
+  'progress.level': 'Nivel',
+  'progress.suggestions': 'Canciones para estudiar ahora',
+  'progress.suggestionsHelp':
+    'Canciones de tu biblioteca que aún no has completado, las más conocidas primero.',
+  'progress.songCoverage': '{percent} de la letra conocida · {done} de {total} palabras conocidas',
+
+  'usage.title': 'Uso de la IA',
+  'usage.spent': '{spent} este mes',
+  'usage.spentOfBudget': '{spent} de {budget} este mes',
+  'usage.budget': 'Presupuesto mensual (USD)',
+  'usage.noBudget': 'Sin presupuesto',
+  'usage.budgetSet': 'Presupuesto fijado en {budget} al mes.',
+  'usage.budgetRemoved': 'Presupuesto eliminado.',
+  'usage.budgetHelp':
+    'Se te pedirá confirmación antes de una petición que supere el presupuesto de este mes. Los costes son estimaciones según los precios de lista.',
+  'usage.clearCache': 'Borrar respuestas en caché',
+  'usage.cacheCleared': 'Respuestas en caché borradas.',
+  'usage.cacheFailed': 'No se pudo borrar la caché',
+  'usage.empty': 'Aún no hay llamadas a la IA. Las peticiones repetidas se responden gratis desde la caché local.',
+  'usage.month': 'Mes',
+  'usage.song': 'Canción',
+  'usage.otherRequests': 'Otras peticiones',
+  'usage.recent': 'Llamadas recientes',
+  'usage.model': 'Modelo',
+  'usage.calls': 'Llamadas',
+  'usage.tokens': 'Tokens de entrada / salida',
+  'usage.cost': 'Coste',
+  'usage.unpriced':
+    'one:{count} llamada a un modelo de precio desconocido|other:{count} llamadas a modelos de precio desconocido',
+  'usage.estimated': 'Estimado según la longitud del texto',
+  'usage.unknown': 'desconocido',
+}
+
+export default es
@@ -0,0 +1,464 @@
+import type { Messages } from '../i18n'
+
+const fr: Messages = {
+  'app.title': 'Apprendre avec des chansons',
+  'app.subtitle':
+    'Collez les paroles d’une chanson dans n’importe quelle langue et obtenez une liste de mots adaptés à votre niveau, traduits dans votre langue.',
+  'app.footer':
+    'Ceci est un prototype éducatif. La difficulté est estimée automatiquement et ne sert que de repère pendant que vous apprenez en musique.',
+
+  'nav.analyze': 'Analyser une chanson',
+  'nav.review': 'Réviser',
+  'nav.library': 'Bibliothèque',
+  'nav.vocabulary': 'Vocabulaire',
+  'nav.progress': 'Progrès',
+  'nav.usage': 'Utilisation',
+
+  'common.add': 'Ajouter',
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.delete': 'Supprimer',
+  'common.done': 'Terminé',
+  'common.edit': 'Modifier',
+  'common.remove': 'Retirer',
+  'common.save': 'Enregistrer',
+  'common.translateAgain': 'Traduire à nouveau',
+  'common.translating': 'Traduction...',
+  'common.working': 'En cours...',
+
+  'form.title': 'Titre',
+  'form.artist': 'Artiste',
+  'form.optional': 'Facultatif',
+  'form.lyrics': 'Paroles de la chanson',
+  'form.newSong': 'Commencer une nouvelle chanson',
+  'form.example': 'Essayer avec un exemple',
+  'form.importSynced': 'Importer un .lrc / .srt',
+  'form.lyricsPlaceholder': 'Collez ici les paroles complètes...',
+  'form.characters': '{count} / {max} caractères',
+  'form.maxLength': '(longueur maximale atteinte)',
+  'form.songCount': 'one:{count} chanson|other:{count} chansons',
+  'form.albumHelp':
+    'Vous collez un album entier ? Mettez une ligne comme « --- Titre de la chanson --- » avant chaque chanson pour les analyser ensemble et les enregistrer séparément.',
+  'form.offline': 'Analyser hors ligne (sans IA ni clé d’API)',
+  'form.provider': 'Fournisseur d’IA',
+  'form.serverUrl': 'URL du serveur',
+  'form.serverHelp': 'Tout serveur qui expose {path}, par exemple Ollama ou llama.cpp.',
+  'form.models': 'Modèles par tâche',
+  'form.level': 'Votre niveau (dans la langue de la chanson)',
+  'form.nativeLang': 'Votre langue maternelle',
+  'form.nativeLangHelp':
+    'L’application, les traductions et les explications utilisent cette langue. Cherchez par nom ou tapez un code de langue comme pt-BR.',
+  'form.studyLang': 'Langue étudiée (facultatif)',
+  'form.studyLangAny': 'Toutes les langues de la chanson',
+  'form.studyLangHelp': 'Pour les chansons qui mélangent les langues, seules les lignes dans celle-ci sont étudiées.',
+
+  'level.A1': 'Débutant',
+  'level.A2': 'Élémentaire',
+  'level.B1': 'Intermédiaire',
+  'level.B2': 'Intermédiaire avancé',
+  'level.C1': 'Avancé',
+  'level.C2': 'Maîtrise',
+
+  'task.detect': 'Détection de la langue',
+  'task.analyze': 'Analyse des paroles',
+  'task.translate': 'Traduction',
+
+  'apiKey.label': 'Clé d’API {provider}',
+  'apiKey.locked': 'La clé enregistrée est verrouillée',
+  'apiKey.passphrase': 'Phrase secrète',
+  'apiKey.passphraseOptional': 'Phrase secrète (facultatif)',
+  'apiKey.unlock': 'Déverrouiller',
+  'apiKey.save': 'Enregistrer la clé',
+  'apiKey.test': 'Tester la clé',
+  'apiKey.forget': 'Oublier la clé',
+  'apiKey.saved': 'Clé enregistrée sur cet appareil.',
+  'apiKey.savedEncrypted': 'Clé enregistrée, chiffrée avec votre phrase secrète.',
+  'apiKey.unlocked': 'Clé déverrouillée.',
+  'apiKey.removed': 'Clé supprimée de cet appareil.',
+  'apiKey.works': 'La clé fonctionne.',
+  'apiKey.storedEncrypted': 'Enregistrée dans ce navigateur, chiffrée avec votre phrase secrète.',
+  'apiKey.storedPlain': 'Enregistrée dans ce navigateur. Ajoutez une phrase secrète pour la chiffrer.',
+  'apiKey.notStored': 'Non enregistrée : elle est oubliée au rechargement, sauf si vous l’enregistrez.',
+  'apiKey.sentOnlyTo': 'Elle n’est envoyée qu’à {provider}.',
+  'apiKey.getOne': 'Obtenez-en une sur',
+
+  'settings.export': 'Exporter les réglages',
+  'settings.import': 'Importer des réglages',
+  'settings.exported': 'Réglages exportés. Les clés d’API ne sont incluses que si elles sont chiffrées.',
+  'settings.imported': 'Réglages importés.',
+  'settings.importFailed': 'Impossible d’importer les réglages',
+
+  'languagePicker.search': 'Rechercher une langue...',
+  'languagePicker.invalid': '« {query} » n’est ni un nom de langue ni un code de langue valide.',
+
+  'submit.analyzing': 'L’IA analyse les paroles...',
+  'submit.analyzingFound': 'L’IA analyse les paroles... {count} trouvés',
+  'submit.translating': 'Traduction des mots... {done}/{total}',
+  'submit.offline': 'Trouver des mots hors ligne',
+  'submit.llm': 'Trouver les mots à apprendre',
+
+  'error.noLyrics': 'Collez d’abord les paroles de la chanson.',
+  'error.tooLong': 'Les paroles sont trop longues ({length} caractères). Le maximum est de {max} caractères.',
+  'error.fileTooLong': 'Les paroles de {file} sont trop longues.',
+  'error.noItems': 'Aucun mot trouvé. Essayez d’ajuster votre niveau ou vérifiez les paroles.',
+  'error.offlineFailed': 'L’analyse hors ligne a échoué',
+  'error.noNativeLang': 'Choisissez votre langue maternelle.',
+  'error.apiKey': 'Saisissez votre clé d’API {provider}.',
+  'error.noStudyLines': 'Aucune ligne en {language} dans ces paroles.',
+  'error.allNative': 'Ces paroles sont entièrement en {language}, votre langue maternelle.',
+  'error.translationFailed': 'La traduction a échoué',
+  'error.noTranslation': 'Pas de traduction : {reason}',
+  'error.missingFromResponse': 'absente de la réponse',
+  'error.unexpected': 'Une erreur inattendue s’est produite',
+  'error.lineNeedsAI': 'La traduction des lignes nécessite un fournisseur d’IA. Désactivez d’abord le mode hors ligne.',
+  'error.lineFailed': 'La traduction des lignes a échoué',
+  'error.grammarNeedsAI':
+    'Les notes de grammaire nécessitent un fournisseur d’IA. Désactivez d’abord le mode hors ligne.',
+  'error.grammarFailed': 'L’analyse grammaticale a échoué',
+  'error.offlineLookup': 'La recherche hors ligne nécessite une chanson dans une langue avec une liste de mots intégrée.',
+  'error.importFailed': 'Impossible d’importer le fichier',
+  'error.lessonLink': 'Impossible d’ouvrir le lien de la leçon',
+  'error.wrongPassphrase': 'Phrase secrète incorrecte.',
+  'error.invalidJSON': 'Ce fichier n’est pas un JSON valide.',
+  'error.newerFile': 'Ce fichier a été exporté par une version plus récente de l’application.',
+  'error.notSettingsFile': 'Ce n’est pas un fichier de réglages d’Apprendre avec des chansons.',
+  'error.notExportFile': 'Ce n’est pas un fichier exporté par Apprendre avec des chansons.',
+  'error.exportIncomplete': 'Il manque la chanson ou ses éléments dans le fichier exporté.',
+  'error.exportItem': 'L’élément {n} du fichier exporté est incomplet.',
+  'error.noLanguage': 'Impossible de détecter la langue des paroles.',
+  'error.noWordList':
+    'L’analyse hors ligne n’a pas encore de liste de mots pour la langue {language}. Utilisez un fournisseur d’IA.',
+  'error.noTimedLines': 'Aucune ligne horodatée trouvée dans {file}.',
+  'error.lessonInvalid': 'Cette leçon n’est pas un JSON valide.',
+  'error.notLesson': 'Ce n’est pas une leçon d’Apprendre avec des chansons.',
+  'error.newerLesson': 'Cette leçon a été créée par une version plus récente de l’application.',
+  'error.lessonIncomplete': 'Il manque la chanson ou ses éléments dans la leçon.',
+  'error.lessonSettings': 'Il manque le niveau ou la langue de la leçon.',
+  'error.lessonItem': 'L’élément {n} de la leçon est incomplet.',
+  'error.lessonDamaged': 'Ce lien de leçon est incomplet ou endommagé.',
+  'error.taskFailed': '{task} a échoué : {reason}',
+  'error.noResponse': 'l’IA n’a envoyé aucune réponse',
+  'error.invalidResponse': 'l’IA n’a pas répondu avec un JSON valide',
+  'error.noWordsInResponse':
+    'L’analyse des paroles a échoué : la réponse de l’IA ne contient pas de liste de mots.',
+  'error.noNotesInResponse': 'L’analyse grammaticale a échoué : la réponse de l’IA ne contient pas de notes.',
+  'error.linesUntranslated':
+    'La traduction des lignes n’a rien renvoyé pour {missing} lignes sur {total} ; réessayez.',
+  'error.invalidEntry': 'entrée invalide : {reason}',
+  'error.emptyTranslation': 'la traduction est vide',
+  'error.noStreaming': 'Ce serveur ne prend pas en charge le streaming.',
+  'error.streamFailed': 'Le serveur a signalé une erreur pendant le streaming.',
+
+  'warning.rejected':
+    'one:{count} suggestion ignorée, l’IA renvoyant toujours des données invalides : {list}|other:{count} suggestions ignorées, l’IA renvoyant toujours des données invalides : {list}',
+  'warning.unnamedEntry': 'Une entrée',
+  'warning.translationCancelled':
+    'Traduction annulée. Les mots trouvés sont enregistrés ; certains n’ont pas de traduction.',
+  'warning.analysisCancelled':
+    'Analyse annulée. Les mots trouvés jusqu’ici sont affichés mais pas enregistrés.',
+
+  'budget.analysis': 'Cette analyse',
+  'budget.translation': 'Cette traduction',
+  'budget.grammar': 'Cette analyse grammaticale',
+  'budget.confirm':
+    '{action} devrait coûter environ {estimate}. Vous avez dépensé {spent} de votre budget mensuel de {budget} : il serait donc dépassé. Continuer ?',
+
+  'results.title': 'Mots à apprendre dans cette chanson',
+  'results.studyLang': 'Langue étudiée',
+  'results.allLanguages': 'Toutes les langues',
+  'results.study': 'Étudier : {language}',
+  'results.importJSON': 'Importer un JSON',
+  'results.empty': 'Votre liste apparaîtra ici après l’analyse d’une chanson.',
+
+  'view.list': 'Liste',
+  'view.lyrics': 'Paroles',
+  'view.bilingual': 'Côte à côte',
+  'view.grammar': 'Grammaire et expressions',
+  'view.karaoke': 'Karaoké',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'accessible',
+  'band.stretch': 'un peu difficile',
+  'band.challenging': 'difficile',
+
+  'status.known': 'connu',
+  'status.learning': 'en cours',
+  'status.ignored': 'ignoré',
+  'status.markKnown': 'Je connais',
+  'status.markIgnored': 'Ignorer',
+  'status.markLearning': 'Marquer « en cours »',
+
+  'list.sort': 'Trier la liste',
+  'list.sortSong': 'Ordre de la chanson',
+  'list.sortHardest': 'Les plus difficiles d’abord',
+  'list.sortEasiest': 'Les plus faciles d’abord',
+  'list.sortFrequency': 'Les plus fréquents d’abord',
+  'list.group': 'Regrouper la liste',
+  'list.groupNone': 'Aucun regroupement',
+  'list.groupPos': 'Regrouper par nature',
+  'list.groupGender': 'Regrouper par genre',
+  'list.translationStatus': 'État de la traduction',
+  'list.anyStatus': 'Tout état de traduction',
+  'list.translated': 'Traduits',
+  'list.untranslated': 'Non traduits',
+  'list.failed': 'Traduction échouée',
+  'list.difficultyLabel': 'Difficulté',
+  'list.allDifficulties': 'Toutes les difficultés',
+  'list.pos': 'Nature',
+  'list.allPos': 'Toutes les natures',
+  'list.gender': 'Genre',
+  'list.allGenders': 'Tous les genres',
+  'list.other': 'Autres',
+  'list.selected': 'Sélection : {count}',
+  'list.merge': 'Fusionner',
+  'list.mergeHelp': 'Regroupe les mots sélectionnés dans le premier',
+  'list.clearSelection': 'Effacer la sélection',
+  'list.noMatches': 'Aucun mot ne correspond à ces filtres.',
+  'list.select': 'Sélectionner {word}',
+  'list.difficulty': 'Difficulté : {band}',
+  'list.appears': 'apparaît {count}×',
+  'list.notInSong': 'absent de la chanson',
+  'list.notInSongHelp': 'L’IA l’a proposé, mais il n’apparaît pas dans les paroles.',
+  'list.article': 'article : {article}',
+  'list.line': 'Ligne de la chanson :',
+  'list.translation': 'Traduction',
+  'list.translationOptional': 'Traduction (facultatif)',
+  'list.explanation': 'Explication',
+  'list.explanationOptional': 'Explication (facultatif)',
+  'list.addWord': '+ Ajouter un mot',
+  'list.word': 'Mot ou expression',
+  'list.wordPlaceholder': 'Mot ou expression de la chanson',
+
+  'pos.noun': 'nom',
+  'pos.verb': 'verbe',
+  'pos.adjective': 'adjectif',
+  'pos.adverb': 'adverbe',
+  'pos.pronoun': 'pronom',
+  'pos.preposition': 'préposition',
+  'pos.conjunction': 'conjonction',
+  'pos.determiner': 'déterminant',
+  'pos.numeral': 'numéral',
+  'pos.interjection': 'interjection',
+  'pos.phrase': 'expression',
+  'pos.other': 'autre',
+  'gender.masculine': 'masculin',
+  'gender.feminine': 'féminin',
+  'gender.neuter': 'neutre',
+  'gender.common': 'commun',
+
+  'lookup.loading': 'Recherche...',
+  'lookup.failed': 'La recherche a échoué',
+  'lookup.noTranslation': 'Aucune traduction disponible',
+  'lookup.noTranslationYet': 'Pas encore de traduction',
+  'lookup.add': 'Ajouter à ma liste',
+  'lookup.offlineEstimate': 'Niveau estimé : {level}. Les traductions nécessitent un fournisseur d’IA.',
+  'lyrics.clickHelp': 'Cliquez sur un mot pour le rechercher.',
+
+  'offline.core': 'Mot de base de niveau {level} ({language}).',
+  'offline.estimated': 'Absent de la liste de base ({language}) ; niveau estimé : {level}.',
+
+  'bilingual.style': 'Style de traduction',
+  'bilingual.literal': 'Littérale',
+  'bilingual.natural': 'Naturelle',
+  'bilingual.translate': 'Traduire en {language}',
+  'bilingual.translating': 'Traduction des lignes...',
+
+  'grammar.help':
+    'Points de grammaire et expressions de la chanson, chacun avec une règle courte et d’autres exemples.',
+  'grammar.find': 'Chercher grammaire et expressions',
+  'grammar.findAgain': 'Chercher à nouveau',
+  'grammar.finding': 'Recherche de grammaire et d’expressions...',
+  'grammar.none': 'Aucun point de grammaire ni expression à expliquer n’a été trouvé.',
+  'grammar.grammar': 'Grammaire',
+  'grammar.idiom': 'Expression',
+  'grammar.line': 'Ligne {line} :',
+
+  'karaoke.help':
+    'Choisissez le fichier audio de la chanson pour suivre les paroles. Il reste sur votre appareil et n’est pas enregistré.',
+  'karaoke.change': 'Changer l’audio',
+  'karaoke.choose': 'Choisir un fichier audio',
+  'karaoke.loop': 'Répéter cette ligne',
+  'karaoke.stopLoop': 'Arrêter la répétition',
+  'karaoke.onLine': 'Sur cette ligne',
+  'karaoke.noWords': 'Aucun mot de votre liste.',
+
+  'quiz.intro': 'Entraînez-vous sur les mots de cette chanson. Les mots ratés sont marqués « en cours ».',
+  'quiz.cloze': 'Texte à trous',
+  'quiz.clozeHelp': 'Tapez le mot qui manque dans une ligne de la chanson.',
+  'quiz.choice': 'Choix multiple',
+  'quiz.choiceHelp': 'Choisissez la bonne traduction.',
+  'quiz.recall': 'Rappel inversé',
+  'quiz.recallHelp': 'Voyez la traduction, tapez le mot.',
+  'quiz.needsTranslations': 'Nécessite des mots traduits',
+  'quiz.available': 'one:{count} question disponible|other:{count} questions disponibles',
+  'quiz.markedLearning': 'Marqués « en cours » : {words}',
+  'quiz.cleared': 'Ne sont plus marqués « en cours » : {words}',
+  'quiz.again': 'Recommencer',
+  'quiz.another': 'Choisir un autre quiz',
+  'quiz.score': 'Score : {score}',
+  'quiz.hint': 'Indice : {hint}',
+  'quiz.typeWord': 'Tapez le mot',
+  'quiz.next': 'Suivant',
+  'quiz.results': 'Voir les résultats',
+  'quiz.check': 'Vérifier',
+  'quiz.correct': 'Correct !',
+  'quiz.answer': 'Réponse : {answer}',
+
+  'export.button': 'Exporter…',
+  'export.format': 'Format',
+  'export.anki': 'Paquet Anki (.apkg)',
+  'export.csv': 'Tableur CSV',
+  'export.json': 'JSON (réimportable)',
+  'export.quizlet': 'Quizlet (terme ⇥ traduction)',
+  'export.lesson': 'Leçon à partager (fichier ou lien)',
+  'export.untranslated': 'Sans traduction : {count}',
+  'export.noTranslation': '(sans traduction)',
+  'export.exclude': 'Les laisser de côté',
+  'export.mark': 'Les inclure, marqués comme non traduits',
+  'export.columns': 'Colonnes',
+  'export.separator': 'Séparateur',
+  'export.comma': 'Virgule',
+  'export.semicolon': 'Point-virgule',
+  'export.tab': 'Tabulation',
+  'export.jsonHelp':
+    'Contient les paroles, tous les éléments et les notes de grammaire tels quels, pour pouvoir les réimporter dans l’application.',
+  'export.lessonHelp':
+    'Contient les paroles, les réglages, les mots, les traductions des lignes et les notes de grammaire. Les élèves peuvent l’ouvrir sans clé API ni appel à l’IA.',
+  'export.copyLink': 'Copier le lien',
+  'export.linkCopied': 'Lien copié. Toute personne qui l’ouvre reçoit cette leçon.',
+  'export.linkTooLong': 'Cette leçon est trop longue pour un lien. Téléchargez-la et partagez le fichier.',
+  'export.preparing': 'Préparation...',
+  'export.download': 'Télécharger',
+  'export.failed': 'L’export a échoué',
+
+  'csv.word': 'Mot',
+  'csv.translation': 'Traduction',
+  'csv.example': 'Ligne de la chanson',
+  'csv.cloze': 'Ligne de la chanson (texte à trous)',
+  'csv.explanation': 'Explication',
+  'csv.difficulty': 'Difficulté',
+  'csv.score': 'Score de difficulté',
+  'csv.count': 'Occurrences',
+  'csv.lines': 'Numéros de ligne',
+  'csv.language': 'Langue',
+  'csv.song': 'Chanson',
+  'csv.status': 'Statut',
+
+  'speech.title': 'Prononciation',
+  'speech.backend': 'Voix fournie par',
+  'speech.browser': 'Voix du navigateur',
+  'speech.server': 'Serveur TTS local',
+  'speech.voice': 'Voix ({language})',
+  'speech.serverDefault': 'Par défaut du serveur',
+  'speech.bestMatch': 'La plus adaptée',
+  'speech.noVoice': 'Aucune voix installée pour cette langue',
+  'speech.speed': 'Vitesse : {rate}×',
+  'speech.try': 'Essayer cette voix',
+  'speech.pronounce': 'Prononcer',
+  'speech.word': 'Prononcer {word}',
+  'speech.line': 'Prononcer cette ligne',
+  'speech.failed': 'Impossible de lire la prononciation',
+  'speech.unsupported': 'Ce navigateur ne prend pas en charge la synthèse vocale.',
+  'speech.error': 'La synthèse vocale a échoué : {error}',
+  'speech.serverError': 'Le serveur TTS a répondu {status} {statusText}.',
+  'speech.badAudio': 'Le serveur TTS a renvoyé un audio que le navigateur ne peut pas lire.',
+
+  'review.title': 'Révision',
+  'review.stats': 'À réviser : {due} · Appris : {learned} · Dans le paquet : {total}',
+  'review.empty': 'Les mots des chansons que vous analysez sont ajoutés ici automatiquement.',
+  'review.nothingDue': 'Rien à réviser pour l’instant. Revenez plus tard !',
+  'review.lapses': 'oublié {count}×',
+  'review.show': 'Afficher la réponse',
+  'review.noTranslation': 'Aucune traduction enregistrée',
+  'review.again': 'À revoir',
+  'review.hard': 'Difficile',
+  'review.good': 'Bien',
+  'review.easy': 'Facile',
+  'review.remove': 'Retirer du paquet',
+
+  'library.title': 'Bibliothèque de chansons',
+  'library.saved': 'Enregistrées : {count}',
+  'library.search': 'Rechercher par titre, artiste, langue ou paroles...',
+  'library.empty': 'Les chansons sont enregistrées ici automatiquement après leur analyse.',
+  'library.noMatches': 'Aucune chanson ne correspond à « {query} ».',
+  'library.words': 'one:{count} mot au niveau {level}|other:{count} mots au niveau {level}',
+  'library.notAnalysed': 'Pas encore analysée',
+  'library.levels': 'analysée aux niveaux {levels}',
+  'library.open': 'Ouvrir',
+  'library.rerunLevel': 'Niveau pour relancer l’analyse',
+  'library.rerun': 'Relancer',
+  'library.confirmDelete': 'Supprimer « {title} » de votre bibliothèque ?',
+
+  'vocab.title': 'Mon vocabulaire',
+  'vocab.stats': 'Connus : {known} · En cours : {learning} · Ignorés : {ignored}',
+  'vocab.language': 'Code de langue',
+  'vocab.languagePlaceholder': 'p. ex. nl, es, fr',
+  'vocab.show': 'Afficher',
+  'vocab.all': 'Tous les mots',
+  'vocab.importList': 'Importer une liste de mots',
+  'vocab.importPlaceholder': 'Un mot par ligne, ou séparés par des virgules',
+  'vocab.importStatus': 'État des mots importés',
+  'vocab.as': 'comme {status}',
+  'vocab.import': 'Importer',
+  'vocab.importFile': 'Importer un fichier .txt',
+  'vocab.empty':
+    'Aucun mot pour l’instant. Marquez des mots comme connus ou ignorés depuis la liste d’une chanson, ou importez une liste ci-dessus.',
+  'vocab.statusOf': 'État de {word}',
+  'vocab.noLanguage': 'Choisissez d’abord la langue de la liste de mots.',
+  'vocab.noWords': 'Aucun mot trouvé dans la liste.',
+  'vocab.imported': 'one:{count} mot importé comme {status}.|other:{count} mots importés comme {status}.',
+  'vocab.readFailed': 'Impossible de lire le fichier',
+
+  'progress.title': 'Vos progrès',
+  'progress.reviewedToday': 'one:{count} carte révisée aujourd’hui|other:{count} cartes révisées aujourd’hui',
+  'progress.learned': 'Mots appris',
+  'progress.days': 'one:{count} jour|other:{count} jours',
+  'progress.streak': 'Série de révisions',
+  'progress.longest': 'one:record {count} jour|other:record {count} jours',
+  'progress.songsCompleted': 'Chansons terminées',
+  'progress.songsOf': '{done} sur {total}',
+  'progress.coverage': 'Chanson du formulaire d’analyse',
+  'progress.coverageOf':
+    'Vous connaissez déjà environ {percent} de ses mots ({known} sur {total}, {language}).',
+  'progress.coverageHelp':
+    'Compte les mots appris ou marqués comme connus ou ignorés, et les mots courants sous votre niveau ({level}).',
+  'progress.noLyrics':
+    'Collez des paroles dans l’onglet Analyser pour voir quelle part de la chanson vous connaissez déjà.',
+  'progress.empty': 'Analysez des chansons et révisez leurs mots pour voir vos progrès ici.',
+  'progress.language': 'Langue',
+  'progress.learnedColumn': 'Appris',
+  'progress.learningColumn': 'En cours',
+  'progress.level': 'Niveau',
+  'progress.suggestions': 'Chansons à étudier ensuite',
+  'progress.suggestionsHelp':
+    'Chansons de votre bibliothèque pas encore terminées, les plus familières d’abord.',
+  'progress.songCoverage': '{percent} des paroles connues · {done} mots connus sur {total}',
+
+  'usage.title': 'Utilisation de l’IA',
+  'usage.spent': '{spent} ce mois-ci',
+  'usage.spentOfBudget': '{spent} sur {budget} ce mois-ci',
+  'usage.budget': 'Budget mensuel (USD)',
+  'usage.noBudget': 'Pas de budget',
+  'usage.budgetSet': 'Budget fixé à {budget} par mois.',
+  'usage.budgetRemoved': 'Budget supprimé.',
+  'usage.budgetHelp':
+    'Une confirmation vous est demandée avant toute requête qui dépasserait le budget de ce mois. Les coûts sont estimés d’après les prix publics.',
+  'usage.clearCache': 'Vider les réponses en cache',
+  'usage.cacheCleared': 'Réponses en cache supprimées.',
+  'usage.cacheFailed': 'Impossible de vider le cache',
+  'usage.empty': 'Aucun appel à l’IA pour l’instant. Les requêtes répétées sont servies gratuitement par le cache local.',
+  'usage.month': 'Mois',
+  'usage.song': 'Chanson',
+  'usage.otherRequests': 'Autres requêtes',
+  'usage.recent': 'Appels récents',
+  'usage.model': 'Modèle',
+  'usage.calls': 'Appels',
+  'usage.tokens': 'Jetons entrée / sortie',
+  'usage.cost': 'Coût',
+  'usage.unpriced':
+    'one:{count} appel à un modèle au prix inconnu|other:{count} appels à des modèles au prix inconnu',
+  'usage.estimated': 'Estimé d’après la longueur du texte',
+  'usage.unknown': 'inconnu',
+}
+
+export default fr
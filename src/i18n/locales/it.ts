@@ -0,0 +1,461 @@
+import type { Messages } from '../i18n'
+
+const it: Messages = {
+  'app.title': 'Impara con le canzoni',
+  'app.subtitle':
+    'Incolla il testo di una canzone in qualsiasi lingua e ottieni un elenco di parole adatte al tuo livello, tradotte nella tua lingua.',
+  'app.footer':
+    'Questo è un prototipo didattico. La difficoltà è stimata automaticamente ed è solo un’indicazione mentre impari con la musica.',
+
+  'nav.analyze': 'Analizza una canzone',
+  'nav.review': 'Ripasso',
+  'nav.library': 'Libreria',
+  'nav.vocabulary': 'Vocabolario',
+  'nav.progress': 'Progressi',
+  'nav.usage': 'Utilizzo',
+
+  'common.add': 'Aggiungi',
+  'common.cancel': 'Annulla',
+  'common.close': 'Chiudi',
+  'common.delete': 'Elimina',
+  'common.done': 'Fatto',
+  'common.edit': 'Modifica',
+  'common.remove': 'Rimuovi',
+  'common.save': 'Salva',
+  'common.translateAgain': 'Traduci di nuovo',
+  'common.translating': 'Traduzione in corso...',
+  'common.working': 'Elaborazione...',
+
+  'form.title': 'Titolo',
+  'form.artist': 'Artista',
+  'form.optional': 'Facoltativo',
+  'form.lyrics': 'Testo della canzone',
+  'form.newSong': 'Inizia una nuova canzone',
+  'form.example': 'Prova con un esempio',
+  'form.importSynced': 'Importa .lrc / .srt',
+  'form.lyricsPlaceholder': 'Incolla qui il testo completo...',
+  'form.characters': '{count} / {max} caratteri',
+  'form.maxLength': '(lunghezza massima raggiunta)',
+  'form.songCount': 'one:{count} canzone|other:{count} canzoni',
+  'form.albumHelp':
+    'Incolli un album intero? Metti una riga come "--- Titolo della canzone ---" prima di ogni canzone per analizzarle insieme e salvarle separatamente.',
+  'form.offline': 'Analizza offline (senza IA né chiave API)',
+  'form.provider': 'Fornitore di IA',
+  'form.serverUrl': 'URL del server',
+  'form.serverHelp': 'Qualsiasi server che espone {path}, ad esempio Ollama o llama.cpp.',
+  'form.models': 'Modelli per attività',
+  'form.level': 'Il tuo livello (nella lingua della canzone)',
+  'form.nativeLang': 'La tua lingua madre',
+  'form.nativeLangHelp':
+    'L’app, le traduzioni e le spiegazioni usano questa lingua. Cerca per nome o digita un codice di lingua come pt-BR.',
+  'form.studyLang': 'Lingua da studiare (facoltativo)',
+  'form.studyLangAny': 'Tutte le lingue della canzone',
+  'form.studyLangHelp': 'Nelle canzoni che mescolano lingue, si studiano solo le righe in questa.',
+
+  'level.A1': 'Principiante',
+  'level.A2': 'Elementare',
+  'level.B1': 'Intermedio',
+  'level.B2': 'Intermedio superiore',
+  'level.C1': 'Avanzato',
+  'level.C2': 'Padronanza',
+
+  'task.detect': 'Riconoscimento della lingua',
+  'task.analyze': 'Analisi del testo',
+  'task.translate': 'Traduzione',
+
+  'apiKey.label': 'Chiave API di {provider}',
+  'apiKey.locked': 'La chiave salvata è bloccata',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.passphraseOptional': 'Passphrase (facoltativa)',
+  'apiKey.unlock': 'Sblocca',
+  'apiKey.save': 'Salva chiave',
+  'apiKey.test': 'Prova chiave',
+  'apiKey.forget': 'Dimentica chiave',
+  'apiKey.saved': 'Chiave salvata su questo dispositivo.',
+  'apiKey.savedEncrypted': 'Chiave salvata, cifrata con la tua passphrase.',
+  'apiKey.unlocked': 'Chiave sbloccata.',
+  'apiKey.removed': 'Chiave rimossa da questo dispositivo.',
+  'apiKey.works': 'La chiave funziona.',
+  'apiKey.storedEncrypted': 'Salvata in questo browser, cifrata con la tua passphrase.',
+  'apiKey.storedPlain': 'Salvata in questo browser. Aggiungi una passphrase per cifrarla.',
+  'apiKey.notStored': 'Non salvata: viene dimenticata al ricaricamento, a meno che tu non la salvi.',
+  'apiKey.sentOnlyTo': 'Viene inviata solo a {provider}.',
+  'apiKey.getOne': 'Ottienine una su',
+
+  'settings.export': 'Esporta impostazioni',
+  'settings.import': 'Importa impostazioni',
+  'settings.exported': 'Impostazioni esportate. Le chiavi API sono incluse solo se cifrate.',
+  'settings.imported': 'Impostazioni importate.',
+  'settings.importFailed': 'Impossibile importare le impostazioni',
+
+  'languagePicker.search': 'Cerca lingue...',
+  'languagePicker.invalid': '"{query}" non è un nome di lingua né un codice di lingua valido.',
+
+  'submit.analyzing': 'L’IA sta analizzando il testo...',
+  'submit.analyzingFound': 'L’IA sta analizzando il testo... {count} trovate',
+  'submit.translating': 'Traduzione delle parole... {done}/{total}',
+  'submit.offline': 'Trova parole offline',
+  'submit.llm': 'Trova le parole da imparare',
+
+  'error.noLyrics': 'Incolla prima il testo della canzone.',
+  'error.tooLong': 'Il testo è troppo lungo ({length} caratteri). Il massimo è {max} caratteri.',
+  'error.fileTooLong': 'Il testo in {file} è troppo lungo.',
+  'error.noItems': 'Nessuna parola trovata. Prova a cambiare livello o controlla il testo.',
+  'error.offlineFailed': 'Analisi offline non riuscita',
+  'error.noNativeLang': 'Scegli la tua lingua madre.',
+  'error.apiKey': 'Inserisci la tua chiave API di {provider}.',
+  'error.noStudyLines': 'Nessuna riga in {language} in questo testo.',
+  'error.allNative': 'Questo testo è tutto in {language}, la tua lingua madre.',
+  'error.translationFailed': 'Traduzione non riuscita',
+  'error.noTranslation': 'Nessuna traduzione: {reason}',
+  'error.missingFromResponse': 'assente dalla risposta',
+  'error.unexpected': 'Si è verificato un errore imprevisto',
+  'error.lineNeedsAI': 'La traduzione delle righe richiede un fornitore di IA. Disattiva prima la modalità offline.',
+  'error.lineFailed': 'Traduzione delle righe non riuscita',
+  'error.grammarNeedsAI':
+    'Le note di grammatica richiedono un fornitore di IA. Disattiva prima la modalità offline.',
+  'error.grammarFailed': 'Analisi grammaticale non riuscita',
+  'error.offlineLookup': 'La ricerca offline richiede una canzone in una lingua con un elenco di parole incluso.',
+  'error.importFailed': 'Impossibile importare il file',
+  'error.lessonLink': 'Impossibile aprire il link della lezione',
+  'error.wrongPassphrase': 'Passphrase errata.',
+  'error.invalidJSON': 'Questo file non è un JSON valido.',
+  'error.newerFile': 'Questo file è stato esportato da una versione più recente dell’app.',
+  'error.notSettingsFile': 'Questo non è un file di impostazioni di Impara con le canzoni.',
+  'error.notExportFile': 'Questo non è un file esportato da Impara con le canzoni.',
+  'error.exportIncomplete': 'Nel file esportato mancano la canzone o le sue voci.',
+  'error.exportItem': 'La voce {n} del file esportato è incompleta.',
+  'error.noLanguage': 'Impossibile rilevare la lingua del testo.',
+  'error.noWordList':
+    'L’analisi offline non ha ancora un elenco di parole per {language}. Usa un fornitore di IA.',
+  'error.noTimedLines': 'Nessuna riga con indicazione temporale trovata in {file}.',
+  'error.lessonInvalid': 'Questa lezione non è un JSON valido.',
+  'error.notLesson': 'Questa non è una lezione di Impara con le canzoni.',
+  'error.newerLesson': 'Questa lezione è stata creata da una versione più recente dell’app.',
+  'error.lessonIncomplete': 'Nella lezione mancano la canzone o le sue voci.',
+  'error.lessonSettings': 'Nella lezione mancano il livello o la lingua.',
+  'error.lessonItem': 'La voce {n} della lezione è incompleta.',
+  'error.lessonDamaged': 'Questo link della lezione è incompleto o danneggiato.',
+  'error.taskFailed': '{task} non riuscita: {reason}',
+  'error.noResponse': 'l’IA non ha inviato alcuna risposta',
+  'error.invalidResponse': 'l’IA non ha risposto con un JSON valido',
+  'error.noWordsInResponse':
+    'Analisi del testo non riuscita: la risposta dell’IA non contiene un elenco di parole.',
+  'error.noNotesInResponse': 'Analisi grammaticale non riuscita: la risposta dell’IA non contiene note.',
+  'error.linesUntranslated':
+    'La traduzione delle righe non ha restituito nulla per {missing} righe su {total}; riprova.',
+  'error.invalidEntry': 'voce non valida: {reason}',
+  'error.emptyTranslation': 'la traduzione è vuota',
+  'error.noStreaming': 'Questo server non supporta lo streaming.',
+  'error.streamFailed': 'Il server ha segnalato un errore durante lo streaming.',
+
+  'warning.rejected':
+    'one:Saltato {count} suggerimento per cui l’IA continuava a restituire dati non validi: {list}|other:Saltati {count} suggerimenti per cui l’IA continuava a restituire dati non validi: {list}',
+  'warning.unnamedEntry': 'Una voce',
+  'warning.translationCancelled':
+    'Traduzione annullata. Le parole trovate sono salvate; alcune non hanno traduzione.',
+  'warning.analysisCancelled':
+    'Analisi annullata. Le parole trovate finora sono mostrate ma non salvate.',
+
+  'budget.analysis': 'Questa analisi',
+  'budget.translation': 'Questa traduzione',
+  'budget.grammar': 'Questa analisi grammaticale',
+  'budget.confirm':
+    '{action} costerà circa {estimate}. Hai già speso {spent} del tuo budget mensile di {budget}, quindi lo supereresti. Continuare?',
+
+  'results.title': 'Parole da imparare da questa canzone',
+  'results.studyLang': 'Lingua da studiare',
+  'results.allLanguages': 'Tutte le lingue',
+  'results.study': 'Studia: {language}',
+  'results.importJSON': 'Importa JSON',
+  'results.empty': 'Il tuo elenco apparirà qui dopo aver analizzato una canzone.',
+
+  'view.list': 'Elenco',
+  'view.lyrics': 'Testo',
+  'view.bilingual': 'Affiancato',
+  'view.grammar': 'Grammatica e modi di dire',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'facile',
+  'band.stretch': 'impegnativo',
+  'band.challenging': 'difficile',
+
+  'status.known': 'conosciuta',
+  'status.learning': 'da imparare',
+  'status.ignored': 'ignorata',
+  'status.markKnown': 'La conosco',
+  'status.markIgnored': 'Ignora',
+  'status.markLearning': 'Segna da imparare',
+
+  'list.sort': 'Ordina l’elenco',
+  'list.sortSong': 'Ordine nella canzone',
+  'list.sortHardest': 'Prima le più difficili',
+  'list.sortEasiest': 'Prima le più facili',
+  'list.sortFrequency': 'Prima le più frequenti',
+  'list.group': 'Raggruppa l’elenco',
+  'list.groupNone': 'Nessun raggruppamento',
+  'list.groupPos': 'Raggruppa per parte del discorso',
+  'list.groupGender': 'Raggruppa per genere',
+  'list.translationStatus': 'Stato della traduzione',
+  'list.anyStatus': 'Qualsiasi stato di traduzione',
+  'list.translated': 'Tradotte',
+  'list.untranslated': 'Non tradotte',
+  'list.failed': 'Traduzione non riuscita',
+  'list.difficultyLabel': 'Difficoltà',
+  'list.allDifficulties': 'Tutte le difficoltà',
+  'list.pos': 'Parte del discorso',
+  'list.allPos': 'Tutte le parti del discorso',
+  'list.gender': 'Genere',
+  'list.allGenders': 'Tutti i generi',
+  'list.other': 'Altro',
+  'list.selected': 'Selezionate: {count}',
+  'list.merge': 'Unisci',
+  'list.mergeHelp': 'Unisce le parole selezionate nella prima',
+  'list.clearSelection': 'Annulla selezione',
+  'list.noMatches': 'Nessuna parola corrisponde a questi filtri.',
+  'list.select': 'Seleziona {word}',
+  'list.difficulty': 'Difficoltà: {band}',
+  'list.appears': 'compare {count}×',
+  'list.notInSong': 'non nella canzone',
+  'list.notInSongHelp': 'L’IA l’ha suggerita, ma non compare nel testo.',
+  'list.article': 'articolo: {article}',
+  'list.line': 'Riga della canzone:',
+  'list.translation': 'Traduzione',
+  'list.translationOptional': 'Traduzione (facoltativa)',
+  'list.explanation': 'Spiegazione',
+  'list.explanationOptional': 'Spiegazione (facoltativa)',
+  'list.addWord': '+ Aggiungi una parola',
+  'list.word': 'Parola o espressione',
+  'list.wordPlaceholder': 'Parola o espressione della canzone',
+
+  'pos.noun': 'nome',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'aggettivo',
+  'pos.adverb': 'avverbio',
+  'pos.pronoun': 'pronome',
+  'pos.preposition': 'preposizione',
+  'pos.conjunction': 'congiunzione',
+  'pos.determiner': 'determinante',
+  'pos.numeral': 'numerale',
+  'pos.interjection': 'interiezione',
+  'pos.phrase': 'espressione',
+  'pos.other': 'altro',
+  'gender.masculine': 'maschile',
+  'gender.feminine': 'femminile',
+  'gender.neuter': 'neutro',
+  'gender.common': 'comune',
+
+  'lookup.loading': 'Ricerca in corso...',
+  'lookup.failed': 'Ricerca non riuscita',
+  'lookup.noTranslation': 'Nessuna traduzione disponibile',
+  'lookup.noTranslationYet': 'Ancora nessuna traduzione',
+  'lookup.add': 'Aggiungi al mio elenco',
+  'lookup.offlineEstimate': 'Livello stimato: {level}. Le traduzioni richiedono un fornitore di IA.',
+  'lyrics.clickHelp': 'Fai clic su una parola per cercarla.',
+
+  'offline.core': 'Parola di base di livello {level} ({language}).',
+  'offline.estimated': 'Non è nell’elenco di base ({language}); livello stimato: {level}.',
+
+  'bilingual.style': 'Stile di traduzione',
+  'bilingual.literal': 'Letterale',
+  'bilingual.natural': 'Naturale',
+  'bilingual.translate': 'Traduci in {language}',
+  'bilingual.translating': 'Traduzione delle righe...',
+
+  'grammar.help':
+    'Punti di grammatica e modi di dire della canzone, ognuno con una regola breve e altri esempi.',
+  'grammar.find': 'Trova grammatica e modi di dire',
+  'grammar.findAgain': 'Cerca di nuovo',
+  'grammar.finding': 'Ricerca di grammatica e modi di dire...',
+  'grammar.none': 'Nessun punto di grammatica o modo di dire da spiegare trovato.',
+  'grammar.grammar': 'Grammatica',
+  'grammar.idiom': 'Modo di dire',
+  'grammar.line': 'Riga {line}:',
+
+  'karaoke.help':
+    'Scegli il file audio della canzone per seguirla. Resta sul tuo dispositivo e non viene salvato.',
+  'karaoke.change': 'Cambia audio',
+  'karaoke.choose': 'Scegli file audio',
+  'karaoke.loop': 'Ripeti questa riga',
+  'karaoke.stopLoop': 'Interrompi la ripetizione',
+  'karaoke.onLine': 'In questa riga',
+  'karaoke.noWords': 'Nessuna parola del tuo elenco.',
+
+  'quiz.intro': 'Esercitati con le parole di questa canzone. Quelle sbagliate vengono segnate da imparare.',
+  'quiz.cloze': 'Completa lo spazio',
+  'quiz.clozeHelp': 'Scrivi la parola mancante in una riga della canzone.',
+  'quiz.choice': 'Scelta multipla',
+  'quiz.choiceHelp': 'Scegli la traduzione giusta.',
+  'quiz.recall': 'Richiamo inverso',
+  'quiz.recallHelp': 'Guarda la traduzione e scrivi la parola.',
+  'quiz.needsTranslations': 'Servono parole tradotte',
+  'quiz.available': 'one:{count} domanda disponibile|other:{count} domande disponibili',
+  'quiz.markedLearning': 'Segnate da imparare: {words}',
+  'quiz.cleared': 'Non più segnate da imparare: {words}',
+  'quiz.again': 'Riprova',
+  'quiz.another': 'Scegli un altro quiz',
+  'quiz.score': 'Punteggio: {score}',
+  'quiz.hint': 'Suggerimento: {hint}',
+  'quiz.typeWord': 'Scrivi la parola',
+  'quiz.next': 'Avanti',
+  'quiz.results': 'Vedi i risultati',
+  'quiz.check': 'Verifica',
+  'quiz.correct': 'Esatto!',
+  'quiz.answer': 'Risposta: {answer}',
+
+  'export.button': 'Esporta…',
+  'export.format': 'Formato',
+  'export.anki': 'Pacchetto Anki (.apkg)',
+  'export.csv': 'Foglio di calcolo CSV',
+  'export.json': 'JSON (reimportabile)',
+  'export.quizlet': 'Quizlet (termine ⇥ traduzione)',
+  'export.lesson': 'Lezione da condividere (file o link)',
+  'export.untranslated': 'Senza traduzione: {count}',
+  'export.noTranslation': '(nessuna traduzione)',
+  'export.exclude': 'Escluderle',
+  'export.mark': 'Includerle, segnate come non tradotte',
+  'export.columns': 'Colonne',
+  'export.separator': 'Separatore',
+  'export.comma': 'Virgola',
+  'export.semicolon': 'Punto e virgola',
+  'export.tab': 'Tabulazione',
+  'export.jsonHelp':
+    'Include il testo, tutte le voci e le note di grammatica così come sono, per poterle reimportare nell’app.',
+  'export.lessonHelp':
+    'Contiene il testo, le impostazioni, le parole, le traduzioni delle righe e le note di grammatica. Gli studenti possono aprirla senza chiave API né chiamate all’IA.',
+  'export.copyLink': 'Copia link',
+  'export.linkCopied': 'Link copiato. Chi lo apre riceve questa lezione.',
+  'export.linkTooLong': 'Questa lezione è troppo lunga per un link. Scaricala e condividi il file.',
+  'export.preparing': 'Preparazione...',
+  'export.download': 'Scarica',
+  'export.failed': 'Esportazione non riuscita',
+
+  'csv.word': 'Parola',
+  'csv.translation': 'Traduzione',
+  'csv.example': 'Riga della canzone',
+  'csv.cloze': 'Riga della canzone (cloze)',
+  'csv.explanation': 'Spiegazione',
+  'csv.difficulty': 'Difficoltà',
+  'csv.score': 'Punteggio di difficoltà',
+  'csv.count': 'Occorrenze',
+  'csv.lines': 'Numeri di riga',
+  'csv.language': 'Lingua',
+  'csv.song': 'Canzone',
+  'csv.status': 'Stato',
+
+  'speech.title': 'Pronuncia',
+  'speech.backend': 'Voce da',
+  'speech.browser': 'Voci del browser',
+  'speech.server': 'Server TTS locale',
+  'speech.voice': 'Voce ({language})',
+  'speech.serverDefault': 'Predefinita del server',
+  'speech.bestMatch': 'La più adatta',
+  'speech.noVoice': 'Nessuna voce installata per questa lingua',
+  'speech.speed': 'Velocità: {rate}×',
+  'speech.try': 'Prova questa voce',
+  'speech.pronounce': 'Pronuncia',
+  'speech.word': 'Pronuncia {word}',
+  'speech.line': 'Pronuncia questa riga',
+  'speech.failed': 'Impossibile riprodurre la pronuncia',
+  'speech.unsupported': 'Questo browser non supporta la sintesi vocale.',
+  'speech.error': 'Sintesi vocale non riuscita: {error}',
+  'speech.serverError': 'Il server TTS ha risposto {status} {statusText}.',
+  'speech.badAudio': 'Il server TTS ha restituito un audio che il browser non può riprodurre.',
+
+  'review.title': 'Ripasso',
+  'review.stats': 'Da ripassare: {due} · Imparate: {learned} · Nel mazzo: {total}',
+  'review.empty': 'Le parole delle canzoni che analizzi vengono aggiunte qui automaticamente.',
+  'review.nothingDue': 'Niente da ripassare per ora. Torna più tardi!',
+  'review.lapses': 'dimenticata {count}×',
+  'review.show': 'Mostra risposta',
+  'review.noTranslation': 'Nessuna traduzione salvata',
+  'review.again': 'Di nuovo',
+  'review.hard': 'Difficile',
+  'review.good': 'Bene',
+  'review.easy': 'Facile',
+  'review.remove': 'Rimuovi dal mazzo',
+
+  'library.title': 'Libreria di canzoni',
+  'library.saved': 'Salvate: {count}',
+  'library.search': 'Cerca per titolo, artista, lingua o testo...',
+  'library.empty': 'Le canzoni vengono salvate qui automaticamente dopo averle analizzate.',
+  'library.noMatches': 'Nessuna canzone corrisponde a "{query}".',
+  'library.words': 'one:{count} parola di livello {level}|other:{count} parole di livello {level}',
+  'library.notAnalysed': 'Non ancora analizzata',
+  'library.levels': 'analizzata ai livelli {levels}',
+  'library.open': 'Apri',
+  'library.rerunLevel': 'Livello per ripetere l’analisi',
+  'library.rerun': 'Ripeti',
+  'library.confirmDelete': 'Eliminare "{title}" dalla tua libreria?',
+
+  'vocab.title': 'Il mio vocabolario',
+  'vocab.stats': 'Conosciute: {known} · Da imparare: {learning} · Ignorate: {ignored}',
+  'vocab.language': 'Codice della lingua',
+  'vocab.languagePlaceholder': 'es. nl, es, fr',
+  'vocab.show': 'Mostra',
+  'vocab.all': 'Tutte le parole',
+  'vocab.importList': 'Importa un elenco di parole',
+  'vocab.importPlaceholder': 'Una parola per riga o separate da virgole',
+  'vocab.importStatus': 'Stato delle parole importate',
+  'vocab.as': 'come {status}',
+  'vocab.import': 'Importa',
+  'vocab.importFile': 'Importa file .txt',
+  'vocab.empty':
+    'Ancora nessuna parola. Segna le parole come conosciute o ignorate dall’elenco di una canzone, oppure importa un elenco qui sopra.',
+  'vocab.statusOf': 'Stato di {word}',
+  'vocab.noLanguage': 'Scegli prima la lingua dell’elenco di parole.',
+  'vocab.noWords': 'Nessuna parola trovata nell’elenco.',
+  'vocab.imported': 'one:Importata {count} parola come {status}.|other:Importate {count} parole come {status}.',
+  'vocab.readFailed': 'Impossibile leggere il file',
+
+  'progress.title': 'I tuoi progressi',
+  'progress.reviewedToday': 'one:{count} scheda ripassata oggi|other:{count} schede ripassate oggi',
+  'progress.learned': 'Parole imparate',
+  'progress.days': 'one:{count} giorno|other:{count} giorni',
+  'progress.streak': 'Serie di ripasso',
+  'progress.longest': 'one:record {count} giorno|other:record {count} giorni',
+  'progress.songsCompleted': 'Canzoni completate',
+  'progress.songsOf': '{done} su {total}',
+  'progress.coverage': 'Canzone nel modulo di analisi',
+  'progress.coverageOf': 'Conosci già circa il {percent} delle sue parole ({known} su {total}, {language}).',
+  'progress.coverageHelp':
+    'Conta le parole che hai imparato o segnato come note o ignorate, e le parole comuni sotto il tuo livello ({level}).',
+  'progress.noLyrics': 'Incolla un testo nella scheda Analizza per vedere quanto della canzone conosci già.',
+  'progress.empty': 'Analizza canzoni e ripassa le loro parole per vedere qui i tuoi progressi.',
+  'progress.language': 'Lingua',
+  'progress.learnedColumn': 'Imparate',
+  'progress.learningColumn': 'In studio',
+  'progress.level': 'Livello',
+  'progress.suggestions': 'Canzoni da studiare ora',
+  'progress.suggestionsHelp': 'Canzoni della biblioteca non ancora completate, le più familiari per prime.',
+  'progress.songCoverage': '{percent} del testo noto · {done} parole note su {total}',
+
+  'usage.title': 'Utilizzo dell’IA',
+  'usage.spent': '{spent} questo mese',
+  'usage.spentOfBudget': '{spent} su {budget} questo mese',
+  'usage.budget': 'Budget mensile (USD)',
+  'usage.noBudget': 'Nessun budget',
+  'usage.budgetSet': 'Budget impostato a {budget} al mese.',
+  'usage.budgetRemoved': 'Budget rimosso.',
+  'usage.budgetHelp':
+    'Ti verrà chiesta conferma prima di una richiesta che supererebbe il budget di questo mese. I costi sono stime basate sui prezzi di listino.',
+  'usage.clearCache': 'Cancella risposte in cache',
+  'usage.cacheCleared': 'Risposte in cache cancellate.',
+  'usage.cacheFailed': 'Impossibile cancellare la cache',
+  'usage.empty': 'Ancora nessuna chiamata all’IA. Le richieste ripetute ricevono risposta gratis dalla cache locale.',
+  'usage.month': 'Mese',
+  'usage.song': 'Canzone',
+  'usage.otherRequests': 'Altre richieste',
+  'usage.recent': 'Chiamate recenti',
+  'usage.model': 'Modello',
+  'usage.calls': 'Chiamate',
+  'usage.tokens': 'Token in ingresso / uscita',
+  'usage.cost': 'Costo',
+  'usage.unpriced':
+    'one:{count} chiamata a un modello con prezzo sconosciuto|other:{count} chiamate a modelli con prezzo sconosciuto',
+  'usage.estimated': 'Stimato dalla lunghezza del testo',
+  'usage.unknown': 'sconosciuto',
+}
+
+export default it
@@ -0,0 +1,444 @@
+import type { Messages } from '../i18n'
+
+const ja: Messages = {
+  'app.title': '歌で学ぶ',
+  'app.subtitle': 'どの言語の歌詞でも貼り付けると、レベルに合った単語リストをあなたの言語の訳付きで作成します。',
+  'app.footer': 'これは学習用のプロトタイプです。難易度は自動推定なので、音楽で学ぶ際の目安としてご利用ください。',
+
+  'nav.analyze': '曲を分析',
+  'nav.review': '復習',
+  'nav.library': 'ライブラリ',
+  'nav.vocabulary': '語彙',
+  'nav.progress': '進捗',
+  'nav.usage': '使用量',
+
+  'common.add': '追加',
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.delete': '削除',
+  'common.done': '完了',
+  'common.edit': '編集',
+  'common.remove': '外す',
+  'common.save': '保存',
+  'common.translateAgain': 'もう一度翻訳',
+  'common.translating': '翻訳中...',
+  'common.working': '処理中...',
+
+  'form.title': 'タイトル',
+  'form.artist': 'アーティスト',
+  'form.optional': '任意',
+  'form.lyrics': '歌詞',
+  'form.newSong': '新しい曲を始める',
+  'form.example': '例で試す',
+  'form.importSynced': '.lrc / .srt を読み込む',
+  'form.lyricsPlaceholder': 'ここに歌詞全文を貼り付け...',
+  'form.characters': '{count} / {max} 文字',
+  'form.maxLength': '（最大文字数に達しました）',
+  'form.songCount': '{count} 曲',
+  'form.albumHelp':
+    'アルバムをまるごと貼り付けますか？各曲の前に「--- 曲名 ---」のような行を入れると、まとめて分析して曲ごとに保存します。',
+  'form.offline': 'オフラインで分析（AI・API キー不要）',
+  'form.provider': 'AI プロバイダー',
+  'form.serverUrl': 'サーバー URL',
+  'form.serverHelp': '{path} を提供するサーバー（Ollama や llama.cpp など）。',
+  'form.models': 'タスクごとのモデル',
+  'form.level': 'あなたのレベル（曲の言語）',
+  'form.nativeLang': 'あなたの母語',
+  'form.nativeLangHelp': 'アプリ、訳、説明はこの言語で表示されます。名前で検索するか、pt-BR のような言語コードを入力してください。',
+  'form.studyLang': '学習する言語（任意）',
+  'form.studyLangAny': '曲のすべての言語',
+  'form.studyLangHelp': '複数言語の曲では、この言語の行だけを学習します。',
+
+  'level.A1': '入門',
+  'level.A2': '初級',
+  'level.B1': '中級',
+  'level.B2': '中上級',
+  'level.C1': '上級',
+  'level.C2': '熟達',
+
+  'task.detect': '言語判定',
+  'task.analyze': '歌詞の分析',
+  'task.translate': '翻訳',
+
+  'apiKey.label': '{provider} の API キー',
+  'apiKey.locked': '保存されたキーはロックされています',
+  'apiKey.passphrase': 'パスフレーズ',
+  'apiKey.passphraseOptional': 'パスフレーズ（任意）',
+  'apiKey.unlock': 'ロック解除',
+  'apiKey.save': 'キーを保存',
+  'apiKey.test': 'キーをテスト',
+  'apiKey.forget': 'キーを削除',
+  'apiKey.saved': 'キーをこの端末に保存しました。',
+  'apiKey.savedEncrypted': 'キーを保存し、パスフレーズで暗号化しました。',
+  'apiKey.unlocked': 'キーのロックを解除しました。',
+  'apiKey.removed': 'キーをこの端末から削除しました。',
+  'apiKey.works': 'キーは有効です。',
+  'apiKey.storedEncrypted': 'このブラウザに、パスフレーズで暗号化して保存されています。',
+  'apiKey.storedPlain': 'このブラウザに保存されています。暗号化するにはパスフレーズを追加してください。',
+  'apiKey.notStored': '未保存：保存しないと再読み込み時に消えます。',
+  'apiKey.sentOnlyTo': '送信先は {provider} のみです。',
+  'apiKey.getOne': 'キーの取得先：',
+
+  'settings.export': '設定を書き出す',
+  'settings.import': '設定を読み込む',
+  'settings.exported': '設定を書き出しました。API キーは暗号化されている場合のみ含まれます。',
+  'settings.imported': '設定を読み込みました。',
+  'settings.importFailed': '設定を読み込めませんでした',
+
+  'languagePicker.search': '言語を検索...',
+  'languagePicker.invalid': '「{query}」は言語名でも有効な言語コードでもありません。',
+
+  'submit.analyzing': 'AI が歌詞を分析中...',
+  'submit.analyzingFound': 'AI が歌詞を分析中... {count} 件見つかりました',
+  'submit.translating': '単語を翻訳中... {done}/{total}',
+  'submit.offline': 'オフラインで単語を探す',
+  'submit.llm': '学ぶ単語を探す',
+
+  'error.noLyrics': '先に歌詞を貼り付けてください。',
+  'error.tooLong': '歌詞が長すぎます（{length} 文字）。上限は {max} 文字です。',
+  'error.fileTooLong': '{file} の歌詞が長すぎます。',
+  'error.noItems': '学ぶ単語が見つかりませんでした。レベルを変えるか、歌詞を確認してください。',
+  'error.offlineFailed': 'オフライン分析に失敗しました',
+  'error.noNativeLang': '母語を選んでください。',
+  'error.apiKey': '{provider} の API キーを入力してください。',
+  'error.noStudyLines': 'この歌詞には{language}の行がありません。',
+  'error.allNative': 'この歌詞はすべてあなたの母語（{language}）です。',
+  'error.translationFailed': '翻訳に失敗しました',
+  'error.noTranslation': '訳がありません：{reason}',
+  'error.missingFromResponse': '応答に含まれていません',
+  'error.unexpected': '予期しないエラーが発生しました',
+  'error.lineNeedsAI': '行の翻訳には AI プロバイダーが必要です。先にオフラインモードをオフにしてください。',
+  'error.lineFailed': '行の翻訳に失敗しました',
+  'error.grammarNeedsAI': '文法ノートには AI プロバイダーが必要です。先にオフラインモードをオフにしてください。',
+  'error.grammarFailed': '文法の分析に失敗しました',
+  'error.offlineLookup': 'オフライン検索には、内蔵の単語リストがある言語の曲が必要です。',
+  'error.importFailed': 'ファイルを読み込めませんでした',
+  'error.lessonLink': 'レッスンのリンクを開けませんでした',
+  'error.wrongPassphrase': 'パスフレーズが違います。',
+  'error.invalidJSON': 'このファイルは有効な JSON ではありません。',
+  'error.newerFile': 'このファイルは新しいバージョンのアプリで書き出されています。',
+  'error.notSettingsFile': '「歌で学ぶ」の設定ファイルではありません。',
+  'error.notExportFile': '「歌で学ぶ」の書き出しファイルではありません。',
+  'error.exportIncomplete': '書き出しファイルに曲または項目がありません。',
+  'error.exportItem': '書き出しファイルの {n} 番目の項目が不完全です。',
+  'error.noLanguage': '歌詞の言語を判別できませんでした。',
+  'error.noWordList': 'オフライン分析には{language}の単語リストがまだありません。AI プロバイダーを使ってください。',
+  'error.noTimedLines': '{file} にタイムスタンプ付きの行が見つかりません。',
+  'error.lessonInvalid': 'このレッスンは有効な JSON ではありません。',
+  'error.notLesson': '「歌で学ぶ」のレッスンではありません。',
+  'error.newerLesson': 'このレッスンは新しいバージョンのアプリで作成されています。',
+  'error.lessonIncomplete': 'レッスンに曲または項目がありません。',
+  'error.lessonSettings': 'レッスンにレベルまたは言語がありません。',
+  'error.lessonItem': 'レッスンの {n} 番目の項目が不完全です。',
+  'error.lessonDamaged': 'このレッスンのリンクは不完全か壊れています。',
+  'error.taskFailed': '{task}に失敗しました：{reason}',
+  'error.noResponse': 'AI から応答がありません',
+  'error.invalidResponse': 'AI の応答が有効な JSON ではありません',
+  'error.noWordsInResponse': '歌詞の分析に失敗しました：AI の応答に単語リストがありません。',
+  'error.noNotesInResponse': '文法の分析に失敗しました：AI の応答にノートがありません。',
+  'error.linesUntranslated': '行の翻訳で {total} 行中 {missing} 行の訳が返されませんでした。もう一度お試しください。',
+  'error.invalidEntry': '無効な項目：{reason}',
+  'error.emptyTranslation': '訳が空です',
+  'error.noStreaming': 'このサーバーはストリーミングに対応していません。',
+  'error.streamFailed': 'ストリーミング中にサーバーがエラーを報告しました。',
+
+  'warning.rejected': 'AI が無効なデータを返し続けた {count} 件の候補をスキップしました：{list}',
+  'warning.unnamedEntry': 'ある項目',
+  'warning.translationCancelled': '翻訳をキャンセルしました。見つかった単語は保存済みですが、一部は訳がありません。',
+  'warning.analysisCancelled': '分析をキャンセルしました。ここまでに見つかった単語を表示していますが、保存はされていません。',
+
+  'budget.analysis': 'この分析',
+  'budget.translation': 'この翻訳',
+  'budget.grammar': 'この文法分析',
+  'budget.confirm':
+    '{action}には約 {estimate} かかります。月間予算 {budget} のうち既に {spent} を使っているため、予算を超えます。続けますか？',
+
+  'results.title': 'この曲で学ぶ単語',
+  'results.studyLang': '学習する言語',
+  'results.allLanguages': 'すべての言語',
+  'results.study': '学習：{language}',
+  'results.importJSON': 'JSON を読み込む',
+  'results.empty': '曲を分析すると、ここにリストが表示されます。',
+
+  'view.list': 'リスト',
+  'view.lyrics': '歌詞',
+  'view.bilingual': '対訳',
+  'view.grammar': '文法と慣用句',
+  'view.karaoke': 'カラオケ',
+  'view.quiz': 'クイズ',
+
+  'band.comfortable': 'やさしい',
+  'band.stretch': 'やや難しい',
+  'band.challenging': '難しい',
+
+  'status.known': '知っている',
+  'status.learning': '学習中',
+  'status.ignored': '無視',
+  'status.markKnown': '知っている',
+  'status.markIgnored': '無視する',
+  'status.markLearning': '学習中にする',
+
+  'list.sort': 'リストを並べ替え',
+  'list.sortSong': '曲の順番',
+  'list.sortHardest': '難しい順',
+  'list.sortEasiest': 'やさしい順',
+  'list.sortFrequency': 'よく出る順',
+  'list.group': 'リストをグループ化',
+  'list.groupNone': 'グループ化しない',
+  'list.groupPos': '品詞でグループ化',
+  'list.groupGender': '性でグループ化',
+  'list.translationStatus': '翻訳の状態',
+  'list.anyStatus': 'すべての翻訳状態',
+  'list.translated': '翻訳済み',
+  'list.untranslated': '未翻訳',
+  'list.failed': '翻訳失敗',
+  'list.difficultyLabel': '難易度',
+  'list.allDifficulties': 'すべての難易度',
+  'list.pos': '品詞',
+  'list.allPos': 'すべての品詞',
+  'list.gender': '性',
+  'list.allGenders': 'すべての性',
+  'list.other': 'その他',
+  'list.selected': '{count} 件選択中',
+  'list.merge': '統合',
+  'list.mergeHelp': '選択した単語を最初に選択した単語に統合します',
+  'list.clearSelection': '選択を解除',
+  'list.noMatches': 'この条件に合う単語はありません。',
+  'list.select': '「{word}」を選択',
+  'list.difficulty': '難易度：{band}',
+  'list.appears': '{count} 回出現',
+  'list.notInSong': '曲にない',
+  'list.notInSongHelp': 'AI が提案しましたが、歌詞には出てきません。',
+  'list.article': '冠詞：{article}',
+  'list.line': '曲の中の一節：',
+  'list.translation': '訳',
+  'list.translationOptional': '訳（任意）',
+  'list.explanation': '説明',
+  'list.explanationOptional': '説明（任意）',
+  'list.addWord': '+ 単語を追加',
+  'list.word': '単語または表現',
+  'list.wordPlaceholder': '曲に出てくる単語または表現',
+
+  'pos.noun': '名詞',
+  'pos.verb': '動詞',
+  'pos.adjective': '形容詞',
+  'pos.adverb': '副詞',
+  'pos.pronoun': '代名詞',
+  'pos.preposition': '前置詞',
+  'pos.conjunction': '接続詞',
+  'pos.determiner': '限定詞',
+  'pos.numeral': '数詞',
+  'pos.interjection': '間投詞',
+  'pos.phrase': '句',
+  'pos.other': 'その他',
+  'gender.masculine': '男性',
+  'gender.feminine': '女性',
+  'gender.neuter': '中性',
+  'gender.common': '通性',
+
+  'lookup.loading': '検索中...',
+  'lookup.failed': '検索に失敗しました',
+  'lookup.noTranslation': '訳がありません',
+  'lookup.noTranslationYet': 'まだ訳がありません',
+  'lookup.add': 'リストに追加',
+  'lookup.offlineEstimate': '推定レベル：{level}。訳には AI プロバイダーが必要です。',
+  'lyrics.clickHelp': '単語をクリックすると意味を調べられます。',
+
+  'offline.core': '{language}の {level} レベルの基本語です。',
+  'offline.estimated': '{language}の基本語リストにありません。推定レベル：{level}。',
+
+  'bilingual.style': '訳のスタイル',
+  'bilingual.literal': '直訳',
+  'bilingual.natural': '自然な訳',
+  'bilingual.translate': '{language}に翻訳',
+  'bilingual.translating': '行を翻訳中...',
+
+  'grammar.help': '曲に出てくる文法事項と慣用句です。それぞれ短いルールと追加の例文が付きます。',
+  'grammar.find': '文法と慣用句を探す',
+  'grammar.findAgain': 'もう一度探す',
+  'grammar.finding': '文法と慣用句を探しています...',
+  'grammar.none': '説明する価値のある文法事項や慣用句は見つかりませんでした。',
+  'grammar.grammar': '文法',
+  'grammar.idiom': '慣用句',
+  'grammar.line': '{line} 行目：',
+
+  'karaoke.help': '曲の音声ファイルを選ぶと一緒に歌えます。ファイルは端末内に留まり、保存されません。',
+  'karaoke.change': '音声を変更',
+  'karaoke.choose': '音声ファイルを選択',
+  'karaoke.loop': 'この行をループ',
+  'karaoke.stopLoop': 'ループを停止',
+  'karaoke.onLine': 'この行の単語',
+  'karaoke.noWords': 'リストの単語はありません。',
+
+  'quiz.intro': 'この曲の単語を練習しましょう。間違えた単語は学習中になります。',
+  'quiz.cloze': '穴埋め',
+  'quiz.clozeHelp': '歌詞の抜けている単語を入力してください。',
+  'quiz.choice': '選択問題',
+  'quiz.choiceHelp': '正しい訳を選んでください。',
+  'quiz.recall': '逆方向の想起',
+  'quiz.recallHelp': '訳を見て単語を入力してください。',
+  'quiz.needsTranslations': '訳のある単語が必要です',
+  'quiz.available': '{count} 問あります',
+  'quiz.markedLearning': '学習中にしました：{words}',
+  'quiz.cleared': '学習中を解除しました：{words}',
+  'quiz.again': 'もう一度',
+  'quiz.another': '別のクイズを選ぶ',
+  'quiz.score': 'スコア：{score}',
+  'quiz.hint': 'ヒント：{hint}',
+  'quiz.typeWord': '単語を入力',
+  'quiz.next': '次へ',
+  'quiz.results': '結果を見る',
+  'quiz.check': '答え合わせ',
+  'quiz.correct': '正解！',
+  'quiz.answer': '答え：{answer}',
+
+  'export.button': '書き出し…',
+  'export.format': '形式',
+  'export.anki': 'Anki デッキ (.apkg)',
+  'export.csv': 'CSV スプレッドシート',
+  'export.json': 'JSON（再読み込み可能）',
+  'export.quizlet': 'Quizlet（用語 ⇥ 訳）',
+  'export.lesson': '共有用レッスン（ファイルまたはリンク）',
+  'export.untranslated': '訳のない単語が {count} 件あります',
+  'export.noTranslation': '（訳なし）',
+  'export.exclude': '除外する',
+  'export.mark': '未翻訳として含める',
+  'export.columns': '列',
+  'export.separator': '区切り文字',
+  'export.comma': 'カンマ',
+  'export.semicolon': 'セミコロン',
+  'export.tab': 'タブ',
+  'export.jsonHelp': '歌詞、すべての項目、文法ノートをそのまま含むので、アプリに再度読み込めます。',
+  'export.lessonHelp': '歌詞、設定、単語、行ごとの訳、文法ノートを含みます。生徒は API キーや AI 呼び出しなしで開けます。',
+  'export.copyLink': 'リンクをコピー',
+  'export.linkCopied': 'リンクをコピーしました。開いた人はこのレッスンを受け取れます。',
+  'export.linkTooLong': 'このレッスンはリンクにするには長すぎます。ダウンロードしてファイルを共有してください。',
+  'export.preparing': '準備中...',
+  'export.download': 'ダウンロード',
+  'export.failed': '書き出しに失敗しました',
+
+  'csv.word': '単語',
+  'csv.translation': '訳',
+  'csv.example': '歌詞の行',
+  'csv.cloze': '歌詞の行（穴埋め）',
+  'csv.explanation': '説明',
+  'csv.difficulty': '難易度',
+  'csv.score': '難易度スコア',
+  'csv.count': '出現回数',
+  'csv.lines': '行番号',
+  'csv.language': '言語',
+  'csv.song': '曲',
+  'csv.status': '状態',
+
+  'speech.title': '発音',
+  'speech.backend': '音声の提供元',
+  'speech.browser': 'ブラウザの音声',
+  'speech.server': 'ローカル TTS サーバー',
+  'speech.voice': '音声（{language}）',
+  'speech.serverDefault': 'サーバーの既定',
+  'speech.bestMatch': '最適なもの',
+  'speech.noVoice': 'この言語の音声はインストールされていません',
+  'speech.speed': '速度：{rate}×',
+  'speech.try': 'この音声を試す',
+  'speech.pronounce': '発音する',
+  'speech.word': '「{word}」を発音',
+  'speech.line': 'この行を発音',
+  'speech.failed': '発音を再生できませんでした',
+  'speech.unsupported': 'このブラウザは音声合成に対応していません。',
+  'speech.error': '音声の再生に失敗しました：{error}',
+  'speech.serverError': 'TTS サーバーの応答：{status} {statusText}',
+  'speech.badAudio': 'TTS サーバーがブラウザで再生できない音声を返しました。',
+
+  'review.title': '復習',
+  'review.stats': '復習待ち {due} · 習得済み {learned} · デッキ内 {total}',
+  'review.empty': '分析した曲の単語は自動的にここに追加されます。',
+  'review.nothingDue': '今は復習するものがありません。また後で来てください！',
+  'review.lapses': '{count} 回忘れた',
+  'review.show': '答えを表示',
+  'review.noTranslation': '訳は保存されていません',
+  'review.again': 'もう一度',
+  'review.hard': '難しい',
+  'review.good': '普通',
+  'review.easy': '簡単',
+  'review.remove': 'デッキから外す',
+
+  'library.title': '曲のライブラリ',
+  'library.saved': '{count} 曲保存済み',
+  'library.search': 'タイトル、アーティスト、言語、歌詞で検索...',
+  'library.empty': '曲は分析後に自動でここに保存されます。',
+  'library.noMatches': '「{query}」に一致する曲はありません。',
+  'library.words': '{level} で {count} 語',
+  'library.notAnalysed': '未分析',
+  'library.levels': '{levels} で分析済み',
+  'library.open': '開く',
+  'library.rerunLevel': '再分析のレベル',
+  'library.rerun': '再分析',
+  'library.confirmDelete': '「{title}」をライブラリから削除しますか？',
+
+  'vocab.title': 'マイ語彙',
+  'vocab.stats': '知っている {known} · 学習中 {learning} · 無視 {ignored}',
+  'vocab.language': '言語コード',
+  'vocab.languagePlaceholder': '例：nl、es、fr',
+  'vocab.show': '表示',
+  'vocab.all': 'すべての単語',
+  'vocab.importList': '単語リストを読み込む',
+  'vocab.importPlaceholder': '1 行に 1 語、またはカンマ区切り',
+  'vocab.importStatus': '読み込む単語の状態',
+  'vocab.as': '「{status}」として',
+  'vocab.import': '読み込む',
+  'vocab.importFile': '.txt ファイルを読み込む',
+  'vocab.empty':
+    'まだ単語がありません。曲のリストで単語を「知っている」や「無視」にするか、上で単語リストを読み込んでください。',
+  'vocab.statusOf': '「{word}」の状態',
+  'vocab.noLanguage': '先に単語リストの言語を選んでください。',
+  'vocab.noWords': 'リストに単語が見つかりませんでした。',
+  'vocab.imported': '{count} 語を「{status}」として読み込みました。',
+  'vocab.readFailed': 'ファイルを読み取れませんでした',
+
+  'progress.title': 'あなたの進捗',
+  'progress.reviewedToday': '今日 {count} 枚のカードを復習しました',
+  'progress.learned': '覚えた単語',
+  'progress.days': '{count} 日',
+  'progress.streak': '連続復習',
+  'progress.longest': '最長 {count} 日',
+  'progress.songsCompleted': '完了した曲',
+  'progress.songsOf': '{done} / {total}',
+  'progress.coverage': '分析フォームの曲',
+  'progress.coverageOf': 'この曲の単語の約 {percent} をすでに知っています（{known} / {total}、{language}）。',
+  'progress.coverageHelp': '覚えた単語、「知っている」「無視」にした単語、あなたのレベル（{level}）より下のよく使う単語を数えます。',
+  'progress.noLyrics': '「分析」タブに歌詞を貼り付けると、その曲をどれだけ知っているかがわかります。',
+  'progress.empty': '曲を分析して単語を復習すると、ここに進捗が表示されます。',
+  'progress.language': '言語',
+  'progress.learnedColumn': '覚えた',
+  'progress.learningColumn': '学習中',
+  'progress.level': 'レベル',
+  'progress.suggestions': '次に学ぶ曲',
+  'progress.suggestionsHelp': 'ライブラリのまだ完了していない曲です。なじみのある順に並びます。',
+  'progress.songCoverage': '歌詞の {percent} を理解 · {total} 語中 {done} 語を習得',
+
+  'usage.title': 'AI の使用量',
+  'usage.spent': '今月 {spent}',
+  'usage.spentOfBudget': '今月 {spent} / {budget}',
+  'usage.budget': '月間予算（USD）',
+  'usage.noBudget': '予算なし',
+  'usage.budgetSet': '予算を月 {budget} に設定しました。',
+  'usage.budgetRemoved': '予算を解除しました。',
+  'usage.budgetHelp': '今月の予算を超えるリクエストの前に確認を求めます。費用は定価から推定します。',
+  'usage.clearCache': 'キャッシュした応答を消去',
+  'usage.cacheCleared': 'キャッシュした応答を消去しました。',
+  'usage.cacheFailed': 'キャッシュを消去できませんでした',
+  'usage.empty': 'まだ AI の呼び出しはありません。同じリクエストはローカルキャッシュから無料で返されます。',
+  'usage.month': '月',
+  'usage.song': '曲',
+  'usage.otherRequests': 'その他のリクエスト',
+  'usage.recent': '最近の呼び出し',
+  'usage.model': 'モデル',
+  'usage.calls': '呼び出し',
+  'usage.tokens': 'トークン 入力 / 出力',
+  'usage.cost': '費用',
+  'usage.unpriced': '価格不明のモデルへの呼び出し {count} 件',
+  'usage.estimated': 'テキストの長さから推定',
+  'usage.unknown': '不明',
+}
+
+export default ja
@@ -0,0 +1,444 @@
+import type { Messages } from '../i18n'
+
+const ko: Messages = {
+  'app.title': '노래로 배우기',
+  'app.subtitle': '어떤 언어의 가사든 붙여넣으면 내 수준에 맞는 단어 목록을 내 언어 번역과 함께 만들어 줍니다.',
+  'app.footer': '학습용 프로토타입입니다. 난이도는 자동으로 추정되므로 음악으로 공부할 때 참고용으로만 사용하세요.',
+
+  'nav.analyze': '노래 분석',
+  'nav.review': '복습',
+  'nav.library': '라이브러리',
+  'nav.vocabulary': '어휘',
+  'nav.progress': '진도',
+  'nav.usage': '사용량',
+
+  'common.add': '추가',
+  'common.cancel': '취소',
+  'common.close': '닫기',
+  'common.delete': '삭제',
+  'common.done': '완료',
+  'common.edit': '편집',
+  'common.remove': '제거',
+  'common.save': '저장',
+  'common.translateAgain': '다시 번역',
+  'common.translating': '번역 중...',
+  'common.working': '처리 중...',
+
+  'form.title': '제목',
+  'form.artist': '아티스트',
+  'form.optional': '선택 사항',
+  'form.lyrics': '가사',
+  'form.newSong': '새 노래 시작',
+  'form.example': '예시로 해 보기',
+  'form.importSynced': '.lrc / .srt 가져오기',
+  'form.lyricsPlaceholder': '여기에 전체 가사를 붙여넣으세요...',
+  'form.characters': '{count} / {max}자',
+  'form.maxLength': '(최대 길이에 도달함)',
+  'form.songCount': '노래 {count}곡',
+  'form.albumHelp':
+    '앨범 전체를 붙여넣나요? 각 노래 앞에 "--- 노래 제목 ---" 같은 줄을 넣으면 함께 분석하고 따로 저장합니다.',
+  'form.offline': '오프라인 분석 (AI·API 키 없이)',
+  'form.provider': 'AI 제공자',
+  'form.serverUrl': '서버 URL',
+  'form.serverHelp': '{path}를 제공하는 서버 (예: Ollama, llama.cpp).',
+  'form.models': '작업별 모델',
+  'form.level': '내 수준 (노래 언어 기준)',
+  'form.nativeLang': '모국어',
+  'form.nativeLangHelp': '앱, 번역, 설명이 이 언어로 표시됩니다. 이름으로 검색하거나 pt-BR 같은 언어 코드를 입력하세요.',
+  'form.studyLang': '학습 언어 (선택 사항)',
+  'form.studyLangAny': '노래의 모든 언어',
+  'form.studyLangHelp': '여러 언어로 된 노래에서는 이 언어로 된 줄만 학습합니다.',
+
+  'level.A1': '입문',
+  'level.A2': '초급',
+  'level.B1': '중급',
+  'level.B2': '중상급',
+  'level.C1': '고급',
+  'level.C2': '숙달',
+
+  'task.detect': '언어 감지',
+  'task.analyze': '가사 분석',
+  'task.translate': '번역',
+
+  'apiKey.label': '{provider} API 키',
+  'apiKey.locked': '저장된 키가 잠겨 있습니다',
+  'apiKey.passphrase': '암호',
+  'apiKey.passphraseOptional': '암호 (선택 사항)',
+  'apiKey.unlock': '잠금 해제',
+  'apiKey.save': '키 저장',
+  'apiKey.test': '키 테스트',
+  'apiKey.forget': '키 삭제',
+  'apiKey.saved': '이 기기에 키를 저장했습니다.',
+  'apiKey.savedEncrypted': '키를 저장하고 암호로 암호화했습니다.',
+  'apiKey.unlocked': '키 잠금을 해제했습니다.',
+  'apiKey.removed': '이 기기에서 키를 삭제했습니다.',
+  'apiKey.works': '키가 정상적으로 작동합니다.',
+  'apiKey.storedEncrypted': '이 브라우저에 암호로 암호화되어 저장되어 있습니다.',
+  'apiKey.storedPlain': '이 브라우저에 저장되어 있습니다. 암호화하려면 암호를 추가하세요.',
+  'apiKey.notStored': '저장되지 않음: 저장하지 않으면 새로고침할 때 사라집니다.',
+  'apiKey.sentOnlyTo': '{provider}에만 전송됩니다.',
+  'apiKey.getOne': '키 발급:',
+
+  'settings.export': '설정 내보내기',
+  'settings.import': '설정 가져오기',
+  'settings.exported': '설정을 내보냈습니다. API 키는 암호화된 경우에만 포함됩니다.',
+  'settings.imported': '설정을 가져왔습니다.',
+  'settings.importFailed': '설정을 가져올 수 없습니다',
+
+  'languagePicker.search': '언어 검색...',
+  'languagePicker.invalid': '"{query}"은(는) 언어 이름도, 유효한 언어 코드도 아닙니다.',
+
+  'submit.analyzing': 'AI가 가사를 분석하는 중...',
+  'submit.analyzingFound': 'AI가 가사를 분석하는 중... {count}개 찾음',
+  'submit.translating': '단어 번역 중... {done}/{total}',
+  'submit.offline': '오프라인으로 단어 찾기',
+  'submit.llm': '학습할 단어 찾기',
+
+  'error.noLyrics': '먼저 가사를 붙여넣으세요.',
+  'error.tooLong': '가사가 너무 깁니다({length}자). 최대 {max}자입니다.',
+  'error.fileTooLong': '{file}의 가사가 너무 깁니다.',
+  'error.noItems': '학습할 단어를 찾지 못했습니다. 다른 수준을 선택하거나 가사를 확인하세요.',
+  'error.offlineFailed': '오프라인 분석에 실패했습니다',
+  'error.noNativeLang': '모국어를 선택하세요.',
+  'error.apiKey': '{provider} API 키를 입력하세요.',
+  'error.noStudyLines': '이 가사에는 {language}로 된 줄이 없습니다.',
+  'error.allNative': '이 가사는 모두 모국어({language})입니다.',
+  'error.translationFailed': '번역에 실패했습니다',
+  'error.noTranslation': '번역 없음: {reason}',
+  'error.missingFromResponse': '응답에 없음',
+  'error.unexpected': '예기치 않은 오류가 발생했습니다',
+  'error.lineNeedsAI': '줄 번역에는 AI 제공자가 필요합니다. 먼저 오프라인 모드를 끄세요.',
+  'error.lineFailed': '줄 번역에 실패했습니다',
+  'error.grammarNeedsAI': '문법 노트에는 AI 제공자가 필요합니다. 먼저 오프라인 모드를 끄세요.',
+  'error.grammarFailed': '문법 분석에 실패했습니다',
+  'error.offlineLookup': '오프라인 검색은 기본 단어 목록이 있는 언어의 노래에서만 가능합니다.',
+  'error.importFailed': '파일을 가져올 수 없습니다',
+  'error.lessonLink': '수업 링크를 열 수 없습니다',
+  'error.wrongPassphrase': '암호가 올바르지 않습니다.',
+  'error.invalidJSON': '이 파일은 올바른 JSON이 아닙니다.',
+  'error.newerFile': '이 파일은 더 새로운 버전의 앱에서 내보낸 것입니다.',
+  'error.notSettingsFile': '"노래로 배우기" 설정 파일이 아닙니다.',
+  'error.notExportFile': '"노래로 배우기" 내보내기 파일이 아닙니다.',
+  'error.exportIncomplete': '내보내기 파일에 노래나 항목이 없습니다.',
+  'error.exportItem': '내보내기 파일의 {n}번째 항목이 불완전합니다.',
+  'error.noLanguage': '가사의 언어를 감지할 수 없습니다.',
+  'error.noWordList': '오프라인 분석에는 아직 {language} 단어 목록이 없습니다. 대신 AI 제공자를 사용하세요.',
+  'error.noTimedLines': '{file}에서 타임스탬프가 있는 줄을 찾을 수 없습니다.',
+  'error.lessonInvalid': '이 수업은 올바른 JSON이 아닙니다.',
+  'error.notLesson': '"노래로 배우기" 수업이 아닙니다.',
+  'error.newerLesson': '이 수업은 더 새로운 버전의 앱에서 만든 것입니다.',
+  'error.lessonIncomplete': '수업에 노래나 항목이 없습니다.',
+  'error.lessonSettings': '수업에 수준이나 언어가 없습니다.',
+  'error.lessonItem': '수업의 {n}번째 항목이 불완전합니다.',
+  'error.lessonDamaged': '이 수업 링크는 불완전하거나 손상되었습니다.',
+  'error.taskFailed': '{task} 실패: {reason}',
+  'error.noResponse': 'AI가 응답을 보내지 않았습니다',
+  'error.invalidResponse': 'AI가 올바른 JSON으로 응답하지 않았습니다',
+  'error.noWordsInResponse': '가사 분석 실패: AI 응답에 단어 목록이 없습니다.',
+  'error.noNotesInResponse': '문법 분석 실패: AI 응답에 노트가 없습니다.',
+  'error.linesUntranslated': '줄 번역에서 {total}줄 중 {missing}줄의 번역이 오지 않았습니다. 다시 시도하세요.',
+  'error.invalidEntry': '잘못된 항목: {reason}',
+  'error.emptyTranslation': '번역이 비어 있음',
+  'error.noStreaming': '이 서버는 스트리밍을 지원하지 않습니다.',
+  'error.streamFailed': '스트리밍 중 서버가 오류를 보고했습니다.',
+
+  'warning.rejected': 'AI가 계속 잘못된 데이터를 반환한 제안 {count}개를 건너뛰었습니다: {list}',
+  'warning.unnamedEntry': '어떤 항목',
+  'warning.translationCancelled': '번역을 취소했습니다. 찾은 단어는 저장되었지만 일부는 번역이 없습니다.',
+  'warning.analysisCancelled': '분석을 취소했습니다. 지금까지 찾은 단어를 표시하지만 저장하지는 않았습니다.',
+
+  'budget.analysis': '이번 분석',
+  'budget.translation': '이번 번역',
+  'budget.grammar': '이번 문법 분석',
+  'budget.confirm':
+    '{action}에 약 {estimate}이(가) 듭니다. 월 예산 {budget} 중 이미 {spent}을(를) 사용했으므로 예산을 초과합니다. 계속할까요?',
+
+  'results.title': '이 노래에서 배울 단어',
+  'results.studyLang': '학습 언어',
+  'results.allLanguages': '모든 언어',
+  'results.study': '학습: {language}',
+  'results.importJSON': 'JSON 가져오기',
+  'results.empty': '노래를 분석하면 여기에 목록이 표시됩니다.',
+
+  'view.list': '목록',
+  'view.lyrics': '가사',
+  'view.bilingual': '대역',
+  'view.grammar': '문법과 관용구',
+  'view.karaoke': '노래방',
+  'view.quiz': '퀴즈',
+
+  'band.comfortable': '쉬움',
+  'band.stretch': '약간 어려움',
+  'band.challenging': '어려움',
+
+  'status.known': '아는 단어',
+  'status.learning': '학습 중',
+  'status.ignored': '무시',
+  'status.markKnown': '이미 알아요',
+  'status.markIgnored': '무시하기',
+  'status.markLearning': '학습 중으로 표시',
+
+  'list.sort': '목록 정렬',
+  'list.sortSong': '노래 순서',
+  'list.sortHardest': '어려운 순',
+  'list.sortEasiest': '쉬운 순',
+  'list.sortFrequency': '자주 나오는 순',
+  'list.group': '목록 묶기',
+  'list.groupNone': '묶지 않음',
+  'list.groupPos': '품사별로 묶기',
+  'list.groupGender': '성별로 묶기',
+  'list.translationStatus': '번역 상태',
+  'list.anyStatus': '모든 번역 상태',
+  'list.translated': '번역됨',
+  'list.untranslated': '번역 안 됨',
+  'list.failed': '번역 실패',
+  'list.difficultyLabel': '난이도',
+  'list.allDifficulties': '모든 난이도',
+  'list.pos': '품사',
+  'list.allPos': '모든 품사',
+  'list.gender': '성',
+  'list.allGenders': '모든 성',
+  'list.other': '기타',
+  'list.selected': '{count}개 선택됨',
+  'list.merge': '병합',
+  'list.mergeHelp': '선택한 단어를 처음 선택한 단어에 병합합니다',
+  'list.clearSelection': '선택 해제',
+  'list.noMatches': '이 필터에 맞는 단어가 없습니다.',
+  'list.select': '"{word}" 선택',
+  'list.difficulty': '난이도: {band}',
+  'list.appears': '{count}회 등장',
+  'list.notInSong': '노래에 없음',
+  'list.notInSongHelp': 'AI가 제안했지만 가사에는 나오지 않습니다.',
+  'list.article': '관사: {article}',
+  'list.line': '노래 속 구절:',
+  'list.translation': '번역',
+  'list.translationOptional': '번역 (선택 사항)',
+  'list.explanation': '설명',
+  'list.explanationOptional': '설명 (선택 사항)',
+  'list.addWord': '+ 단어 추가',
+  'list.word': '단어 또는 표현',
+  'list.wordPlaceholder': '노래에 나오는 단어 또는 표현',
+
+  'pos.noun': '명사',
+  'pos.verb': '동사',
+  'pos.adjective': '형용사',
+  'pos.adverb': '부사',
+  'pos.pronoun': '대명사',
+  'pos.preposition': '전치사',
+  'pos.conjunction': '접속사',
+  'pos.determiner': '한정사',
+  'pos.numeral': '수사',
+  'pos.interjection': '감탄사',
+  'pos.phrase': '구',
+  'pos.other': '기타',
+  'gender.masculine': '남성',
+  'gender.feminine': '여성',
+  'gender.neuter': '중성',
+  'gender.common': '통성',
+
+  'lookup.loading': '찾는 중...',
+  'lookup.failed': '찾기에 실패했습니다',
+  'lookup.noTranslation': '번역 없음',
+  'lookup.noTranslationYet': '아직 번역 없음',
+  'lookup.add': '내 목록에 추가',
+  'lookup.offlineEstimate': '추정 수준: {level}. 번역하려면 AI 제공자가 필요합니다.',
+  'lyrics.clickHelp': '단어를 클릭하면 뜻을 찾아볼 수 있습니다.',
+
+  'offline.core': '{language} {level} 수준의 기본 단어입니다.',
+  'offline.estimated': '{language} 기본 단어 목록에 없음. 추정 수준: {level}.',
+
+  'bilingual.style': '번역 스타일',
+  'bilingual.literal': '직역',
+  'bilingual.natural': '의역',
+  'bilingual.translate': '{language}로 번역',
+  'bilingual.translating': '줄 번역 중...',
+
+  'grammar.help': '노래에 나오는 문법 항목과 관용구입니다. 각각 짧은 규칙과 추가 예문이 있습니다.',
+  'grammar.find': '문법과 관용구 찾기',
+  'grammar.findAgain': '다시 찾기',
+  'grammar.finding': '문법과 관용구를 찾는 중...',
+  'grammar.none': '설명할 만한 문법 항목이나 관용구를 찾지 못했습니다.',
+  'grammar.grammar': '문법',
+  'grammar.idiom': '관용구',
+  'grammar.line': '{line}번째 줄:',
+
+  'karaoke.help': '노래의 오디오 파일을 선택하면 따라 부를 수 있습니다. 파일은 기기에만 있고 저장되지 않습니다.',
+  'karaoke.change': '오디오 변경',
+  'karaoke.choose': '오디오 파일 선택',
+  'karaoke.loop': '이 줄 반복',
+  'karaoke.stopLoop': '반복 중지',
+  'karaoke.onLine': '이 줄의 단어',
+  'karaoke.noWords': '목록에 있는 단어가 없습니다.',
+
+  'quiz.intro': '이 노래의 단어를 연습하세요. 틀린 단어는 학습 중으로 표시됩니다.',
+  'quiz.cloze': '빈칸 채우기',
+  'quiz.clozeHelp': '가사에서 빠진 단어를 입력하세요.',
+  'quiz.choice': '객관식',
+  'quiz.choiceHelp': '올바른 번역을 고르세요.',
+  'quiz.recall': '거꾸로 떠올리기',
+  'quiz.recallHelp': '번역을 보고 단어를 입력하세요.',
+  'quiz.needsTranslations': '번역된 단어가 필요합니다',
+  'quiz.available': '문제 {count}개',
+  'quiz.markedLearning': '학습 중으로 표시됨: {words}',
+  'quiz.cleared': '학습 중 표시 해제: {words}',
+  'quiz.again': '다시 하기',
+  'quiz.another': '다른 퀴즈 선택',
+  'quiz.score': '점수: {score}',
+  'quiz.hint': '힌트: {hint}',
+  'quiz.typeWord': '단어 입력',
+  'quiz.next': '다음',
+  'quiz.results': '결과 보기',
+  'quiz.check': '확인',
+  'quiz.correct': '정답!',
+  'quiz.answer': '정답: {answer}',
+
+  'export.button': '내보내기…',
+  'export.format': '형식',
+  'export.anki': 'Anki 덱 (.apkg)',
+  'export.csv': 'CSV 스프레드시트',
+  'export.json': 'JSON (다시 가져올 수 있음)',
+  'export.quizlet': 'Quizlet (용어 ⇥ 번역)',
+  'export.lesson': '공유용 수업 (파일 또는 링크)',
+  'export.untranslated': '번역이 없는 단어 {count}개',
+  'export.noTranslation': '(번역 없음)',
+  'export.exclude': '제외',
+  'export.mark': '번역 안 됨으로 표시하여 포함',
+  'export.columns': '열',
+  'export.separator': '구분 기호',
+  'export.comma': '쉼표',
+  'export.semicolon': '세미콜론',
+  'export.tab': '탭',
+  'export.jsonHelp': '가사, 모든 항목, 문법 노트를 그대로 담아 앱으로 다시 가져올 수 있습니다.',
+  'export.lessonHelp': '가사, 설정, 단어, 줄 번역, 문법 노트가 들어 있습니다. 학생은 API 키나 AI 호출 없이 열 수 있습니다.',
+  'export.copyLink': '링크 복사',
+  'export.linkCopied': '링크를 복사했습니다. 여는 사람은 누구나 이 수업을 받습니다.',
+  'export.linkTooLong': '이 수업은 링크로 만들기에 너무 깁니다. 다운로드해서 파일을 공유하세요.',
+  'export.preparing': '준비 중...',
+  'export.download': '다운로드',
+  'export.failed': '내보내기에 실패했습니다',
+
+  'csv.word': '단어',
+  'csv.translation': '번역',
+  'csv.example': '노래 가사 줄',
+  'csv.cloze': '노래 가사 줄(빈칸)',
+  'csv.explanation': '설명',
+  'csv.difficulty': '난이도',
+  'csv.score': '난이도 점수',
+  'csv.count': '등장 횟수',
+  'csv.lines': '줄 번호',
+  'csv.language': '언어',
+  'csv.song': '노래',
+  'csv.status': '상태',
+
+  'speech.title': '발음',
+  'speech.backend': '음성 제공',
+  'speech.browser': '브라우저 음성',
+  'speech.server': '로컬 TTS 서버',
+  'speech.voice': '음성 ({language})',
+  'speech.serverDefault': '서버 기본값',
+  'speech.bestMatch': '가장 적합한 음성',
+  'speech.noVoice': '이 언어에 설치된 음성이 없습니다',
+  'speech.speed': '속도: {rate}×',
+  'speech.try': '이 음성 들어 보기',
+  'speech.pronounce': '발음 듣기',
+  'speech.word': '"{word}" 발음 듣기',
+  'speech.line': '이 줄 발음 듣기',
+  'speech.failed': '발음을 재생할 수 없습니다',
+  'speech.unsupported': '이 브라우저는 음성 합성을 지원하지 않습니다.',
+  'speech.error': '음성 재생 실패: {error}',
+  'speech.serverError': 'TTS 서버 응답: {status} {statusText}',
+  'speech.badAudio': 'TTS 서버가 브라우저에서 재생할 수 없는 오디오를 보냈습니다.',
+
+  'review.title': '복습',
+  'review.stats': '복습 예정 {due} · 학습 완료 {learned} · 덱 전체 {total}',
+  'review.empty': '분석한 노래의 단어가 자동으로 여기에 추가됩니다.',
+  'review.nothingDue': '지금은 복습할 것이 없습니다. 나중에 다시 확인하세요!',
+  'review.lapses': '{count}회 잊음',
+  'review.show': '정답 보기',
+  'review.noTranslation': '저장된 번역 없음',
+  'review.again': '다시',
+  'review.hard': '어려움',
+  'review.good': '좋음',
+  'review.easy': '쉬움',
+  'review.remove': '덱에서 제거',
+
+  'library.title': '노래 라이브러리',
+  'library.saved': '{count}곡 저장됨',
+  'library.search': '제목, 아티스트, 언어 또는 가사로 검색...',
+  'library.empty': '노래를 분석하면 자동으로 여기에 저장됩니다.',
+  'library.noMatches': '"{query}"와(과) 일치하는 노래가 없습니다.',
+  'library.words': '{level} 수준 단어 {count}개',
+  'library.notAnalysed': '아직 분석 안 됨',
+  'library.levels': '{levels} 수준으로 분석됨',
+  'library.open': '열기',
+  'library.rerunLevel': '재분석 수준',
+  'library.rerun': '다시 분석',
+  'library.confirmDelete': '라이브러리에서 "{title}"을(를) 삭제할까요?',
+
+  'vocab.title': '내 어휘',
+  'vocab.stats': '아는 단어 {known} · 학습 중 {learning} · 무시 {ignored}',
+  'vocab.language': '언어 코드',
+  'vocab.languagePlaceholder': '예: nl, es, fr',
+  'vocab.show': '보기',
+  'vocab.all': '모든 단어',
+  'vocab.importList': '단어 목록 가져오기',
+  'vocab.importPlaceholder': '한 줄에 한 단어 또는 쉼표로 구분',
+  'vocab.importStatus': '가져올 단어의 상태',
+  'vocab.as': '"{status}"(으)로',
+  'vocab.import': '가져오기',
+  'vocab.importFile': '.txt 파일 가져오기',
+  'vocab.empty':
+    '아직 단어가 없습니다. 노래 목록에서 단어를 아는 단어나 무시로 표시하거나, 위에서 목록을 가져오세요.',
+  'vocab.statusOf': '"{word}"의 상태',
+  'vocab.noLanguage': '먼저 단어 목록의 언어를 선택하세요.',
+  'vocab.noWords': '목록에서 단어를 찾지 못했습니다.',
+  'vocab.imported': '단어 {count}개를 "{status}"(으)로 가져왔습니다.',
+  'vocab.readFailed': '파일을 읽을 수 없습니다',
+
+  'progress.title': '나의 진도',
+  'progress.reviewedToday': '오늘 카드 {count}장을 복습했습니다',
+  'progress.learned': '익힌 단어',
+  'progress.days': '{count}일',
+  'progress.streak': '연속 복습',
+  'progress.longest': '최장 {count}일',
+  'progress.songsCompleted': '완료한 노래',
+  'progress.songsOf': '{done} / {total}',
+  'progress.coverage': '분석 양식의 노래',
+  'progress.coverageOf': '이 노래 단어의 약 {percent}를 이미 알고 있습니다 ({known} / {total}, {language}).',
+  'progress.coverageHelp': '익힌 단어, 아는 단어나 무시로 표시한 단어, 그리고 내 수준({level})보다 낮은 자주 쓰는 단어를 셉니다.',
+  'progress.noLyrics': '분석 탭에 가사를 붙여 넣으면 노래를 얼마나 알고 있는지 볼 수 있습니다.',
+  'progress.empty': '노래를 분석하고 단어를 복습하면 여기에서 진도를 볼 수 있습니다.',
+  'progress.language': '언어',
+  'progress.learnedColumn': '익힘',
+  'progress.learningColumn': '학습 중',
+  'progress.level': '수준',
+  'progress.suggestions': '다음에 공부할 노래',
+  'progress.suggestionsHelp': '라이브러리에서 아직 완료하지 않은 노래입니다. 익숙한 노래부터 보여 줍니다.',
+  'progress.songCoverage': '가사의 {percent} 이해 · 단어 {total}개 중 {done}개 앎',
+
+  'usage.title': 'AI 사용량',
+  'usage.spent': '이번 달 {spent}',
+  'usage.spentOfBudget': '이번 달 {spent} / {budget}',
+  'usage.budget': '월 예산 (USD)',
+  'usage.noBudget': '예산 없음',
+  'usage.budgetSet': '예산을 월 {budget}(으)로 설정했습니다.',
+  'usage.budgetRemoved': '예산을 해제했습니다.',
+  'usage.budgetHelp': '이번 달 예산을 초과하는 요청 전에 확인을 요청합니다. 비용은 공시 가격으로 추정합니다.',
+  'usage.clearCache': '캐시된 응답 지우기',
+  'usage.cacheCleared': '캐시된 응답을 지웠습니다.',
+  'usage.cacheFailed': '캐시를 지울 수 없습니다',
+  'usage.empty': '아직 AI 호출이 없습니다. 반복된 요청은 로컬 캐시에서 무료로 처리됩니다.',
+  'usage.month': '월',
+  'usage.song': '노래',
+  'usage.otherRequests': '기타 요청',
+  'usage.recent': '최근 호출',
+  'usage.model': '모델',
+  'usage.calls': '호출',
+  'usage.tokens': '토큰 입력 / 출력',
+  'usage.cost': '비용',
+  'usage.unpriced': '가격을 알 수 없는 모델 호출 {count}건',
+  'usage.estimated': '텍스트 길이로 추정',
+  'usage.unknown': '알 수 없음',
+}
+
+export default ko
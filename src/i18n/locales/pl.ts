@@ -0,0 +1,462 @@
+import type { Messages } from '../i18n'
+
+const pl: Messages = {
+  'app.title': 'Ucz się z piosenek',
+  'app.subtitle':
+    'Wklej tekst piosenki w dowolnym języku i otrzymaj listę słów dopasowanych do Twojego poziomu, przetłumaczonych na Twój język.',
+  'app.footer':
+    'To prototyp edukacyjny. Trudność jest szacowana automatycznie i służy jedynie jako wskazówka podczas nauki z muzyką.',
+
+  'nav.analyze': 'Analizuj piosenkę',
+  'nav.review': 'Powtórki',
+  'nav.library': 'Biblioteka',
+  'nav.vocabulary': 'Słownictwo',
+  'nav.progress': 'Postępy',
+  'nav.usage': 'Zużycie',
+
+  'common.add': 'Dodaj',
+  'common.cancel': 'Anuluj',
+  'common.close': 'Zamknij',
+  'common.delete': 'Usuń',
+  'common.done': 'Gotowe',
+  'common.edit': 'Edytuj',
+  'common.remove': 'Usuń',
+  'common.save': 'Zapisz',
+  'common.translateAgain': 'Przetłumacz ponownie',
+  'common.translating': 'Tłumaczenie...',
+  'common.working': 'Przetwarzanie...',
+
+  'form.title': 'Tytuł',
+  'form.artist': 'Wykonawca',
+  'form.optional': 'Opcjonalnie',
+  'form.lyrics': 'Tekst piosenki',
+  'form.newSong': 'Zacznij nową piosenkę',
+  'form.example': 'Wypróbuj na przykładzie',
+  'form.importSynced': 'Importuj .lrc / .srt',
+  'form.lyricsPlaceholder': 'Wklej tutaj cały tekst...',
+  'form.characters': 'Znaki: {count} / {max}',
+  'form.maxLength': '(osiągnięto maksymalną długość)',
+  'form.songCount': 'one:{count} piosenka|few:{count} piosenki|many:{count} piosenek|other:{count} piosenki',
+  'form.albumHelp':
+    'Wklejasz cały album? Przed każdą piosenką dodaj wiersz w rodzaju „--- Tytuł piosenki ---”, aby przeanalizować je razem i zapisać osobno.',
+  'form.offline': 'Analizuj offline (bez AI i klucza API)',
+  'form.provider': 'Dostawca AI',
+  'form.serverUrl': 'Adres URL serwera',
+  'form.serverHelp': 'Dowolny serwer udostępniający {path}, np. Ollama lub llama.cpp.',
+  'form.models': 'Modele dla zadań',
+  'form.level': 'Twój poziom (w języku piosenki)',
+  'form.nativeLang': 'Twój język ojczysty',
+  'form.nativeLangHelp':
+    'Aplikacja, tłumaczenia i objaśnienia używają tego języka. Szukaj po nazwie lub wpisz kod języka, np. pt-BR.',
+  'form.studyLang': 'Język do nauki (opcjonalnie)',
+  'form.studyLangAny': 'Wszystkie języki piosenki',
+  'form.studyLangHelp': 'W piosenkach w kilku językach uczysz się tylko wierszy w tym języku.',
+
+  'level.A1': 'Początkujący',
+  'level.A2': 'Podstawowy',
+  'level.B1': 'Średniozaawansowany',
+  'level.B2': 'Wyższy średniozaawansowany',
+  'level.C1': 'Zaawansowany',
+  'level.C2': 'Biegły',
+
+  'task.detect': 'Wykrywanie języka',
+  'task.analyze': 'Analiza tekstu',
+  'task.translate': 'Tłumaczenie',
+
+  'apiKey.label': 'Klucz API {provider}',
+  'apiKey.locked': 'Zapisany klucz jest zablokowany',
+  'apiKey.passphrase': 'Hasło',
+  'apiKey.passphraseOptional': 'Hasło (opcjonalnie)',
+  'apiKey.unlock': 'Odblokuj',
+  'apiKey.save': 'Zapisz klucz',
+  'apiKey.test': 'Sprawdź klucz',
+  'apiKey.forget': 'Zapomnij klucz',
+  'apiKey.saved': 'Klucz zapisany na tym urządzeniu.',
+  'apiKey.savedEncrypted': 'Klucz zapisany i zaszyfrowany Twoim hasłem.',
+  'apiKey.unlocked': 'Klucz odblokowany.',
+  'apiKey.removed': 'Klucz usunięty z tego urządzenia.',
+  'apiKey.works': 'Klucz działa.',
+  'apiKey.storedEncrypted': 'Zapisany w tej przeglądarce, zaszyfrowany Twoim hasłem.',
+  'apiKey.storedPlain': 'Zapisany w tej przeglądarce. Dodaj hasło, aby go zaszyfrować.',
+  'apiKey.notStored': 'Niezapisany: zniknie po przeładowaniu, jeśli go nie zapiszesz.',
+  'apiKey.sentOnlyTo': 'Jest wysyłany wyłącznie do {provider}.',
+  'apiKey.getOne': 'Klucz uzyskasz na',
+
+  'settings.export': 'Eksportuj ustawienia',
+  'settings.import': 'Importuj ustawienia',
+  'settings.exported': 'Wyeksportowano ustawienia. Klucze API są dołączane tylko wtedy, gdy są zaszyfrowane.',
+  'settings.imported': 'Zaimportowano ustawienia.',
+  'settings.importFailed': 'Nie udało się zaimportować ustawień',
+
+  'languagePicker.search': 'Szukaj języków...',
+  'languagePicker.invalid': '„{query}” nie jest nazwą języka ani prawidłowym kodem języka.',
+
+  'submit.analyzing': 'AI analizuje tekst...',
+  'submit.analyzingFound': 'AI analizuje tekst... znaleziono: {count}',
+  'submit.translating': 'Tłumaczenie słów... {done}/{total}',
+  'submit.offline': 'Znajdź słowa offline',
+  'submit.llm': 'Znajdź słowa do nauki',
+
+  'error.noLyrics': 'Najpierw wklej tekst piosenki.',
+  'error.tooLong': 'Tekst jest za długi (znaki: {length}). Maksimum to {max}.',
+  'error.fileTooLong': 'Tekst w pliku {file} jest za długi.',
+  'error.noItems': 'Nie znaleziono słów do nauki. Zmień poziom lub sprawdź tekst.',
+  'error.offlineFailed': 'Analiza offline nie powiodła się',
+  'error.noNativeLang': 'Wybierz swój język ojczysty.',
+  'error.apiKey': 'Wpisz swój klucz API {provider}.',
+  'error.noStudyLines': 'W tym tekście nie ma wierszy w języku: {language}.',
+  'error.allNative': 'Cały ten tekst jest w Twoim języku ojczystym ({language}).',
+  'error.translationFailed': 'Tłumaczenie nie powiodło się',
+  'error.noTranslation': 'Brak tłumaczenia: {reason}',
+  'error.missingFromResponse': 'brak w odpowiedzi',
+  'error.unexpected': 'Wystąpił nieoczekiwany błąd',
+  'error.lineNeedsAI': 'Tłumaczenie wierszy wymaga dostawcy AI. Najpierw wyłącz tryb offline.',
+  'error.lineFailed': 'Tłumaczenie wierszy nie powiodło się',
+  'error.grammarNeedsAI': 'Notatki gramatyczne wymagają dostawcy AI. Najpierw wyłącz tryb offline.',
+  'error.grammarFailed': 'Analiza gramatyczna nie powiodła się',
+  'error.offlineLookup': 'Wyszukiwanie offline wymaga piosenki w języku z wbudowaną listą słów.',
+  'error.importFailed': 'Nie udało się zaimportować pliku',
+  'error.lessonLink': 'Nie udało się otworzyć linku do lekcji',
+  'error.wrongPassphrase': 'Nieprawidłowe hasło.',
+  'error.invalidJSON': 'Ten plik nie jest poprawnym plikiem JSON.',
+  'error.newerFile': 'Ten plik został wyeksportowany przez nowszą wersję aplikacji.',
+  'error.notSettingsFile': 'To nie jest plik ustawień aplikacji Ucz się z piosenek.',
+  'error.notExportFile': 'To nie jest plik eksportu aplikacji Ucz się z piosenek.',
+  'error.exportIncomplete': 'W pliku eksportu brakuje piosenki lub jej elementów.',
+  'error.exportItem': 'Element {n} w pliku eksportu jest niekompletny.',
+  'error.noLanguage': 'Nie udało się rozpoznać języka tekstu.',
+  'error.noWordList': 'Analiza offline nie ma jeszcze listy słów dla języka {language}. Użyj dostawcy AI.',
+  'error.noTimedLines': 'Nie znaleziono wierszy ze znacznikami czasu w pliku {file}.',
+  'error.lessonInvalid': 'Ta lekcja nie jest poprawnym plikiem JSON.',
+  'error.notLesson': 'To nie jest lekcja aplikacji Ucz się z piosenek.',
+  'error.newerLesson': 'Ta lekcja została utworzona w nowszej wersji aplikacji.',
+  'error.lessonIncomplete': 'W lekcji brakuje piosenki lub jej elementów.',
+  'error.lessonSettings': 'W lekcji brakuje poziomu lub języka.',
+  'error.lessonItem': 'Element {n} w lekcji jest niekompletny.',
+  'error.lessonDamaged': 'Ten link do lekcji jest niepełny lub uszkodzony.',
+  'error.taskFailed': '{task}: błąd: {reason}',
+  'error.noResponse': 'AI nie wysłało odpowiedzi',
+  'error.invalidResponse': 'AI nie odpowiedziało poprawnym JSON-em',
+  'error.noWordsInResponse': 'Analiza tekstu nie powiodła się: w odpowiedzi AI nie ma listy słów.',
+  'error.noNotesInResponse': 'Analiza gramatyczna nie powiodła się: w odpowiedzi AI nie ma notatek.',
+  'error.linesUntranslated':
+    'Tłumaczenie wierszy nie zwróciło tłumaczenia dla {missing} z {total} wierszy; spróbuj ponownie.',
+  'error.invalidEntry': 'nieprawidłowy wpis: {reason}',
+  'error.emptyTranslation': 'tłumaczenie jest puste',
+  'error.noStreaming': 'Ten serwer nie obsługuje strumieniowania.',
+  'error.streamFailed': 'Serwer zgłosił błąd podczas strumieniowania.',
+
+  'warning.rejected':
+    'one:Pominięto {count} propozycję, dla której AI zwracała nieprawidłowe dane: {list}|few:Pominięto {count} propozycje, dla których AI zwracała nieprawidłowe dane: {list}|many:Pominięto {count} propozycji, dla których AI zwracała nieprawidłowe dane: {list}|other:Pominięto {count} propozycji, dla których AI zwracała nieprawidłowe dane: {list}',
+  'warning.unnamedEntry': 'Wpis',
+  'warning.translationCancelled':
+    'Anulowano tłumaczenie. Znalezione słowa są zapisane; niektóre nie mają tłumaczenia.',
+  'warning.analysisCancelled': 'Anulowano analizę. Znalezione dotąd słowa są widoczne, ale niezapisane.',
+
+  'budget.analysis': 'Ta analiza',
+  'budget.translation': 'To tłumaczenie',
+  'budget.grammar': 'Ta analiza gramatyczna',
+  'budget.confirm':
+    '{action} kosztuje szacunkowo {estimate}. Wydano już {spent} z miesięcznego budżetu {budget}, więc zostałby przekroczony. Kontynuować?',
+
+  'results.title': 'Słowa do nauki z tej piosenki',
+  'results.studyLang': 'Język do nauki',
+  'results.allLanguages': 'Wszystkie języki',
+  'results.study': 'Ucz się: {language}',
+  'results.importJSON': 'Importuj JSON',
+  'results.empty': 'Twoja lista pojawi się tutaj po przeanalizowaniu piosenki.',
+
+  'view.list': 'Lista',
+  'view.lyrics': 'Tekst',
+  'view.bilingual': 'Obok siebie',
+  'view.grammar': 'Gramatyka i idiomy',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'łatwe',
+  'band.stretch': 'wymagające',
+  'band.challenging': 'trudne',
+
+  'status.known': 'znane',
+  'status.learning': 'w nauce',
+  'status.ignored': 'pomijane',
+  'status.markKnown': 'Znam to',
+  'status.markIgnored': 'Pomiń',
+  'status.markLearning': 'Oznacz jako w nauce',
+
+  'list.sort': 'Sortuj listę',
+  'list.sortSong': 'Kolejność w piosence',
+  'list.sortHardest': 'Najpierw najtrudniejsze',
+  'list.sortEasiest': 'Najpierw najłatwiejsze',
+  'list.sortFrequency': 'Najpierw najczęstsze',
+  'list.group': 'Grupuj listę',
+  'list.groupNone': 'Bez grupowania',
+  'list.groupPos': 'Grupuj według części mowy',
+  'list.groupGender': 'Grupuj według rodzaju',
+  'list.translationStatus': 'Stan tłumaczenia',
+  'list.anyStatus': 'Dowolny stan tłumaczenia',
+  'list.translated': 'Przetłumaczone',
+  'list.untranslated': 'Nieprzetłumaczone',
+  'list.failed': 'Błąd tłumaczenia',
+  'list.difficultyLabel': 'Trudność',
+  'list.allDifficulties': 'Każda trudność',
+  'list.pos': 'Część mowy',
+  'list.allPos': 'Wszystkie części mowy',
+  'list.gender': 'Rodzaj',
+  'list.allGenders': 'Każdy rodzaj',
+  'list.other': 'Inne',
+  'list.selected': 'Zaznaczono: {count}',
+  'list.merge': 'Scal',
+  'list.mergeHelp': 'Scala zaznaczone słowa z pierwszym z nich',
+  'list.clearSelection': 'Wyczyść zaznaczenie',
+  'list.noMatches': 'Żadne słowo nie pasuje do tych filtrów.',
+  'list.select': 'Zaznacz „{word}”',
+  'list.difficulty': 'Trudność: {band}',
+  'list.appears': 'występuje {count}×',
+  'list.notInSong': 'nie ma w piosence',
+  'list.notInSongHelp': 'AI to zaproponowała, ale nie występuje w tekście.',
+  'list.article': 'rodzajnik: {article}',
+  'list.line': 'Wiersz z piosenki:',
+  'list.translation': 'Tłumaczenie',
+  'list.translationOptional': 'Tłumaczenie (opcjonalnie)',
+  'list.explanation': 'Objaśnienie',
+  'list.explanationOptional': 'Objaśnienie (opcjonalnie)',
+  'list.addWord': '+ Dodaj słowo',
+  'list.word': 'Słowo lub wyrażenie',
+  'list.wordPlaceholder': 'Słowo lub wyrażenie z piosenki',
+
+  'pos.noun': 'rzeczownik',
+  'pos.verb': 'czasownik',
+  'pos.adjective': 'przymiotnik',
+  'pos.adverb': 'przysłówek',
+  'pos.pronoun': 'zaimek',
+  'pos.preposition': 'przyimek',
+  'pos.conjunction': 'spójnik',
+  'pos.determiner': 'określnik',
+  'pos.numeral': 'liczebnik',
+  'pos.interjection': 'wykrzyknik',
+  'pos.phrase': 'wyrażenie',
+  'pos.other': 'inne',
+  'gender.masculine': 'męski',
+  'gender.feminine': 'żeński',
+  'gender.neuter': 'nijaki',
+  'gender.common': 'wspólny',
+
+  'lookup.loading': 'Wyszukiwanie...',
+  'lookup.failed': 'Wyszukiwanie nie powiodło się',
+  'lookup.noTranslation': 'Brak dostępnego tłumaczenia',
+  'lookup.noTranslationYet': 'Jeszcze bez tłumaczenia',
+  'lookup.add': 'Dodaj do mojej listy',
+  'lookup.offlineEstimate': 'Szacowany poziom: {level}. Tłumaczenia wymagają dostawcy AI.',
+  'lyrics.clickHelp': 'Kliknij dowolne słowo, aby je sprawdzić.',
+
+  'offline.core': 'Podstawowe słowo na poziomie {level} ({language}).',
+  'offline.estimated': 'Brak na podstawowej liście słów ({language}); szacowany poziom: {level}.',
+
+  'bilingual.style': 'Styl tłumaczenia',
+  'bilingual.literal': 'Dosłowne',
+  'bilingual.natural': 'Naturalne',
+  'bilingual.translate': 'Przetłumacz ({language})',
+  'bilingual.translating': 'Tłumaczenie wierszy...',
+
+  'grammar.help':
+    'Zagadnienia gramatyczne i idiomy z piosenki, każde z krótką regułą i dodatkowymi przykładami.',
+  'grammar.find': 'Znajdź gramatykę i idiomy',
+  'grammar.findAgain': 'Szukaj ponownie',
+  'grammar.finding': 'Szukanie gramatyki i idiomów...',
+  'grammar.none': 'Nie znaleziono zagadnień gramatycznych ani idiomów wartych wyjaśnienia.',
+  'grammar.grammar': 'Gramatyka',
+  'grammar.idiom': 'Idiom',
+  'grammar.line': 'Wiersz {line}:',
+
+  'karaoke.help':
+    'Wybierz plik audio piosenki, aby śpiewać razem z nią. Pozostaje na Twoim urządzeniu i nie jest zapisywany.',
+  'karaoke.change': 'Zmień audio',
+  'karaoke.choose': 'Wybierz plik audio',
+  'karaoke.loop': 'Zapętl ten wiersz',
+  'karaoke.stopLoop': 'Zatrzymaj zapętlenie',
+  'karaoke.onLine': 'W tym wierszu',
+  'karaoke.noWords': 'Brak słów z Twojej listy.',
+
+  'quiz.intro': 'Poćwicz słowa z tej piosenki. Słowa z błędami są oznaczane jako w nauce.',
+  'quiz.cloze': 'Uzupełnij lukę',
+  'quiz.clozeHelp': 'Wpisz brakujące słowo w wierszu piosenki.',
+  'quiz.choice': 'Wielokrotny wybór',
+  'quiz.choiceHelp': 'Wybierz poprawne tłumaczenie.',
+  'quiz.recall': 'Odwrotne przypominanie',
+  'quiz.recallHelp': 'Zobacz tłumaczenie i wpisz słowo.',
+  'quiz.needsTranslations': 'Wymaga przetłumaczonych słów',
+  'quiz.available':
+    'one:Dostępne {count} pytanie|few:Dostępne {count} pytania|many:Dostępnych {count} pytań|other:Dostępne {count} pytania',
+  'quiz.markedLearning': 'Oznaczono jako w nauce: {words}',
+  'quiz.cleared': 'Już nie w nauce: {words}',
+  'quiz.again': 'Spróbuj ponownie',
+  'quiz.another': 'Wybierz inny quiz',
+  'quiz.score': 'Wynik: {score}',
+  'quiz.hint': 'Podpowiedź: {hint}',
+  'quiz.typeWord': 'Wpisz słowo',
+  'quiz.next': 'Dalej',
+  'quiz.results': 'Zobacz wyniki',
+  'quiz.check': 'Sprawdź',
+  'quiz.correct': 'Dobrze!',
+  'quiz.answer': 'Odpowiedź: {answer}',
+
+  'export.button': 'Eksportuj…',
+  'export.format': 'Format',
+  'export.anki': 'Pakiet Anki (.apkg)',
+  'export.csv': 'Arkusz CSV',
+  'export.json': 'JSON (do ponownego importu)',
+  'export.quizlet': 'Quizlet (termin ⇥ tłumaczenie)',
+  'export.lesson': 'Lekcja do udostępnienia (plik lub link)',
+  'export.untranslated': 'Bez tłumaczenia: {count}',
+  'export.noTranslation': '(brak tłumaczenia)',
+  'export.exclude': 'Pomiń je',
+  'export.mark': 'Dołącz, oznaczone jako nieprzetłumaczone',
+  'export.columns': 'Kolumny',
+  'export.separator': 'Separator',
+  'export.comma': 'Przecinek',
+  'export.semicolon': 'Średnik',
+  'export.tab': 'Tabulator',
+  'export.jsonHelp':
+    'Zawiera tekst, wszystkie elementy i notatki gramatyczne bez zmian, aby można je było ponownie zaimportować do aplikacji.',
+  'export.lessonHelp':
+    'Zawiera tekst, ustawienia, słowa, tłumaczenia wierszy i notatki gramatyczne. Uczniowie mogą ją otworzyć bez klucza API i bez wywołań AI.',
+  'export.copyLink': 'Kopiuj link',
+  'export.linkCopied': 'Skopiowano link. Każdy, kto go otworzy, otrzyma tę lekcję.',
+  'export.linkTooLong': 'Ta lekcja jest za długa na link. Pobierz ją i udostępnij plik.',
+  'export.preparing': 'Przygotowywanie...',
+  'export.download': 'Pobierz',
+  'export.failed': 'Eksport nie powiódł się',
+
+  'csv.word': 'Słowo',
+  'csv.translation': 'Tłumaczenie',
+  'csv.example': 'Wiersz piosenki',
+  'csv.cloze': 'Wiersz piosenki (luka)',
+  'csv.explanation': 'Wyjaśnienie',
+  'csv.difficulty': 'Trudność',
+  'csv.score': 'Wynik trudności',
+  'csv.count': 'Wystąpienia',
+  'csv.lines': 'Numery wierszy',
+  'csv.language': 'Język',
+  'csv.song': 'Piosenka',
+  'csv.status': 'Status',
+
+  'speech.title': 'Wymowa',
+  'speech.backend': 'Źródło mowy',
+  'speech.browser': 'Głosy przeglądarki',
+  'speech.server': 'Lokalny serwer TTS',
+  'speech.voice': 'Głos ({language})',
+  'speech.serverDefault': 'Domyślny serwera',
+  'speech.bestMatch': 'Najlepiej dopasowany',
+  'speech.noVoice': 'Brak zainstalowanych głosów dla tego języka',
+  'speech.speed': 'Tempo: {rate}×',
+  'speech.try': 'Wypróbuj ten głos',
+  'speech.pronounce': 'Wymów',
+  'speech.word': 'Wymów „{word}”',
+  'speech.line': 'Wymów ten wiersz',
+  'speech.failed': 'Nie udało się odtworzyć wymowy',
+  'speech.unsupported': 'Ta przeglądarka nie obsługuje syntezy mowy.',
+  'speech.error': 'Synteza mowy nie powiodła się: {error}',
+  'speech.serverError': 'Serwer TTS odpowiedział {status} {statusText}.',
+  'speech.badAudio': 'Serwer TTS zwrócił dźwięk, którego przeglądarka nie może odtworzyć.',
+
+  'review.title': 'Powtórki',
+  'review.stats': 'Do powtórki: {due} · Nauczone: {learned} · W talii: {total}',
+  'review.empty': 'Słowa z analizowanych piosenek trafiają tutaj automatycznie.',
+  'review.nothingDue': 'Na razie nie ma nic do powtórki. Wróć później!',
+  'review.lapses': 'zapomniane {count}×',
+  'review.show': 'Pokaż odpowiedź',
+  'review.noTranslation': 'Brak zapisanego tłumaczenia',
+  'review.again': 'Jeszcze raz',
+  'review.hard': 'Trudne',
+  'review.good': 'Dobrze',
+  'review.easy': 'Łatwe',
+  'review.remove': 'Usuń z talii',
+
+  'library.title': 'Biblioteka piosenek',
+  'library.saved': 'Zapisane: {count}',
+  'library.search': 'Szukaj po tytule, wykonawcy, języku lub tekście...',
+  'library.empty': 'Piosenki są tu zapisywane automatycznie po analizie.',
+  'library.noMatches': 'Żadna piosenka nie pasuje do „{query}”.',
+  'library.words':
+    'one:{count} słowo na poziomie {level}|few:{count} słowa na poziomie {level}|many:{count} słów na poziomie {level}|other:{count} słowa na poziomie {level}',
+  'library.notAnalysed': 'Jeszcze nieprzeanalizowana',
+  'library.levels': 'przeanalizowana na poziomach {levels}',
+  'library.open': 'Otwórz',
+  'library.rerunLevel': 'Poziom ponownej analizy',
+  'library.rerun': 'Analizuj ponownie',
+  'library.confirmDelete': 'Usunąć „{title}” z biblioteki?',
+
+  'vocab.title': 'Moje słownictwo',
+  'vocab.stats': 'Znane: {known} · W nauce: {learning} · Pomijane: {ignored}',
+  'vocab.language': 'Kod języka',
+  'vocab.languagePlaceholder': 'np. nl, es, fr',
+  'vocab.show': 'Pokaż',
+  'vocab.all': 'Wszystkie słowa',
+  'vocab.importList': 'Importuj listę słów',
+  'vocab.importPlaceholder': 'Jedno słowo w wierszu lub oddzielone przecinkami',
+  'vocab.importStatus': 'Stan importowanych słów',
+  'vocab.as': 'jako {status}',
+  'vocab.import': 'Importuj',
+  'vocab.importFile': 'Importuj plik .txt',
+  'vocab.empty':
+    'Nie ma jeszcze słów. Oznaczaj słowa jako znane lub pomijane na liście piosenki albo zaimportuj listę powyżej.',
+  'vocab.statusOf': 'Stan słowa „{word}”',
+  'vocab.noLanguage': 'Najpierw wybierz język listy słów.',
+  'vocab.noWords': 'Na liście nie znaleziono słów.',
+  'vocab.imported':
+    'one:Zaimportowano {count} słowo jako {status}.|few:Zaimportowano {count} słowa jako {status}.|many:Zaimportowano {count} słów jako {status}.|other:Zaimportowano {count} słowa jako {status}.',
+  'vocab.readFailed': 'Nie udało się odczytać pliku',
+
+  'progress.title': 'Twoje postępy',
+  'progress.reviewedToday':
+    'one:Dziś powtórzono {count} fiszkę|few:Dziś powtórzono {count} fiszki|many:Dziś powtórzono {count} fiszek|other:Dziś powtórzono {count} fiszki',
+  'progress.learned': 'Nauczone słowa',
+  'progress.days': 'one:{count} dzień|few:{count} dni|many:{count} dni|other:{count} dnia',
+  'progress.streak': 'Seria powtórek',
+  'progress.longest':
+    'one:rekord {count} dzień|few:rekord {count} dni|many:rekord {count} dni|other:rekord {count} dnia',
+  'progress.songsCompleted': 'Ukończone piosenki',
+  'progress.songsOf': '{done} z {total}',
+  'progress.coverage': 'Piosenka w formularzu analizy',
+  'progress.coverageOf': 'Znasz już około {percent} jej słów ({known} z {total}, {language}).',
+  'progress.coverageHelp':
+    'Liczy słowa nauczone lub oznaczone jako znane albo pomijane oraz częste słowa poniżej twojego poziomu ({level}).',
+  'progress.noLyrics': 'Wklej tekst w zakładce Analiza, aby zobaczyć, ile z piosenki już znasz.',
+  'progress.empty': 'Analizuj piosenki i powtarzaj ich słowa, aby zobaczyć tu swoje postępy.',
+  'progress.language': 'Język',
+  'progress.learnedColumn': 'Nauczone',
+  'progress.learningColumn': 'W nauce',
+  'progress.level': 'Poziom',
+  'progress.suggestions': 'Co dalej studiować',
+  'progress.suggestionsHelp':
+    'Piosenki z biblioteki, których jeszcze nie ukończono, najbardziej znane najpierw.',
+  'progress.songCoverage': 'Znane {percent} tekstu · znane {done} z {total} słów',
+
+  'usage.title': 'Zużycie AI',
+  'usage.spent': '{spent} w tym miesiącu',
+  'usage.spentOfBudget': '{spent} z {budget} w tym miesiącu',
+  'usage.budget': 'Budżet miesięczny (USD)',
+  'usage.noBudget': 'Bez budżetu',
+  'usage.budgetSet': 'Budżet ustawiony na {budget} miesięcznie.',
+  'usage.budgetRemoved': 'Budżet usunięty.',
+  'usage.budgetHelp':
+    'Przed zapytaniem, które przekroczyłoby budżet tego miesiąca, poprosimy o potwierdzenie. Koszty są szacowane według cen katalogowych.',
+  'usage.clearCache': 'Wyczyść zapisane odpowiedzi',
+  'usage.cacheCleared': 'Wyczyszczono zapisane odpowiedzi.',
+  'usage.cacheFailed': 'Nie udało się wyczyścić pamięci podręcznej',
+  'usage.empty': 'Nie było jeszcze wywołań AI. Powtórzone zapytania są obsługiwane bezpłatnie z lokalnej pamięci podręcznej.',
+  'usage.month': 'Miesiąc',
+  'usage.song': 'Piosenka',
+  'usage.otherRequests': 'Inne zapytania',
+  'usage.recent': 'Ostatnie wywołania',
+  'usage.model': 'Model',
+  'usage.calls': 'Wywołania',
+  'usage.tokens': 'Tokeny we / wy',
+  'usage.cost': 'Koszt',
+  'usage.unpriced': 'Wywołania modeli o nieznanej cenie: {count}',
+  'usage.estimated': 'Oszacowane na podstawie długości tekstu',
+  'usage.unknown': 'nieznany',
+}
+
+export default pl
@@ -0,0 +1,460 @@
+import type { Messages } from '../i18n'
+
+const pt: Messages = {
+  'app.title': 'Aprenda com músicas',
+  'app.subtitle':
+    'Cole a letra de uma música em qualquer idioma e receba uma lista de palavras adequadas ao seu nível, traduzidas para o seu idioma.',
+  'app.footer':
+    'Este é um protótipo educativo. A dificuldade é estimada automaticamente e serve apenas como orientação enquanto você aprende com música.',
+
+  'nav.analyze': 'Analisar uma música',
+  'nav.review': 'Revisar',
+  'nav.library': 'Biblioteca',
+  'nav.vocabulary': 'Vocabulário',
+  'nav.progress': 'Progresso',
+  'nav.usage': 'Uso',
+
+  'common.add': 'Adicionar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.delete': 'Excluir',
+  'common.done': 'Concluir',
+  'common.edit': 'Editar',
+  'common.remove': 'Remover',
+  'common.save': 'Salvar',
+  'common.translateAgain': 'Traduzir de novo',
+  'common.translating': 'Traduzindo...',
+  'common.working': 'Processando...',
+
+  'form.title': 'Título',
+  'form.artist': 'Artista',
+  'form.optional': 'Opcional',
+  'form.lyrics': 'Letra da música',
+  'form.newSong': 'Começar uma nova música',
+  'form.example': 'Testar com um exemplo',
+  'form.importSynced': 'Importar .lrc / .srt',
+  'form.lyricsPlaceholder': 'Cole a letra completa aqui...',
+  'form.characters': '{count} / {max} caracteres',
+  'form.maxLength': '(tamanho máximo atingido)',
+  'form.songCount': 'one:{count} música|other:{count} músicas',
+  'form.albumHelp':
+    'Vai colar um álbum inteiro? Coloque uma linha como "--- Título da música ---" antes de cada música para analisá-las juntas e salvá-las separadamente.',
+  'form.offline': 'Analisar offline (sem IA, sem chave de API)',
+  'form.provider': 'Provedor de IA',
+  'form.serverUrl': 'URL do servidor',
+  'form.serverHelp': 'Qualquer servidor que ofereça {path}, por exemplo Ollama ou llama.cpp.',
+  'form.models': 'Modelos por tarefa',
+  'form.level': 'Seu nível (no idioma da música)',
+  'form.nativeLang': 'Sua língua materna',
+  'form.nativeLangHelp':
+    'O aplicativo, as traduções e as explicações usam este idioma. Pesquise pelo nome ou digite um código de idioma como pt-BR.',
+  'form.studyLang': 'Idioma que você estuda (opcional)',
+  'form.studyLangAny': 'Todos os idiomas da música',
+  'form.studyLangHelp': 'Em músicas que misturam idiomas, só as linhas neste idioma são estudadas.',
+
+  'level.A1': 'Iniciante',
+  'level.A2': 'Básico',
+  'level.B1': 'Intermediário',
+  'level.B2': 'Intermediário superior',
+  'level.C1': 'Avançado',
+  'level.C2': 'Proficiente',
+
+  'task.detect': 'Detecção de idioma',
+  'task.analyze': 'Análise da letra',
+  'task.translate': 'Tradução',
+
+  'apiKey.label': 'Chave de API da {provider}',
+  'apiKey.locked': 'A chave salva está bloqueada',
+  'apiKey.passphrase': 'Senha',
+  'apiKey.passphraseOptional': 'Senha (opcional)',
+  'apiKey.unlock': 'Desbloquear',
+  'apiKey.save': 'Salvar chave',
+  'apiKey.test': 'Testar chave',
+  'apiKey.forget': 'Esquecer chave',
+  'apiKey.saved': 'Chave salva neste dispositivo.',
+  'apiKey.savedEncrypted': 'Chave salva, criptografada com sua senha.',
+  'apiKey.unlocked': 'Chave desbloqueada.',
+  'apiKey.removed': 'Chave removida deste dispositivo.',
+  'apiKey.works': 'A chave funciona.',
+  'apiKey.storedEncrypted': 'Salva neste navegador, criptografada com sua senha.',
+  'apiKey.storedPlain': 'Salva neste navegador. Adicione uma senha para criptografá-la.',
+  'apiKey.notStored': 'Não salva: será esquecida ao recarregar, a menos que você a salve.',
+  'apiKey.sentOnlyTo': 'Ela só é enviada para {provider}.',
+  'apiKey.getOne': 'Obtenha uma em',
+
+  'settings.export': 'Exportar configurações',
+  'settings.import': 'Importar configurações',
+  'settings.exported': 'Configurações exportadas. As chaves de API só são incluídas quando estão criptografadas.',
+  'settings.imported': 'Configurações importadas.',
+  'settings.importFailed': 'Não foi possível importar as configurações',
+
+  'languagePicker.search': 'Pesquisar idiomas...',
+  'languagePicker.invalid': '"{query}" não é um nome de idioma nem um código de idioma válido.',
+
+  'submit.analyzing': 'A IA está analisando a letra...',
+  'submit.analyzingFound': 'A IA está analisando a letra... {count} encontradas',
+  'submit.translating': 'Traduzindo palavras... {done}/{total}',
+  'submit.offline': 'Encontrar palavras offline',
+  'submit.llm': 'Encontrar palavras que devo aprender',
+
+  'error.noLyrics': 'Cole a letra da música primeiro.',
+  'error.tooLong': 'A letra é longa demais ({length} caracteres). O máximo é {max} caracteres.',
+  'error.fileTooLong': 'A letra em {file} é longa demais.',
+  'error.noItems': 'Nenhuma palavra encontrada. Tente ajustar seu nível ou confira a letra.',
+  'error.offlineFailed': 'A análise offline falhou',
+  'error.noNativeLang': 'Escolha sua língua materna.',
+  'error.apiKey': 'Digite sua chave de API da {provider}.',
+  'error.noStudyLines': 'Nenhuma linha em {language} foi encontrada nesta letra.',
+  'error.allNative': 'Esta letra está toda em {language}, sua língua materna.',
+  'error.translationFailed': 'A tradução falhou',
+  'error.noTranslation': 'Sem tradução: {reason}',
+  'error.missingFromResponse': 'ausente da resposta',
+  'error.unexpected': 'Ocorreu um erro inesperado',
+  'error.lineNeedsAI': 'Traduzir as linhas exige um provedor de IA. Desative o modo offline primeiro.',
+  'error.lineFailed': 'A tradução das linhas falhou',
+  'error.grammarNeedsAI': 'As notas de gramática exigem um provedor de IA. Desative o modo offline primeiro.',
+  'error.grammarFailed': 'A análise gramatical falhou',
+  'error.offlineLookup': 'A consulta offline precisa de uma música em um idioma com lista de palavras incluída.',
+  'error.importFailed': 'Não foi possível importar o arquivo',
+  'error.lessonLink': 'Não foi possível abrir o link da lição',
+  'error.wrongPassphrase': 'Senha incorreta.',
+  'error.invalidJSON': 'Este arquivo não é um JSON válido.',
+  'error.newerFile': 'Este arquivo foi exportado por uma versão mais recente do aplicativo.',
+  'error.notSettingsFile': 'Este não é um arquivo de configurações do Aprenda com músicas.',
+  'error.notExportFile': 'Este não é um arquivo exportado pelo Aprenda com músicas.',
+  'error.exportIncomplete': 'O arquivo exportado não tem a música ou seus itens.',
+  'error.exportItem': 'O item {n} do arquivo exportado está incompleto.',
+  'error.noLanguage': 'Não foi possível detectar o idioma da letra.',
+  'error.noWordList':
+    'A análise offline ainda não tem lista de palavras para {language}. Use um provedor de IA.',
+  'error.noTimedLines': 'Nenhuma linha com marcação de tempo encontrada em {file}.',
+  'error.lessonInvalid': 'Esta lição não é um JSON válido.',
+  'error.notLesson': 'Esta não é uma lição do Aprenda com músicas.',
+  'error.newerLesson': 'Esta lição foi criada por uma versão mais recente do aplicativo.',
+  'error.lessonIncomplete': 'A lição não tem a música ou seus itens.',
+  'error.lessonSettings': 'A lição não tem o nível ou o idioma.',
+  'error.lessonItem': 'O item {n} da lição está incompleto.',
+  'error.lessonDamaged': 'Este link de lição está incompleto ou danificado.',
+  'error.taskFailed': '{task} falhou: {reason}',
+  'error.noResponse': 'a IA não enviou resposta',
+  'error.invalidResponse': 'a IA não respondeu com um JSON válido',
+  'error.noWordsInResponse': 'A análise da letra falhou: a resposta da IA não tem lista de palavras.',
+  'error.noNotesInResponse': 'A análise gramatical falhou: a resposta da IA não tem notas.',
+  'error.linesUntranslated':
+    'A tradução das linhas não trouxe tradução para {missing} de {total} linhas; tente novamente.',
+  'error.invalidEntry': 'entrada inválida: {reason}',
+  'error.emptyTranslation': 'a tradução está vazia',
+  'error.noStreaming': 'Este servidor não suporta streaming.',
+  'error.streamFailed': 'O servidor informou um erro durante o streaming.',
+
+  'warning.rejected':
+    'one:{count} sugestão ignorada porque a IA continuou devolvendo dados inválidos: {list}|other:{count} sugestões ignoradas porque a IA continuou devolvendo dados inválidos: {list}',
+  'warning.unnamedEntry': 'Uma entrada',
+  'warning.translationCancelled':
+    'Tradução cancelada. As palavras encontradas foram salvas; algumas estão sem tradução.',
+  'warning.analysisCancelled':
+    'Análise cancelada. As palavras encontradas até agora são exibidas, mas não foram salvas.',
+
+  'budget.analysis': 'Esta análise',
+  'budget.translation': 'Esta tradução',
+  'budget.grammar': 'Esta análise gramatical',
+  'budget.confirm':
+    '{action} deve custar cerca de {estimate}. Você já gastou {spent} do seu orçamento mensal de {budget}, então ele seria ultrapassado. Continuar?',
+
+  'results.title': 'Palavras para aprender com esta música',
+  'results.studyLang': 'Idioma que você estuda',
+  'results.allLanguages': 'Todos os idiomas',
+  'results.study': 'Estudar {language}',
+  'results.importJSON': 'Importar JSON',
+  'results.empty': 'Sua lista aparecerá aqui depois que você analisar uma música.',
+
+  'view.list': 'Lista',
+  'view.lyrics': 'Letra',
+  'view.bilingual': 'Lado a lado',
+  'view.grammar': 'Gramática e expressões',
+  'view.karaoke': 'Karaokê',
+  'view.quiz': 'Quiz',
+
+  'band.comfortable': 'confortável',
+  'band.stretch': 'desafio',
+  'band.challenging': 'difícil',
+
+  'status.known': 'conhecida',
+  'status.learning': 'aprendendo',
+  'status.ignored': 'ignorada',
+  'status.markKnown': 'Já sei esta',
+  'status.markIgnored': 'Ignorar',
+  'status.markLearning': 'Marcar como aprendendo',
+
+  'list.sort': 'Ordenar a lista',
+  'list.sortSong': 'Ordem na música',
+  'list.sortHardest': 'Mais difíceis primeiro',
+  'list.sortEasiest': 'Mais fáceis primeiro',
+  'list.sortFrequency': 'Mais frequentes primeiro',
+  'list.group': 'Agrupar a lista',
+  'list.groupNone': 'Sem agrupamento',
+  'list.groupPos': 'Agrupar por classe gramatical',
+  'list.groupGender': 'Agrupar por gênero',
+  'list.translationStatus': 'Status da tradução',
+  'list.anyStatus': 'Qualquer status de tradução',
+  'list.translated': 'Traduzidas',
+  'list.untranslated': 'Não traduzidas',
+  'list.failed': 'Tradução falhou',
+  'list.difficultyLabel': 'Dificuldade',
+  'list.allDifficulties': 'Todas as dificuldades',
+  'list.pos': 'Classe gramatical',
+  'list.allPos': 'Todas as classes gramaticais',
+  'list.gender': 'Gênero',
+  'list.allGenders': 'Todos os gêneros',
+  'list.other': 'Outras',
+  'list.selected': 'Selecionadas: {count}',
+  'list.merge': 'Mesclar',
+  'list.mergeHelp': 'Junta as palavras selecionadas na primeira',
+  'list.clearSelection': 'Limpar seleção',
+  'list.noMatches': 'Nenhuma palavra corresponde a estes filtros.',
+  'list.select': 'Selecionar {word}',
+  'list.difficulty': 'Dificuldade: {band}',
+  'list.appears': 'aparece {count}×',
+  'list.notInSong': 'não está na música',
+  'list.notInSongHelp': 'A IA sugeriu isto, mas não aparece na letra.',
+  'list.article': 'artigo: {article}',
+  'list.line': 'Linha da música:',
+  'list.translation': 'Tradução',
+  'list.translationOptional': 'Tradução (opcional)',
+  'list.explanation': 'Explicação',
+  'list.explanationOptional': 'Explicação (opcional)',
+  'list.addWord': '+ Adicionar uma palavra',
+  'list.word': 'Palavra ou expressão',
+  'list.wordPlaceholder': 'Palavra ou expressão da música',
+
+  'pos.noun': 'substantivo',
+  'pos.verb': 'verbo',
+  'pos.adjective': 'adjetivo',
+  'pos.adverb': 'advérbio',
+  'pos.pronoun': 'pronome',
+  'pos.preposition': 'preposição',
+  'pos.conjunction': 'conjunção',
+  'pos.determiner': 'determinante',
+  'pos.numeral': 'numeral',
+  'pos.interjection': 'interjeição',
+  'pos.phrase': 'expressão',
+  'pos.other': 'outro',
+  'gender.masculine': 'masculino',
+  'gender.feminine': 'feminino',
+  'gender.neuter': 'neutro',
+  'gender.common': 'comum',
+
+  'lookup.loading': 'Consultando...',
+  'lookup.failed': 'A consulta falhou',
+  'lookup.noTranslation': 'Nenhuma tradução disponível',
+  'lookup.noTranslationYet': 'Ainda sem tradução',
+  'lookup.add': 'Adicionar à minha lista',
+  'lookup.offlineEstimate': 'Nível estimado: {level}. As traduções exigem um provedor de IA.',
+  'lyrics.clickHelp': 'Clique em qualquer palavra para consultá-la.',
+
+  'offline.core': 'Palavra básica de nível {level} em {language}.',
+  'offline.estimated': 'Não está na lista básica de {language}; nível estimado: {level}.',
+
+  'bilingual.style': 'Estilo de tradução',
+  'bilingual.literal': 'Literal',
+  'bilingual.natural': 'Natural',
+  'bilingual.translate': 'Traduzir para {language}',
+  'bilingual.translating': 'Traduzindo as linhas...',
+
+  'grammar.help':
+    'Pontos gramaticais e expressões idiomáticas da música, cada um com uma regra curta e mais exemplos.',
+  'grammar.find': 'Buscar gramática e expressões',
+  'grammar.findAgain': 'Buscar de novo',
+  'grammar.finding': 'Buscando gramática e expressões...',
+  'grammar.none': 'Nenhum ponto gramatical ou expressão que valha a pena explicar foi encontrado.',
+  'grammar.grammar': 'Gramática',
+  'grammar.idiom': 'Expressão',
+  'grammar.line': 'Linha {line}:',
+
+  'karaoke.help':
+    'Escolha o arquivo de áudio da música para acompanhar. Ele fica no seu dispositivo e não é salvo.',
+  'karaoke.change': 'Trocar áudio',
+  'karaoke.choose': 'Escolher arquivo de áudio',
+  'karaoke.loop': 'Repetir esta linha',
+  'karaoke.stopLoop': 'Parar de repetir',
+  'karaoke.onLine': 'Nesta linha',
+  'karaoke.noWords': 'Nenhuma palavra da sua lista.',
+
+  'quiz.intro': 'Pratique as palavras desta música. As que você errar são marcadas como aprendendo.',
+  'quiz.cloze': 'Complete a lacuna',
+  'quiz.clozeHelp': 'Digite a palavra que falta em uma linha da música.',
+  'quiz.choice': 'Múltipla escolha',
+  'quiz.choiceHelp': 'Escolha a tradução certa.',
+  'quiz.recall': 'Lembrança inversa',
+  'quiz.recallHelp': 'Veja a tradução e digite a palavra.',
+  'quiz.needsTranslations': 'Precisa de palavras traduzidas',
+  'quiz.available': 'one:{count} pergunta disponível|other:{count} perguntas disponíveis',
+  'quiz.markedLearning': 'Marcadas como aprendendo: {words}',
+  'quiz.cleared': 'Não estão mais marcadas como aprendendo: {words}',
+  'quiz.again': 'Tentar de novo',
+  'quiz.another': 'Escolher outro quiz',
+  'quiz.score': 'Pontuação: {score}',
+  'quiz.hint': 'Dica: {hint}',
+  'quiz.typeWord': 'Digite a palavra',
+  'quiz.next': 'Próxima',
+  'quiz.results': 'Ver resultados',
+  'quiz.check': 'Verificar',
+  'quiz.correct': 'Correto!',
+  'quiz.answer': 'Resposta: {answer}',
+
+  'export.button': 'Exportar…',
+  'export.format': 'Formato',
+  'export.anki': 'Pacote do Anki (.apkg)',
+  'export.csv': 'Planilha CSV',
+  'export.json': 'JSON (pode ser reimportado)',
+  'export.quizlet': 'Quizlet (termo ⇥ tradução)',
+  'export.lesson': 'Lição para compartilhar (arquivo ou link)',
+  'export.untranslated': 'Sem tradução: {count}',
+  'export.noTranslation': '(sem tradução)',
+  'export.exclude': 'Deixá-las de fora',
+  'export.mark': 'Incluí-las, marcadas como não traduzidas',
+  'export.columns': 'Colunas',
+  'export.separator': 'Separador',
+  'export.comma': 'Vírgula',
+  'export.semicolon': 'Ponto e vírgula',
+  'export.tab': 'Tabulação',
+  'export.jsonHelp':
+    'Inclui a letra, todos os itens e as notas de gramática como estão, para poder importá-los de volta no aplicativo.',
+  'export.lessonHelp':
+    'Inclui a letra, as configurações, as palavras, as traduções das linhas e as notas de gramática. Os alunos podem abri-la sem chave de API nem chamadas à IA.',
+  'export.copyLink': 'Copiar link',
+  'export.linkCopied': 'Link copiado. Quem abrir recebe esta lição.',
+  'export.linkTooLong': 'Esta lição é longa demais para um link. Baixe-a e compartilhe o arquivo.',
+  'export.preparing': 'Preparando...',
+  'export.download': 'Baixar',
+  'export.failed': 'A exportação falhou',
+
+  'csv.word': 'Palavra',
+  'csv.translation': 'Tradução',
+  'csv.example': 'Linha da música',
+  'csv.cloze': 'Linha da música (lacunas)',
+  'csv.explanation': 'Explicação',
+  'csv.difficulty': 'Dificuldade',
+  'csv.score': 'Pontuação de dificuldade',
+  'csv.count': 'Ocorrências',
+  'csv.lines': 'Números das linhas',
+  'csv.language': 'Idioma',
+  'csv.song': 'Música',
+  'csv.status': 'Status',
+
+  'speech.title': 'Pronúncia',
+  'speech.backend': 'Voz de',
+  'speech.browser': 'Vozes do navegador',
+  'speech.server': 'Servidor TTS local',
+  'speech.voice': 'Voz para {language}',
+  'speech.serverDefault': 'Padrão do servidor',
+  'speech.bestMatch': 'A mais adequada',
+  'speech.noVoice': 'Nenhuma voz instalada para este idioma',
+  'speech.speed': 'Velocidade: {rate}×',
+  'speech.try': 'Testar esta voz',
+  'speech.pronounce': 'Pronunciar',
+  'speech.word': 'Pronunciar {word}',
+  'speech.line': 'Pronunciar esta linha',
+  'speech.failed': 'Não foi possível reproduzir a pronúncia',
+  'speech.unsupported': 'Este navegador não suporta síntese de voz.',
+  'speech.error': 'A fala falhou: {error}',
+  'speech.serverError': 'O servidor TTS respondeu {status} {statusText}.',
+  'speech.badAudio': 'O servidor TTS devolveu um áudio que o navegador não consegue tocar.',
+
+  'review.title': 'Revisar',
+  'review.stats': 'Para revisar: {due} · Aprendidas: {learned} · No baralho: {total}',
+  'review.empty': 'As palavras das músicas que você analisa são adicionadas aqui automaticamente.',
+  'review.nothingDue': 'Nada para revisar agora. Volte mais tarde!',
+  'review.lapses': 'esquecida {count}×',
+  'review.show': 'Mostrar resposta',
+  'review.noTranslation': 'Nenhuma tradução salva',
+  'review.again': 'De novo',
+  'review.hard': 'Difícil',
+  'review.good': 'Bom',
+  'review.easy': 'Fácil',
+  'review.remove': 'Remover do baralho',
+
+  'library.title': 'Biblioteca de músicas',
+  'library.saved': 'Salvas: {count}',
+  'library.search': 'Pesquisar por título, artista, idioma ou letra...',
+  'library.empty': 'As músicas são salvas aqui automaticamente depois que você as analisa.',
+  'library.noMatches': 'Nenhuma música corresponde a "{query}".',
+  'library.words': 'one:{count} palavra no nível {level}|other:{count} palavras no nível {level}',
+  'library.notAnalysed': 'Ainda não analisada',
+  'library.levels': 'analisada em {levels}',
+  'library.open': 'Abrir',
+  'library.rerunLevel': 'Nível para refazer a análise',
+  'library.rerun': 'Refazer',
+  'library.confirmDelete': 'Excluir "{title}" da sua biblioteca?',
+
+  'vocab.title': 'Meu vocabulário',
+  'vocab.stats': 'Conhecidas: {known} · Aprendendo: {learning} · Ignoradas: {ignored}',
+  'vocab.language': 'Código do idioma',
+  'vocab.languagePlaceholder': 'ex.: nl, es, fr',
+  'vocab.show': 'Mostrar',
+  'vocab.all': 'Todas as palavras',
+  'vocab.importList': 'Importar uma lista de palavras',
+  'vocab.importPlaceholder': 'Uma palavra por linha ou separadas por vírgulas',
+  'vocab.importStatus': 'Status das palavras importadas',
+  'vocab.as': 'como {status}',
+  'vocab.import': 'Importar',
+  'vocab.importFile': 'Importar arquivo .txt',
+  'vocab.empty':
+    'Ainda não há palavras. Marque palavras como conhecidas ou ignoradas na lista de uma música, ou importe uma lista acima.',
+  'vocab.statusOf': 'Status de {word}',
+  'vocab.noLanguage': 'Escolha primeiro o idioma da lista de palavras.',
+  'vocab.noWords': 'Nenhuma palavra encontrada na lista.',
+  'vocab.imported': 'one:{count} palavra importada como {status}.|other:{count} palavras importadas como {status}.',
+  'vocab.readFailed': 'Não foi possível ler o arquivo',
+
+  'progress.title': 'Seu progresso',
+  'progress.reviewedToday': 'one:{count} cartão revisado hoje|other:{count} cartões revisados hoje',
+  'progress.learned': 'Palavras aprendidas',
+  'progress.days': 'one:{count} dia|other:{count} dias',
+  'progress.streak': 'Sequência de revisão',
+  'progress.longest': 'one:recorde {count} dia|other:recorde {count} dias',
+  'progress.songsCompleted': 'Músicas concluídas',
+  'progress.songsOf': '{done} de {total}',
+  'progress.coverage': 'Música do formulário de análise',
+  'progress.coverageOf': 'Você já conhece cerca de {percent} das palavras ({known} de {total}, {language}).',
+  'progress.coverageHelp':
+    'Conta as palavras que você aprendeu ou marcou como conhecidas ou ignoradas, e as palavras comuns abaixo do seu nível ({level}).',
+  'progress.noLyrics': 'Cole uma letra na aba Analisar para ver quanto da música você já conhece.',
+  'progress.empty': 'Analise músicas e revise as palavras delas para ver seu progresso aqui.',
+  'progress.language': 'Idioma',
+  'progress.learnedColumn': 'Aprendidas',
+  'progress.learningColumn': 'Em estudo',
+  'progress.level': 'Nível',
+  'progress.suggestions': 'Músicas para estudar a seguir',
+  'progress.suggestionsHelp':
+    'Músicas da biblioteca que você ainda não concluiu, as mais familiares primeiro.',
+  'progress.songCoverage': '{percent} da letra conhecida · {done} de {total} palavras conhecidas',
+
+  'usage.title': 'Uso da IA',
+  'usage.spent': '{spent} este mês',
+  'usage.spentOfBudget': '{spent} de {budget} este mês',
+  'usage.budget': 'Orçamento mensal (USD)',
+  'usage.noBudget': 'Sem orçamento',
+  'usage.budgetSet': 'Orçamento definido em {budget} por mês.',
+  'usage.budgetRemoved': 'Orçamento removido.',
+  'usage.budgetHelp':
+    'Você terá que confirmar antes de um pedido que ultrapasse o orçamento deste mês. Os custos são estimativas com base nos preços de tabela.',
+  'usage.clearCache': 'Limpar respostas em cache',
+  'usage.cacheCleared': 'Respostas em cache apagadas.',
+  'usage.cacheFailed': 'Não foi possível limpar o cache',
+  'usage.empty': 'Ainda não há chamadas à IA. Pedidos repetidos são respondidos de graça pelo cache local.',
+  'usage.month': 'Mês',
+  'usage.song': 'Música',
+  'usage.otherRequests': 'Outros pedidos',
+  'usage.recent': 'Chamadas recentes',
+  'usage.model': 'Modelo',
+  'usage.calls': 'Chamadas',
+  'usage.tokens': 'Tokens de entrada / saída',
+  'usage.cost': 'Custo',
+  'usage.unpriced':
+    'one:{count} chamada a um modelo com preço desconhecido|other:{count} chamadas a modelos com preço desconhecido',
+  'usage.estimated': 'Estimado pelo tamanho do texto',
+  'usage.unknown': 'desconhecido',
+}
+
+export default pt
@@ -0,0 +1,460 @@
+import type { Messages } from '../i18n'
+
+const ru: Messages = {
+  'app.title': 'Учим языки по песням',
+  'app.subtitle':
+    'Вставьте текст песни на любом языке и получите список слов под ваш уровень с переводом на ваш язык.',
+  'app.footer':
+    'Это учебный прототип. Сложность оценивается автоматически и служит лишь ориентиром, пока вы учитесь по музыке.',
+
+  'nav.analyze': 'Разобрать песню',
+  'nav.review': 'Повторение',
+  'nav.library': 'Библиотека',
+  'nav.vocabulary': 'Словарь',
+  'nav.progress': 'Прогресс',
+  'nav.usage': 'Расходы',
+
+  'common.add': 'Добавить',
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.delete': 'Удалить',
+  'common.done': 'Готово',
+  'common.edit': 'Изменить',
+  'common.remove': 'Убрать',
+  'common.save': 'Сохранить',
+  'common.translateAgain': 'Перевести заново',
+  'common.translating': 'Перевод...',
+  'common.working': 'Подождите...',
+
+  'form.title': 'Название',
+  'form.artist': 'Исполнитель',
+  'form.optional': 'Необязательно',
+  'form.lyrics': 'Текст песни',
+  'form.newSong': 'Начать новую песню',
+  'form.example': 'Попробовать на примере',
+  'form.importSynced': 'Импорт .lrc / .srt',
+  'form.lyricsPlaceholder': 'Вставьте сюда полный текст...',
+  'form.characters': 'Символов: {count} / {max}',
+  'form.maxLength': '(достигнута максимальная длина)',
+  'form.songCount': 'one:{count} песня|few:{count} песни|many:{count} песен|other:{count} песни',
+  'form.albumHelp':
+    'Вставляете целый альбом? Поставьте перед каждой песней строку вида «--- Название песни ---», чтобы разобрать их вместе и сохранить по отдельности.',
+  'form.offline': 'Разбор офлайн (без ИИ и API-ключа)',
+  'form.provider': 'Поставщик ИИ',
+  'form.serverUrl': 'URL сервера',
+  'form.serverHelp': 'Любой сервер с {path}, например Ollama или llama.cpp.',
+  'form.models': 'Модели для задач',
+  'form.level': 'Ваш уровень (в языке песни)',
+  'form.nativeLang': 'Ваш родной язык',
+  'form.nativeLangHelp':
+    'Приложение, переводы и пояснения будут на этом языке. Ищите по названию или введите код языка, например pt-BR.',
+  'form.studyLang': 'Изучаемый язык (необязательно)',
+  'form.studyLangAny': 'Все языки песни',
+  'form.studyLangHelp': 'В песнях на нескольких языках изучаются только строки на этом языке.',
+
+  'level.A1': 'Начальный',
+  'level.A2': 'Элементарный',
+  'level.B1': 'Средний',
+  'level.B2': 'Выше среднего',
+  'level.C1': 'Продвинутый',
+  'level.C2': 'Свободное владение',
+
+  'task.detect': 'Определение языка',
+  'task.analyze': 'Разбор текста',
+  'task.translate': 'Перевод',
+
+  'apiKey.label': 'API-ключ {provider}',
+  'apiKey.locked': 'Сохранённый ключ заблокирован',
+  'apiKey.passphrase': 'Пароль',
+  'apiKey.passphraseOptional': 'Пароль (необязательно)',
+  'apiKey.unlock': 'Разблокировать',
+  'apiKey.save': 'Сохранить ключ',
+  'apiKey.test': 'Проверить ключ',
+  'apiKey.forget': 'Забыть ключ',
+  'apiKey.saved': 'Ключ сохранён на этом устройстве.',
+  'apiKey.savedEncrypted': 'Ключ сохранён и зашифрован вашим паролем.',
+  'apiKey.unlocked': 'Ключ разблокирован.',
+  'apiKey.removed': 'Ключ удалён с этого устройства.',
+  'apiKey.works': 'Ключ работает.',
+  'apiKey.storedEncrypted': 'Сохранён в этом браузере и зашифрован вашим паролем.',
+  'apiKey.storedPlain': 'Сохранён в этом браузере. Добавьте пароль, чтобы зашифровать его.',
+  'apiKey.notStored': 'Не сохранён: после перезагрузки он пропадёт, если его не сохранить.',
+  'apiKey.sentOnlyTo': 'Он отправляется только в {provider}.',
+  'apiKey.getOne': 'Получить ключ можно на',
+
+  'settings.export': 'Экспорт настроек',
+  'settings.import': 'Импорт настроек',
+  'settings.exported': 'Настройки экспортированы. API-ключи включаются, только если они зашифрованы.',
+  'settings.imported': 'Настройки импортированы.',
+  'settings.importFailed': 'Не удалось импортировать настройки',
+
+  'languagePicker.search': 'Поиск языка...',
+  'languagePicker.invalid': '«{query}» — не название языка и не допустимый код языка.',
+
+  'submit.analyzing': 'ИИ разбирает текст...',
+  'submit.analyzingFound': 'ИИ разбирает текст... найдено: {count}',
+  'submit.translating': 'Перевод слов... {done}/{total}',
+  'submit.offline': 'Найти слова офлайн',
+  'submit.llm': 'Найти слова для изучения',
+
+  'error.noLyrics': 'Сначала вставьте текст песни.',
+  'error.tooLong': 'Текст слишком длинный (символов: {length}). Максимум — {max}.',
+  'error.fileTooLong': 'Текст в файле {file} слишком длинный.',
+  'error.noItems': 'Слова для изучения не найдены. Попробуйте изменить уровень или проверьте текст.',
+  'error.offlineFailed': 'Офлайн-разбор не удался',
+  'error.noNativeLang': 'Выберите родной язык.',
+  'error.apiKey': 'Введите API-ключ {provider}.',
+  'error.noStudyLines': 'В этом тексте нет строк на языке «{language}».',
+  'error.allNative': 'Весь этот текст на вашем родном языке ({language}).',
+  'error.translationFailed': 'Перевод не удался',
+  'error.noTranslation': 'Нет перевода: {reason}',
+  'error.missingFromResponse': 'отсутствует в ответе',
+  'error.unexpected': 'Произошла непредвиденная ошибка',
+  'error.lineNeedsAI': 'Для перевода строк нужен поставщик ИИ. Сначала выключите офлайн-режим.',
+  'error.lineFailed': 'Перевод строк не удался',
+  'error.grammarNeedsAI': 'Для грамматических заметок нужен поставщик ИИ. Сначала выключите офлайн-режим.',
+  'error.grammarFailed': 'Грамматический разбор не удался',
+  'error.offlineLookup': 'Для поиска офлайн нужна песня на языке со встроенным списком слов.',
+  'error.importFailed': 'Не удалось импортировать файл',
+  'error.lessonLink': 'Не удалось открыть ссылку на урок',
+  'error.wrongPassphrase': 'Неверный пароль.',
+  'error.invalidJSON': 'Этот файл не является корректным JSON.',
+  'error.newerFile': 'Этот файл экспортирован более новой версией приложения.',
+  'error.notSettingsFile': 'Это не файл настроек «Учим языки по песням».',
+  'error.notExportFile': 'Это не файл экспорта «Учим языки по песням».',
+  'error.exportIncomplete': 'В файле экспорта нет песни или её элементов.',
+  'error.exportItem': 'Элемент {n} в файле экспорта неполный.',
+  'error.noLanguage': 'Не удалось определить язык текста песни.',
+  'error.noWordList':
+    'Для офлайн-анализа пока нет списка слов для языка «{language}». Используйте поставщика ИИ.',
+  'error.noTimedLines': 'В файле {file} не найдено строк с временными метками.',
+  'error.lessonInvalid': 'Этот урок не является корректным JSON.',
+  'error.notLesson': 'Это не урок «Учим языки по песням».',
+  'error.newerLesson': 'Этот урок создан более новой версией приложения.',
+  'error.lessonIncomplete': 'В уроке нет песни или её элементов.',
+  'error.lessonSettings': 'В уроке не указан уровень или язык.',
+  'error.lessonItem': 'Элемент {n} в уроке неполный.',
+  'error.lessonDamaged': 'Ссылка на урок неполная или повреждена.',
+  'error.taskFailed': '{task}: ошибка: {reason}',
+  'error.noResponse': 'ИИ не прислал ответ',
+  'error.invalidResponse': 'ИИ ответил не корректным JSON',
+  'error.noWordsInResponse': 'Анализ текста не удался: в ответе ИИ нет списка слов.',
+  'error.noNotesInResponse': 'Грамматический анализ не удался: в ответе ИИ нет заметок.',
+  'error.linesUntranslated':
+    'Перевод строк не вернул перевод для {missing} из {total} строк; попробуйте ещё раз.',
+  'error.invalidEntry': 'некорректная запись: {reason}',
+  'error.emptyTranslation': 'перевод пустой',
+  'error.noStreaming': 'Этот сервер не поддерживает потоковую передачу.',
+  'error.streamFailed': 'Сервер сообщил об ошибке во время потоковой передачи.',
+
+  'warning.rejected':
+    'one:Пропущено {count} предложение, для которого ИИ возвращал неверные данные: {list}|few:Пропущено {count} предложения, для которых ИИ возвращал неверные данные: {list}|many:Пропущено {count} предложений, для которых ИИ возвращал неверные данные: {list}|other:Пропущено {count} предложения, для которых ИИ возвращал неверные данные: {list}',
+  'warning.unnamedEntry': 'Запись',
+  'warning.translationCancelled': 'Перевод отменён. Найденные слова сохранены; у некоторых нет перевода.',
+  'warning.analysisCancelled': 'Разбор отменён. Найденные слова показаны, но не сохранены.',
+
+  'budget.analysis': 'Этот разбор',
+  'budget.translation': 'Этот перевод',
+  'budget.grammar': 'Этот грамматический разбор',
+  'budget.confirm':
+    '{action}: ориентировочная стоимость {estimate}. Вы уже потратили {spent} из месячного бюджета {budget}, и он будет превышен. Продолжить?',
+
+  'results.title': 'Слова для изучения из этой песни',
+  'results.studyLang': 'Изучаемый язык',
+  'results.allLanguages': 'Все языки',
+  'results.study': 'Изучать: {language}',
+  'results.importJSON': 'Импорт JSON',
+  'results.empty': 'Список появится здесь после разбора песни.',
+
+  'view.list': 'Список',
+  'view.lyrics': 'Текст',
+  'view.bilingual': 'Параллельно',
+  'view.grammar': 'Грамматика и идиомы',
+  'view.karaoke': 'Караоке',
+  'view.quiz': 'Тест',
+
+  'band.comfortable': 'легко',
+  'band.stretch': 'с усилием',
+  'band.challenging': 'сложно',
+
+  'status.known': 'знаю',
+  'status.learning': 'изучаю',
+  'status.ignored': 'пропускаю',
+  'status.markKnown': 'Я это знаю',
+  'status.markIgnored': 'Пропустить',
+  'status.markLearning': 'Отметить как изучаемое',
+
+  'list.sort': 'Сортировка списка',
+  'list.sortSong': 'По порядку в песне',
+  'list.sortHardest': 'Сначала сложные',
+  'list.sortEasiest': 'Сначала лёгкие',
+  'list.sortFrequency': 'Сначала частые',
+  'list.group': 'Группировка списка',
+  'list.groupNone': 'Без группировки',
+  'list.groupPos': 'По частям речи',
+  'list.groupGender': 'По роду',
+  'list.translationStatus': 'Состояние перевода',
+  'list.anyStatus': 'Любое состояние перевода',
+  'list.translated': 'Переведённые',
+  'list.untranslated': 'Без перевода',
+  'list.failed': 'Ошибка перевода',
+  'list.difficultyLabel': 'Сложность',
+  'list.allDifficulties': 'Любая сложность',
+  'list.pos': 'Часть речи',
+  'list.allPos': 'Все части речи',
+  'list.gender': 'Род',
+  'list.allGenders': 'Любой род',
+  'list.other': 'Прочее',
+  'list.selected': 'Выбрано: {count}',
+  'list.merge': 'Объединить',
+  'list.mergeHelp': 'Объединить выбранные слова с первым из них',
+  'list.clearSelection': 'Снять выделение',
+  'list.noMatches': 'Нет слов, подходящих под эти фильтры.',
+  'list.select': 'Выбрать «{word}»',
+  'list.difficulty': 'Сложность: {band}',
+  'list.appears': 'встречается {count}×',
+  'list.notInSong': 'нет в песне',
+  'list.notInSongHelp': 'ИИ предложил это слово, но в тексте его нет.',
+  'list.article': 'артикль: {article}',
+  'list.line': 'Строка из песни:',
+  'list.translation': 'Перевод',
+  'list.translationOptional': 'Перевод (необязательно)',
+  'list.explanation': 'Пояснение',
+  'list.explanationOptional': 'Пояснение (необязательно)',
+  'list.addWord': '+ Добавить слово',
+  'list.word': 'Слово или выражение',
+  'list.wordPlaceholder': 'Слово или выражение из песни',
+
+  'pos.noun': 'существительное',
+  'pos.verb': 'глагол',
+  'pos.adjective': 'прилагательное',
+  'pos.adverb': 'наречие',
+  'pos.pronoun': 'местоимение',
+  'pos.preposition': 'предлог',
+  'pos.conjunction': 'союз',
+  'pos.determiner': 'определитель',
+  'pos.numeral': 'числительное',
+  'pos.interjection': 'междометие',
+  'pos.phrase': 'выражение',
+  'pos.other': 'другое',
+  'gender.masculine': 'мужской',
+  'gender.feminine': 'женский',
+  'gender.neuter': 'средний',
+  'gender.common': 'общий',
+
+  'lookup.loading': 'Поиск...',
+  'lookup.failed': 'Не удалось найти',
+  'lookup.noTranslation': 'Перевод недоступен',
+  'lookup.noTranslationYet': 'Перевода пока нет',
+  'lookup.add': 'Добавить в мой список',
+  'lookup.offlineEstimate': 'Оценка уровня: {level}. Для перевода нужен поставщик ИИ.',
+  'lyrics.clickHelp': 'Нажмите на любое слово, чтобы узнать его значение.',
+
+  'offline.core': 'Базовое слово уровня {level} ({language}).',
+  'offline.estimated': 'Нет в базовом списке слов ({language}); оценка уровня: {level}.',
+
+  'bilingual.style': 'Стиль перевода',
+  'bilingual.literal': 'Дословно',
+  'bilingual.natural': 'Естественно',
+  'bilingual.translate': 'Перевести ({language})',
+  'bilingual.translating': 'Перевод строк...',
+
+  'grammar.help': 'Грамматические темы и идиомы песни, у каждой — краткое правило и дополнительные примеры.',
+  'grammar.find': 'Найти грамматику и идиомы',
+  'grammar.findAgain': 'Найти заново',
+  'grammar.finding': 'Ищем грамматику и идиомы...',
+  'grammar.none': 'Грамматических тем или идиом, которые стоило бы объяснить, не найдено.',
+  'grammar.grammar': 'Грамматика',
+  'grammar.idiom': 'Идиома',
+  'grammar.line': 'Строка {line}:',
+
+  'karaoke.help':
+    'Выберите аудиофайл песни, чтобы подпевать. Он остаётся на вашем устройстве и не сохраняется.',
+  'karaoke.change': 'Сменить аудио',
+  'karaoke.choose': 'Выбрать аудиофайл',
+  'karaoke.loop': 'Повторять эту строку',
+  'karaoke.stopLoop': 'Остановить повтор',
+  'karaoke.onLine': 'В этой строке',
+  'karaoke.noWords': 'Нет слов из вашего списка.',
+
+  'quiz.intro': 'Потренируйте слова этой песни. Слова с ошибками отмечаются как изучаемые.',
+  'quiz.cloze': 'Заполните пропуск',
+  'quiz.clozeHelp': 'Впишите пропущенное слово в строке песни.',
+  'quiz.choice': 'Выбор ответа',
+  'quiz.choiceHelp': 'Выберите правильный перевод.',
+  'quiz.recall': 'Обратное припоминание',
+  'quiz.recallHelp': 'Посмотрите на перевод и впишите слово.',
+  'quiz.needsTranslations': 'Нужны слова с переводом',
+  'quiz.available':
+    'one:Доступен {count} вопрос|few:Доступно {count} вопроса|many:Доступно {count} вопросов|other:Доступно {count} вопроса',
+  'quiz.markedLearning': 'Отмечены как изучаемые: {words}',
+  'quiz.cleared': 'Больше не отмечены как изучаемые: {words}',
+  'quiz.again': 'Ещё раз',
+  'quiz.another': 'Выбрать другой тест',
+  'quiz.score': 'Счёт: {score}',
+  'quiz.hint': 'Подсказка: {hint}',
+  'quiz.typeWord': 'Введите слово',
+  'quiz.next': 'Дальше',
+  'quiz.results': 'Результаты',
+  'quiz.check': 'Проверить',
+  'quiz.correct': 'Верно!',
+  'quiz.answer': 'Ответ: {answer}',
+
+  'export.button': 'Экспорт…',
+  'export.format': 'Формат',
+  'export.anki': 'Пакет Anki (.apkg)',
+  'export.csv': 'Таблица CSV',
+  'export.json': 'JSON (можно импортировать обратно)',
+  'export.quizlet': 'Quizlet (термин ⇥ перевод)',
+  'export.lesson': 'Урок для передачи (файл или ссылка)',
+  'export.untranslated': 'Без перевода: {count}',
+  'export.noTranslation': '(нет перевода)',
+  'export.exclude': 'Не включать',
+  'export.mark': 'Включить с пометкой «без перевода»',
+  'export.columns': 'Столбцы',
+  'export.separator': 'Разделитель',
+  'export.comma': 'Запятая',
+  'export.semicolon': 'Точка с запятой',
+  'export.tab': 'Табуляция',
+  'export.jsonHelp':
+    'Содержит текст, все элементы и грамматические заметки без изменений, чтобы их можно было импортировать обратно в приложение.',
+  'export.lessonHelp':
+    'Содержит текст, настройки, слова, переводы строк и грамматические заметки. Ученики могут открыть его без API-ключа и без обращений к ИИ.',
+  'export.copyLink': 'Копировать ссылку',
+  'export.linkCopied': 'Ссылка скопирована. Любой, кто её откроет, получит этот урок.',
+  'export.linkTooLong': 'Урок слишком длинный для ссылки. Скачайте его и поделитесь файлом.',
+  'export.preparing': 'Подготовка...',
+  'export.download': 'Скачать',
+  'export.failed': 'Экспорт не удался',
+
+  'csv.word': 'Слово',
+  'csv.translation': 'Перевод',
+  'csv.example': 'Строка песни',
+  'csv.cloze': 'Строка песни (с пропуском)',
+  'csv.explanation': 'Объяснение',
+  'csv.difficulty': 'Сложность',
+  'csv.score': 'Оценка сложности',
+  'csv.count': 'Вхождения',
+  'csv.lines': 'Номера строк',
+  'csv.language': 'Язык',
+  'csv.song': 'Песня',
+  'csv.status': 'Статус',
+
+  'speech.title': 'Произношение',
+  'speech.backend': 'Источник речи',
+  'speech.browser': 'Голоса браузера',
+  'speech.server': 'Локальный TTS-сервер',
+  'speech.voice': 'Голос ({language})',
+  'speech.serverDefault': 'По умолчанию сервера',
+  'speech.bestMatch': 'Наиболее подходящий',
+  'speech.noVoice': 'Для этого языка нет установленных голосов',
+  'speech.speed': 'Скорость: {rate}×',
+  'speech.try': 'Прослушать голос',
+  'speech.pronounce': 'Произнести',
+  'speech.word': 'Произнести «{word}»',
+  'speech.line': 'Произнести строку',
+  'speech.failed': 'Не удалось воспроизвести произношение',
+  'speech.unsupported': 'Этот браузер не поддерживает синтез речи.',
+  'speech.error': 'Ошибка синтеза речи: {error}',
+  'speech.serverError': 'TTS-сервер ответил {status} {statusText}.',
+  'speech.badAudio': 'TTS-сервер вернул аудио, которое браузер не может воспроизвести.',
+
+  'review.title': 'Повторение',
+  'review.stats': 'К повторению: {due} · Выучено: {learned} · В колоде: {total}',
+  'review.empty': 'Слова из разобранных песен добавляются сюда автоматически.',
+  'review.nothingDue': 'Сейчас повторять нечего. Загляните позже!',
+  'review.lapses': 'забыто {count}×',
+  'review.show': 'Показать ответ',
+  'review.noTranslation': 'Перевод не сохранён',
+  'review.again': 'Снова',
+  'review.hard': 'Трудно',
+  'review.good': 'Хорошо',
+  'review.easy': 'Легко',
+  'review.remove': 'Убрать из колоды',
+
+  'library.title': 'Библиотека песен',
+  'library.saved': 'Сохранено: {count}',
+  'library.search': 'Поиск по названию, исполнителю, языку или тексту...',
+  'library.empty': 'Песни сохраняются здесь автоматически после разбора.',
+  'library.noMatches': 'Нет песен по запросу «{query}».',
+  'library.words':
+    'one:{count} слово уровня {level}|few:{count} слова уровня {level}|many:{count} слов уровня {level}|other:{count} слова уровня {level}',
+  'library.notAnalysed': 'Ещё не разобрана',
+  'library.levels': 'разобрана для уровней {levels}',
+  'library.open': 'Открыть',
+  'library.rerunLevel': 'Уровень для повторного разбора',
+  'library.rerun': 'Разобрать заново',
+  'library.confirmDelete': 'Удалить «{title}» из библиотеки?',
+
+  'vocab.title': 'Мой словарь',
+  'vocab.stats': 'Знаю: {known} · Изучаю: {learning} · Пропускаю: {ignored}',
+  'vocab.language': 'Код языка',
+  'vocab.languagePlaceholder': 'например, nl, es, fr',
+  'vocab.show': 'Показать',
+  'vocab.all': 'Все слова',
+  'vocab.importList': 'Импорт списка слов',
+  'vocab.importPlaceholder': 'По одному слову в строке или через запятую',
+  'vocab.importStatus': 'Статус импортируемых слов',
+  'vocab.as': 'как «{status}»',
+  'vocab.import': 'Импортировать',
+  'vocab.importFile': 'Импорт файла .txt',
+  'vocab.empty':
+    'Слов пока нет. Отмечайте слова как знакомые или пропускаемые в списке песни или импортируйте список выше.',
+  'vocab.statusOf': 'Статус слова «{word}»',
+  'vocab.noLanguage': 'Сначала выберите язык списка слов.',
+  'vocab.noWords': 'В списке не найдено слов.',
+  'vocab.imported':
+    'one:Импортировано {count} слово со статусом «{status}».|few:Импортировано {count} слова со статусом «{status}».|many:Импортировано {count} слов со статусом «{status}».|other:Импортировано {count} слова со статусом «{status}».',
+  'vocab.readFailed': 'Не удалось прочитать файл',
+
+  'progress.title': 'Ваш прогресс',
+  'progress.reviewedToday':
+    'one:Сегодня повторена {count} карточка|few:Сегодня повторены {count} карточки|many:Сегодня повторено {count} карточек|other:Сегодня повторено {count} карточки',
+  'progress.learned': 'Выучено слов',
+  'progress.days': 'one:{count} день|few:{count} дня|many:{count} дней|other:{count} дня',
+  'progress.streak': 'Серия повторений',
+  'progress.longest':
+    'one:рекорд {count} день|few:рекорд {count} дня|many:рекорд {count} дней|other:рекорд {count} дня',
+  'progress.songsCompleted': 'Пройдено песен',
+  'progress.songsOf': '{done} из {total}',
+  'progress.coverage': 'Песня в форме разбора',
+  'progress.coverageOf': 'Вы уже знаете примерно {percent} её слов ({known} из {total}, {language}).',
+  'progress.coverageHelp':
+    'Учитываются выученные слова, слова с пометкой «знаю» или «игнорировать» и частые слова ниже вашего уровня ({level}).',
+  'progress.noLyrics': 'Вставьте текст на вкладке «Разбор», чтобы увидеть, какую часть песни вы уже знаете.',
+  'progress.empty': 'Разбирайте песни и повторяйте их слова, чтобы видеть здесь свой прогресс.',
+  'progress.language': 'Язык',
+  'progress.learnedColumn': 'Выучено',
+  'progress.learningColumn': 'Изучается',
+  'progress.level': 'Уровень',
+  'progress.suggestions': 'Что изучить дальше',
+  'progress.suggestionsHelp': 'Песни из библиотеки, которые вы ещё не прошли, сначала самые знакомые.',
+  'progress.songCoverage': 'Знакомо {percent} текста · известно {done} из {total} слов',
+
+  'usage.title': 'Расходы на ИИ',
+  'usage.spent': '{spent} в этом месяце',
+  'usage.spentOfBudget': '{spent} из {budget} в этом месяце',
+  'usage.budget': 'Месячный бюджет (USD)',
+  'usage.noBudget': 'Без бюджета',
+  'usage.budgetSet': 'Бюджет: {budget} в месяц.',
+  'usage.budgetRemoved': 'Бюджет удалён.',
+  'usage.budgetHelp':
+    'Перед запросом, который превысит бюджет этого месяца, вас попросят подтвердить его. Стоимость оценивается по прайс-листу.',
+  'usage.clearCache': 'Очистить кэш ответов',
+  'usage.cacheCleared': 'Кэш ответов очищен.',
+  'usage.cacheFailed': 'Не удалось очистить кэш',
+  'usage.empty': 'Обращений к ИИ пока не было. Повторные запросы бесплатно обслуживаются из локального кэша.',
+  'usage.month': 'Месяц',
+  'usage.song': 'Песня',
+  'usage.otherRequests': 'Другие запросы',
+  'usage.recent': 'Последние обращения',
+  'usage.model': 'Модель',
+  'usage.calls': 'Обращения',
+  'usage.tokens': 'Токены вход / выход',
+  'usage.cost': 'Стоимость',
+  'usage.unpriced': 'Обращений к моделям с неизвестной ценой: {count}',
+  'usage.estimated': 'Оценка по длине текста',
+  'usage.unknown': 'неизвестно',
+}
+
+export default ru
@@ -0,0 +1,458 @@
+import type { Messages } from '../i18n'
+
+const tr: Messages = {
+  'app.title': 'Şarkılarla Öğren',
+  'app.subtitle':
+    'Herhangi bir dilde şarkı sözlerini yapıştırın, seviyenize uygun ve kendi dilinize çevrilmiş bir kelime listesi alın.',
+  'app.footer':
+    'Bu bir öğrenme prototipidir. Zorluk otomatik olarak tahmin edilir; müzikle öğrenirken yalnızca yol gösterici olarak kullanın.',
+
+  'nav.analyze': 'Şarkı analiz et',
+  'nav.review': 'Tekrar',
+  'nav.library': 'Kitaplık',
+  'nav.vocabulary': 'Kelime hazinesi',
+  'nav.progress': 'İlerleme',
+  'nav.usage': 'Kullanım',
+
+  'common.add': 'Ekle',
+  'common.cancel': 'İptal',
+  'common.close': 'Kapat',
+  'common.delete': 'Sil',
+  'common.done': 'Bitti',
+  'common.edit': 'Düzenle',
+  'common.remove': 'Kaldır',
+  'common.save': 'Kaydet',
+  'common.translateAgain': 'Yeniden çevir',
+  'common.translating': 'Çevriliyor...',
+  'common.working': 'İşleniyor...',
+
+  'form.title': 'Başlık',
+  'form.artist': 'Sanatçı',
+  'form.optional': 'İsteğe bağlı',
+  'form.lyrics': 'Şarkı sözleri',
+  'form.newSong': 'Yeni şarkıya başla',
+  'form.example': 'Bir örnekle dene',
+  'form.importSynced': '.lrc / .srt içe aktar',
+  'form.lyricsPlaceholder': 'Sözlerin tamamını buraya yapıştırın...',
+  'form.characters': '{count} / {max} karakter',
+  'form.maxLength': '(en fazla uzunluğa ulaşıldı)',
+  'form.songCount': 'one:{count} şarkı|other:{count} şarkı',
+  'form.albumHelp':
+    'Bütün bir albüm mü yapıştırıyorsunuz? Birlikte analiz edip ayrı ayrı kaydetmek için her şarkının önüne "--- Şarkı adı ---" gibi bir satır ekleyin.',
+  'form.offline': 'Çevrimdışı analiz et (yapay zekâ ve API anahtarı olmadan)',
+  'form.provider': 'Yapay zekâ sağlayıcısı',
+  'form.serverUrl': 'Sunucu URL’si',
+  'form.serverHelp': '{path} sunan herhangi bir sunucu, ör. Ollama veya llama.cpp.',
+  'form.models': 'Görev modelleri',
+  'form.level': 'Seviyeniz (şarkının dilinde)',
+  'form.nativeLang': 'Ana diliniz',
+  'form.nativeLangHelp':
+    'Uygulama, çeviriler ve açıklamalar bu dili kullanır. Ada göre arayın veya pt-BR gibi bir dil kodu yazın.',
+  'form.studyLang': 'Çalışılacak dil (isteğe bağlı)',
+  'form.studyLangAny': 'Şarkıdaki tüm diller',
+  'form.studyLangHelp': 'Birden çok dilli şarkılarda yalnızca bu dildeki satırları çalışın.',
+
+  'level.A1': 'Başlangıç',
+  'level.A2': 'Temel',
+  'level.B1': 'Orta',
+  'level.B2': 'Orta üstü',
+  'level.C1': 'İleri',
+  'level.C2': 'Uzman',
+
+  'task.detect': 'Dil algılama',
+  'task.analyze': 'Söz analizi',
+  'task.translate': 'Çeviri',
+
+  'apiKey.label': '{provider} API anahtarı',
+  'apiKey.locked': 'Kayıtlı anahtar kilitli',
+  'apiKey.passphrase': 'Parola',
+  'apiKey.passphraseOptional': 'Parola (isteğe bağlı)',
+  'apiKey.unlock': 'Kilidi aç',
+  'apiKey.save': 'Anahtarı kaydet',
+  'apiKey.test': 'Anahtarı test et',
+  'apiKey.forget': 'Anahtarı unut',
+  'apiKey.saved': 'Anahtar bu cihaza kaydedildi.',
+  'apiKey.savedEncrypted': 'Anahtar kaydedildi ve parolanızla şifrelendi.',
+  'apiKey.unlocked': 'Anahtarın kilidi açıldı.',
+  'apiKey.removed': 'Anahtar bu cihazdan kaldırıldı.',
+  'apiKey.works': 'Anahtar çalışıyor.',
+  'apiKey.storedEncrypted': 'Bu tarayıcıda, parolanızla şifrelenmiş olarak saklanıyor.',
+  'apiKey.storedPlain': 'Bu tarayıcıda saklanıyor. Şifrelemek için bir parola ekleyin.',
+  'apiKey.notStored': 'Kaydedilmedi: kaydetmezseniz sayfa yenilendiğinde silinir.',
+  'apiKey.sentOnlyTo': 'Yalnızca {provider} sağlayıcısına gönderilir.',
+  'apiKey.getOne': 'Anahtar almak için:',
+
+  'settings.export': 'Ayarları dışa aktar',
+  'settings.import': 'Ayarları içe aktar',
+  'settings.exported': 'Ayarlar dışa aktarıldı. API anahtarları yalnızca şifreliyse dahil edilir.',
+  'settings.imported': 'Ayarlar içe aktarıldı.',
+  'settings.importFailed': 'Ayarlar içe aktarılamadı',
+
+  'languagePicker.search': 'Dil ara...',
+  'languagePicker.invalid': '"{query}" bir dil adı ya da geçerli bir dil kodu değil.',
+
+  'submit.analyzing': 'Yapay zekâ sözleri analiz ediyor...',
+  'submit.analyzingFound': 'Yapay zekâ sözleri analiz ediyor... {count} bulundu',
+  'submit.translating': 'Kelimeler çevriliyor... {done}/{total}',
+  'submit.offline': 'Kelimeleri çevrimdışı bul',
+  'submit.llm': 'Öğrenilecek kelimeleri bul',
+
+  'error.noLyrics': 'Önce şarkı sözlerini yapıştırın.',
+  'error.tooLong': 'Sözler çok uzun ({length} karakter). En fazla {max} olabilir.',
+  'error.fileTooLong': '{file} dosyasındaki sözler çok uzun.',
+  'error.noItems': 'Öğrenilecek kelime bulunamadı. Seviyeyi değiştirin veya sözleri kontrol edin.',
+  'error.offlineFailed': 'Çevrimdışı analiz başarısız oldu',
+  'error.noNativeLang': 'Ana dilinizi seçin.',
+  'error.apiKey': '{provider} API anahtarınızı girin.',
+  'error.noStudyLines': 'Bu sözlerde şu dilde satır yok: {language}.',
+  'error.allNative': 'Bu sözlerin tamamı ana dilinizde ({language}).',
+  'error.translationFailed': 'Çeviri başarısız oldu',
+  'error.noTranslation': 'Çeviri yok: {reason}',
+  'error.missingFromResponse': 'yanıtta yok',
+  'error.unexpected': 'Beklenmeyen bir hata oluştu',
+  'error.lineNeedsAI': 'Satır çevirisi için bir yapay zekâ sağlayıcısı gerekir. Önce çevrimdışı modu kapatın.',
+  'error.lineFailed': 'Satır çevirisi başarısız oldu',
+  'error.grammarNeedsAI':
+    'Dil bilgisi notları için bir yapay zekâ sağlayıcısı gerekir. Önce çevrimdışı modu kapatın.',
+  'error.grammarFailed': 'Dil bilgisi analizi başarısız oldu',
+  'error.offlineLookup': 'Çevrimdışı arama, yerleşik kelime listesi olan bir dilde şarkı gerektirir.',
+  'error.importFailed': 'Dosya içe aktarılamadı',
+  'error.lessonLink': 'Ders bağlantısı açılamadı',
+  'error.wrongPassphrase': 'Parola yanlış.',
+  'error.invalidJSON': 'Bu dosya geçerli bir JSON değil.',
+  'error.newerFile': 'Bu dosya uygulamanın daha yeni bir sürümüyle dışa aktarılmış.',
+  'error.notSettingsFile': 'Bu bir Şarkılarla Öğren ayar dosyası değil.',
+  'error.notExportFile': 'Bu bir Şarkılarla Öğren dışa aktarma dosyası değil.',
+  'error.exportIncomplete': 'Dışa aktarma dosyasında şarkı ya da öğeleri eksik.',
+  'error.exportItem': 'Dışa aktarma dosyasındaki {n}. öğe eksik.',
+  'error.noLanguage': 'Sözlerin dili algılanamadı.',
+  'error.noWordList':
+    'Çevrimdışı analizin henüz {language} için kelime listesi yok. Bunun yerine bir yapay zekâ sağlayıcısı kullanın.',
+  'error.noTimedLines': '{file} içinde zaman damgalı satır bulunamadı.',
+  'error.lessonInvalid': 'Bu ders geçerli bir JSON değil.',
+  'error.notLesson': 'Bu bir Şarkılarla Öğren dersi değil.',
+  'error.newerLesson': 'Bu ders uygulamanın daha yeni bir sürümüyle hazırlanmış.',
+  'error.lessonIncomplete': 'Derste şarkı ya da öğeleri eksik.',
+  'error.lessonSettings': 'Derste seviye ya da dil eksik.',
+  'error.lessonItem': 'Dersteki {n}. öğe eksik.',
+  'error.lessonDamaged': 'Bu ders bağlantısı eksik ya da bozuk.',
+  'error.taskFailed': '{task} başarısız: {reason}',
+  'error.noResponse': 'yapay zekâ yanıt göndermedi',
+  'error.invalidResponse': 'yapay zekâ geçerli JSON ile yanıt vermedi',
+  'error.noWordsInResponse': 'Şarkı sözü analizi başarısız: yapay zekânın yanıtında kelime listesi yok.',
+  'error.noNotesInResponse': 'Dil bilgisi analizi başarısız: yapay zekânın yanıtında not yok.',
+  'error.linesUntranslated':
+    'Satır çevirisi {total} satırın {missing} tanesi için çeviri döndürmedi; yeniden deneyin.',
+  'error.invalidEntry': 'geçersiz kayıt: {reason}',
+  'error.emptyTranslation': 'çeviri boş',
+  'error.noStreaming': 'Bu sunucu akışı desteklemiyor.',
+  'error.streamFailed': 'Sunucu akış sırasında bir hata bildirdi.',
+
+  'warning.rejected':
+    'one:Yapay zekânın geçersiz veri döndürmeye devam ettiği {count} öneri atlandı: {list}|other:Yapay zekânın geçersiz veri döndürmeye devam ettiği {count} öneri atlandı: {list}',
+  'warning.unnamedEntry': 'Bir kayıt',
+  'warning.translationCancelled': 'Çeviri iptal edildi. Bulunan kelimeler kaydedildi; bazılarının çevirisi yok.',
+  'warning.analysisCancelled': 'Analiz iptal edildi. Şimdiye kadar bulunan kelimeler gösteriliyor ancak kaydedilmedi.',
+
+  'budget.analysis': 'Bu analiz',
+  'budget.translation': 'Bu çeviri',
+  'budget.grammar': 'Bu dil bilgisi analizi',
+  'budget.confirm':
+    '{action} yaklaşık {estimate} tutacak. Aylık {budget} bütçenizin {spent} kadarını zaten harcadınız, bu yüzden bütçe aşılacak. Devam edilsin mi?',
+
+  'results.title': 'Bu şarkıdan öğrenilecek kelimeler',
+  'results.studyLang': 'Çalışılacak dil',
+  'results.allLanguages': 'Tüm diller',
+  'results.study': 'Çalış: {language}',
+  'results.importJSON': 'JSON içe aktar',
+  'results.empty': 'Bir şarkıyı analiz ettiğinizde listeniz burada görünür.',
+
+  'view.list': 'Liste',
+  'view.lyrics': 'Sözler',
+  'view.bilingual': 'Yan yana',
+  'view.grammar': 'Dil bilgisi ve deyimler',
+  'view.karaoke': 'Karaoke',
+  'view.quiz': 'Test',
+
+  'band.comfortable': 'rahat',
+  'band.stretch': 'zorlayıcı',
+  'band.challenging': 'zor',
+
+  'status.known': 'biliniyor',
+  'status.learning': 'öğreniliyor',
+  'status.ignored': 'yok sayıldı',
+  'status.markKnown': 'Bunu biliyorum',
+  'status.markIgnored': 'Yok say',
+  'status.markLearning': 'Öğreniliyor olarak işaretle',
+
+  'list.sort': 'Listeyi sırala',
+  'list.sortSong': 'Şarkıdaki sıra',
+  'list.sortHardest': 'Önce en zor',
+  'list.sortEasiest': 'Önce en kolay',
+  'list.sortFrequency': 'Önce en sık',
+  'list.group': 'Listeyi grupla',
+  'list.groupNone': 'Gruplama yok',
+  'list.groupPos': 'Sözcük türüne göre grupla',
+  'list.groupGender': 'Cinsiyete göre grupla',
+  'list.translationStatus': 'Çeviri durumu',
+  'list.anyStatus': 'Her çeviri durumu',
+  'list.translated': 'Çevrilmiş',
+  'list.untranslated': 'Çevrilmemiş',
+  'list.failed': 'Çeviri başarısız',
+  'list.difficultyLabel': 'Zorluk',
+  'list.allDifficulties': 'Her zorluk',
+  'list.pos': 'Sözcük türü',
+  'list.allPos': 'Tüm sözcük türleri',
+  'list.gender': 'Cinsiyet',
+  'list.allGenders': 'Her cinsiyet',
+  'list.other': 'Diğer',
+  'list.selected': '{count} seçildi',
+  'list.merge': 'Birleştir',
+  'list.mergeHelp': 'Seçilen kelimeleri ilk seçilenle birleştirir',
+  'list.clearSelection': 'Seçimi temizle',
+  'list.noMatches': 'Bu filtrelere uyan kelime yok.',
+  'list.select': '"{word}" seç',
+  'list.difficulty': 'Zorluk: {band}',
+  'list.appears': '{count}× geçiyor',
+  'list.notInSong': 'şarkıda yok',
+  'list.notInSongHelp': 'Yapay zekâ bunu önerdi ama sözlerde geçmiyor.',
+  'list.article': 'tanımlık: {article}',
+  'list.line': 'Şarkıdaki satır:',
+  'list.translation': 'Çeviri',
+  'list.translationOptional': 'Çeviri (isteğe bağlı)',
+  'list.explanation': 'Açıklama',
+  'list.explanationOptional': 'Açıklama (isteğe bağlı)',
+  'list.addWord': '+ Kelime ekle',
+  'list.word': 'Kelime veya ifade',
+  'list.wordPlaceholder': 'Şarkıdan bir kelime veya ifade',
+
+  'pos.noun': 'isim',
+  'pos.verb': 'fiil',
+  'pos.adjective': 'sıfat',
+  'pos.adverb': 'zarf',
+  'pos.pronoun': 'zamir',
+  'pos.preposition': 'edat',
+  'pos.conjunction': 'bağlaç',
+  'pos.determiner': 'belirteç',
+  'pos.numeral': 'sayı',
+  'pos.interjection': 'ünlem',
+  'pos.phrase': 'ifade',
+  'pos.other': 'diğer',
+  'gender.masculine': 'eril',
+  'gender.feminine': 'dişil',
+  'gender.neuter': 'cinsiyetsiz',
+  'gender.common': 'ortak',
+
+  'lookup.loading': 'Aranıyor...',
+  'lookup.failed': 'Arama başarısız oldu',
+  'lookup.noTranslation': 'Çeviri yok',
+  'lookup.noTranslationYet': 'Henüz çeviri yok',
+  'lookup.add': 'Listeme ekle',
+  'lookup.offlineEstimate': 'Tahmini seviye: {level}. Çeviri için bir yapay zekâ sağlayıcısı gerekir.',
+  'lyrics.clickHelp': 'Anlamına bakmak için herhangi bir kelimeye tıklayın.',
+
+  'offline.core': 'Temel kelime ({language}), {level} seviyesi.',
+  'offline.estimated': 'Temel kelime listesinde yok ({language}); tahmini seviye: {level}.',
+
+  'bilingual.style': 'Çeviri üslubu',
+  'bilingual.literal': 'Kelimesi kelimesine',
+  'bilingual.natural': 'Doğal',
+  'bilingual.translate': 'Çevir: {language}',
+  'bilingual.translating': 'Satırlar çevriliyor...',
+
+  'grammar.help': 'Şarkıdaki dil bilgisi konuları ve deyimler; her biri kısa bir kural ve ek örneklerle.',
+  'grammar.find': 'Dil bilgisi ve deyimleri bul',
+  'grammar.findAgain': 'Yeniden ara',
+  'grammar.finding': 'Dil bilgisi ve deyimler aranıyor...',
+  'grammar.none': 'Açıklamaya değer bir dil bilgisi konusu veya deyim bulunamadı.',
+  'grammar.grammar': 'Dil bilgisi',
+  'grammar.idiom': 'Deyim',
+  'grammar.line': 'Satır {line}:',
+
+  'karaoke.help':
+    'Birlikte söylemek için şarkının ses dosyasını seçin. Dosya cihazınızda kalır ve kaydedilmez.',
+  'karaoke.change': 'Sesi değiştir',
+  'karaoke.choose': 'Ses dosyası seç',
+  'karaoke.loop': 'Bu satırı döngüye al',
+  'karaoke.stopLoop': 'Döngüyü durdur',
+  'karaoke.onLine': 'Bu satırda',
+  'karaoke.noWords': 'Listenizden kelime yok.',
+
+  'quiz.intro': 'Bu şarkının kelimelerini çalışın. Yanlış cevaplanan kelimeler öğreniliyor olarak işaretlenir.',
+  'quiz.cloze': 'Boşluğu doldur',
+  'quiz.clozeHelp': 'Şarkı satırındaki eksik kelimeyi yazın.',
+  'quiz.choice': 'Çoktan seçmeli',
+  'quiz.choiceHelp': 'Doğru çeviriyi seçin.',
+  'quiz.recall': 'Ters hatırlama',
+  'quiz.recallHelp': 'Çeviriye bakın ve kelimeyi yazın.',
+  'quiz.needsTranslations': 'Çevrilmiş kelimeler gerekir',
+  'quiz.available': 'one:{count} soru mevcut|other:{count} soru mevcut',
+  'quiz.markedLearning': 'Öğreniliyor olarak işaretlendi: {words}',
+  'quiz.cleared': 'Artık öğreniliyor değil: {words}',
+  'quiz.again': 'Yeniden dene',
+  'quiz.another': 'Başka bir test seç',
+  'quiz.score': 'Puan: {score}',
+  'quiz.hint': 'İpucu: {hint}',
+  'quiz.typeWord': 'Kelimeyi yazın',
+  'quiz.next': 'Sonraki',
+  'quiz.results': 'Sonuçları gör',
+  'quiz.check': 'Kontrol et',
+  'quiz.correct': 'Doğru!',
+  'quiz.answer': 'Cevap: {answer}',
+
+  'export.button': 'Dışa aktar…',
+  'export.format': 'Biçim',
+  'export.anki': 'Anki destesi (.apkg)',
+  'export.csv': 'CSV tablosu',
+  'export.json': 'JSON (yeniden içe aktarılabilir)',
+  'export.quizlet': 'Quizlet (terim ⇥ çeviri)',
+  'export.lesson': 'Paylaşılacak ders (dosya veya bağlantı)',
+  'export.untranslated': '{count} kelimenin çevirisi yok',
+  'export.noTranslation': '(çeviri yok)',
+  'export.exclude': 'Hariç tut',
+  'export.mark': 'Çevrilmemiş olarak işaretleyip dahil et',
+  'export.columns': 'Sütunlar',
+  'export.separator': 'Ayraç',
+  'export.comma': 'Virgül',
+  'export.semicolon': 'Noktalı virgül',
+  'export.tab': 'Sekme',
+  'export.jsonHelp':
+    'Sözleri, tüm öğeleri ve dil bilgisi notlarını değiştirmeden içerir, böylece uygulamaya yeniden içe aktarılabilir.',
+  'export.lessonHelp':
+    'Sözleri, ayarları, kelimeleri, satır çevirilerini ve dil bilgisi notlarını içerir. Öğrenciler API anahtarı ve yapay zekâ çağrısı olmadan açabilir.',
+  'export.copyLink': 'Bağlantıyı kopyala',
+  'export.linkCopied': 'Bağlantı kopyalandı. Açan herkes bu dersi alır.',
+  'export.linkTooLong': 'Bu ders bir bağlantı için çok uzun. İndirip dosyayı paylaşın.',
+  'export.preparing': 'Hazırlanıyor...',
+  'export.download': 'İndir',
+  'export.failed': 'Dışa aktarma başarısız oldu',
+
+  'csv.word': 'Kelime',
+  'csv.translation': 'Çeviri',
+  'csv.example': 'Şarkı satırı',
+  'csv.cloze': 'Şarkı satırı (boşluklu)',
+  'csv.explanation': 'Açıklama',
+  'csv.difficulty': 'Zorluk',
+  'csv.score': 'Zorluk puanı',
+  'csv.count': 'Geçiş sayısı',
+  'csv.lines': 'Satır numaraları',
+  'csv.language': 'Dil',
+  'csv.song': 'Şarkı',
+  'csv.status': 'Durum',
+
+  'speech.title': 'Telaffuz',
+  'speech.backend': 'Ses kaynağı',
+  'speech.browser': 'Tarayıcı sesleri',
+  'speech.server': 'Yerel TTS sunucusu',
+  'speech.voice': 'Ses ({language})',
+  'speech.serverDefault': 'Sunucu varsayılanı',
+  'speech.bestMatch': 'En uygun eşleşme',
+  'speech.noVoice': 'Bu dil için yüklü ses yok',
+  'speech.speed': 'Hız: {rate}×',
+  'speech.try': 'Bu sesi dene',
+  'speech.pronounce': 'Seslendir',
+  'speech.word': '"{word}" seslendir',
+  'speech.line': 'Bu satırı seslendir',
+  'speech.failed': 'Telaffuz çalınamadı',
+  'speech.unsupported': 'Bu tarayıcı konuşma sentezini desteklemiyor.',
+  'speech.error': 'Seslendirme başarısız: {error}',
+  'speech.serverError': 'TTS sunucusu {status} {statusText} yanıtını verdi.',
+  'speech.badAudio': 'TTS sunucusu tarayıcının çalamadığı bir ses döndürdü.',
+
+  'review.title': 'Tekrar',
+  'review.stats': 'Tekrar zamanı gelen: {due} · Öğrenilen: {learned} · Destede: {total}',
+  'review.empty': 'Analiz ettiğiniz şarkılardaki kelimeler otomatik olarak buraya eklenir.',
+  'review.nothingDue': 'Şu an tekrar edilecek bir şey yok. Daha sonra tekrar bakın!',
+  'review.lapses': '{count}× unutuldu',
+  'review.show': 'Cevabı göster',
+  'review.noTranslation': 'Kayıtlı çeviri yok',
+  'review.again': 'Yeniden',
+  'review.hard': 'Zor',
+  'review.good': 'İyi',
+  'review.easy': 'Kolay',
+  'review.remove': 'Desteden kaldır',
+
+  'library.title': 'Şarkı kitaplığı',
+  'library.saved': '{count} kayıtlı',
+  'library.search': 'Başlık, sanatçı, dil veya sözlerde ara...',
+  'library.empty': 'Şarkılar analiz edildikten sonra otomatik olarak buraya kaydedilir.',
+  'library.noMatches': '"{query}" ile eşleşen şarkı yok.',
+  'library.words': 'one:{level} seviyesinde {count} kelime|other:{level} seviyesinde {count} kelime',
+  'library.notAnalysed': 'Henüz analiz edilmedi',
+  'library.levels': '{levels} seviyeleri için analiz edildi',
+  'library.open': 'Aç',
+  'library.rerunLevel': 'Yeniden analiz seviyesi',
+  'library.rerun': 'Yeniden analiz et',
+  'library.confirmDelete': '"{title}" kitaplıktan silinsin mi?',
+
+  'vocab.title': 'Kelime hazinem',
+  'vocab.stats': 'Biliniyor: {known} · Öğreniliyor: {learning} · Yok sayıldı: {ignored}',
+  'vocab.language': 'Dil kodu',
+  'vocab.languagePlaceholder': 'ör. nl, es, fr',
+  'vocab.show': 'Göster',
+  'vocab.all': 'Tüm kelimeler',
+  'vocab.importList': 'Kelime listesi içe aktar',
+  'vocab.importPlaceholder': 'Her satıra bir kelime veya virgülle ayrılmış',
+  'vocab.importStatus': 'İçe aktarılan kelimelerin durumu',
+  'vocab.as': 'durum: {status}',
+  'vocab.import': 'İçe aktar',
+  'vocab.importFile': '.txt dosyası içe aktar',
+  'vocab.empty':
+    'Henüz kelime yok. Şarkının listesinde kelimeleri biliniyor veya yok sayıldı olarak işaretleyin ya da yukarıdan bir liste içe aktarın.',
+  'vocab.statusOf': '"{word}" durumu',
+  'vocab.noLanguage': 'Önce kelime listesinin dilini seçin.',
+  'vocab.noWords': 'Listede kelime bulunamadı.',
+  'vocab.imported': 'one:{count} kelime "{status}" olarak içe aktarıldı.|other:{count} kelime "{status}" olarak içe aktarıldı.',
+  'vocab.readFailed': 'Dosya okunamadı',
+
+  'progress.title': 'İlerlemeniz',
+  'progress.reviewedToday': 'Bugün {count} kart tekrar edildi',
+  'progress.learned': 'Öğrenilen kelimeler',
+  'progress.days': '{count} gün',
+  'progress.streak': 'Tekrar serisi',
+  'progress.longest': 'rekor {count} gün',
+  'progress.songsCompleted': 'Tamamlanan şarkılar',
+  'progress.songsOf': '{done} / {total}',
+  'progress.coverage': 'Analiz formundaki şarkı',
+  'progress.coverageOf':
+    'Kelimelerinin yaklaşık {percent} kadarını zaten biliyorsunuz ({known} / {total}, {language}).',
+  'progress.coverageHelp':
+    'Öğrendiğiniz ya da bilinen veya yok sayılan olarak işaretlediğiniz kelimeleri ve seviyenizin altındaki ({level}) yaygın kelimeleri sayar.',
+  'progress.noLyrics':
+    'Şarkının ne kadarını zaten bildiğinizi görmek için Analiz sekmesine sözleri yapıştırın.',
+  'progress.empty': 'İlerlemenizi burada görmek için şarkıları analiz edin ve kelimelerini tekrar edin.',
+  'progress.language': 'Dil',
+  'progress.learnedColumn': 'Öğrenilen',
+  'progress.learningColumn': 'Öğreniliyor',
+  'progress.level': 'Seviye',
+  'progress.suggestions': 'Sıradaki şarkılar',
+  'progress.suggestionsHelp': 'Kütüphanenizde henüz tamamlamadığınız şarkılar, en tanıdık olanlar önce.',
+  'progress.songCoverage': 'Sözlerin {percent} kadarı biliniyor · {done} / {total} kelime biliniyor',
+
+  'usage.title': 'Yapay zekâ kullanımı',
+  'usage.spent': 'Bu ay {spent}',
+  'usage.spentOfBudget': 'Bu ay {spent} / {budget}',
+  'usage.budget': 'Aylık bütçe (USD)',
+  'usage.noBudget': 'Bütçe yok',
+  'usage.budgetSet': 'Bütçe aylık {budget} olarak ayarlandı.',
+  'usage.budgetRemoved': 'Bütçe kaldırıldı.',
+  'usage.budgetHelp':
+    'Bu ayın bütçesini aşacak bir istekten önce onayınız istenir. Maliyetler liste fiyatlarından tahmin edilir.',
+  'usage.clearCache': 'Önbelleğe alınmış yanıtları temizle',
+  'usage.cacheCleared': 'Önbelleğe alınmış yanıtlar temizlendi.',
+  'usage.cacheFailed': 'Önbellek temizlenemedi',
+  'usage.empty': 'Henüz yapay zekâ çağrısı yok. Tekrarlanan istekler yerel önbellekten ücretsiz sunulur.',
+  'usage.month': 'Ay',
+  'usage.song': 'Şarkı',
+  'usage.otherRequests': 'Diğer istekler',
+  'usage.recent': 'Son çağrılar',
+  'usage.model': 'Model',
+  'usage.calls': 'Çağrılar',
+  'usage.tokens': 'Token giriş / çıkış',
+  'usage.cost': 'Maliyet',
+  'usage.unpriced': 'one:Fiyatı bilinmeyen modellere {count} çağrı|other:Fiyatı bilinmeyen modellere {count} çağrı',
+  'usage.estimated': 'Metin uzunluğundan tahmin edildi',
+  'usage.unknown': 'bilinmiyor',
+}
+
+export default tr
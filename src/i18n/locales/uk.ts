@@ -0,0 +1,460 @@
+import type { Messages } from '../i18n'
+
+const uk: Messages = {
+  'app.title': 'Вивчаємо мови з піснями',
+  'app.subtitle':
+    'Вставте текст пісні будь-якою мовою та отримайте список слів для вашого рівня з перекладом вашою мовою.',
+  'app.footer':
+    'Це навчальний прототип. Складність оцінюється автоматично й слугує лише орієнтиром, поки ви навчаєтеся з музикою.',
+
+  'nav.analyze': 'Розібрати пісню',
+  'nav.review': 'Повторення',
+  'nav.library': 'Бібліотека',
+  'nav.vocabulary': 'Словник',
+  'nav.progress': 'Прогрес',
+  'nav.usage': 'Витрати',
+
+  'common.add': 'Додати',
+  'common.cancel': 'Скасувати',
+  'common.close': 'Закрити',
+  'common.delete': 'Видалити',
+  'common.done': 'Готово',
+  'common.edit': 'Редагувати',
+  'common.remove': 'Прибрати',
+  'common.save': 'Зберегти',
+  'common.translateAgain': 'Перекласти знову',
+  'common.translating': 'Переклад...',
+  'common.working': 'Зачекайте...',
+
+  'form.title': 'Назва',
+  'form.artist': 'Виконавець',
+  'form.optional': 'Необовʼязково',
+  'form.lyrics': 'Текст пісні',
+  'form.newSong': 'Почати нову пісню',
+  'form.example': 'Спробувати на прикладі',
+  'form.importSynced': 'Імпорт .lrc / .srt',
+  'form.lyricsPlaceholder': 'Вставте сюди повний текст...',
+  'form.characters': 'Символів: {count} / {max}',
+  'form.maxLength': '(досягнуто максимальної довжини)',
+  'form.songCount': 'one:{count} пісня|few:{count} пісні|many:{count} пісень|other:{count} пісні',
+  'form.albumHelp':
+    'Вставляєте цілий альбом? Поставте перед кожною піснею рядок на кшталт «--- Назва пісні ---», щоб розібрати їх разом і зберегти окремо.',
+  'form.offline': 'Розбір офлайн (без ШІ та API-ключа)',
+  'form.provider': 'Постачальник ШІ',
+  'form.serverUrl': 'URL сервера',
+  'form.serverHelp': 'Будь-який сервер із {path}, наприклад Ollama або llama.cpp.',
+  'form.models': 'Моделі для завдань',
+  'form.level': 'Ваш рівень (мовою пісні)',
+  'form.nativeLang': 'Ваша рідна мова',
+  'form.nativeLangHelp':
+    'Застосунок, переклади й пояснення будуть цією мовою. Шукайте за назвою або введіть код мови, наприклад pt-BR.',
+  'form.studyLang': 'Мова для вивчення (необовʼязково)',
+  'form.studyLangAny': 'Усі мови пісні',
+  'form.studyLangHelp': 'У піснях кількома мовами вивчаються лише рядки цією мовою.',
+
+  'level.A1': 'Початковий',
+  'level.A2': 'Елементарний',
+  'level.B1': 'Середній',
+  'level.B2': 'Вище середнього',
+  'level.C1': 'Просунутий',
+  'level.C2': 'Вільне володіння',
+
+  'task.detect': 'Визначення мови',
+  'task.analyze': 'Розбір тексту',
+  'task.translate': 'Переклад',
+
+  'apiKey.label': 'API-ключ {provider}',
+  'apiKey.locked': 'Збережений ключ заблоковано',
+  'apiKey.passphrase': 'Пароль',
+  'apiKey.passphraseOptional': 'Пароль (необовʼязково)',
+  'apiKey.unlock': 'Розблокувати',
+  'apiKey.save': 'Зберегти ключ',
+  'apiKey.test': 'Перевірити ключ',
+  'apiKey.forget': 'Забути ключ',
+  'apiKey.saved': 'Ключ збережено на цьому пристрої.',
+  'apiKey.savedEncrypted': 'Ключ збережено й зашифровано вашим паролем.',
+  'apiKey.unlocked': 'Ключ розблоковано.',
+  'apiKey.removed': 'Ключ видалено з цього пристрою.',
+  'apiKey.works': 'Ключ працює.',
+  'apiKey.storedEncrypted': 'Збережено в цьому браузері, зашифровано вашим паролем.',
+  'apiKey.storedPlain': 'Збережено в цьому браузері. Додайте пароль, щоб зашифрувати його.',
+  'apiKey.notStored': 'Не збережено: після перезавантаження ключ зникне, якщо його не зберегти.',
+  'apiKey.sentOnlyTo': 'Він надсилається лише до {provider}.',
+  'apiKey.getOne': 'Отримати ключ можна на',
+
+  'settings.export': 'Експорт налаштувань',
+  'settings.import': 'Імпорт налаштувань',
+  'settings.exported': 'Налаштування експортовано. API-ключі включаються, лише якщо вони зашифровані.',
+  'settings.imported': 'Налаштування імпортовано.',
+  'settings.importFailed': 'Не вдалося імпортувати налаштування',
+
+  'languagePicker.search': 'Пошук мови...',
+  'languagePicker.invalid': '«{query}» — це не назва мови й не дійсний код мови.',
+
+  'submit.analyzing': 'ШІ розбирає текст...',
+  'submit.analyzingFound': 'ШІ розбирає текст... знайдено: {count}',
+  'submit.translating': 'Переклад слів... {done}/{total}',
+  'submit.offline': 'Знайти слова офлайн',
+  'submit.llm': 'Знайти слова для вивчення',
+
+  'error.noLyrics': 'Спершу вставте текст пісні.',
+  'error.tooLong': 'Текст задовгий (символів: {length}). Максимум — {max}.',
+  'error.fileTooLong': 'Текст у файлі {file} задовгий.',
+  'error.noItems': 'Слів для вивчення не знайдено. Спробуйте змінити рівень або перевірте текст.',
+  'error.offlineFailed': 'Офлайн-розбір не вдався',
+  'error.noNativeLang': 'Виберіть рідну мову.',
+  'error.apiKey': 'Введіть API-ключ {provider}.',
+  'error.noStudyLines': 'У цьому тексті немає рядків мовою «{language}».',
+  'error.allNative': 'Увесь цей текст вашою рідною мовою ({language}).',
+  'error.translationFailed': 'Переклад не вдався',
+  'error.noTranslation': 'Немає перекладу: {reason}',
+  'error.missingFromResponse': 'відсутній у відповіді',
+  'error.unexpected': 'Сталася неочікувана помилка',
+  'error.lineNeedsAI': 'Для перекладу рядків потрібен постачальник ШІ. Спершу вимкніть офлайн-режим.',
+  'error.lineFailed': 'Переклад рядків не вдався',
+  'error.grammarNeedsAI': 'Для граматичних нотаток потрібен постачальник ШІ. Спершу вимкніть офлайн-режим.',
+  'error.grammarFailed': 'Граматичний розбір не вдався',
+  'error.offlineLookup': 'Для пошуку офлайн потрібна пісня мовою з вбудованим списком слів.',
+  'error.importFailed': 'Не вдалося імпортувати файл',
+  'error.lessonLink': 'Не вдалося відкрити посилання на урок',
+  'error.wrongPassphrase': 'Неправильний пароль.',
+  'error.invalidJSON': 'Цей файл не є коректним JSON.',
+  'error.newerFile': 'Цей файл експортовано новішою версією застосунку.',
+  'error.notSettingsFile': 'Це не файл налаштувань «Вивчаємо мови з піснями».',
+  'error.notExportFile': 'Це не файл експорту «Вивчаємо мови з піснями».',
+  'error.exportIncomplete': 'У файлі експорту немає пісні або її елементів.',
+  'error.exportItem': 'Елемент {n} у файлі експорту неповний.',
+  'error.noLanguage': 'Не вдалося визначити мову тексту пісні.',
+  'error.noWordList':
+    'Для офлайн-аналізу ще немає списку слів для мови «{language}». Скористайтеся постачальником ШІ.',
+  'error.noTimedLines': 'У файлі {file} не знайдено рядків із часовими мітками.',
+  'error.lessonInvalid': 'Цей урок не є коректним JSON.',
+  'error.notLesson': 'Це не урок «Вивчаємо мови з піснями».',
+  'error.newerLesson': 'Цей урок створено новішою версією застосунку.',
+  'error.lessonIncomplete': 'В уроці немає пісні або її елементів.',
+  'error.lessonSettings': 'В уроці не вказано рівень або мову.',
+  'error.lessonItem': 'Елемент {n} в уроці неповний.',
+  'error.lessonDamaged': 'Посилання на урок неповне або пошкоджене.',
+  'error.taskFailed': '{task}: помилка: {reason}',
+  'error.noResponse': 'ШІ не надіслав відповіді',
+  'error.invalidResponse': 'ШІ відповів не коректним JSON',
+  'error.noWordsInResponse': 'Аналіз тексту не вдався: у відповіді ШІ немає списку слів.',
+  'error.noNotesInResponse': 'Граматичний аналіз не вдався: у відповіді ШІ немає нотаток.',
+  'error.linesUntranslated':
+    'Переклад рядків не повернув перекладу для {missing} з {total} рядків; спробуйте ще раз.',
+  'error.invalidEntry': 'некоректний запис: {reason}',
+  'error.emptyTranslation': 'переклад порожній',
+  'error.noStreaming': 'Цей сервер не підтримує потокову передачу.',
+  'error.streamFailed': 'Сервер повідомив про помилку під час потокової передачі.',
+
+  'warning.rejected':
+    'one:Пропущено {count} пропозицію, для якої ШІ повертав недійсні дані: {list}|few:Пропущено {count} пропозиції, для яких ШІ повертав недійсні дані: {list}|many:Пропущено {count} пропозицій, для яких ШІ повертав недійсні дані: {list}|other:Пропущено {count} пропозиції, для яких ШІ повертав недійсні дані: {list}',
+  'warning.unnamedEntry': 'Запис',
+  'warning.translationCancelled': 'Переклад скасовано. Знайдені слова збережено; деякі не мають перекладу.',
+  'warning.analysisCancelled': 'Розбір скасовано. Знайдені слова показано, але не збережено.',
+
+  'budget.analysis': 'Цей розбір',
+  'budget.translation': 'Цей переклад',
+  'budget.grammar': 'Цей граматичний розбір',
+  'budget.confirm':
+    '{action}: орієнтовна вартість {estimate}. Ви вже витратили {spent} з місячного бюджету {budget}, тож його буде перевищено. Продовжити?',
+
+  'results.title': 'Слова для вивчення з цієї пісні',
+  'results.studyLang': 'Мова для вивчення',
+  'results.allLanguages': 'Усі мови',
+  'results.study': 'Вивчати: {language}',
+  'results.importJSON': 'Імпорт JSON',
+  'results.empty': 'Список зʼявиться тут після розбору пісні.',
+
+  'view.list': 'Список',
+  'view.lyrics': 'Текст',
+  'view.bilingual': 'Паралельно',
+  'view.grammar': 'Граматика та ідіоми',
+  'view.karaoke': 'Караоке',
+  'view.quiz': 'Тест',
+
+  'band.comfortable': 'легко',
+  'band.stretch': 'із зусиллям',
+  'band.challenging': 'складно',
+
+  'status.known': 'знаю',
+  'status.learning': 'вивчаю',
+  'status.ignored': 'пропускаю',
+  'status.markKnown': 'Я це знаю',
+  'status.markIgnored': 'Пропустити',
+  'status.markLearning': 'Позначити як те, що вивчаю',
+
+  'list.sort': 'Сортування списку',
+  'list.sortSong': 'За порядком у пісні',
+  'list.sortHardest': 'Спершу складні',
+  'list.sortEasiest': 'Спершу легкі',
+  'list.sortFrequency': 'Спершу часті',
+  'list.group': 'Групування списку',
+  'list.groupNone': 'Без групування',
+  'list.groupPos': 'За частинами мови',
+  'list.groupGender': 'За родом',
+  'list.translationStatus': 'Стан перекладу',
+  'list.anyStatus': 'Будь-який стан перекладу',
+  'list.translated': 'Перекладені',
+  'list.untranslated': 'Без перекладу',
+  'list.failed': 'Помилка перекладу',
+  'list.difficultyLabel': 'Складність',
+  'list.allDifficulties': 'Будь-яка складність',
+  'list.pos': 'Частина мови',
+  'list.allPos': 'Усі частини мови',
+  'list.gender': 'Рід',
+  'list.allGenders': 'Будь-який рід',
+  'list.other': 'Інше',
+  'list.selected': 'Вибрано: {count}',
+  'list.merge': 'Обʼєднати',
+  'list.mergeHelp': 'Обʼєднати вибрані слова з першим із них',
+  'list.clearSelection': 'Зняти виділення',
+  'list.noMatches': 'Немає слів, що відповідають цим фільтрам.',
+  'list.select': 'Вибрати «{word}»',
+  'list.difficulty': 'Складність: {band}',
+  'list.appears': 'трапляється {count}×',
+  'list.notInSong': 'немає в пісні',
+  'list.notInSongHelp': 'ШІ запропонував це слово, але в тексті його немає.',
+  'list.article': 'артикль: {article}',
+  'list.line': 'Рядок із пісні:',
+  'list.translation': 'Переклад',
+  'list.translationOptional': 'Переклад (необовʼязково)',
+  'list.explanation': 'Пояснення',
+  'list.explanationOptional': 'Пояснення (необовʼязково)',
+  'list.addWord': '+ Додати слово',
+  'list.word': 'Слово або вираз',
+  'list.wordPlaceholder': 'Слово або вираз із пісні',
+
+  'pos.noun': 'іменник',
+  'pos.verb': 'дієслово',
+  'pos.adjective': 'прикметник',
+  'pos.adverb': 'прислівник',
+  'pos.pronoun': 'займенник',
+  'pos.preposition': 'прийменник',
+  'pos.conjunction': 'сполучник',
+  'pos.determiner': 'детермінатив',
+  'pos.numeral': 'числівник',
+  'pos.interjection': 'вигук',
+  'pos.phrase': 'вираз',
+  'pos.other': 'інше',
+  'gender.masculine': 'чоловічий',
+  'gender.feminine': 'жіночий',
+  'gender.neuter': 'середній',
+  'gender.common': 'спільний',
+
+  'lookup.loading': 'Пошук...',
+  'lookup.failed': 'Не вдалося знайти',
+  'lookup.noTranslation': 'Переклад недоступний',
+  'lookup.noTranslationYet': 'Перекладу ще немає',
+  'lookup.add': 'Додати до мого списку',
+  'lookup.offlineEstimate': 'Оцінка рівня: {level}. Для перекладу потрібен постачальник ШІ.',
+  'lyrics.clickHelp': 'Натисніть на будь-яке слово, щоб дізнатися його значення.',
+
+  'offline.core': 'Базове слово рівня {level} ({language}).',
+  'offline.estimated': 'Немає в базовому списку слів ({language}); оцінка рівня: {level}.',
+
+  'bilingual.style': 'Стиль перекладу',
+  'bilingual.literal': 'Дослівно',
+  'bilingual.natural': 'Природно',
+  'bilingual.translate': 'Перекласти ({language})',
+  'bilingual.translating': 'Переклад рядків...',
+
+  'grammar.help': 'Граматичні теми та ідіоми пісні, кожна з коротким правилом і додатковими прикладами.',
+  'grammar.find': 'Знайти граматику та ідіоми',
+  'grammar.findAgain': 'Знайти знову',
+  'grammar.finding': 'Шукаємо граматику та ідіоми...',
+  'grammar.none': 'Граматичних тем чи ідіом, які варто пояснити, не знайдено.',
+  'grammar.grammar': 'Граматика',
+  'grammar.idiom': 'Ідіома',
+  'grammar.line': 'Рядок {line}:',
+
+  'karaoke.help':
+    'Виберіть аудіофайл пісні, щоб підспівувати. Він залишається на вашому пристрої й не зберігається.',
+  'karaoke.change': 'Змінити аудіо',
+  'karaoke.choose': 'Вибрати аудіофайл',
+  'karaoke.loop': 'Повторювати цей рядок',
+  'karaoke.stopLoop': 'Зупинити повтор',
+  'karaoke.onLine': 'У цьому рядку',
+  'karaoke.noWords': 'Немає слів із вашого списку.',
+
+  'quiz.intro': 'Потренуйте слова цієї пісні. Слова з помилками позначаються як ті, що ви вивчаєте.',
+  'quiz.cloze': 'Заповніть пропуск',
+  'quiz.clozeHelp': 'Впишіть пропущене слово в рядку пісні.',
+  'quiz.choice': 'Вибір відповіді',
+  'quiz.choiceHelp': 'Виберіть правильний переклад.',
+  'quiz.recall': 'Зворотне пригадування',
+  'quiz.recallHelp': 'Подивіться на переклад і впишіть слово.',
+  'quiz.needsTranslations': 'Потрібні слова з перекладом',
+  'quiz.available':
+    'one:Доступне {count} запитання|few:Доступні {count} запитання|many:Доступно {count} запитань|other:Доступно {count} запитання',
+  'quiz.markedLearning': 'Позначено як ті, що вивчаю: {words}',
+  'quiz.cleared': 'Більше не позначено як ті, що вивчаю: {words}',
+  'quiz.again': 'Ще раз',
+  'quiz.another': 'Вибрати інший тест',
+  'quiz.score': 'Рахунок: {score}',
+  'quiz.hint': 'Підказка: {hint}',
+  'quiz.typeWord': 'Введіть слово',
+  'quiz.next': 'Далі',
+  'quiz.results': 'Результати',
+  'quiz.check': 'Перевірити',
+  'quiz.correct': 'Правильно!',
+  'quiz.answer': 'Відповідь: {answer}',
+
+  'export.button': 'Експорт…',
+  'export.format': 'Формат',
+  'export.anki': 'Пакет Anki (.apkg)',
+  'export.csv': 'Таблиця CSV',
+  'export.json': 'JSON (можна імпортувати назад)',
+  'export.quizlet': 'Quizlet (термін ⇥ переклад)',
+  'export.lesson': 'Урок для поширення (файл або посилання)',
+  'export.untranslated': 'Без перекладу: {count}',
+  'export.noTranslation': '(немає перекладу)',
+  'export.exclude': 'Не включати',
+  'export.mark': 'Включити з позначкою «без перекладу»',
+  'export.columns': 'Стовпці',
+  'export.separator': 'Роздільник',
+  'export.comma': 'Кома',
+  'export.semicolon': 'Крапка з комою',
+  'export.tab': 'Табуляція',
+  'export.jsonHelp':
+    'Містить текст, усі елементи та граматичні нотатки без змін, щоб їх можна було імпортувати назад у застосунок.',
+  'export.lessonHelp':
+    'Містить текст, налаштування, слова, переклади рядків і граматичні нотатки. Учні можуть відкрити його без API-ключа й без звернень до ШІ.',
+  'export.copyLink': 'Копіювати посилання',
+  'export.linkCopied': 'Посилання скопійовано. Кожен, хто його відкриє, отримає цей урок.',
+  'export.linkTooLong': 'Урок задовгий для посилання. Завантажте його й поділіться файлом.',
+  'export.preparing': 'Підготовка...',
+  'export.download': 'Завантажити',
+  'export.failed': 'Експорт не вдався',
+
+  'csv.word': 'Слово',
+  'csv.translation': 'Переклад',
+  'csv.example': 'Рядок пісні',
+  'csv.cloze': 'Рядок пісні (з пропуском)',
+  'csv.explanation': 'Пояснення',
+  'csv.difficulty': 'Складність',
+  'csv.score': 'Оцінка складності',
+  'csv.count': 'Входження',
+  'csv.lines': 'Номери рядків',
+  'csv.language': 'Мова',
+  'csv.song': 'Пісня',
+  'csv.status': 'Статус',
+
+  'speech.title': 'Вимова',
+  'speech.backend': 'Джерело мовлення',
+  'speech.browser': 'Голоси браузера',
+  'speech.server': 'Локальний TTS-сервер',
+  'speech.voice': 'Голос ({language})',
+  'speech.serverDefault': 'Типовий для сервера',
+  'speech.bestMatch': 'Найвідповідніший',
+  'speech.noVoice': 'Для цієї мови немає встановлених голосів',
+  'speech.speed': 'Швидкість: {rate}×',
+  'speech.try': 'Прослухати голос',
+  'speech.pronounce': 'Вимовити',
+  'speech.word': 'Вимовити «{word}»',
+  'speech.line': 'Вимовити рядок',
+  'speech.failed': 'Не вдалося відтворити вимову',
+  'speech.unsupported': 'Цей браузер не підтримує синтез мовлення.',
+  'speech.error': 'Помилка синтезу мовлення: {error}',
+  'speech.serverError': 'TTS-сервер відповів {status} {statusText}.',
+  'speech.badAudio': 'TTS-сервер повернув аудіо, яке браузер не може відтворити.',
+
+  'review.title': 'Повторення',
+  'review.stats': 'До повторення: {due} · Вивчено: {learned} · У колоді: {total}',
+  'review.empty': 'Слова з розібраних пісень додаються сюди автоматично.',
+  'review.nothingDue': 'Зараз нічого повторювати. Загляньте пізніше!',
+  'review.lapses': 'забуто {count}×',
+  'review.show': 'Показати відповідь',
+  'review.noTranslation': 'Переклад не збережено',
+  'review.again': 'Знову',
+  'review.hard': 'Важко',
+  'review.good': 'Добре',
+  'review.easy': 'Легко',
+  'review.remove': 'Прибрати з колоди',
+
+  'library.title': 'Бібліотека пісень',
+  'library.saved': 'Збережено: {count}',
+  'library.search': 'Пошук за назвою, виконавцем, мовою або текстом...',
+  'library.empty': 'Пісні зберігаються тут автоматично після розбору.',
+  'library.noMatches': 'Немає пісень за запитом «{query}».',
+  'library.words':
+    'one:{count} слово рівня {level}|few:{count} слова рівня {level}|many:{count} слів рівня {level}|other:{count} слова рівня {level}',
+  'library.notAnalysed': 'Ще не розібрана',
+  'library.levels': 'розібрана для рівнів {levels}',
+  'library.open': 'Відкрити',
+  'library.rerunLevel': 'Рівень для повторного розбору',
+  'library.rerun': 'Розібрати знову',
+  'library.confirmDelete': 'Видалити «{title}» з бібліотеки?',
+
+  'vocab.title': 'Мій словник',
+  'vocab.stats': 'Знаю: {known} · Вивчаю: {learning} · Пропускаю: {ignored}',
+  'vocab.language': 'Код мови',
+  'vocab.languagePlaceholder': 'наприклад, nl, es, fr',
+  'vocab.show': 'Показати',
+  'vocab.all': 'Усі слова',
+  'vocab.importList': 'Імпорт списку слів',
+  'vocab.importPlaceholder': 'По одному слову в рядку або через кому',
+  'vocab.importStatus': 'Статус імпортованих слів',
+  'vocab.as': 'як «{status}»',
+  'vocab.import': 'Імпортувати',
+  'vocab.importFile': 'Імпорт файлу .txt',
+  'vocab.empty':
+    'Слів поки немає. Позначайте слова як знайомі або пропущені в списку пісні чи імпортуйте список вище.',
+  'vocab.statusOf': 'Статус слова «{word}»',
+  'vocab.noLanguage': 'Спершу виберіть мову списку слів.',
+  'vocab.noWords': 'У списку не знайдено слів.',
+  'vocab.imported':
+    'one:Імпортовано {count} слово зі статусом «{status}».|few:Імпортовано {count} слова зі статусом «{status}».|many:Імпортовано {count} слів зі статусом «{status}».|other:Імпортовано {count} слова зі статусом «{status}».',
+  'vocab.readFailed': 'Не вдалося прочитати файл',
+
+  'progress.title': 'Ваш прогрес',
+  'progress.reviewedToday':
+    'one:Сьогодні повторено {count} картку|few:Сьогодні повторено {count} картки|many:Сьогодні повторено {count} карток|other:Сьогодні повторено {count} картки',
+  'progress.learned': 'Вивчено слів',
+  'progress.days': 'one:{count} день|few:{count} дні|many:{count} днів|other:{count} дня',
+  'progress.streak': 'Серія повторень',
+  'progress.longest':
+    'one:рекорд {count} день|few:рекорд {count} дні|many:рекорд {count} днів|other:рекорд {count} дня',
+  'progress.songsCompleted': 'Пройдено пісень',
+  'progress.songsOf': '{done} з {total}',
+  'progress.coverage': 'Пісня у формі розбору',
+  'progress.coverageOf': 'Ви вже знаєте приблизно {percent} її слів ({known} з {total}, {language}).',
+  'progress.coverageHelp':
+    'Враховуються вивчені слова, слова з позначкою «знаю» чи «ігнорувати» і часті слова нижче вашого рівня ({level}).',
+  'progress.noLyrics': 'Вставте текст на вкладці «Розбір», щоб побачити, яку частину пісні ви вже знаєте.',
+  'progress.empty': 'Розбирайте пісні й повторюйте їхні слова, щоб бачити тут свій прогрес.',
+  'progress.language': 'Мова',
+  'progress.learnedColumn': 'Вивчено',
+  'progress.learningColumn': 'Вивчається',
+  'progress.level': 'Рівень',
+  'progress.suggestions': 'Що вивчити далі',
+  'progress.suggestionsHelp': 'Пісні з бібліотеки, які ви ще не пройшли, спершу найзнайоміші.',
+  'progress.songCoverage': 'Знайомо {percent} тексту · відомо {done} з {total} слів',
+
+  'usage.title': 'Витрати на ШІ',
+  'usage.spent': '{spent} цього місяця',
+  'usage.spentOfBudget': '{spent} з {budget} цього місяця',
+  'usage.budget': 'Місячний бюджет (USD)',
+  'usage.noBudget': 'Без бюджету',
+  'usage.budgetSet': 'Бюджет: {budget} на місяць.',
+  'usage.budgetRemoved': 'Бюджет видалено.',
+  'usage.budgetHelp':
+    'Перед запитом, що перевищить бюджет цього місяця, вас попросять його підтвердити. Вартість оцінюється за прайс-листом.',
+  'usage.clearCache': 'Очистити кеш відповідей',
+  'usage.cacheCleared': 'Кеш відповідей очищено.',
+  'usage.cacheFailed': 'Не вдалося очистити кеш',
+  'usage.empty': 'Звернень до ШІ ще не було. Повторні запити безкоштовно обслуговуються з локального кешу.',
+  'usage.month': 'Місяць',
+  'usage.song': 'Пісня',
+  'usage.otherRequests': 'Інші запити',
+  'usage.recent': 'Останні звернення',
+  'usage.model': 'Модель',
+  'usage.calls': 'Звернення',
+  'usage.tokens': 'Токени вхід / вихід',
+  'usage.cost': 'Вартість',
+  'usage.unpriced': 'Звернень до моделей з невідомою ціною: {count}',
+  'usage.estimated': 'Оцінка за довжиною тексту',
+  'usage.unknown': 'невідомо',
+}
+
+export default uk
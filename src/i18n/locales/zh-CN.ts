@@ -0,0 +1,441 @@
+import type { Messages } from '../i18n'
+
+const zhCN: Messages = {
+  'app.title': '听歌学语言',
+  'app.subtitle': '粘贴任意语言的歌词，获取适合你水平、并翻译成你的语言的单词表。',
+  'app.footer': '这是一个学习原型。难度为自动估算，在用音乐学习时仅作参考。',
+
+  'nav.analyze': '分析歌曲',
+  'nav.review': '复习',
+  'nav.library': '歌曲库',
+  'nav.vocabulary': '词汇',
+  'nav.progress': '学习进度',
+  'nav.usage': '用量',
+
+  'common.add': '添加',
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.delete': '删除',
+  'common.done': '完成',
+  'common.edit': '编辑',
+  'common.remove': '移除',
+  'common.save': '保存',
+  'common.translateAgain': '重新翻译',
+  'common.translating': '正在翻译...',
+  'common.working': '处理中...',
+
+  'form.title': '标题',
+  'form.artist': '歌手',
+  'form.optional': '可选',
+  'form.lyrics': '歌词',
+  'form.newSong': '开始新歌曲',
+  'form.example': '试试示例',
+  'form.importSynced': '导入 .lrc / .srt',
+  'form.lyricsPlaceholder': '在此粘贴完整歌词...',
+  'form.characters': '{count} / {max} 个字符',
+  'form.maxLength': '（已达到最大长度）',
+  'form.songCount': '{count} 首歌曲',
+  'form.albumHelp': '要粘贴整张专辑？在每首歌前加一行“--- 歌名 ---”，即可一起分析并分别保存。',
+  'form.offline': '离线分析（不使用 AI，无需 API 密钥）',
+  'form.provider': 'AI 服务商',
+  'form.serverUrl': '服务器地址',
+  'form.serverHelp': '任何提供 {path} 的服务器，例如 Ollama 或 llama.cpp。',
+  'form.models': '任务模型',
+  'form.level': '你的水平（歌曲语言）',
+  'form.nativeLang': '你的母语',
+  'form.nativeLangHelp': '应用界面、翻译和解释都使用该语言。可按名称搜索，或输入语言代码，如 pt-BR。',
+  'form.studyLang': '学习语言（可选）',
+  'form.studyLangAny': '歌曲中的所有语言',
+  'form.studyLangHelp': '对于多语言歌曲，只学习该语言的歌词行。',
+
+  'level.A1': '入门',
+  'level.A2': '初级',
+  'level.B1': '中级',
+  'level.B2': '中高级',
+  'level.C1': '高级',
+  'level.C2': '精通',
+
+  'task.detect': '语言识别',
+  'task.analyze': '歌词分析',
+  'task.translate': '翻译',
+
+  'apiKey.label': '{provider} API 密钥',
+  'apiKey.locked': '已保存的密钥已锁定',
+  'apiKey.passphrase': '口令',
+  'apiKey.passphraseOptional': '口令（可选）',
+  'apiKey.unlock': '解锁',
+  'apiKey.save': '保存密钥',
+  'apiKey.test': '测试密钥',
+  'apiKey.forget': '忘记密钥',
+  'apiKey.saved': '密钥已保存在此设备上。',
+  'apiKey.savedEncrypted': '密钥已保存，并用你的口令加密。',
+  'apiKey.unlocked': '密钥已解锁。',
+  'apiKey.removed': '密钥已从此设备移除。',
+  'apiKey.works': '密钥可用。',
+  'apiKey.storedEncrypted': '保存在此浏览器中，并用你的口令加密。',
+  'apiKey.storedPlain': '保存在此浏览器中。添加口令即可加密。',
+  'apiKey.notStored': '未保存：如不保存，刷新页面后将被清除。',
+  'apiKey.sentOnlyTo': '它只会发送给 {provider}。',
+  'apiKey.getOne': '获取密钥：',
+
+  'settings.export': '导出设置',
+  'settings.import': '导入设置',
+  'settings.exported': '设置已导出。API 密钥仅在加密时才会包含在内。',
+  'settings.imported': '设置已导入。',
+  'settings.importFailed': '无法导入设置',
+
+  'languagePicker.search': '搜索语言...',
+  'languagePicker.invalid': '“{query}”不是语言名称，也不是有效的语言代码。',
+
+  'submit.analyzing': 'AI 正在分析歌词...',
+  'submit.analyzingFound': 'AI 正在分析歌词...已找到 {count} 个',
+  'submit.translating': '正在翻译单词... {done}/{total}',
+  'submit.offline': '离线查找单词',
+  'submit.llm': '查找要学习的单词',
+
+  'error.noLyrics': '请先粘贴歌词。',
+  'error.tooLong': '歌词过长（{length} 个字符）。最多 {max} 个。',
+  'error.fileTooLong': '{file} 中的歌词过长。',
+  'error.noItems': '未找到要学习的单词。请尝试其他水平或检查歌词。',
+  'error.offlineFailed': '离线分析失败',
+  'error.noNativeLang': '请选择你的母语。',
+  'error.apiKey': '请输入你的 {provider} API 密钥。',
+  'error.noStudyLines': '这段歌词中没有{language}的歌词行。',
+  'error.allNative': '这段歌词全部是你的母语（{language}）。',
+  'error.translationFailed': '翻译失败',
+  'error.noTranslation': '没有翻译：{reason}',
+  'error.missingFromResponse': '响应中缺失',
+  'error.unexpected': '发生意外错误',
+  'error.lineNeedsAI': '逐行翻译需要 AI 服务商。请先关闭离线模式。',
+  'error.lineFailed': '逐行翻译失败',
+  'error.grammarNeedsAI': '语法笔记需要 AI 服务商。请先关闭离线模式。',
+  'error.grammarFailed': '语法分析失败',
+  'error.offlineLookup': '离线查词需要歌曲语言带有内置词表。',
+  'error.importFailed': '无法导入文件',
+  'error.lessonLink': '无法打开课程链接',
+  'error.wrongPassphrase': '口令错误。',
+  'error.invalidJSON': '此文件不是有效的 JSON。',
+  'error.newerFile': '此文件由更新版本的应用导出。',
+  'error.notSettingsFile': '这不是“听歌学语言”的设置文件。',
+  'error.notExportFile': '这不是“听歌学语言”的导出文件。',
+  'error.exportIncomplete': '导出文件缺少歌曲或其条目。',
+  'error.exportItem': '导出文件中的第 {n} 个条目不完整。',
+  'error.noLanguage': '无法识别歌词的语言。',
+  'error.noWordList': '离线分析暂时没有{language}的词表。请改用 AI 服务商。',
+  'error.noTimedLines': '在 {file} 中未找到带时间戳的歌词行。',
+  'error.lessonInvalid': '此课程不是有效的 JSON。',
+  'error.notLesson': '这不是“听歌学语言”的课程。',
+  'error.newerLesson': '此课程由更新版本的应用创建。',
+  'error.lessonIncomplete': '课程缺少歌曲或其条目。',
+  'error.lessonSettings': '课程缺少级别或语言。',
+  'error.lessonItem': '课程中的第 {n} 个条目不完整。',
+  'error.lessonDamaged': '此课程链接不完整或已损坏。',
+  'error.taskFailed': '{task}失败：{reason}',
+  'error.noResponse': 'AI 没有返回响应',
+  'error.invalidResponse': 'AI 返回的不是有效的 JSON',
+  'error.noWordsInResponse': '歌词分析失败：AI 的响应中没有单词列表。',
+  'error.noNotesInResponse': '语法分析失败：AI 的响应中没有注释。',
+  'error.linesUntranslated': '逐行翻译有 {missing} 行（共 {total} 行）没有返回翻译，请重试。',
+  'error.invalidEntry': '无效条目：{reason}',
+  'error.emptyTranslation': '翻译为空',
+  'error.noStreaming': '此服务器不支持流式传输。',
+  'error.streamFailed': '服务器在流式传输时报告了错误。',
+
+  'warning.rejected': '已跳过 {count} 条 AI 持续返回无效数据的建议：{list}',
+  'warning.unnamedEntry': '某个条目',
+  'warning.translationCancelled': '翻译已取消。已找到的单词已保存，部分没有翻译。',
+  'warning.analysisCancelled': '分析已取消。目前找到的单词已显示，但未保存。',
+
+  'budget.analysis': '本次分析',
+  'budget.translation': '本次翻译',
+  'budget.grammar': '本次语法分析',
+  'budget.confirm': '{action}预计花费 {estimate}。你本月已花费 {spent}，月度预算为 {budget}，将会超出预算。是否继续？',
+
+  'results.title': '这首歌中要学习的单词',
+  'results.studyLang': '学习语言',
+  'results.allLanguages': '所有语言',
+  'results.study': '学习：{language}',
+  'results.importJSON': '导入 JSON',
+  'results.empty': '分析歌曲后，你的单词表会显示在这里。',
+
+  'view.list': '列表',
+  'view.lyrics': '歌词',
+  'view.bilingual': '双语对照',
+  'view.grammar': '语法与习语',
+  'view.karaoke': '卡拉 OK',
+  'view.quiz': '测验',
+
+  'band.comfortable': '轻松',
+  'band.stretch': '稍难',
+  'band.challenging': '有挑战',
+
+  'status.known': '已掌握',
+  'status.learning': '学习中',
+  'status.ignored': '已忽略',
+  'status.markKnown': '我认识这个',
+  'status.markIgnored': '忽略',
+  'status.markLearning': '标记为学习中',
+
+  'list.sort': '排序列表',
+  'list.sortSong': '按歌曲顺序',
+  'list.sortHardest': '最难的优先',
+  'list.sortEasiest': '最简单的优先',
+  'list.sortFrequency': '最常见的优先',
+  'list.group': '分组列表',
+  'list.groupNone': '不分组',
+  'list.groupPos': '按词性分组',
+  'list.groupGender': '按性别分组',
+  'list.translationStatus': '翻译状态',
+  'list.anyStatus': '任意翻译状态',
+  'list.translated': '已翻译',
+  'list.untranslated': '未翻译',
+  'list.failed': '翻译失败',
+  'list.difficultyLabel': '难度',
+  'list.allDifficulties': '任意难度',
+  'list.pos': '词性',
+  'list.allPos': '所有词性',
+  'list.gender': '性别',
+  'list.allGenders': '任意性别',
+  'list.other': '其他',
+  'list.selected': '已选择 {count} 个',
+  'list.merge': '合并',
+  'list.mergeHelp': '将所选单词合并到第一个所选单词',
+  'list.clearSelection': '清除选择',
+  'list.noMatches': '没有符合这些筛选条件的单词。',
+  'list.select': '选择“{word}”',
+  'list.difficulty': '难度：{band}',
+  'list.appears': '出现 {count} 次',
+  'list.notInSong': '不在歌曲中',
+  'list.notInSongHelp': 'AI 建议了这个词，但歌词中没有出现。',
+  'list.article': '冠词：{article}',
+  'list.line': '歌曲中的句子：',
+  'list.translation': '翻译',
+  'list.translationOptional': '翻译（可选）',
+  'list.explanation': '解释',
+  'list.explanationOptional': '解释（可选）',
+  'list.addWord': '+ 添加单词',
+  'list.word': '单词或短语',
+  'list.wordPlaceholder': '歌曲中的单词或短语',
+
+  'pos.noun': '名词',
+  'pos.verb': '动词',
+  'pos.adjective': '形容词',
+  'pos.adverb': '副词',
+  'pos.pronoun': '代词',
+  'pos.preposition': '介词',
+  'pos.conjunction': '连词',
+  'pos.determiner': '限定词',
+  'pos.numeral': '数词',
+  'pos.interjection': '感叹词',
+  'pos.phrase': '短语',
+  'pos.other': '其他',
+  'gender.masculine': '阳性',
+  'gender.feminine': '阴性',
+  'gender.neuter': '中性',
+  'gender.common': '通性',
+
+  'lookup.loading': '正在查询...',
+  'lookup.failed': '查询失败',
+  'lookup.noTranslation': '暂无翻译',
+  'lookup.noTranslationYet': '尚未翻译',
+  'lookup.add': '添加到我的列表',
+  'lookup.offlineEstimate': '估计水平：{level}。翻译需要 AI 服务商。',
+  'lyrics.clickHelp': '点击任意单词即可查询。',
+
+  'offline.core': '{level} 级核心词（{language}）。',
+  'offline.estimated': '不在{language}核心词表中；估计水平：{level}。',
+
+  'bilingual.style': '翻译风格',
+  'bilingual.literal': '直译',
+  'bilingual.natural': '意译',
+  'bilingual.translate': '翻译成{language}',
+  'bilingual.translating': '正在翻译歌词行...',
+
+  'grammar.help': '歌曲中的语法点和习语，每条都附有简短规则和更多例句。',
+  'grammar.find': '查找语法和习语',
+  'grammar.findAgain': '重新查找',
+  'grammar.finding': '正在查找语法和习语...',
+  'grammar.none': '没有找到值得讲解的语法点或习语。',
+  'grammar.grammar': '语法',
+  'grammar.idiom': '习语',
+  'grammar.line': '第 {line} 行：',
+
+  'karaoke.help': '选择这首歌的音频文件即可跟唱。文件保留在你的设备上，不会被保存。',
+  'karaoke.change': '更换音频',
+  'karaoke.choose': '选择音频文件',
+  'karaoke.loop': '循环这一行',
+  'karaoke.stopLoop': '停止循环',
+  'karaoke.onLine': '这一行中',
+  'karaoke.noWords': '没有你列表中的单词。',
+
+  'quiz.intro': '练习这首歌的单词。答错的单词会被标记为学习中。',
+  'quiz.cloze': '填空',
+  'quiz.clozeHelp': '在歌词中填入缺失的单词。',
+  'quiz.choice': '选择题',
+  'quiz.choiceHelp': '选出正确的翻译。',
+  'quiz.recall': '反向回忆',
+  'quiz.recallHelp': '看翻译，写出单词。',
+  'quiz.needsTranslations': '需要已翻译的单词',
+  'quiz.available': '共 {count} 道题',
+  'quiz.markedLearning': '已标记为学习中：{words}',
+  'quiz.cleared': '已取消学习中标记：{words}',
+  'quiz.again': '再试一次',
+  'quiz.another': '选择其他测验',
+  'quiz.score': '得分：{score}',
+  'quiz.hint': '提示：{hint}',
+  'quiz.typeWord': '输入单词',
+  'quiz.next': '下一题',
+  'quiz.results': '查看结果',
+  'quiz.check': '检查',
+  'quiz.correct': '正确！',
+  'quiz.answer': '答案：{answer}',
+
+  'export.button': '导出…',
+  'export.format': '格式',
+  'export.anki': 'Anki 卡组 (.apkg)',
+  'export.csv': 'CSV 表格',
+  'export.json': 'JSON（可重新导入）',
+  'export.quizlet': 'Quizlet（词条 ⇥ 翻译）',
+  'export.lesson': '可分享的课程（文件或链接）',
+  'export.untranslated': '{count} 个单词没有翻译',
+  'export.noTranslation': '（无翻译）',
+  'export.exclude': '排除它们',
+  'export.mark': '包含并标记为未翻译',
+  'export.columns': '列',
+  'export.separator': '分隔符',
+  'export.comma': '逗号',
+  'export.semicolon': '分号',
+  'export.tab': '制表符',
+  'export.jsonHelp': '原样包含歌词、所有条目和语法笔记，以便重新导入到应用中。',
+  'export.lessonHelp': '包含歌词、设置、单词、逐行翻译和语法笔记。学生无需 API 密钥、无需调用 AI 即可打开。',
+  'export.copyLink': '复制链接',
+  'export.linkCopied': '链接已复制。任何打开它的人都会获得这节课。',
+  'export.linkTooLong': '这节课太长，无法生成链接。请下载后分享文件。',
+  'export.preparing': '正在准备...',
+  'export.download': '下载',
+  'export.failed': '导出失败',
+
+  'csv.word': '单词',
+  'csv.translation': '翻译',
+  'csv.example': '歌词行',
+  'csv.cloze': '歌词行（填空）',
+  'csv.explanation': '解释',
+  'csv.difficulty': '难度',
+  'csv.score': '难度分数',
+  'csv.count': '出现次数',
+  'csv.lines': '行号',
+  'csv.language': '语言',
+  'csv.song': '歌曲',
+  'csv.status': '状态',
+
+  'speech.title': '发音',
+  'speech.backend': '语音来源',
+  'speech.browser': '浏览器语音',
+  'speech.server': '本地 TTS 服务器',
+  'speech.voice': '语音（{language}）',
+  'speech.serverDefault': '服务器默认',
+  'speech.bestMatch': '最佳匹配',
+  'speech.noVoice': '此语言没有已安装的语音',
+  'speech.speed': '语速：{rate}×',
+  'speech.try': '试听此语音',
+  'speech.pronounce': '朗读',
+  'speech.word': '朗读“{word}”',
+  'speech.line': '朗读这一行',
+  'speech.failed': '无法播放发音',
+  'speech.unsupported': '此浏览器不支持语音合成。',
+  'speech.error': '语音合成失败：{error}',
+  'speech.serverError': 'TTS 服务器返回 {status} {statusText}。',
+  'speech.badAudio': 'TTS 服务器返回了浏览器无法播放的音频。',
+
+  'review.title': '复习',
+  'review.stats': '待复习 {due} · 已学会 {learned} · 卡组共 {total}',
+  'review.empty': '你分析过的歌曲中的单词会自动添加到这里。',
+  'review.nothingDue': '暂时没有需要复习的内容。稍后再来吧！',
+  'review.lapses': '遗忘 {count} 次',
+  'review.show': '显示答案',
+  'review.noTranslation': '未保存翻译',
+  'review.again': '重来',
+  'review.hard': '困难',
+  'review.good': '良好',
+  'review.easy': '简单',
+  'review.remove': '从卡组中移除',
+
+  'library.title': '歌曲库',
+  'library.saved': '已保存 {count} 首',
+  'library.search': '按标题、歌手、语言或歌词搜索...',
+  'library.empty': '歌曲分析后会自动保存在这里。',
+  'library.noMatches': '没有与“{query}”匹配的歌曲。',
+  'library.words': '{level} 级 {count} 个单词',
+  'library.notAnalysed': '尚未分析',
+  'library.levels': '已按 {levels} 级分析',
+  'library.open': '打开',
+  'library.rerunLevel': '重新分析的水平',
+  'library.rerun': '重新分析',
+  'library.confirmDelete': '要从歌曲库中删除“{title}”吗？',
+
+  'vocab.title': '我的词汇',
+  'vocab.stats': '已掌握 {known} · 学习中 {learning} · 已忽略 {ignored}',
+  'vocab.language': '语言代码',
+  'vocab.languagePlaceholder': '例如 nl、es、fr',
+  'vocab.show': '显示',
+  'vocab.all': '所有单词',
+  'vocab.importList': '导入单词表',
+  'vocab.importPlaceholder': '每行一个单词，或用逗号分隔',
+  'vocab.importStatus': '导入单词的状态',
+  'vocab.as': '设为{status}',
+  'vocab.import': '导入',
+  'vocab.importFile': '导入 .txt 文件',
+  'vocab.empty': '还没有单词。在歌曲的单词表中将单词标记为已掌握或已忽略，或在上方导入一个单词表。',
+  'vocab.statusOf': '“{word}”的状态',
+  'vocab.noLanguage': '请先选择单词表的语言。',
+  'vocab.noWords': '列表中未找到单词。',
+  'vocab.imported': '已将 {count} 个单词导入为{status}。',
+  'vocab.readFailed': '无法读取文件',
+
+  'progress.title': '你的进度',
+  'progress.reviewedToday': '今天复习了 {count} 张卡片',
+  'progress.learned': '已学单词',
+  'progress.days': '{count} 天',
+  'progress.streak': '连续复习',
+  'progress.longest': '最长 {count} 天',
+  'progress.songsCompleted': '已完成歌曲',
+  'progress.songsOf': '{done} / {total}',
+  'progress.coverage': '分析表单中的歌曲',
+  'progress.coverageOf': '你已经认识其中约 {percent} 的词（{known} / {total}，{language}）。',
+  'progress.coverageHelp': '统计你已学会或标记为认识、忽略的词，以及低于你水平（{level}）的常用词。',
+  'progress.noLyrics': '在“分析”标签页粘贴歌词，即可查看你已认识这首歌的多少内容。',
+  'progress.empty': '分析歌曲并复习其中的单词，就能在这里看到你的进度。',
+  'progress.language': '语言',
+  'progress.learnedColumn': '已学会',
+  'progress.learningColumn': '学习中',
+  'progress.level': '级别',
+  'progress.suggestions': '接下来学习的歌曲',
+  'progress.suggestionsHelp': '曲库中尚未完成的歌曲，最熟悉的排在前面。',
+  'progress.songCoverage': '已认识 {percent} 的歌词 · 认识 {done} / {total} 个词',
+
+  'usage.title': 'AI 用量',
+  'usage.spent': '本月 {spent}',
+  'usage.spentOfBudget': '本月 {spent} / {budget}',
+  'usage.budget': '月度预算（USD）',
+  'usage.noBudget': '无预算',
+  'usage.budgetSet': '预算已设为每月 {budget}。',
+  'usage.budgetRemoved': '预算已移除。',
+  'usage.budgetHelp': '若请求会超出本月预算，会先请你确认。费用按公开价格估算。',
+  'usage.clearCache': '清除缓存的回复',
+  'usage.cacheCleared': '缓存的回复已清除。',
+  'usage.cacheFailed': '无法清除缓存',
+  'usage.empty': '还没有 AI 调用。重复的请求会从本地缓存免费返回。',
+  'usage.month': '月份',
+  'usage.song': '歌曲',
+  'usage.otherRequests': '其他请求',
+  'usage.recent': '最近调用',
+  'usage.model': '模型',
+  'usage.calls': '调用次数',
+  'usage.tokens': '输入 / 输出 token',
+  'usage.cost': '费用',
+  'usage.unpriced': '{count} 次调用的模型价格未知',
+  'usage.estimated': '根据文本长度估算',
+  'usage.unknown': '未知',
+}
+
+export default zhCN
@@ -0,0 +1,71 @@
+/** Languages listed in the picker. Any other valid BCP-47 tag can still be typed in. */
+const PICKER_CODES = [
+  'af', 'am', 'ar', 'az', 'be', 'bg', 'bn', 'bs', 'ca', 'cs', 'cy', 'da', 'de', 'el', 'en', 'en-GB',
+  'en-US', 'eo', 'es', 'es-MX', 'et', 'eu', 'fa', 'fi', 'fil', 'fr', 'fr-CA', 'ga', 'gl', 'gu', 'ha',
+  'he', 'hi', 'hr', 'hu', 'hy', 'id', 'is', 'it', 'ja', 'ka', 'kk', 'km', 'kn', 'ko', 'ky', 'lo', 'lt',
+  'lv', 'mk', 'ml', 'mn', 'mr', 'ms', 'mt', 'my', 'nb', 'ne', 'nl', 'pa', 'pl', 'ps', 'pt', 'pt-BR',
+  'pt-PT', 'ro', 'ru', 'si', 'sk', 'sl', 'so', 'sq', 'sr', 'sv', 'sw', 'ta', 'te', 'th', 'tr', 'uk',
+  'ur', 'uz', 'vi', 'xh', 'yo', 'zh-Hans', 'zh-Hant', 'zu',
+]
+
+export type LanguageOption = {
+  code: string
+  /** English name, e.g. "Brazilian Portuguese". */
+  label: string
+  /** The language's name for itself, e.g. "português (Brasil)". */
+  nativeName: string
+}
+
+const englishNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' })
+
+/**
+ * Canonical form of a language tag typed by the user (`PT_br` → `pt-BR`), or null when it is malformed
+ * or its language is unknown.
+ */
+export function parseLanguageCode(input: string): string | null {
+  const code = input.trim().replace(/_/g, '-')
+  if (!code || code.toLowerCase() === 'und') return null
+  try {
+    const [canonical] = Intl.getCanonicalLocales(code)
+    return englishNames.of(canonical.split('-')[0]) ? canonical : null
+  } catch {
+    return null
+  }
+}
+
+export function languageOption(code: string): LanguageOption {
+  let nativeName = code
+  try {
+    nativeName = new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code
+  } catch {
+    // Not a valid tag; the code stands in for its names
+  }
+  return { code, label: englishNames.of(code) ?? code, nativeName }
+}
+
+let options: LanguageOption[] | null = null
+
+/** The picker's languages, by English name. */
+export function languageOptions(): LanguageOption[] {
+  options ??= PICKER_CODES.map(languageOption).sort((a, b) => a.label.localeCompare(b.label))
+  return options
+}
+
+/** Languages whose code, English name or native name match the query: exact, then English-name prefix, then others. */
+export function searchLanguages(query: string): LanguageOption[] {
+  const wanted = query.trim().toLowerCase()
+  if (!wanted) return languageOptions()
+  const rank = (option: LanguageOption) => {
+    const fields = [option.code, option.label, option.nativeName].map((f) => f.toLowerCase())
+    if (fields.some((f) => f === wanted)) return 0
+    if (fields[1].startsWith(wanted)) return 1
+    if (fields.some((f) => f.startsWith(wanted))) return 2
+    if (fields.some((f) => f.includes(wanted))) return 3
+    return -1
+  }
+  return languageOptions()
+    .map((option) => ({ option, rank: rank(option) }))
+    .filter((m) => m.rank !== -1)
+    .sort((a, b) => a.rank - b.rank)
+    .map((m) => m.option)
+}
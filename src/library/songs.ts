@@ -0,0 +1,213 @@
+import type { GrammarNote, LearningItem, TranslationStyle, UserLevel } from '../types'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import type { TimedLine } from '../text/synced'
+import { get, getAll, put, remove } from '../storage/db'
+
+/** Max analyses kept per song; older ones are dropped. */
+const MAX_ANALYSES = 10
+
+/** One run of the analysis pipeline over a song. */
+export type SongAnalysis = {
+  level: UserLevel
+  /** Language the items were translated into. */
+  nativeLang: string
+  mode: 'llm' | 'offline' | 'import'
+  items: LearningItem[]
+  analyzedAt: number
+}
+
+/** A line-by-line translation of a song, one entry per lyric line. */
+export type LineTranslation = {
+  targetLang: string
+  style: TranslationStyle
+  lines: string[]
+  translatedAt: number
+}
+
+/** The grammar points and idioms of a song, explained in one language. */
+export type GrammarNotes = {
+  /** Language the rules and examples are explained in. */
+  nativeLang: string
+  level: UserLevel
+  notes: GrammarNote[]
+  analyzedAt: number
+}
+
+export type SavedSong = {
+  id: string
+  title: string
+  artist: string
+  lyrics: string
+  language: DetectedLanguage
+  /** Newest first. */
+  analyses: SongAnalysis[]
+  /** Line timings from an imported `.lrc`/`.srt` file, one per lyric line. */
+  timedLines?: TimedLine[]
+  /** Cached line translations, at most one per target language and style. */
+  lineTranslations?: LineTranslation[]
+  /** Cached grammar notes, at most one set per explanation language. */
+  grammarNotes?: GrammarNotes[]
+  createdAt: number
+  updatedAt: number
+}
+
+export function listSongs(): Promise<SavedSong[]> {
+  return getAll<SavedSong>('songs').then((songs) => songs.sort((a, b) => b.updatedAt - a.updatedAt))
+}
+
+export function deleteSong(id: string): Promise<void> {
+  return remove('songs', id)
+}
+
+export function latestAnalysis(song: SavedSong): SongAnalysis | undefined {
+  return song.analyses[0]
+}
+
+/** Title to use when the user didn't give one: the first non-empty lyric line. */
+export function defaultTitle(lyrics: string): string {
+  const first = lyrics.split(/\r?\n/).find((line) => line.trim())?.trim() ?? 'Untitled song'
+  return first.length > 40 ? `${first.slice(0, 40).trimEnd()}…` : first
+}
+
+type SaveAnalysisInput = {
+  /** Song being re-run, if any. Ignored when its lyrics no longer match. */
+  songId?: string
+  title: string
+  artist: string
+  lyrics: string
+  language: DetectedLanguage
+  timedLines?: TimedLine[]
+  /** Line translations that came with the analysis, e.g. from an imported lesson. */
+  lineTranslations?: LineTranslation[]
+  /** Grammar notes that came with it, likewise. */
+  grammarNotes?: GrammarNotes[]
+  analysis: SongAnalysis
+}
+
+/**
+ * Store an analysis in the library. Re-running a song (same id, or identical lyrics) adds to its
+ * history instead of creating a duplicate entry. Returns the saved song.
+ */
+export async function saveAnalysis(input: SaveAnalysisInput): Promise<SavedSong> {
+  const songs = await getAll<SavedSong>('songs')
+  const existing =
+    songs.find((s) => s.id === input.songId && s.lyrics === input.lyrics) ??
+    songs.find((s) => s.lyrics === input.lyrics)
+  const now = Date.now()
+
+  const song: SavedSong = existing
+    ? {
+        ...existing,
+        title: input.title || existing.title,
+        artist: input.artist || existing.artist,
+        language: input.language,
+        timedLines: input.timedLines ?? existing.timedLines,
+        lineTranslations: mergeLineTranslations(existing.lineTranslations, input.lineTranslations),
+        grammarNotes: mergeGrammarNotes(existing.grammarNotes, input.grammarNotes),
+        analyses: [input.analysis, ...existing.analyses].slice(0, MAX_ANALYSES),
+        updatedAt: now,
+      }
+    : {
+        id: crypto.randomUUID(),
+        title: input.title || defaultTitle(input.lyrics),
+        artist: input.artist,
+        lyrics: input.lyrics,
+        language: input.language,
+        timedLines: input.timedLines,
+        lineTranslations: input.lineTranslations,
+        grammarNotes: input.grammarNotes,
+        analyses: [input.analysis],
+        createdAt: now,
+        updatedAt: now,
+      }
+
+  await put('songs', song)
+  return song
+}
+
+/** Replace the items of a song's latest analysis, e.g. after the learner added a word by hand. */
+export async function updateLatestItems(songId: string, items: LearningItem[]): Promise<SavedSong | undefined> {
+  const song = await get<SavedSong>('songs', songId)
+  if (!song || song.analyses.length === 0) return undefined
+  const [latest, ...older] = song.analyses
+  const updated: SavedSong = {
+    ...song,
+    analyses: [{ ...latest, items }, ...older],
+    updatedAt: Date.now(),
+  }
+  await put('songs', updated)
+  return updated
+}
+
+export function findLineTranslation(
+  song: SavedSong,
+  targetLang: string,
+  style: TranslationStyle,
+): LineTranslation | undefined {
+  return song.lineTranslations?.find((t) => t.targetLang === targetLang && t.style === style)
+}
+
+/** Newer translations first, replacing older ones for the same language and style. */
+function mergeLineTranslations(
+  older: LineTranslation[] | undefined,
+  newer: LineTranslation[] | undefined,
+): LineTranslation[] | undefined {
+  if (!newer?.length) return older
+  const others = (older ?? []).filter(
+    (t) => !newer.some((n) => n.targetLang === t.targetLang && n.style === t.style),
+  )
+  return [...newer, ...others]
+}
+
+/** Cache a line translation on the song, replacing an older one for the same language and style. */
+export async function saveLineTranslation(
+  songId: string,
+  translation: LineTranslation,
+): Promise<SavedSong | undefined> {
+  const song = await get<SavedSong>('songs', songId)
+  if (!song) return undefined
+  const updated: SavedSong = {
+    ...song,
+    lineTranslations: mergeLineTranslations(song.lineTranslations, [translation]),
+  }
+  await put('songs', updated)
+  return updated
+}
+
+export function findGrammarNotes(song: SavedSong, nativeLang: string): GrammarNotes | undefined {
+  return song.grammarNotes?.find((notes) => notes.nativeLang === nativeLang)
+}
+
+/** Newer notes first, replacing older ones explained in the same language. */
+function mergeGrammarNotes(
+  older: GrammarNotes[] | undefined,
+  newer: GrammarNotes[] | undefined,
+): GrammarNotes[] | undefined {
+  if (!newer?.length) return older
+  const others = (older ?? []).filter((notes) => !newer.some((n) => n.nativeLang === notes.nativeLang))
+  return [...newer, ...others]
+}
+
+/** Cache grammar notes on the song, replacing older ones explained in the same language. */
+export async function saveGrammarNotes(songId: string, notes: GrammarNotes): Promise<SavedSong | undefined> {
+  const song = await get<SavedSong>('songs', songId)
+  if (!song) return undefined
+  const updated: SavedSong = {
+    ...song,
+    grammarNotes: mergeGrammarNotes(song.grammarNotes, [notes]),
+  }
+  await put('songs', updated)
+  return updated
+}
+
+/** Case-insensitive search over title, artist, language and lyrics. */
+export function searchSongs(songs: SavedSong[], query: string): SavedSong[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return songs
+  return songs.filter((song) => {
+    const haystack = [song.title, song.artist, song.language.label, song.lyrics]
+      .join('\n')
+      .toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+}
@@ -0,0 +1,50 @@
+import { clear, get, put, remove } from '../storage/db'
+import type { LLMTask } from './providers'
+
+/** How long a cached response is reused. */
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+type CachedResponse = {
+  /** SHA-256 of everything that affects the response: provider, model, prompt and options. */
+  id: string
+  task: LLMTask
+  content: string
+  createdAt: number
+  expiresAt: number
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Cache key for a request. The prompt carries the lyrics, level and language pair, so those are covered too. */
+export function responseCacheKey(request: unknown): Promise<string> {
+  return sha256Hex(JSON.stringify(request))
+}
+
+/** A cached response, or undefined when there is none or it has expired. */
+export async function getCachedResponse(key: string): Promise<string | undefined> {
+  const cached = await get<CachedResponse>('llmCache', key)
+  if (!cached) return undefined
+  if (cached.expiresAt <= Date.now()) {
+    await remove('llmCache', key)
+    return undefined
+  }
+  return cached.content
+}
+
+export function putCachedResponse(key: string, task: LLMTask, content: string): Promise<void> {
+  const now = Date.now()
+  return put<CachedResponse>('llmCache', {
+    id: key,
+    task,
+    content,
+    createdAt: now,
+    expiresAt: now + CACHE_TTL_MS,
+  })
+}
+
+export function clearResponseCache(): Promise<void> {
+  return clear('llmCache')
+}
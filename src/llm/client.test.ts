@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ChatRequest } from './providers'
+import type { LLMClient } from './client'
+import { responseCacheKey } from './cache'
+import { completeJSON, completeText } from './client'
+
+vi.mock('../usage/usage', () => ({ recordUsage: () => Promise.resolve() }))
+
+// The response cache lives in IndexedDB; an in-memory map stands in for it
+const cached = new Map<string, string>()
+vi.mock('./cache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./cache')>()),
+  getCachedResponse: (key: string) => Promise.resolve(cached.get(key)),
+  putCachedResponse: (key: string, _task: string, content: string) => {
+    cached.set(key, content)
+    return Promise.resolve()
+  },
+}))
+
+/** A client whose model gives the `replies` in turn, recording the requests it gets. */
+function fakeClient(
+  replies: string[],
+  cache: LLMClient['cache'] = 'refresh',
+): LLMClient & { requests: ChatRequest[] } {
+  const requests: ChatRequest[] = []
+  return {
+    provider: {
+      id: 'openai',
+      chat: async (request) => {
+        requests.push(request)
+        return { content: replies[requests.length - 1] ?? '' }
+      },
+    },
+    models: { detect: 'model', analyze: 'model', translate: 'model' },
+    endpoint: '',
+    cache,
+    limit: (request) => request(),
+    requests,
+  }
+}
+
+const MESSAGES = [{ role: 'user' as const, content: 'List some words.' }]
+
+describe('completeJSON', () => {
+  it('parses JSON wrapped in prose or code fences', async () => {
+    const client = fakeClient(['Here you go:\n```json\n{ "words": [] }\n```'])
+    expect(await completeJSON(client, 'analyze', MESSAGES)).toEqual({ words: [] })
+    expect(client.requests).toHaveLength(1)
+  })
+
+  it('shows the model an invalid reply and asks once more for JSON', async () => {
+    const client = fakeClient(['{ "words": [', '{ "words": [] }'])
+    expect(await completeJSON(client, 'analyze', MESSAGES)).toEqual({ words: [] })
+    expect(client.requests[1].messages.slice(-2)).toMatchObject([
+      { role: 'assistant', content: '{ "words": [' },
+      { role: 'user' },
+    ])
+  })
+
+  it('fails when the retry is not JSON either', async () => {
+    const client = fakeClient(['not json', 'still not json'])
+    await expect(completeJSON(client, 'analyze', MESSAGES)).rejects.toThrow()
+    expect(client.requests).toHaveLength(2)
+  })
+})
+
+describe('response cache', () => {
+  beforeEach(() => cached.clear())
+
+  it('keys a request by everything that affects the reply', async () => {
+    const request = { provider: 'openai', model: 'model', messages: MESSAGES }
+    expect(await responseCacheKey(request)).toBe(await responseCacheKey({ ...request }))
+    expect(await responseCacheKey(request)).not.toBe(await responseCacheKey({ ...request, model: 'other' }))
+    expect(await responseCacheKey(request)).not.toBe(await responseCacheKey({ ...request, temperature: 0 }))
+  })
+
+  it('answers a repeated request from the cache', async () => {
+    expect(await completeText(fakeClient(['Hola'], 'use'), 'translate', MESSAGES)).toBe('Hola')
+    const client = fakeClient(['Adiós'], 'use')
+    expect(await completeText(client, 'translate', MESSAGES)).toBe('Hola')
+    expect(client.requests).toHaveLength(0)
+  })
+
+  it('asks again when the cache is refreshed', async () => {
+    await completeText(fakeClient(['Hola'], 'use'), 'translate', MESSAGES)
+    const client = fakeClient(['Adiós'])
+    expect(await completeText(client, 'translate', MESSAGES)).toBe('Adiós')
+    expect(client.requests).toHaveLength(1)
+  })
+
+  it('does not keep a reply that is not JSON', async () => {
+    await expect(completeJSON(fakeClient(['oops', 'oops'], 'use'), 'analyze', MESSAGES)).rejects.toThrow()
+    expect(cached.size).toBe(0)
+    const client = fakeClient(['{ "words": [] }'], 'use')
+    expect(await completeJSON(client, 'analyze', MESSAGES)).toEqual({ words: [] })
+    expect(client.requests).toHaveLength(1)
+  })
+
+  it('keeps a repaired reply for the original request', async () => {
+    await completeJSON(fakeClient(['{ "words": [', '{ "words": [] }'], 'use'), 'analyze', MESSAGES)
+    const client = fakeClient([], 'use')
+    expect(await completeJSON(client, 'analyze', MESSAGES)).toEqual({ words: [] })
+    expect(client.requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,222 @@
+import type { ChatMessage, LLMProvider, LLMSettings, LLMTask } from './providers'
+import { createProvider } from './providers'
+import { getCachedResponse, putCachedResponse, responseCacheKey } from './cache'
+import { estimateCost, estimateTokens } from '../usage/pricing'
+import type { UsageRecord } from '../usage/usage'
+import { recordUsage } from '../usage/usage'
+import { t } from '../i18n/i18n'
+
+/** A provider plus the model to use for each task. */
+export type LLMClient = {
+  provider: LLMProvider
+  models: Record<LLMTask, string>
+  /** Distinguishes servers in the response cache (the base URL for OpenAI-compatible providers). */
+  endpoint: string
+  /** `'refresh'` skips cached responses but still stores the new ones. */
+  cache: 'use' | 'refresh'
+  /** Song the calls are made for, recorded with their usage. */
+  song?: string
+  onUsage?: (record: UsageRecord) => void
+  /** Aborts every request made through this client. */
+  signal?: AbortSignal
+  /** Queues requests so that no more than the client's concurrency limit are in flight. */
+  limit: <T>(request: () => Promise<T>) => Promise<T>
+}
+
+type ClientOptions = Partial<Pick<LLMClient, 'cache' | 'song' | 'onUsage' | 'signal'>> & {
+  concurrency?: number
+}
+
+/** Requests a client runs at once, e.g. when the chunks of a long song are analysed in parallel. */
+const MAX_CONCURRENT_REQUESTS = 3
+
+export function createLLMClient(settings: LLMSettings, options: ClientOptions = {}): LLMClient {
+  return {
+    provider: createProvider(settings),
+    models: settings.models,
+    endpoint: settings.provider === 'openai-compatible' ? settings.baseUrl.trim() : '',
+    cache: options.cache ?? 'use',
+    song: options.song,
+    onUsage: options.onUsage,
+    signal: options.signal,
+    limit: createLimiter(options.concurrency ?? MAX_CONCURRENT_REQUESTS),
+  }
+}
+
+function createLimiter(max: number): LLMClient['limit'] {
+  let active = 0
+  const waiting: Array<() => void> = []
+  return async (request) => {
+    while (active >= max) await new Promise<void>((resolve) => waiting.push(resolve))
+    active++
+    try {
+      return await request()
+    } finally {
+      active--
+      waiting.shift()?.()
+    }
+  }
+}
+
+/** True for the error a request throws when its client's signal is aborted. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+type CompletionOptions = {
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  /** Stream the response, passing each chunk of text as it arrives. */
+  onDelta?: (text: string) => void
+}
+
+/** Store tokens and estimated cost of a call. Accounting problems never fail the call itself. */
+function trackUsage(
+  client: LLMClient,
+  task: LLMTask,
+  messages: ChatMessage[],
+  content: string,
+  usage: { inputTokens: number; outputTokens: number } | undefined,
+) {
+  const model = client.models[task]
+  const tokens = usage ?? {
+    inputTokens: estimateTokens(messages.map((m) => m.content).join('\n')),
+    outputTokens: estimateTokens(content),
+  }
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    task,
+    provider: client.provider.id,
+    model,
+    ...tokens,
+    estimated: !usage,
+    cost: estimateCost(client.provider.id, model, tokens),
+    song: client.song,
+    createdAt: Date.now(),
+  }
+  recordUsage(record)
+    .then(() => client.onUsage?.(record))
+    .catch((err) => console.error('Could not record LLM usage:', err))
+}
+
+type Completion = {
+  content: string
+  /** Cache key of the request, for storing the reply once it is known to be usable. */
+  key: string
+  fromCache: boolean
+}
+
+/** Run one chat completion, or answer it from the cache. The reply is not cached here. */
+async function requestCompletion(
+  client: LLMClient,
+  task: LLMTask,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+): Promise<Completion> {
+  const { onDelta, ...params } = options
+  const request = { model: client.models[task], messages, ...params }
+  const key = await responseCacheKey({ provider: client.provider.id, endpoint: client.endpoint, ...request })
+  if (client.cache === 'use') {
+    const cached = await getCachedResponse(key).catch(() => undefined)
+    if (cached) {
+      onDelta?.(cached)
+      return { content: cached, key, fromCache: true }
+    }
+  }
+
+  let content: string
+  try {
+    const response = await client.limit(() =>
+      client.provider.chat({ ...request, signal: client.signal, onDelta }),
+    )
+    content = response.content.trim()
+    trackUsage(client, task, messages, content, response.usage)
+  } catch (err) {
+    if (isAbortError(err)) throw err
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(t('error.taskFailed', { task: t(`task.${task}`), reason: message }))
+  }
+  if (!content) {
+    throw new Error(t('error.taskFailed', { task: t(`task.${task}`), reason: t('error.noResponse') }))
+  }
+  return { content, key, fromCache: false }
+}
+
+function storeResponse(key: string, task: LLMTask, content: string): void {
+  putCachedResponse(key, task, content).catch((err) => console.error('Could not cache LLM response:', err))
+}
+
+/**
+ * Run one chat completion for a task and return the raw text. Identical requests are answered from
+ * the local cache. Errors name the task that failed.
+ */
+export async function completeText(
+  client: LLMClient,
+  task: LLMTask,
+  messages: ChatMessage[],
+  options: CompletionOptions = {},
+): Promise<string> {
+  const completion = await requestCompletion(client, task, messages, options)
+  if (!completion.fromCache) storeResponse(completion.key, task, completion.content)
+  return completion.content
+}
+
+/** Parse JSON from model output, tolerating markdown code fences and surrounding prose. */
+export function parseJSONContent<T>(content: string): T {
+  try {
+    return JSON.parse(content) as T
+  } catch {
+    // Sometimes the model wraps JSON in markdown code blocks
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+    if (fenced) return JSON.parse(fenced[1]) as T
+    // ...or adds a sentence before/after it
+    const start = content.search(/[[{]/)
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'))
+    if (start !== -1 && end > start) return JSON.parse(content.slice(start, end + 1)) as T
+    throw new Error(t('error.invalidResponse'))
+  }
+}
+
+/**
+ * Run a chat completion that must return JSON and parse it. If the reply isn't valid JSON, the model
+ * is shown its reply and asked once more for JSON only. Only replies that parse are cached, so a
+ * broken one is asked for again next time rather than replayed.
+ */
+export async function completeJSON<T>(
+  client: LLMClient,
+  task: LLMTask,
+  messages: ChatMessage[],
+  options: Omit<CompletionOptions, 'json'> = {},
+): Promise<T> {
+  const completion = await requestCompletion(client, task, messages, { ...options, json: true })
+  const { content } = completion
+  try {
+    const parsed = parseJSONContent<T>(content)
+    if (!completion.fromCache) storeResponse(completion.key, task, content)
+    return parsed
+  } catch {
+    // Fall through to one repair attempt
+  }
+  const { content: retried } = await requestCompletion(
+    client,
+    task,
+    [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: 'That reply was not valid JSON. Send the same answer again as valid JSON only, with no other text.',
+      },
+    ],
+    { ...options, onDelta: undefined, json: true },
+  )
+  try {
+    const parsed = parseJSONContent<T>(retried)
+    // Stored for the original request, which then gets the corrected reply straight away
+    storeResponse(completion.key, task, retried)
+    return parsed
+  } catch {
+    throw new Error(t('error.taskFailed', { task: t(`task.${task}`), reason: t('error.invalidResponse') }))
+  }
+}
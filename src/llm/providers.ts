@@ -0,0 +1,362 @@
+import { t } from '../i18n/i18n'
+
+/** Tasks the app sends to an LLM. Each one can use its own model. */
+export type LLMTask = 'detect' | 'analyze' | 'translate'
+
+export type ProviderId = 'openai' | 'openai-compatible' | 'anthropic' | 'gemini'
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type ChatRequest = {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  /** Ask the provider for a JSON object response when it supports it. */
+  json?: boolean
+  signal?: AbortSignal
+  /** When set, the response is streamed and each chunk of text is passed here as it arrives. */
+  onDelta?: (text: string) => void
+}
+
+export type TokenUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type ChatResponse = {
+  content: string
+  /** Token counts as reported by the provider, when it reports them. */
+  usage?: TokenUsage
+}
+
+export type LLMProvider = {
+  id: ProviderId
+  chat: (request: ChatRequest) => Promise<ChatResponse>
+}
+
+export type LLMSettings = {
+  provider: ProviderId
+  apiKey: string
+  /** Only used by the OpenAI-compatible provider (Ollama, llama.cpp, LM Studio...). */
+  baseUrl: string
+  models: Record<LLMTask, string>
+}
+
+type ProviderInfo = {
+  label: string
+  keyRequired: boolean
+  keyPlaceholder: string
+  keyHelpUrl?: string
+  defaultModels: Record<LLMTask, string>
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  openai: {
+    label: 'OpenAI',
+    keyRequired: true,
+    keyPlaceholder: 'sk-...',
+    keyHelpUrl: 'https://platform.openai.com/api-keys',
+    defaultModels: { detect: 'gpt-4o-mini', analyze: 'gpt-4o-mini', translate: 'gpt-4o' },
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible (Ollama, llama.cpp...)',
+    keyRequired: false,
+    keyPlaceholder: 'Optional for local servers',
+    defaultModels: { detect: 'llama3.1', analyze: 'llama3.1', translate: 'llama3.1' },
+  },
+  anthropic: {
+    label: 'Anthropic',
+    keyRequired: true,
+    keyPlaceholder: 'sk-ant-...',
+    keyHelpUrl: 'https://console.anthropic.com/settings/keys',
+    defaultModels: {
+      detect: 'claude-3-5-haiku-latest',
+      analyze: 'claude-3-5-haiku-latest',
+      translate: 'claude-3-5-sonnet-latest',
+    },
+  },
+  gemini: {
+    label: 'Google Gemini',
+    keyRequired: true,
+    keyPlaceholder: 'AIza...',
+    keyHelpUrl: 'https://aistudio.google.com/app/apikey',
+    defaultModels: { detect: 'gemini-2.0-flash', analyze: 'gemini-2.0-flash', translate: 'gemini-2.0-flash' },
+  },
+}
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1'
+
+export function defaultLLMSettings(provider: ProviderId = 'openai'): LLMSettings {
+  return {
+    provider,
+    apiKey: '',
+    baseUrl: DEFAULT_BASE_URL,
+    models: { ...PROVIDERS[provider].defaultModels },
+  }
+}
+
+/** POST a JSON body, throwing the provider's error message on failure. */
+async function post(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    const message =
+      errorData.error?.message ||
+      (typeof errorData.error === 'string' ? errorData.error : '') ||
+      response.statusText
+    throw new Error(`${response.status} - ${message}`)
+  }
+
+  return response
+}
+
+/** POST a JSON body and return the parsed JSON response. */
+async function postJSON(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  return (await post(url, headers, body, signal)).json()
+}
+
+/** Read a server-sent events stream, passing the parsed JSON `data` of each event. */
+async function readEvents(response: Response, onData: (data: unknown) => void): Promise<void> {
+  if (!response.body) throw new Error(t('error.noStreaming'))
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  const flush = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim())
+      .join('\n')
+    if (!data || data === '[DONE]') return
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(data)
+    } catch {
+      return // Keep-alive comments and other non-JSON events
+    }
+    onData(parsed)
+  }
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() ?? ''
+    events.forEach(flush)
+  }
+  flush(buffer)
+}
+
+function createOpenAIProvider(id: ProviderId, baseUrl: string, apiKey: string): LLMProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`
+  return {
+    id,
+    async chat(request) {
+      const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+      const body = {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      }
+      type Usage = { prompt_tokens?: number; completion_tokens?: number }
+      const toUsage = (usage: Usage) => ({
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+      })
+
+      if (request.onDelta) {
+        const onDelta = request.onDelta
+        const response = await post(
+          url,
+          headers,
+          // Local servers don't all accept `stream_options`; they are estimated from text instead.
+          { ...body, stream: true, stream_options: id === 'openai' ? { include_usage: true } : undefined },
+          request.signal,
+        )
+        let content = ''
+        let usage: TokenUsage | undefined
+        await readEvents(response, (data) => {
+          const chunk = data as { choices?: Array<{ delta?: { content?: string } }>; usage?: Usage }
+          const text = chunk.choices?.[0]?.delta?.content
+          if (text) {
+            content += text
+            onDelta(text)
+          }
+          if (chunk.usage) usage = toUsage(chunk.usage)
+        })
+        return { content, usage }
+      }
+
+      const data = (await postJSON(url, headers, body, request.signal)) as {
+        choices?: Array<{ message?: { content?: string } }>
+        usage?: Usage
+      }
+      return {
+        content: data.choices?.[0]?.message?.content ?? '',
+        usage: data.usage && toUsage(data.usage),
+      }
+    },
+  }
+}
+
+function createAnthropicProvider(apiKey: string): LLMProvider {
+  return {
+    id: 'anthropic',
+    async chat(request) {
+      // Anthropic takes the system prompt separately from the conversation.
+      const system = request.messages
+        .filter((m) => m.role === 'system')
+        .map((m) => m.content)
+        .join('\n\n')
+      const url = 'https://api.anthropic.com/v1/messages'
+      const headers = {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      }
+      const body = {
+        model: request.model,
+        system: system || undefined,
+        messages: request.messages.filter((m) => m.role !== 'system'),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? 4096,
+      }
+
+      if (request.onDelta) {
+        const onDelta = request.onDelta
+        const response = await post(url, headers, { ...body, stream: true }, request.signal)
+        let content = ''
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+        await readEvents(response, (data) => {
+          const event = data as {
+            type?: string
+            delta?: { type?: string; text?: string }
+            message?: { usage?: { input_tokens?: number } }
+            usage?: { output_tokens?: number }
+          }
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text
+            onDelta(event.delta.text)
+          } else if (event.type === 'message_start') {
+            usage.inputTokens = event.message?.usage?.input_tokens ?? 0
+          } else if (event.type === 'message_delta') {
+            usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens
+          } else if (event.type === 'error') {
+            const message = (data as { error?: { message?: string } }).error?.message
+            throw new Error(message ?? t('error.streamFailed'))
+          }
+        })
+        return { content, usage }
+      }
+
+      const data = (await postJSON(url, headers, body, request.signal)) as {
+        content?: Array<{ type: string; text?: string }>
+        usage?: { input_tokens?: number; output_tokens?: number }
+      }
+      const content = (data.content ?? [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('')
+      return {
+        content,
+        usage: data.usage && {
+          inputTokens: data.usage.input_tokens ?? 0,
+          outputTokens: data.usage.output_tokens ?? 0,
+        },
+      }
+    },
+  }
+}
+
+function createGeminiProvider(apiKey: string): LLMProvider {
+  return {
+    id: 'gemini',
+    async chat(request) {
+      const system = request.messages
+        .filter((m) => m.role === 'system')
+        .map((m) => m.content)
+        .join('\n\n')
+      const base = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(request.model)}`
+      const key = `key=${encodeURIComponent(apiKey)}`
+      const body = {
+        systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+        contents: request.messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: m.content }],
+          })),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          responseMimeType: request.json ? 'application/json' : undefined,
+        },
+      }
+      type GeminiResponse = {
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+        usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+      }
+      const textOf = (data: GeminiResponse) =>
+        (data.candidates?.[0]?.content?.parts ?? []).map((p) => p.text ?? '').join('')
+      const usageOf = (data: GeminiResponse) =>
+        data.usageMetadata && {
+          inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+        }
+
+      if (request.onDelta) {
+        const onDelta = request.onDelta
+        const response = await post(`${base}:streamGenerateContent?alt=sse&${key}`, {}, body, request.signal)
+        let content = ''
+        let usage: TokenUsage | undefined
+        await readEvents(response, (data) => {
+          const text = textOf(data as GeminiResponse)
+          if (text) {
+            content += text
+            onDelta(text)
+          }
+          usage = usageOf(data as GeminiResponse) ?? usage
+        })
+        return { content, usage }
+      }
+
+      const data = (await postJSON(`${base}:generateContent?${key}`, {}, body, request.signal)) as GeminiResponse
+      return { content: textOf(data), usage: usageOf(data) }
+    },
+  }
+}
+
+export function createProvider(settings: LLMSettings): LLMProvider {
+  const apiKey = settings.apiKey.trim()
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider('openai', 'https://api.openai.com/v1', apiKey)
+    case 'openai-compatible':
+      return createOpenAIProvider('openai-compatible', settings.baseUrl.trim() || DEFAULT_BASE_URL, apiKey)
+    case 'anthropic':
+      return createAnthropicProvider(apiKey)
+    case 'gemini':
+      return createGeminiProvider(apiKey)
+  }
+}
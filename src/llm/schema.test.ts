@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+
+import { checkLanguageCode, checkTranslationEntry, checkWordItem, checkWordLookup, listPayload } from './schema'
+
+const WORD = { word: 'corazón', difficulty: 'stretch', explanation: 'heart', example: 'Mi corazón late' }
+
+describe('listPayload', () => {
+  it('accepts a keyed list or a bare array', () => {
+    expect(listPayload({ words: [1] }, 'words')).toEqual([1])
+    expect(listPayload([1], 'words')).toEqual([1])
+    expect(listPayload({ items: [1] }, 'words')).toBeNull()
+    expect(listPayload(null, 'words')).toBeNull()
+  })
+})
+
+describe('checkLanguageCode', () => {
+  it('canonicalizes valid tags and rejects the rest', () => {
+    expect(checkLanguageCode('pt-br')).toBe('pt-BR')
+    expect(checkLanguageCode('und')).toBeUndefined()
+    expect(checkLanguageCode('not a tag')).toBeUndefined()
+    expect(checkLanguageCode(7)).toBeUndefined()
+  })
+})
+
+describe('checkWordItem', () => {
+  it('accepts a complete entry and normalizes its optional fields', () => {
+    const checked = checkWordItem({
+      ...WORD,
+      difficulty: ' Stretch ',
+      partOfSpeech: 'n.',
+      gender: 'm',
+      ipa: '/koɾaˈθon/',
+    })
+    expect(checked).toEqual({
+      ok: true,
+      value: expect.objectContaining({
+        difficulty: 'stretch',
+        partOfSpeech: 'noun',
+        gender: 'masculine',
+        ipa: 'koɾaˈθon',
+      }),
+    })
+  })
+
+  it('says what is wrong with an invalid entry', () => {
+    expect(checkWordItem(null)).toEqual({ ok: false, error: 'entry is not an object' })
+    expect(checkWordItem({ ...WORD, word: ' ' })).toEqual({ ok: false, error: 'missing "word"' })
+    expect(checkWordItem({ ...WORD, difficulty: 'hard' })).toMatchObject({ ok: false, error: /difficulty/ })
+    expect(checkWordItem({ ...WORD, example: 3 })).toEqual({ ok: false, error: 'missing "example"' })
+  })
+})
+
+describe('checkWordLookup', () => {
+  it('accepts a reply with a known difficulty, leaving missing text empty', () => {
+    expect(checkWordLookup({ translation: ' heart ', explanation: 7, difficulty: 'Comfortable' })).toEqual({
+      ok: true,
+      value: { translation: 'heart', explanation: '', difficulty: 'comfortable' },
+    })
+  })
+
+  it('rejects a reply that is not an object or has no known difficulty', () => {
+    expect(checkWordLookup(['heart'])).toMatchObject({ ok: false })
+    expect(checkWordLookup({ translation: 'heart' })).toMatchObject({ ok: false, error: /difficulty/ })
+  })
+})
+
+describe('checkTranslationEntry', () => {
+  it('checks the entry number against the request', () => {
+    expect(checkTranslationEntry({ n: '2', translation: 'heart' }, 2)).toEqual({
+      ok: true,
+      value: { n: 2, translation: 'heart' },
+    })
+    expect(checkTranslationEntry({ n: 3, translation: 'heart' }, 2)).toMatchObject({ ok: false })
+    expect(checkTranslationEntry({ n: 1, translation: null }, 2)).toMatchObject({ ok: false })
+  })
+})
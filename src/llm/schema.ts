@@ -0,0 +1,226 @@
+import type { DifficultyBand, GrammarNoteKind, LLMGrammarNote, LLMWordItem, PartOfSpeech } from '../types'
+import type { WordLookup } from './tasks'
+
+/** Outcome of checking one entry of a model response against its expected shape. */
+export type Checked<T> = { ok: true; value: T } | { ok: false; error: string }
+
+export const DIFFICULTY_BANDS: DifficultyBand[] = ['comfortable', 'stretch', 'challenging']
+
+export const PARTS_OF_SPEECH: PartOfSpeech[] = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'pronoun',
+  'preposition',
+  'conjunction',
+  'determiner',
+  'numeral',
+  'interjection',
+  'phrase',
+  'other',
+]
+
+// Abbreviations and near-synonyms models use instead of the canonical names.
+const POS_ALIASES: Record<string, PartOfSpeech> = {
+  n: 'noun',
+  v: 'verb',
+  adj: 'adjective',
+  adv: 'adverb',
+  pron: 'pronoun',
+  prep: 'preposition',
+  conj: 'conjunction',
+  article: 'determiner',
+  number: 'numeral',
+  expression: 'phrase',
+  idiom: 'phrase',
+  'phrasal verb': 'phrase',
+}
+
+export const GRAMMAR_NOTE_KINDS: GrammarNoteKind[] = ['grammar', 'idiom']
+
+// Other names models give to notes that are about a set phrase rather than a rule.
+const NOTE_KIND_ALIASES: Record<string, GrammarNoteKind> = {
+  expression: 'idiom',
+  phrase: 'idiom',
+  'phrasal verb': 'idiom',
+  collocation: 'idiom',
+}
+
+const GENDERS: Record<string, string> = {
+  m: 'masculine',
+  masculine: 'masculine',
+  f: 'feminine',
+  feminine: 'feminine',
+  n: 'neuter',
+  neuter: 'neuter',
+  c: 'common',
+  common: 'common',
+}
+
+/** One numbered entry of the word translation payload. */
+export type TranslationEntry = {
+  /** 1-based position of the word in the request. */
+  n: number
+  translation: string
+}
+
+/** One numbered entry of the stanza language payload. */
+export type StanzaLanguageEntry = {
+  /** 1-based position of the stanza in the request. */
+  n: number
+  language: string
+  code?: string
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+/** The entries of a list payload, given either as `{ [key]: [...] }` or as a bare array. */
+export function listPayload(parsed: unknown, key: string): unknown[] | null {
+  if (Array.isArray(parsed)) return parsed
+  if (isRecord(parsed) && Array.isArray(parsed[key])) return parsed[key]
+  return null
+}
+
+/** A well-formed language tag in canonical case (`pt-br` → `pt-BR`), or undefined. */
+export function checkLanguageCode(value: unknown): string | undefined {
+  const code = text(value)
+  if (!code || code.toLowerCase() === 'und') return undefined
+  try {
+    return Intl.getCanonicalLocales(code)[0]
+  } catch {
+    return undefined
+  }
+}
+
+export function checkDifficulty(value: unknown): DifficultyBand | undefined {
+  const band = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return DIFFICULTY_BANDS.find((b) => b === band)
+}
+
+/** A part of speech from the model, mapped onto the known ones; anything else is `other`. */
+export function checkPartOfSpeech(value: unknown): PartOfSpeech | undefined {
+  const pos = text(value)?.toLowerCase().replace(/\.$/, '')
+  if (!pos) return undefined
+  return PARTS_OF_SPEECH.find((p) => p === pos) ?? POS_ALIASES[pos] ?? 'other'
+}
+
+export function checkGender(value: unknown): string | undefined {
+  const gender = text(value)?.toLowerCase()
+  return gender ? GENDERS[gender] : undefined
+}
+
+/** IPA without the slashes or brackets models wrap it in. */
+function checkIPA(value: unknown): string | undefined {
+  return text(value)?.replace(/^[/[]+|[/\]]+$/g, '').trim() || undefined
+}
+
+export function checkWordItem(raw: unknown): Checked<LLMWordItem> {
+  if (!isRecord(raw)) return { ok: false, error: 'entry is not an object' }
+  const word = text(raw.word) ?? text(raw.phrase)
+  if (!word) return { ok: false, error: 'missing "word"' }
+  const difficulty = checkDifficulty(raw.difficulty)
+  if (!difficulty) {
+    return {
+      ok: false,
+      error: `invalid "difficulty" ${JSON.stringify(raw.difficulty ?? null)}; use ${DIFFICULTY_BANDS.join(', ')}`,
+    }
+  }
+  const explanation = text(raw.explanation)
+  if (!explanation) return { ok: false, error: 'missing "explanation"' }
+  const example = text(raw.example)
+  if (!example) return { ok: false, error: 'missing "example"' }
+  return {
+    ok: true,
+    value: {
+      word,
+      phrase: text(raw.phrase),
+      difficulty,
+      explanation,
+      example,
+      language: checkLanguageCode(raw.language),
+      lemma: text(raw.lemma),
+      partOfSpeech: checkPartOfSpeech(raw.partOfSpeech),
+      gender: checkGender(raw.gender),
+      article: text(raw.article),
+      ipa: checkIPA(raw.ipa),
+    },
+  }
+}
+
+/** The reply to a single word lookup. A missing translation or explanation is left empty. */
+export function checkWordLookup(raw: unknown): Checked<WordLookup> {
+  if (!isRecord(raw)) return { ok: false, error: 'reply is not an object' }
+  const difficulty = checkDifficulty(raw.difficulty)
+  if (!difficulty) {
+    return {
+      ok: false,
+      error: `invalid "difficulty" ${JSON.stringify(raw.difficulty ?? null)}; use ${DIFFICULTY_BANDS.join(', ')}`,
+    }
+  }
+  return {
+    ok: true,
+    value: { translation: text(raw.translation) ?? '', explanation: text(raw.explanation) ?? '', difficulty },
+  }
+}
+
+/** A grammar note whose line numbers are checked against the `lineCount` lines it was shown. */
+export function checkGrammarNote(raw: unknown, lineCount: number): Checked<LLMGrammarNote> {
+  if (!isRecord(raw)) return { ok: false, error: 'entry is not an object' }
+  const kindName = text(raw.kind)?.toLowerCase() ?? ''
+  const kind = GRAMMAR_NOTE_KINDS.find((k) => k === kindName) ?? NOTE_KIND_ALIASES[kindName]
+  if (!kind) {
+    return {
+      ok: false,
+      error: `invalid "kind" ${JSON.stringify(raw.kind ?? null)}; use ${GRAMMAR_NOTE_KINDS.join(', ')}`,
+    }
+  }
+  const title = text(raw.title)
+  if (!title) return { ok: false, error: 'missing "title"' }
+  const lyricText = text(raw.text)
+  if (!lyricText) return { ok: false, error: 'missing "text"' }
+  const rule = text(raw.rule)
+  if (!rule) return { ok: false, error: 'missing "rule"' }
+  return {
+    ok: true,
+    value: {
+      kind,
+      title,
+      text: lyricText,
+      rule,
+      examples: Array.isArray(raw.examples) ? raw.examples.flatMap((example) => text(example) ?? []) : [],
+      lines: Array.isArray(raw.lines)
+        ? raw.lines.map(Number).filter((n) => Number.isInteger(n) && n >= 1 && n <= lineCount)
+        : [],
+      language: checkLanguageCode(raw.language),
+    },
+  }
+}
+
+export function checkTranslationEntry(raw: unknown, count: number): Checked<TranslationEntry> {
+  if (!isRecord(raw)) return { ok: false, error: 'entry is not an object' }
+  const n = Number(raw.n)
+  if (!Number.isInteger(n) || n < 1 || n > count) {
+    return { ok: false, error: `"n" must be a number from 1 to ${count}` }
+  }
+  const translation = text(raw.translation)
+  if (!translation) return { ok: false, error: `missing "translation" for ${n}` }
+  return { ok: true, value: { n, translation } }
+}
+
+export function checkStanzaLanguage(raw: unknown, count: number): Checked<StanzaLanguageEntry> {
+  if (!isRecord(raw)) return { ok: false, error: 'entry is not an object' }
+  const n = Number(raw.n)
+  if (!Number.isInteger(n) || n < 1 || n > count) {
+    return { ok: false, error: `"n" must be a number from 1 to ${count}` }
+  }
+  const language = text(raw.language)
+  if (!language) return { ok: false, error: `missing "language" for ${n}` }
+  return { ok: true, value: { n, language, code: checkLanguageCode(raw.code) } }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { createListStreamParser } from './stream'
+
+/** Feed `text` to a new parser in chunks of `size` characters and collect the items it emits. */
+function parseInChunks(text: string, size: number): unknown[] {
+  const items: unknown[] = []
+  const feed = createListStreamParser((item) => items.push(item))
+  for (let i = 0; i < text.length; i += size) feed(text.slice(i, i + size))
+  return items
+}
+
+const RESPONSE = '{ "words": [{ "word": "sol", "n": 1 }, { "word": "luna", "n": 2 }], "notes": [{ "n": 3 }] }'
+
+describe('createListStreamParser', () => {
+  it.each([1, 3, 7, RESPONSE.length])('emits each item of the first list, in chunks of %i', (size) => {
+    expect(parseInChunks(RESPONSE, size)).toEqual([
+      { word: 'sol', n: 1 },
+      { word: 'luna', n: 2 },
+    ])
+  })
+
+  it('emits an item as soon as it closes', () => {
+    const items: unknown[] = []
+    const feed = createListStreamParser((item) => items.push(item))
+    feed('{ "words": [{ "word": "sol" }, { "word": ')
+    expect(items).toEqual([{ word: 'sol' }])
+  })
+
+  it('reads a bare array', () => {
+    expect(parseInChunks('[{ "n": 1 }, { "n": 2 }]', 4)).toEqual([{ n: 1 }, { n: 2 }])
+  })
+
+  it('ignores brackets, braces and escaped quotes inside strings', () => {
+    const text = '{ "words": [{ "example": "a } b ] \\" [ {" , "list": [1, 2] }] }'
+    expect(parseInChunks(text, 5)).toEqual([{ example: 'a } b ] " [ {', list: [1, 2] }])
+  })
+
+  it('skips an item that is not valid JSON', () => {
+    expect(parseInChunks('[{ "n": 1, }, { "n": 2 }]', 4)).toEqual([{ n: 2 }])
+  })
+})
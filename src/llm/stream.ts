@@ -0,0 +1,51 @@
+/**
+ * Incremental parser for a streamed JSON response holding a list, either `{ "key": [...] }` or a bare
+ * array. Feed it text chunks; each object of the first array is passed to `onItem` as soon as its
+ * closing brace arrives, long before the whole document is valid JSON.
+ */
+export function createListStreamParser(onItem: (raw: unknown) => void): (chunk: string) => void {
+  let text = ''
+  let pos = 0
+  let depth = 0
+  let listDepth = -1
+  let itemStart = -1
+  let inString = false
+  let escaped = false
+  let finished = false
+
+  return (chunk: string) => {
+    if (finished) return
+    text += chunk
+    for (; pos < text.length; pos++) {
+      const ch = text[pos]
+      if (inString) {
+        if (escaped) escaped = false
+        else if (ch === '\\') escaped = true
+        else if (ch === '"') inString = false
+        continue
+      }
+      if (ch === '"') {
+        inString = true
+      } else if (ch === '[' || ch === '{') {
+        if (ch === '{' && depth === listDepth) itemStart = pos
+        depth++
+        if (ch === '[' && listDepth === -1) listDepth = depth
+      } else if (ch === ']' || ch === '}') {
+        depth--
+        if (ch === '}' && depth === listDepth && itemStart !== -1) {
+          let item: unknown
+          try {
+            item = JSON.parse(text.slice(itemStart, pos + 1))
+          } catch {
+            item = undefined // Not valid on its own; the final parse of the full response still sees it
+          }
+          itemStart = -1
+          if (item !== undefined) onItem(item)
+        } else if (ch === ']' && depth === listDepth - 1) {
+          finished = true // Later lists are not items
+          return
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,836 @@
+import type {
+  DifficultyBand,
+  GrammarNote,
+  LearningItem,
+  LLMGrammarNote,
+  LLMWordItem,
+  TranslationStyle,
+  UserLevel,
+} from '../types'
+import { BAND_SCORES } from '../offline/analyze'
+import type { DetectedLanguage } from '../offline/detectLanguage'
+import { detectLanguageOffline, languageCodeForLabel } from '../offline/detectLanguage'
+import { splitLines } from '../text/tokenize'
+import { t } from '../i18n/i18n'
+import { anchorNotes } from '../text/anchor'
+import type { Stanza } from '../text/chunks'
+import { chunkLyrics, chunkStanzas, mergeItems, splitStanzas } from '../text/chunks'
+import type { LLMClient } from './client'
+import { completeJSON, completeText } from './client'
+import {
+  PARTS_OF_SPEECH,
+  checkGrammarNote,
+  checkStanzaLanguage,
+  checkTranslationEntry,
+  checkWordItem,
+  checkWordLookup,
+  listPayload,
+} from './schema'
+import type { StanzaLanguageEntry } from './schema'
+import { createListStreamParser } from './stream'
+
+/** Lyric lines sent per line-translation request, so long songs stay within output limits. */
+const LINE_BATCH_SIZE = 30
+
+/** Words sent per word-translation request. */
+const WORD_BATCH_SIZE = 60
+
+/** Stanzas whose language is identified per detection request. */
+const STANZA_BATCH_SIZE = 40
+
+/** Characters of each stanza shown for language detection; the opening lines are enough. */
+const STANZA_SAMPLE_LENGTH = 200
+
+const STYLE_INSTRUCTIONS: Record<TranslationStyle, string> = {
+  literal:
+    'Translate as literally as the target grammar allows, keeping the original word order and images, so a learner can map words across.',
+  natural:
+    'Translate naturally and idiomatically, the way a fluent speaker would say it, while keeping the meaning of each line.',
+}
+
+/** How many times invalid or missing entries are asked for again. */
+const MAX_REPAIR_ATTEMPTS = 2
+
+/** The client for a retry or repair, which has to reach the model rather than replay a cached reply. */
+function uncached(client: LLMClient): LLMClient {
+  return { ...client, cache: 'refresh' }
+}
+
+/** The language of one stanza of the lyrics. */
+export type StanzaLanguage = {
+  firstLine: number
+  lineCount: number
+  /** Language name in English (e.g. "Spanish", "Dutch"). */
+  language: string
+  /** Language code (e.g. `es`, `nl`), or `und` when it couldn't be determined. */
+  code: string
+}
+
+/**
+ * Ask the LLM for the language of each stanza, so songs that switch language aren't labelled by
+ * their opening lines alone. Stanzas it skips get the most common language of the others.
+ */
+export async function detectStanzaLanguages(client: LLMClient, lyrics: string): Promise<StanzaLanguage[]> {
+  const stanzas = splitStanzas(lyrics)
+  const batches: Stanza[][] = []
+  for (let offset = 0; offset < stanzas.length; offset += STANZA_BATCH_SIZE) {
+    batches.push(stanzas.slice(offset, offset + STANZA_BATCH_SIZE))
+  }
+  const answers = (await Promise.all(batches.map((batch) => requestStanzaLanguages(client, batch)))).flat()
+
+  const detected = stanzas.map((stanza, i): StanzaLanguage | undefined => {
+    const answer = answers[i]
+    if (!answer) return undefined
+    return {
+      firstLine: stanza.firstLine,
+      lineCount: stanza.lines.length,
+      language: answer.language,
+      code:
+        answer.code ??
+        languageCodeForLabel(answer.language) ??
+        detectLanguageOffline(stanza.lines.join('\n'))?.code ??
+        'und',
+    }
+  })
+  const fallback = mainLanguage(detected.filter((stanza) => stanza !== undefined))
+  return stanzas.map(
+    (stanza, i) =>
+      detected[i] ?? {
+        firstLine: stanza.firstLine,
+        lineCount: stanza.lines.length,
+        language: fallback.label,
+        code: fallback.code,
+      },
+  )
+}
+
+/** The language most of the lines are in. */
+export function mainLanguage(stanzas: StanzaLanguage[]): DetectedLanguage {
+  const lineCounts = new Map<string, number>()
+  for (const stanza of stanzas) {
+    lineCounts.set(stanza.code, (lineCounts.get(stanza.code) ?? 0) + stanza.lineCount)
+  }
+  let main: DetectedLanguage = { code: 'en', label: 'English' }
+  let most = 0
+  for (const stanza of stanzas) {
+    const count = lineCounts.get(stanza.code) ?? 0
+    if (count > most) [main, most] = [{ code: stanza.code, label: stanza.language }, count]
+  }
+  return main
+}
+
+/** The lines of some of the stanzas, e.g. those in the language being studied. */
+export function stanzaLyrics(lyrics: string, stanzas: StanzaLanguage[]): string {
+  const lines = splitLines(lyrics)
+  return stanzas
+    .map((stanza) => lines.slice(stanza.firstLine, stanza.firstLine + stanza.lineCount).join('\n'))
+    .join('\n\n')
+}
+
+/** Detect the main language of the lyrics. Returns language name in English (e.g. "Spanish", "Dutch"). */
+export async function detectLyricsLanguage(client: LLMClient, lyrics: string): Promise<string> {
+  return mainLanguage(await detectStanzaLanguages(client, lyrics)).label
+}
+
+/**
+ * A tiny request to each model the client uses, so a wrong key, model name or server address shows up
+ * before a whole analysis is started. Throws the provider's error.
+ */
+export async function testConnection(client: LLMClient): Promise<void> {
+  const tasks = (['detect', 'analyze', 'translate'] as const).filter(
+    (task, i, all) => all.findIndex((t) => client.models[t] === client.models[task]) === i,
+  )
+  const fresh = uncached(client)
+  for (const task of tasks) {
+    await completeText(fresh, task, [{ role: 'user', content: 'Reply with the single word OK.' }], {
+      temperature: 0,
+      maxTokens: 16,
+    })
+  }
+}
+
+/** One detection request. Returns the language of each stanza, or undefined where none came back. */
+async function requestStanzaLanguages(
+  client: LLMClient,
+  stanzas: Stanza[],
+): Promise<Array<StanzaLanguageEntry | undefined>> {
+  const list = stanzas
+    .map((stanza, i) => `${i + 1}.\n${stanza.lines.join('\n').slice(0, STANZA_SAMPLE_LENGTH).trim()}`)
+    .join('\n\n')
+  const prompt = `Identify the language of each numbered stanza of these song lyrics. Stanzas of the same song may be in different languages; name the language most of a stanza is in.
+
+${list}
+
+Return ONLY a JSON object with a "stanzas" array: one entry per numbered stanza, with "n" (the stanza's number), "language" (the language name in English, e.g. English, Spanish, Dutch, Hindi, Korean) and "code" (its ISO 639-1 code, e.g. en, es, nl, hi, ko).`
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'detect',
+    [
+      {
+        role: 'system',
+        content: 'You identify languages. Respond only with valid JSON, naming languages in English.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: 0, maxTokens: 40 + stanzas.length * 25 },
+  )
+
+  const languages: Array<StanzaLanguageEntry | undefined> = stanzas.map(() => undefined)
+  for (const entry of listPayload(parsed, 'stanzas') ?? []) {
+    const checked = checkStanzaLanguage(entry, stanzas.length)
+    if (checked.ok) {
+      languages[checked.value.n - 1] ??= {
+        ...checked.value,
+        language: checked.value.language.replace(/\n.*/s, ''),
+      }
+    }
+  }
+  return languages
+}
+
+/** How to treat the languages of lyrics that mix several. */
+export type LanguageFocus = {
+  /** Code of the song language, for items the model doesn't tag with a language of their own. */
+  langCode?: string
+  /** The learner's native language (English name): explanations are written in it, and its words are never suggested. */
+  nativeLangLabel?: string
+  /** Suggest words in the song language only, ignoring other languages mixed into the lyrics. */
+  studyOnly?: boolean
+}
+
+export type LLMAnalysis = {
+  items: LearningItem[]
+  /** Entries that stayed invalid after retries, described for the user. */
+  rejected: string[]
+}
+
+/**
+ * Find words to learn in the lyrics. Long lyrics are split into stanza-aligned chunks that are
+ * analysed in parallel (within the client's concurrency limit), and the results merged.
+ */
+export async function analyzeWithLLM(
+  client: LLMClient,
+  lyrics: string,
+  level: UserLevel,
+  songLangLabel: string,
+  knownWords: string[] = [],
+  focus: LanguageFocus = {},
+  /** Called with all valid items parsed so far, each time the streamed response completes another one. */
+  onItems?: (items: LearningItem[]) => void,
+): Promise<LLMAnalysis> {
+  const chunks = chunkLyrics(lyrics)
+  const streamed: LearningItem[][] = chunks.map(() => [])
+  const results = await Promise.all(
+    chunks.map((chunk, i) =>
+      analyzeChunk(
+        client,
+        chunk,
+        level,
+        songLangLabel,
+        knownWords,
+        focus,
+        onItems &&
+          ((items) => {
+            streamed[i] = items
+            onItems(mergeChunkItems(streamed))
+          }),
+      ),
+    ),
+  )
+  return {
+    items: mergeChunkItems(results.map((result) => result.items)),
+    rejected: results.flatMap((result) => result.rejected),
+  }
+}
+
+/** Items of all chunks, de-duplicated and numbered afresh. */
+function mergeChunkItems(chunkItems: LearningItem[][]): LearningItem[] {
+  return mergeItems(chunkItems.flat()).map((item, index) => ({ ...item, id: `${item.word}-${index}` }))
+}
+
+async function analyzeChunk(
+  client: LLMClient,
+  lyrics: string,
+  level: UserLevel,
+  songLangLabel: string,
+  knownWords: string[],
+  focus: LanguageFocus,
+  onItems?: (items: LearningItem[]) => void,
+): Promise<LLMAnalysis> {
+  const levelDescriptions: Record<UserLevel, string> = {
+    A1: 'beginner (A1) - basic vocabulary, simple words',
+    A2: 'elementary (A2) - common everyday words',
+    B1: 'intermediate (B1) - moderately complex vocabulary',
+    B2: 'upper-intermediate (B2) - advanced vocabulary',
+    C1: 'advanced (C1) - sophisticated vocabulary',
+    C2: 'proficient (C2) - very advanced and nuanced vocabulary',
+  }
+
+  const prompt = `You are a ${songLangLabel} language learning assistant. Analyze the following song lyrics (in ${songLangLabel}) and identify words and phrases that would be appropriate for a learner at ${levelDescriptions[level]} level in ${songLangLabel}.
+
+Song lyrics (${songLangLabel}):
+"""
+${lyrics}
+"""
+
+Please identify words and phrases (2-4 words) that:
+1. Are appropriate for ${levelDescriptions[level]} level learners of ${songLangLabel}
+2. Would help expand their vocabulary
+3. Are not too basic (they should challenge the learner slightly)
+4. Include useful idiomatic expressions or phrasal verbs when appropriate for ${songLangLabel}
+${knownWords.length > 0 ? `5. Are NOT already known to the learner. Skip these words and their inflected forms: ${knownWords.join(', ')}\n` : ''}
+The lyrics may mix languages. ${focus.studyOnly ? `Only pick words in ${songLangLabel}; ignore words from any other language.` : 'Pick words from each language in them.'}${focus.nativeLangLabel ? ` Never pick words in ${focus.nativeLangLabel}, the learner's native language.` : ''}
+
+For each item, provide:
+- The word or phrase, as written in the song
+- Its language, as an ISO 639-1 code (e.g. "es", "en", "ko")
+- Its dictionary form (lemma), e.g. the infinitive of a verb or the singular of a noun
+- Its part of speech: ${PARTS_OF_SPEECH.join(', ')}
+- For nouns in languages with grammatical gender: the gender (masculine, feminine, neuter or common) and the article of the dictionary form (e.g. "het", "der", "la"); omit both otherwise
+- Its pronunciation in IPA, as sung
+- Difficulty level: "comfortable" (just right), "stretch" (slightly challenging), or "challenging" (more difficult but still appropriate)
+- A brief explanation of why this is useful to learn (in ${focus.nativeLangLabel ?? 'English'})
+- The exact line from the song where it appears
+
+Return your response as a JSON object with a "words" array property:
+{
+  "words": [
+    {
+      "word": "example",
+      "phrase": "optional phrase if it's a multi-word expression",
+      "language": "es",
+      "lemma": "dictionary form",
+      "partOfSpeech": "noun",
+      "gender": "feminine",
+      "article": "la",
+      "ipa": "ɛɡˈzɑːmpəl",
+      "difficulty": "comfortable",
+      "explanation": "brief explanation",
+      "example": "exact line from song"
+    }
+  ]
+}
+
+Return ONLY valid JSON, no additional text before or after.`
+
+  const streamed: LearningItem[] = []
+  const parseStream = createListStreamParser((raw) => {
+    const checked = checkWordItem(raw)
+    if (!checked.ok || !onItems) return
+    streamed.push(toLearningItem(checked.value, streamed.length, focus.langCode))
+    onItems([...streamed])
+  })
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'analyze',
+    [
+      {
+        role: 'system',
+        content:
+          `You are a helpful ${songLangLabel} language learning assistant. Always respond with valid JSON only. Return a JSON object with a "words" array.`,
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    { temperature: 0.7, onDelta: onItems && parseStream },
+  )
+
+  const entries = listPayload(parsed, 'words')
+  if (!entries) {
+    throw new Error(t('error.noWordsInResponse'))
+  }
+
+  const valid: LLMWordItem[] = []
+  let invalid: InvalidEntry[] = []
+  const sort = (raw: unknown) => {
+    const checked = checkWordItem(raw)
+    if (checked.ok) valid.push(checked.value)
+    else invalid.push({ raw, error: checked.error })
+  }
+  entries.forEach((raw) => sort(raw))
+
+  // Ask again for only the broken entries, rather than re-running the whole analysis
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && invalid.length > 0; attempt++) {
+    const broken = invalid
+    invalid = []
+    const repaired = await repairWordItems(
+      uncached(client),
+      broken,
+      songLangLabel,
+      focus.nativeLangLabel ?? 'English',
+    )
+    broken.forEach((entry, i) => (i < repaired.length ? sort(repaired[i]) : invalid.push(entry)))
+  }
+
+  const items = valid.map((item, index) => toLearningItem(item, index, focus.langCode))
+
+  return {
+    items,
+    rejected: invalid.map((entry) => `${describeEntry(entry.raw)}: ${entry.error}`),
+  }
+}
+
+function toLearningItem(item: LLMWordItem, index: number, langCode: string | undefined): LearningItem {
+  const displayText = item.phrase || item.word
+  return {
+    id: `${displayText}-${index}`,
+    word: displayText,
+    langCode: item.language ?? langCode,
+    lemma: item.lemma,
+    partOfSpeech: item.partOfSpeech,
+    gender: item.gender,
+    article: item.article,
+    ipa: item.ipa,
+    difficultyScore: BAND_SCORES[item.difficulty],
+    difficultyBand: item.difficulty,
+    count: 1, // Real count is filled in by anchorItems()
+    example: item.example,
+    explanation: item.explanation,
+    translation: undefined, // Will be filled later
+  }
+}
+
+type InvalidEntry = {
+  raw: unknown
+  error: string
+}
+
+function describeEntry(raw: unknown): string {
+  if (typeof raw === 'object' && raw !== null && 'word' in raw && typeof raw.word === 'string') {
+    return `"${raw.word}"`
+  }
+  return t('warning.unnamedEntry')
+}
+
+/** Show the model its invalid entries with what is wrong, and get corrected versions in the same order. */
+async function repairWordItems(
+  client: LLMClient,
+  invalid: InvalidEntry[],
+  songLangLabel: string,
+  explanationLangLabel: string,
+): Promise<unknown[]> {
+  const list = invalid
+    .map((entry, i) => `${i + 1}. ${JSON.stringify(entry.raw ?? null)}\n   Problem: ${entry.error}`)
+    .join('\n')
+  const prompt = `These entries of your list of ${songLangLabel} words to learn are invalid:
+
+${list}
+
+Return a JSON object with a "words" array holding a corrected version of each entry, in the same order.
+Every entry needs "word", "difficulty" ("comfortable", "stretch" or "challenging"), "explanation" (in ${explanationLangLabel}) and "example" (the exact song line).
+Return ONLY valid JSON.`
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'analyze',
+    [
+      {
+        role: 'system',
+        content: 'You fix invalid JSON entries. Respond only with valid JSON.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: 0.2 },
+  )
+  return listPayload(parsed, 'words') ?? []
+}
+
+/**
+ * Find grammar points and idioms in the lyrics, in a pass of its own beside the word analysis. Lines
+ * are numbered so notes can point at them; long lyrics are split into stanza-aligned chunks as for
+ * words. Notes that are incomplete or can't be placed in the lyrics are dropped.
+ */
+export async function analyzeGrammarWithLLM(
+  client: LLMClient,
+  lyrics: string,
+  level: UserLevel,
+  songLangLabel: string,
+  focus: LanguageFocus = {},
+): Promise<GrammarNote[]> {
+  const lineCount = splitLines(lyrics).length
+  const explanationLang = focus.nativeLangLabel ?? 'English'
+
+  const analyzeChunk = async (chunk: Stanza[]): Promise<LLMGrammarNote[]> => {
+    const numbered = chunk
+      .map((stanza) => stanza.lines.map((line, i) => `${stanza.firstLine + i + 1}. ${line.trim()}`).join('\n'))
+      .join('\n\n')
+
+    const prompt = `You are a ${songLangLabel} teacher. Find the grammar points and idioms in these song lyrics that are worth explaining to a ${level} learner. Single words to learn are covered separately; only pick a word when its form is the point (e.g. a diminutive or an archaic ending).
+
+Look for:
+- Grammar: verb forms and tenses, word order, cases and agreement, diminutives, archaic or poetic forms, and the contractions and elisions of song lyrics
+- Idioms: fixed expressions, phrasal verbs and figurative phrases whose meaning isn't the sum of their words
+
+Skip what a ${level} learner already knows.
+The lyrics may mix languages. ${focus.studyOnly ? `Only explain ${songLangLabel}; ignore any other language.` : 'Cover each language in them.'}${focus.nativeLangLabel ? ` Never explain ${focus.nativeLangLabel}, the learner's native language.` : ''}
+
+Song lyrics, with numbered lines:
+"""
+${numbered}
+"""
+
+For each note, provide:
+- "kind": "grammar" or "idiom"
+- "title": a short name for the point (e.g. "Diminutive with -je"), in ${explanationLang}
+- "text": the words in the lyrics that show it, exactly as written
+- "lines": the numbers of the lines where it occurs
+- "rule": the rule or meaning in one or two sentences, in ${explanationLang}
+- "examples": two or three short sentences outside the song that use it, each followed by its ${explanationLang} translation in parentheses
+- "language": the ISO 639-1 code of the text's language
+
+Return ONLY a JSON object with a "notes" array, which may be empty.`
+
+    const parsed = await completeJSON<unknown>(
+      client,
+      'analyze',
+      [
+        {
+          role: 'system',
+          content: `You are a helpful ${songLangLabel} grammar teacher. Always respond with valid JSON only. Return a JSON object with a "notes" array.`,
+        },
+        { role: 'user', content: prompt },
+      ],
+      { temperature: 0.4 },
+    )
+
+    const entries = listPayload(parsed, 'notes')
+    if (!entries) {
+      throw new Error(t('error.noNotesInResponse'))
+    }
+    return entries.flatMap((raw) => {
+      const checked = checkGrammarNote(raw, lineCount)
+      return checked.ok ? [checked.value] : []
+    })
+  }
+
+  const results = await Promise.all(chunkStanzas(splitStanzas(lyrics)).map(analyzeChunk))
+
+  // The same point found in several chunks becomes one note on all its lines
+  const merged = new Map<string, LLMGrammarNote>()
+  for (const note of results.flat()) {
+    const key = `${note.kind}:${note.title.toLowerCase()}`
+    const existing = merged.get(key)
+    merged.set(key, existing ? { ...existing, lines: [...existing.lines, ...note.lines] } : note)
+  }
+  const notes = [...merged.values()].map(
+    (note, index): GrammarNote => ({
+      id: `note-${index}`,
+      kind: note.kind,
+      title: note.title,
+      text: note.text,
+      rule: note.rule,
+      examples: note.examples,
+      lines: note.lines.map((n) => n - 1),
+      langCode: note.language ?? focus.langCode,
+    }),
+  )
+  return anchorNotes(notes, lyrics, focus.langCode)
+}
+
+/** A word's translation, or why none could be obtained. */
+export type WordTranslation = {
+  translation?: string
+  error?: string
+}
+
+/**
+ * Translate words/phrases from the song's language into the user's language. Each word is numbered
+ * and answered by number, so a skipped or invalid entry can't shift translations onto other words;
+ * missing ones are asked for again, and any still missing get an error instead.
+ */
+export async function translateWordsWithLLM(
+  client: LLMClient,
+  words: string[],
+  sourceLangLabel: string,
+  sourceLangCode: string,
+  targetLangCode: string,
+  targetLangLabel: string,
+  /** Called for each word as soon as its translation arrives. */
+  onTranslation?: (index: number, translation: string) => void,
+): Promise<WordTranslation[]> {
+  const results: WordTranslation[] = words.map(() => ({ error: t('error.missingFromResponse') }))
+  let pending = words.map((_, i) => i)
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+    const batches: number[][] = []
+    for (let offset = 0; offset < pending.length; offset += WORD_BATCH_SIZE) {
+      batches.push(pending.slice(offset, offset + WORD_BATCH_SIZE))
+    }
+    const attemptClient = attempt > 0 ? uncached(client) : client
+    const answers = await Promise.all(
+      batches.map((batch) =>
+        requestTranslations(
+          attemptClient,
+          batch.map((i) => words[i]),
+          sourceLangLabel,
+          sourceLangCode,
+          targetLangCode,
+          targetLangLabel,
+          onTranslation && ((n, translation) => onTranslation(batch[n - 1], translation)),
+        ),
+      ),
+    )
+    pending = []
+    batches.forEach((batch, b) =>
+      batch.forEach((wordIndex, i) => {
+        const result = answers[b].get(i + 1)
+        if (result) results[wordIndex] = result
+        if (!result?.translation) pending.push(wordIndex)
+      }),
+    )
+  }
+
+  return results
+}
+
+/** A word to translate, with the language it is in. */
+export type SourceWord = {
+  word: string
+  language: DetectedLanguage
+}
+
+/**
+ * Translate words from a song that mixes languages. Words are grouped by language, so each group is
+ * sent with its own source language name and code. Results are in the order of `words`.
+ */
+export async function translateMixedWordsWithLLM(
+  client: LLMClient,
+  words: SourceWord[],
+  targetLangCode: string,
+  targetLangLabel: string,
+  onTranslation?: (index: number, translation: string) => void,
+): Promise<WordTranslation[]> {
+  const groups = new Map<string, number[]>()
+  words.forEach((w, i) => groups.set(w.language.code, [...(groups.get(w.language.code) ?? []), i]))
+
+  const results: WordTranslation[] = words.map(() => ({ error: t('error.missingFromResponse') }))
+  await Promise.all(
+    [...groups.values()].map(async (indices) => {
+      const language = words[indices[0]].language
+      const translated = await translateWordsWithLLM(
+        client,
+        indices.map((i) => words[i].word),
+        language.label,
+        language.code,
+        targetLangCode,
+        targetLangLabel,
+        onTranslation && ((n, translation) => onTranslation(indices[n], translation)),
+      )
+      indices.forEach((wordIndex, n) => {
+        results[wordIndex] = translated[n]
+      })
+    }),
+  )
+  return results
+}
+
+/** One translation request. Returns what came back for each 1-based word number. */
+async function requestTranslations(
+  client: LLMClient,
+  words: string[],
+  sourceLangLabel: string,
+  sourceLangCode: string,
+  targetLangCode: string,
+  targetLangLabel: string,
+  onTranslation?: (n: number, translation: string) => void,
+): Promise<Map<number, WordTranslation>> {
+  const wordList = words.map((w, i) => `${i + 1}. ${w}`).join('\n')
+
+  const prompt = `Translate the following ${sourceLangLabel} words or phrases into ${targetLangLabel} (target language code: ${targetLangCode}).
+Source language: ${sourceLangLabel} (${sourceLangCode}).
+Return ONLY a JSON object with a "translations" array: one entry per numbered item, with "n" (the item's number) and "translation".
+Each translation should be a single string (the most natural translation for a flashcard).
+
+${sourceLangLabel} items:
+${wordList}
+
+Example format: { "translations": [{ "n": 1, "translation": "translation1" }, { "n": 2, "translation": "translation2" }] }
+Return ONLY valid JSON, no other text.`
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'translate',
+    [
+      {
+        role: 'system',
+        content:
+          'You are a translator. Respond only with valid JSON. Return a "translations" array with one { "n", "translation" } entry per numbered input item.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    {
+      temperature: 0.3,
+      onDelta:
+        onTranslation &&
+        createListStreamParser((raw) => {
+          const checked = checkTranslationEntry(raw, words.length)
+          if (checked.ok) onTranslation(checked.value.n, checked.value.translation)
+        }),
+    },
+  )
+
+  const answered = new Map<number, WordTranslation>()
+  const entries = listPayload(parsed, 'translations') ?? []
+  // Plain strings can only be trusted when there is exactly one per word.
+  if (entries.length === words.length && entries.every((e) => typeof e === 'string')) {
+    entries.forEach((e, i) => {
+      const translation = (e as string).trim()
+      answered.set(i + 1, translation ? { translation } : { error: t('error.emptyTranslation') })
+    })
+    return answered
+  }
+  for (const entry of entries) {
+    const checked = checkTranslationEntry(entry, words.length)
+    if (checked.ok) {
+      if (!answered.get(checked.value.n)?.translation) {
+        answered.set(checked.value.n, { translation: checked.value.translation })
+      }
+    } else {
+      const n = Number((entry as { n?: unknown } | null)?.n)
+      if (Number.isInteger(n) && !answered.has(n)) {
+        answered.set(n, { error: t('error.invalidEntry', { reason: checked.error }) })
+      }
+    }
+  }
+  return answered
+}
+
+/**
+ * Translate lyrics line by line. Non-empty lines are sent in batches; the result has one entry per
+ * lyric line (empty lines stay empty), so stanzas line up with the original. Lines that come back
+ * missing or invalid are asked for again.
+ */
+export async function translateLinesWithLLM(
+  client: LLMClient,
+  lyrics: string,
+  sourceLangLabel: string,
+  targetLangLabel: string,
+  style: TranslationStyle,
+): Promise<string[]> {
+  const lines = splitLines(lyrics)
+  const indices = lines.flatMap((line, i) => (line.trim() ? [i] : []))
+  const translated = lines.map(() => '')
+  const batches: number[][] = []
+  for (let offset = 0; offset < indices.length; offset += LINE_BATCH_SIZE) {
+    batches.push(indices.slice(offset, offset + LINE_BATCH_SIZE))
+  }
+
+  const translateBatch = async (batch: number[]) => {
+    let pending = batch
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+      const answered = await requestLineTranslations(
+        attempt > 0 ? uncached(client) : client,
+        pending.map((lineIndex) => lines[lineIndex].trim()),
+        sourceLangLabel,
+        targetLangLabel,
+        style,
+      )
+      pending = pending.filter((lineIndex, i) => {
+        const translation = answered.get(i + 1)
+        if (translation === undefined) return true
+        translated[lineIndex] = translation
+        return false
+      })
+    }
+    if (pending.length > 0) {
+      throw new Error(t('error.linesUntranslated', { missing: pending.length, total: batch.length }))
+    }
+  }
+
+  await Promise.all(batches.map(translateBatch))
+  return translated
+}
+
+/** One line translation request. Returns the translation of each 1-based line number that came back. */
+async function requestLineTranslations(
+  client: LLMClient,
+  lines: string[],
+  sourceLangLabel: string,
+  targetLangLabel: string,
+  style: TranslationStyle,
+): Promise<Map<number, string>> {
+  const numbered = lines.map((line, i) => `${i + 1}. ${line}`).join('\n')
+
+  const prompt = `Translate these ${sourceLangLabel} song lines into ${targetLangLabel}.
+${STYLE_INSTRUCTIONS[style]}
+Translate each numbered line on its own: never merge, split or reorder lines.
+
+${numbered}
+
+Return ONLY a JSON object with a "lines" array of ${lines.length} strings, one per numbered line, in order.`
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'translate',
+    [
+      {
+        role: 'system',
+        content:
+          'You are a song translator. Respond only with valid JSON. Return a "lines" array with exactly one string per input line.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: style === 'literal' ? 0.2 : 0.5 },
+  )
+
+  const answered = new Map<number, string>()
+  const entries = listPayload(parsed, 'lines') ?? []
+  // Plain strings can only be matched to lines when there is exactly one per line.
+  if (entries.length === lines.length && entries.every((e) => typeof e === 'string')) {
+    entries.forEach((e, i) => answered.set(i + 1, (e as string).trim()))
+    return answered
+  }
+  // Some models number their answers as for word translations
+  for (const entry of entries) {
+    const checked = checkTranslationEntry(entry, lines.length)
+    if (checked.ok && !answered.has(checked.value.n)) answered.set(checked.value.n, checked.value.translation)
+  }
+  return answered
+}
+
+export type WordLookup = {
+  translation: string
+  explanation: string
+  difficulty: DifficultyBand
+}
+
+/** Look up a single word the learner clicked in the lyrics, in the context of its line. */
+export async function lookupWordWithLLM(
+  client: LLMClient,
+  word: string,
+  line: string,
+  songLangLabel: string,
+  targetLangLabel: string,
+  level: UserLevel,
+): Promise<WordLookup> {
+  const prompt = `A ${level} learner of ${songLangLabel} clicked the word "${word}" in this song line:
+"${line}"
+
+Return a JSON object with:
+- "translation": the meaning of "${word}" in this line, in ${targetLangLabel} (short, flashcard style)
+- "explanation": one sentence about the word (base form, grammar or usage), in ${targetLangLabel}
+- "difficulty": "comfortable", "stretch" or "challenging" for a ${level} learner
+
+Return ONLY valid JSON.`
+
+  const parsed = await completeJSON<unknown>(
+    client,
+    'translate',
+    [
+      {
+        role: 'system',
+        content: 'You are a concise bilingual dictionary. Respond only with valid JSON.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: 0.2 },
+  )
+
+  const checked = checkWordLookup(parsed)
+  if (!checked.ok) throw new Error(t('lookup.failed'))
+  return checked.value
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import { LEVELS, analyzeOffline, bandFor, estimateWordLevel } from './analyze'
+
+const ENGLISH = { code: 'en', label: 'English' }
+
+const LYRICS = `I walk along the river tonight
+The wonderful mountains whisper to me
+My heart remembers everything beautiful
+We dance beneath unbelievable constellations`
+
+describe('estimateWordLevel', () => {
+  it('grades listed words by their frequency rank', () => {
+    expect(estimateWordLevel('the', 'en')).toBe('A1')
+    expect(estimateWordLevel('river', 'en')).toBe('B1')
+    expect(estimateWordLevel('wonderful', 'en')).toBe('B2')
+    expect(estimateWordLevel('beneath', 'en')).toBe('C1')
+  })
+
+  it('finds inflected forms and words listed in another case', () => {
+    expect(estimateWordLevel('dances', 'en')).toBe('B1')
+    expect(estimateWordLevel('ich', 'de')).toBe('A1')
+  })
+
+  it('grades unlisted words as C2', () => {
+    expect(estimateWordLevel('zorbings', 'en')).toBe('C2')
+    expect(estimateWordLevel('constellations', 'en')).toBe('C2')
+  })
+})
+
+describe('bandFor', () => {
+  it('drops words below the learner level', () => {
+    expect(bandFor('A1', 'B1')).toBeNull()
+  })
+
+  it('rates words by how far above the learner level they are', () => {
+    expect(bandFor('B1', 'B1')).toBe('comfortable')
+    expect(bandFor('B2', 'B1')).toBe('stretch')
+    expect(bandFor('C1', 'B1')).toBe('challenging')
+  })
+
+  it('has words to offer C1 learners', () => {
+    expect(bandFor('C1', 'C1')).toBe('comfortable')
+    expect(bandFor('C2', 'C1')).toBe('stretch')
+  })
+})
+
+describe('analyzeOffline', () => {
+  it('gives the same items for the same input', () => {
+    expect(analyzeOffline(LYRICS, 'B1', ENGLISH)).toEqual(analyzeOffline(LYRICS, 'B1', ENGLISH))
+  })
+
+  it.each(LEVELS)('suggests words at %s', (level) => {
+    expect(analyzeOffline(LYRICS, level, ENGLISH).items.length).toBeGreaterThan(0)
+  })
+
+  it('anchors items to the lines they occur on', () => {
+    const item = analyzeOffline(LYRICS, 'B1', ENGLISH).items.find((i) => i.word === 'constellations')
+    expect(item).toMatchObject({ lines: [3], count: 1, example: LYRICS.split('\n')[3] })
+  })
+
+  it('rejects languages without a word list', () => {
+    expect(() => analyzeOffline(LYRICS, 'B1', { code: 'fi', label: 'Finnish' })).toThrow()
+  })
+})
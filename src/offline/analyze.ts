@@ -0,0 +1,173 @@
+import type { DifficultyBand, LearningItem, UserLevel } from '../types'
+import type { Token } from '../text/tokenize'
+import { normalizeWord, splitLines, tokenizeLyrics } from '../text/tokenize'
+import type { DetectedLanguage } from './detectLanguage'
+import { detectLanguageOffline } from './detectLanguage'
+import { WORD_LISTS } from './wordLists'
+import { languageName, t } from '../i18n/i18n'
+
+export const LEVELS: UserLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2']
+
+/** Max number of items returned, to keep the list comparable to the LLM output. */
+const MAX_ITEMS = 30
+
+// Suffixes tried when a word is not in the list, so that inflected forms still find their base word.
+const SUFFIXES: Record<string, string[]> = {
+  en: ['ing', 'ed', 'es', 's', "'s", 'ly', 'er', 'est'],
+  nl: ['jes', 'tjes', 'je', 'tje', 'en', 'ens', 'e', 's', 't', 'de', 'te'],
+  de: ['en', 'ern', 'er', 'es', 'e', 'n', 's', 'st', 't'],
+  es: ['es', 's', 'a', 'o'],
+  fr: ['es', 's', 'e', 'x'],
+  it: ['i', 'e', 'a', 'o'],
+  pt: ['es', 's', 'a', 'o'],
+}
+
+// Verb stems (`sluit`, `lacht`) are looked up under their infinitive (`sluiten`, `lachen`).
+const INFINITIVE_ENDINGS: Record<string, string[]> = {
+  nl: ['en'],
+  de: ['en', 'n'],
+}
+
+const ranks = new Map<string, Map<string, number>>()
+
+function getRanks(langCode: string): Map<string, number> | undefined {
+  const cached = ranks.get(langCode)
+  if (cached) return cached
+  const list = WORD_LISTS[langCode]
+  if (!list) return undefined
+  const map = new Map<string, number>()
+  list.split(/\s+/).forEach((word, index) => {
+    const norm = normalizeWord(word, langCode)
+    if (norm && !map.has(norm)) map.set(norm, index + 1)
+  })
+  ranks.set(langCode, map)
+  return map
+}
+
+export function supportsOfflineAnalysis(langCode: string): boolean {
+  return Object.hasOwn(WORD_LISTS, langCode)
+}
+
+function lookupStem(map: Map<string, number>, stem: string, langCode: string): number | undefined {
+  const candidates = [stem, stem.replace(/(\p{L})\1$/u, '$1')]
+  for (const ending of INFINITIVE_ENDINGS[langCode] ?? []) {
+    candidates.push(stem + ending)
+    // Dutch open syllables drop a doubled vowel: maak → maken
+    if (langCode === 'nl') candidates.push(stem.replace(/([aeou])\1(\p{L})$/u, '$1$2') + ending)
+  }
+  for (const candidate of candidates) {
+    const rank = map.get(candidate)
+    if (rank) return rank
+  }
+  return undefined
+}
+
+/** 1-based frequency rank of a word (or its stem), or `undefined` if it is not in the bundled list. */
+export function frequencyRank(norm: string, langCode: string): number | undefined {
+  const map = getRanks(langCode)
+  if (!map) return undefined
+  const direct = lookupStem(map, norm, langCode)
+  if (direct) return direct
+  for (const suffix of SUFFIXES[langCode] ?? []) {
+    if (norm.length - suffix.length < 2 || !norm.endsWith(suffix)) continue
+    const rank = lookupStem(map, norm.slice(0, -suffix.length), langCode)
+    if (rank) return rank
+  }
+  return undefined
+}
+
+// Highest frequency rank of each level's words, roughly the vocabulary size a learner has at that level.
+const LEVEL_RANKS: [UserLevel, number][] = [
+  ['A1', 500],
+  ['A2', 1_000],
+  ['B1', 2_000],
+  ['B2', 4_000],
+  ['C1', 10_000],
+]
+
+/** Estimated CEFR level of a word from its frequency rank. Words outside the bundled list are C2. */
+export function estimateWordLevel(norm: string, langCode: string): UserLevel {
+  const rank = frequencyRank(norm, langCode)
+  if (rank === undefined) return 'C2'
+  return LEVEL_RANKS.find(([, maxRank]) => rank <= maxRank)?.[0] ?? 'C2'
+}
+
+/** How far a word's level is above the learner's, or `null` when it is below it. */
+export function bandFor(wordLevel: UserLevel, userLevel: UserLevel): DifficultyBand | null {
+  const gap = LEVELS.indexOf(wordLevel) - LEVELS.indexOf(userLevel)
+  if (gap < 0) return null
+  if (gap === 0) return 'comfortable'
+  if (gap === 1) return 'stretch'
+  return 'challenging'
+}
+
+export const BAND_SCORES: Record<DifficultyBand, number> = {
+  comfortable: 3,
+  stretch: 5,
+  challenging: 7,
+}
+
+/** Tokens that look like names: capitalised everywhere they occur, and never at the start of a line. */
+function isProbablyName(occurrences: Token[]): boolean {
+  return occurrences.every(
+    (t) => /^\p{Lu}/u.test(t.text) && t.start > 0,
+  )
+}
+
+export type OfflineAnalysis = {
+  language: DetectedLanguage
+  items: LearningItem[]
+}
+
+/**
+ * Analyse lyrics without an LLM: detect the language, tokenize, and rank words by the bundled
+ * frequency list. Deterministic for the same input.
+ */
+export function analyzeOffline(
+  lyrics: string,
+  level: UserLevel,
+  language: DetectedLanguage | null = detectLanguageOffline(lyrics),
+): OfflineAnalysis {
+  if (!language) {
+    throw new Error(t('error.noLanguage'))
+  }
+  if (!supportsOfflineAnalysis(language.code)) {
+    throw new Error(t('error.noWordList', { language: languageName(language.code) }))
+  }
+
+  const lines = splitLines(lyrics)
+  const byWord = new Map<string, Token[]>()
+  for (const token of tokenizeLyrics(lyrics, language.code)) {
+    if (token.norm.length < 2) continue
+    const occurrences = byWord.get(token.norm)
+    if (occurrences) occurrences.push(token)
+    else byWord.set(token.norm, [token])
+  }
+
+  const items: LearningItem[] = []
+  for (const [norm, occurrences] of byWord) {
+    if (isProbablyName(occurrences)) continue
+    const wordLevel = estimateWordLevel(norm, language.code)
+    const band = bandFor(wordLevel, level)
+    if (!band) continue
+    const first = occurrences[0]
+    items.push({
+      id: `${norm}-${first.line}`,
+      word: norm,
+      difficultyScore: BAND_SCORES[band],
+      difficultyBand: band,
+      count: occurrences.length,
+      example: lines[first.line].trim(),
+      lines: [...new Set(occurrences.map((token) => token.line))],
+      explanation:
+        frequencyRank(norm, language.code) !== undefined
+          ? t('offline.core', { level: wordLevel, language: languageName(language.code) })
+          : t('offline.estimated', { level: wordLevel, language: languageName(language.code) }),
+    })
+  }
+
+  // Closest to the learner's level first, then the most repeated words (stable, so song order breaks ties).
+  items.sort((a, b) => a.difficultyScore - b.difficultyScore || b.count - a.count)
+
+  return { language, items: items.slice(0, MAX_ITEMS) }
+}
@@ -0,0 +1,138 @@
+import { WORD_LISTS } from './wordLists'
+
+export type DetectedLanguage = {
+  code: string
+  label: string
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  nl: 'Dutch',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  el: 'Greek',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  th: 'Thai',
+  ko: 'Korean',
+  ja: 'Japanese',
+  'zh-CN': 'Chinese',
+}
+
+// Languages written in their own script are recognised by script alone.
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[가-힯ᄀ-ᇿ]/gu, 'ko'],
+  [/[぀-ヿ]/gu, 'ja'],
+  [/\p{Script=Han}/gu, 'zh-CN'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Thai}/gu, 'th'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+]
+
+const NGRAM_SIZES = [1, 2, 3]
+const SMOOTHING = 0.1
+
+type Profile = {
+  counts: Map<string, number>
+  total: number
+}
+
+function ngrams(word: string): string[] {
+  const padded = ` ${word} `
+  const grams: string[] = []
+  for (const n of NGRAM_SIZES) {
+    for (let i = 0; i + n <= padded.length; i++) {
+      const gram = padded.slice(i, i + n)
+      if (gram.trim()) grams.push(gram)
+    }
+  }
+  return grams
+}
+
+/** Character n-gram profiles built from the bundled frequency lists, weighting frequent words higher. */
+let profiles: Map<string, Profile> | null = null
+
+function getProfiles(): Map<string, Profile> {
+  if (profiles) return profiles
+  profiles = new Map()
+  for (const [code, list] of Object.entries(WORD_LISTS)) {
+    const counts = new Map<string, number>()
+    let total = 0
+    list.split(/\s+/).filter(Boolean).forEach((word, rank) => {
+      const weight = 100 / (rank + 20)
+      for (const gram of ngrams(word.toLowerCase())) {
+        counts.set(gram, (counts.get(gram) ?? 0) + weight)
+        total += weight
+      }
+    })
+    profiles.set(code, { counts, total })
+  }
+  return profiles
+}
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' })
+
+/** English name of a language code, or the code itself when it isn't a valid one. */
+export function languageLabel(code: string): string {
+  if (LANGUAGE_LABELS[code]) return LANGUAGE_LABELS[code]
+  try {
+    return displayNames.of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+/** Language code for an English language name such as the LLM returns ("Dutch" → `nl`). */
+export function languageCodeForLabel(label: string): string | undefined {
+  const wanted = label.trim().toLowerCase()
+  return Object.keys(LANGUAGE_LABELS).find((code) => LANGUAGE_LABELS[code].toLowerCase() === wanted)
+}
+
+/** True when two language codes name the same language, ignoring region and script (`zh-CN` and `zh`). */
+export function sameLanguage(a: string, b: string): boolean {
+  return a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase()
+}
+
+/** Detect the language of a text without any network calls. Returns `null` when there is no text to go on. */
+export function detectLanguageOffline(text: string): DetectedLanguage | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0
+  if (letters === 0) return null
+
+  for (const [pattern, code] of SCRIPT_LANGUAGES) {
+    const matches = text.match(pattern)?.length ?? 0
+    if (matches / letters > 0.3) {
+      const resolved = code === 'ru' && /[іїєґ]/iu.test(text) ? 'uk' : code
+      return { code: resolved, label: languageLabel(resolved) }
+    }
+  }
+
+  const words = text.toLowerCase().replace(/’/g, "'").match(/\p{L}+/gu) ?? []
+  const textGrams = new Map<string, number>()
+  for (const word of words) {
+    for (const gram of ngrams(word)) textGrams.set(gram, (textGrams.get(gram) ?? 0) + 1)
+  }
+
+  // Naive Bayes over n-grams with additive smoothing.
+  let best: { code: string; score: number } | null = null
+  for (const [code, profile] of getProfiles()) {
+    const vocabulary = profile.counts.size
+    let score = 0
+    for (const [gram, count] of textGrams) {
+      const p = ((profile.counts.get(gram) ?? 0) + SMOOTHING) / (profile.total + SMOOTHING * vocabulary)
+      score += count * Math.log(p)
+    }
+    if (!best || score > best.score) best = { code, score }
+  }
+
+  const code = best?.code ?? 'en'
+  return { code, label: languageLabel(code) }
+}
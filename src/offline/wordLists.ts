@@ -0,0 +1,14 @@
+import de from 'most-common-words-by-language/build/resources/german.txt?raw'
+import en from 'most-common-words-by-language/build/resources/english.txt?raw'
+import es from 'most-common-words-by-language/build/resources/spanish.txt?raw'
+import fr from 'most-common-words-by-language/build/resources/french.txt?raw'
+import it from 'most-common-words-by-language/build/resources/italian.txt?raw'
+import nl from 'most-common-words-by-language/build/resources/dutch.txt?raw'
+import pt from 'most-common-words-by-language/build/resources/portuguese.txt?raw'
+
+/**
+ * Bundled frequency lists for offline analysis: the 10,000 most common words of each language, one
+ * per line, most frequent first. English is ranked on web text, the others on film and TV subtitles.
+ * Words may repeat in different case; the first occurrence gives the rank.
+ */
+export const WORD_LISTS: Record<string, string> = { de, en, es, fr, it, nl, pt }
@@ -0,0 +1,171 @@
+import type { LearningItem, UserLevel } from '../types'
+import type { ReviewCard } from '../review/cards'
+import type { ReviewEvent } from '../review/history'
+import type { SavedSong } from '../library/songs'
+import type { VocabularyEntry } from '../vocabulary/profile'
+import { latestAnalysis } from '../library/songs'
+import { LEVELS, estimateWordLevel, frequencyRank } from '../offline/analyze'
+import { normalizeWord, tokenizeLyrics } from '../text/tokenize'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Levels above the analysis level an item sits, by its band. */
+const BAND_OFFSETS = { comfortable: 0, stretch: 1, challenging: 2 }
+
+export type LanguageProgress = { langCode: string; learned: number; learning: number }
+
+export type Streaks = {
+  /** Consecutive days with a review, ending today (or yesterday, until today's first review). */
+  current: number
+  longest: number
+  reviewedToday: number
+}
+
+export type SongProgress = { song: SavedSong; done: number; total: number; coverage: Coverage }
+
+export type Coverage = { known: number; total: number; share: number }
+
+function wordKey(word: string, langCode: string): string {
+  return `${langCode}:${normalizeWord(word, langCode)}`
+}
+
+/** A card counts as learned once it has been recalled at least once, as in the review panel. */
+export function isLearned(card: ReviewCard): boolean {
+  return card.repetitions > 0
+}
+
+/** Words the learner has learned, as `<langCode>:<normalized word>`: recalled cards and words marked known. */
+export function learnedWords(deck: ReviewCard[], vocabulary: VocabularyEntry[]): Set<string> {
+  const learned = new Set<string>()
+  for (const card of deck) if (isLearned(card)) learned.add(card.id)
+  for (const entry of vocabulary) if (entry.status === 'known') learned.add(entry.id)
+  return learned
+}
+
+/**
+ * Words that need no more study: learned words, words marked ignored, and the other forms of
+ * learned words as seen in saved songs.
+ */
+export function knownWords(learned: Set<string>, vocabulary: VocabularyEntry[], songs: SavedSong[]): Set<string> {
+  const known = new Set(learned)
+  for (const entry of vocabulary) if (entry.status === 'ignored') known.add(entry.id)
+  for (const song of songs) {
+    for (const item of latestAnalysis(song)?.items ?? []) {
+      const lang = item.langCode ?? song.language.code
+      if (!learned.has(wordKey(item.word, lang))) continue
+      for (const form of [item.lemma, ...(item.forms ?? [])]) if (form) known.add(wordKey(form, lang))
+    }
+  }
+  return known
+}
+
+/** Learned and still-learning word counts per language, most learned first. */
+export function progressByLanguage(
+  learned: Set<string>,
+  deck: ReviewCard[],
+  vocabulary: VocabularyEntry[],
+): LanguageProgress[] {
+  const learning = new Set<string>()
+  for (const card of deck) if (!learned.has(card.id)) learning.add(card.id)
+  for (const entry of vocabulary) if (entry.status === 'learning' && !learned.has(entry.id)) learning.add(entry.id)
+
+  const byLang = new Map<string, LanguageProgress>()
+  const count = (id: string, field: 'learned' | 'learning') => {
+    const langCode = id.slice(0, id.indexOf(':'))
+    const row = byLang.get(langCode) ?? { langCode, learned: 0, learning: 0 }
+    row[field]++
+    byLang.set(langCode, row)
+  }
+  learned.forEach((id) => count(id, 'learned'))
+  learning.forEach((id) => count(id, 'learning'))
+  return [...byLang.values()].sort((a, b) => b.learned - a.learned || b.learning - a.learning)
+}
+
+/** Level of an item: the level it was analysed at, raised by how far above it the item was rated. */
+function itemLevel(item: LearningItem, analysisLevel: UserLevel): UserLevel {
+  const index = LEVELS.indexOf(analysisLevel) + BAND_OFFSETS[item.difficultyBand]
+  return LEVELS[Math.min(index, LEVELS.length - 1)]
+}
+
+/**
+ * Learned words per CEFR level. Words are graded as in their newest analysis; words from no saved
+ * song (e.g. imported lists) are estimated from the bundled frequency lists.
+ */
+export function learnedByLevel(learned: Set<string>, songs: SavedSong[]): Record<UserLevel, number> {
+  const levels = new Map<string, UserLevel>()
+  // Songs are newest first, so the first grading seen is the most recent one
+  for (const song of songs) {
+    const analysis = latestAnalysis(song)
+    if (!analysis) continue
+    for (const item of analysis.items) {
+      const id = wordKey(item.word, item.langCode ?? song.language.code)
+      if (!levels.has(id)) levels.set(id, itemLevel(item, analysis.level))
+    }
+  }
+
+  const counts = Object.fromEntries(LEVELS.map((level) => [level, 0])) as Record<UserLevel, number>
+  learned.forEach((id) => {
+    const separator = id.indexOf(':')
+    counts[levels.get(id) ?? estimateWordLevel(id.slice(separator + 1), id.slice(0, separator))]++
+  })
+  return counts
+}
+
+/** Local calendar day of a timestamp, as a day number, so streaks follow the learner's midnight. */
+function dayNumber(time: number): number {
+  const date = new Date(time)
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS
+}
+
+/**
+ * Review streaks from the review log. Cards reviewed before the log existed still count through
+ * the day they were last reviewed.
+ */
+export function reviewStreaks(history: ReviewEvent[], deck: ReviewCard[], now: number): Streaks {
+  const days = new Set(history.map((event) => dayNumber(event.reviewedAt)))
+  for (const card of deck) if (card.lastReviewed) days.add(dayNumber(card.lastReviewed))
+
+  let longest = 0
+  let run = 0
+  let previous = NaN
+  for (const day of [...days].sort((a, b) => a - b)) {
+    run = day === previous + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  }
+
+  const today = dayNumber(now)
+  let current = 0
+  for (let day = days.has(today) ? today : today - 1; days.has(day); day--) current++
+
+  const reviewedToday = history.filter((event) => dayNumber(event.reviewedAt) === today).length
+  return { current, longest, reviewedToday }
+}
+
+/**
+ * Estimated share of a song's words the learner already knows: known words, plus words in the
+ * bundled frequency list that are below the learner's level.
+ */
+export function estimateCoverage(lyrics: string, langCode: string, known: Set<string>, level: UserLevel): Coverage {
+  const levelIndex = LEVELS.indexOf(level)
+  const tokens = tokenizeLyrics(lyrics, langCode)
+  const knownTokens = tokens.filter(
+    (token) =>
+      known.has(`${langCode}:${token.norm}`) ||
+      (frequencyRank(token.norm, langCode) !== undefined &&
+        LEVELS.indexOf(estimateWordLevel(token.norm, langCode)) < levelIndex),
+  ).length
+  return { known: knownTokens, total: tokens.length, share: tokens.length ? knownTokens / tokens.length : 0 }
+}
+
+/** How many of a saved song's items are known, and how much of its lyrics. */
+export function songProgress(song: SavedSong, known: Set<string>, level: UserLevel): SongProgress {
+  const items = latestAnalysis(song)?.items.filter((item) => !item.notInLyrics) ?? []
+  const done = items.filter((item) => known.has(wordKey(item.word, item.langCode ?? song.language.code))).length
+  return { song, done, total: items.length, coverage: estimateCoverage(song.lyrics, song.language.code, known, level) }
+}
+
+/** A song is completed once it has been analysed and every item from its lyrics is known. */
+export function isCompleted(progress: SongProgress): boolean {
+  return progress.total > 0 && progress.done === progress.total
+}
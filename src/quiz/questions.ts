@@ -0,0 +1,118 @@
+import type { LearningItem } from '../types'
+import type { LineSegment } from '../text/anchor'
+import { highlightSegments } from '../text/anchor'
+import { tokenizeLyrics } from '../text/tokenize'
+import type { MessageKey } from '../i18n/i18n'
+
+export type QuizMode = 'cloze' | 'choice' | 'recall'
+
+export const QUIZ_MODES: Record<QuizMode, { label: MessageKey; description: MessageKey }> = {
+  cloze: { label: 'quiz.cloze', description: 'quiz.clozeHelp' },
+  choice: { label: 'quiz.choice', description: 'quiz.choiceHelp' },
+  recall: { label: 'quiz.recall', description: 'quiz.recallHelp' },
+}
+
+/** Max questions per session. */
+export const QUIZ_LENGTH = 10
+
+const MAX_CHOICES = 4
+
+export type QuizQuestion = {
+  id: string
+  mode: QuizMode
+  item: LearningItem
+  /** What the learner is asked: the word (choice) or its translation (cloze hint, recall). */
+  prompt: string
+  /** Cloze only: the song line with the item's words marked as the gap. */
+  line?: LineSegment[]
+  /** Any of these counts as right. */
+  answers: string[]
+  /** Choice only: shuffled options, one of which is `answers[0]`. */
+  choices?: string[]
+}
+
+function shuffle<T>(values: T[]): T[] {
+  const result = [...values]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function clozeQuestion(item: LearningItem, langCode?: string): QuizQuestion | null {
+  if (item.notInLyrics) return null
+  const line = highlightSegments(item.example, item.word, langCode)
+  const gap = line.filter((seg) => seg.match).map((seg) => seg.text)
+  if (gap.length === 0) return null
+  return {
+    id: `cloze-${item.id}`,
+    mode: 'cloze',
+    item,
+    prompt: item.translation ?? '',
+    line,
+    answers: [...new Set([gap.join(' '), item.word])],
+  }
+}
+
+function choiceQuestion(item: LearningItem, items: LearningItem[]): QuizQuestion | null {
+  const answer = item.translation?.trim()
+  if (!answer) return null
+  const distractors = [
+    ...new Set(
+      items
+        .map((other) => other.translation?.trim() ?? '')
+        .filter((t) => t && t.toLowerCase() !== answer.toLowerCase()),
+    ),
+  ]
+  if (distractors.length === 0) return null
+  return {
+    id: `choice-${item.id}`,
+    mode: 'choice',
+    item,
+    prompt: item.word,
+    answers: [answer],
+    choices: shuffle([answer, ...shuffle(distractors).slice(0, MAX_CHOICES - 1)]),
+  }
+}
+
+function recallQuestion(item: LearningItem): QuizQuestion | null {
+  const translation = item.translation?.trim()
+  if (!translation) return null
+  return { id: `recall-${item.id}`, mode: 'recall', item, prompt: translation, answers: [item.word] }
+}
+
+/** Every question of one mode that this song's items support, in song order. */
+export function availableQuestions(
+  items: LearningItem[],
+  mode: QuizMode,
+  langCode?: string,
+): QuizQuestion[] {
+  const questions = items.map((item) => {
+    switch (mode) {
+      case 'cloze':
+        return clozeQuestion(item, langCode)
+      case 'choice':
+        return choiceQuestion(item, items)
+      case 'recall':
+        return recallQuestion(item)
+    }
+  })
+  return questions.filter((q): q is QuizQuestion => q !== null)
+}
+
+/** A random session of up to `QUIZ_LENGTH` questions. */
+export function buildQuiz(items: LearningItem[], mode: QuizMode, langCode?: string): QuizQuestion[] {
+  return shuffle(availableQuestions(items, mode, langCode)).slice(0, QUIZ_LENGTH)
+}
+
+/** Typed answers are compared word by word after normalization, so case, punctuation and contractions don't matter. */
+export function isCorrect(question: QuizQuestion, input: string, langCode?: string): boolean {
+  if (question.mode === 'choice') return question.answers.includes(input)
+  const normalize = (text: string) =>
+    tokenizeLyrics(text, langCode)
+      .map((t) => t.norm)
+      .join(' ')
+  const given = normalize(input)
+  return given !== '' && question.answers.some((answer) => normalize(answer) === given)
+}
@@ -0,0 +1,76 @@
+import { getAll, put } from '../storage/db'
+import type { VocabularyEntry } from '../vocabulary/profile'
+import { setWordStatus, statusOf } from '../vocabulary/profile'
+import type { QuizMode } from './questions'
+
+export type QuizAnswer = {
+  itemId: string
+  word: string
+  /** Language of the word, when it differs from the song's in multilingual lyrics. */
+  langCode?: string
+  correct: boolean
+}
+
+/** One finished quiz, kept so progress can be tracked over time. */
+export type QuizSession = {
+  id: string
+  songId?: string
+  langCode: string
+  mode: QuizMode
+  answers: QuizAnswer[]
+  correct: number
+  total: number
+  finishedAt: number
+}
+
+export type QuizFeedback = {
+  /** Words missed in the session, now marked as learning. */
+  markedLearning: string[]
+  /** Words that were marked as learning and were answered right every time. */
+  cleared: string[]
+}
+
+export function loadQuizSessions(): Promise<QuizSession[]> {
+  return getAll<QuizSession>('quizSessions').then((sessions) =>
+    sessions.sort((a, b) => b.finishedAt - a.finishedAt),
+  )
+}
+
+export function saveQuizSession(session: QuizSession): Promise<void> {
+  return put('quizSessions', session)
+}
+
+/**
+ * Feed quiz results into the vocabulary profile: any word missed is marked as learning, and a word
+ * already marked as learning that was answered right every time loses that mark. Words are recorded
+ * in their own language, or the song's (`langCode`) when they have none.
+ */
+export async function applyQuizResults(
+  answers: QuizAnswer[],
+  langCode: string,
+  vocabulary: VocabularyEntry[],
+): Promise<QuizFeedback> {
+  const byWord = new Map<string, { word: string; langCode: string; allCorrect: boolean }>()
+  for (const answer of answers) {
+    const wordLang = answer.langCode ?? langCode
+    const key = `${wordLang}:${answer.word}`
+    byWord.set(key, {
+      word: answer.word,
+      langCode: wordLang,
+      allCorrect: (byWord.get(key)?.allCorrect ?? true) && answer.correct,
+    })
+  }
+
+  const feedback: QuizFeedback = { markedLearning: [], cleared: [] }
+  for (const { word, langCode, allCorrect } of byWord.values()) {
+    const status = statusOf(vocabulary, word, langCode)
+    if (!allCorrect && status !== 'learning') {
+      await setWordStatus(word, langCode, 'learning')
+      feedback.markedLearning.push(word)
+    } else if (allCorrect && status === 'learning') {
+      await setWordStatus(word, langCode, null)
+      feedback.cleared.push(word)
+    }
+  }
+  return feedback
+}
@@ -0,0 +1,79 @@
+import type { LearningItem } from '../types'
+import { getAll, put, putMany, remove } from '../storage/db'
+import { normalizeWord } from '../text/tokenize'
+import type { Schedule } from './scheduler'
+import { newSchedule } from './scheduler'
+
+/** Max song lines kept per card as context. */
+const MAX_EXAMPLES = 5
+
+/** A word in the review deck. One card per word and language, shared across songs. */
+export type ReviewCard = Schedule & {
+  /** `<langCode>:<normalized word>` */
+  id: string
+  word: string
+  langCode: string
+  translation?: string
+  explanation?: string
+  /** Song lines the word was seen in, most recent first. */
+  examples: string[]
+  createdAt: number
+}
+
+export function cardId(word: string, langCode: string): string {
+  return `${langCode}:${normalizeWord(word, langCode)}`
+}
+
+export function loadDeck(): Promise<ReviewCard[]> {
+  return getAll<ReviewCard>('reviewCards')
+}
+
+export function saveCard(card: ReviewCard): Promise<void> {
+  return put('reviewCards', card)
+}
+
+export function removeCard(id: string): Promise<void> {
+  return remove('reviewCards', id)
+}
+
+/**
+ * Add analysed items to the deck. Words already in the deck keep their schedule and gain the new
+ * song line as extra context. Returns the number of new cards.
+ */
+export async function addItemsToDeck(items: LearningItem[], langCode: string): Promise<number> {
+  const deck = new Map((await loadDeck()).map((card) => [card.id, card]))
+  const now = Date.now()
+  const updated = new Map<string, ReviewCard>()
+  let added = 0
+
+  for (const item of items) {
+    if (item.notInLyrics) continue
+    const itemLang = item.langCode ?? langCode
+    const id = cardId(item.word, itemLang)
+    const existing = updated.get(id) ?? deck.get(id)
+    if (existing) {
+      const examples = [item.example, ...existing.examples.filter((e) => e !== item.example)]
+      updated.set(id, {
+        ...existing,
+        translation: item.translation ?? existing.translation,
+        explanation: item.explanation ?? existing.explanation,
+        examples: examples.slice(0, MAX_EXAMPLES),
+      })
+    } else {
+      added++
+      updated.set(id, {
+        ...newSchedule(now),
+        id,
+        word: item.word,
+        langCode: itemLang,
+        translation: item.translation,
+        explanation: item.explanation,
+        examples: [item.example],
+        createdAt: now,
+      })
+    }
+  }
+
+  await putMany('reviewCards', [...updated.values()])
+  return added
+}
@@ -0,0 +1,28 @@
+import { getAll, put } from '../storage/db'
+import type { ReviewCard } from './cards'
+import type { ReviewGrade } from './scheduler'
+
+/** One answered review card, kept so streaks and progress can be tracked over time. */
+export type ReviewEvent = {
+  id: string
+  cardId: string
+  langCode: string
+  grade: ReviewGrade
+  reviewedAt: number
+}
+
+export function loadReviewHistory(): Promise<ReviewEvent[]> {
+  return getAll<ReviewEvent>('reviewLog')
+}
+
+export async function logReview(card: ReviewCard, grade: ReviewGrade): Promise<ReviewEvent> {
+  const event: ReviewEvent = {
+    id: crypto.randomUUID(),
+    cardId: card.id,
+    langCode: card.langCode,
+    grade,
+    reviewedAt: card.lastReviewed ?? Date.now(),
+  }
+  await put('reviewLog', event)
+  return event
+}
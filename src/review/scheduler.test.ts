@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { isDue, newSchedule, review } from './scheduler'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 1)
+
+describe('review', () => {
+  it('makes a new card due at once', () => {
+    expect(isDue(newSchedule(NOW), NOW)).toBe(true)
+  })
+
+  it('grows the interval with each good answer', () => {
+    const first = review(newSchedule(NOW), 'good', NOW)
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1, due: NOW + DAY_MS })
+    const second = review(first, 'good', first.due)
+    expect(second.intervalDays).toBe(6)
+    const third = review(second, 'good', second.due)
+    expect(third.intervalDays).toBe(15)
+    expect(isDue(third, second.due + DAY_MS)).toBe(false)
+  })
+
+  it('gives easy answers longer intervals and a higher ease', () => {
+    const easy = review(newSchedule(NOW), 'easy', NOW)
+    expect(easy.intervalDays).toBe(4)
+    expect(easy.ease).toBeCloseTo(2.65)
+  })
+
+  it('relearns a forgotten card within minutes and counts the lapse', () => {
+    const learned = review(review(newSchedule(NOW), 'good', NOW), 'good', NOW)
+    const forgotten = review(learned, 'again', NOW)
+    expect(forgotten).toMatchObject({ intervalDays: 0, repetitions: 0, lapses: 1 })
+    expect(forgotten.due - NOW).toBeLessThan(DAY_MS)
+  })
+
+  it('never lowers the ease below its minimum', () => {
+    let schedule = newSchedule(NOW)
+    for (let i = 0; i < 20; i++) schedule = review(schedule, 'again', NOW)
+    expect(schedule.ease).toBe(1.3)
+    expect(schedule.lapses).toBe(0)
+  })
+})
@@ -0,0 +1,82 @@
+import { locale } from '../i18n/i18n'
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+/** Scheduling state of one flashcard (SM-2 style). */
+export type Schedule = {
+  /** Ease factor; multiplies the interval after each successful review. */
+  ease: number
+  /** Current interval in days (0 while the card is still being learned). */
+  intervalDays: number
+  /** Successful reviews in a row. */
+  repetitions: number
+  /** Times the card was forgotten after having been learned. */
+  lapses: number
+  /** Timestamp (ms) when the card is next due. */
+  due: number
+  lastReviewed?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+const MIN_EASE = 1.3
+const INITIAL_EASE = 2.5
+
+export function newSchedule(now: number = Date.now()): Schedule {
+  return { ease: INITIAL_EASE, intervalDays: 0, repetitions: 0, lapses: 0, due: now }
+}
+
+/** Next schedule after answering a card with the given grade. */
+export function review(schedule: Schedule, grade: ReviewGrade, now: number = Date.now()): Schedule {
+  const { ease, intervalDays, repetitions } = schedule
+
+  if (grade === 'again') {
+    return {
+      ...schedule,
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: schedule.lapses + (repetitions > 0 ? 1 : 0),
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now,
+    }
+  }
+
+  let nextInterval: number
+  let nextEase = ease
+  if (grade === 'hard') {
+    nextEase = Math.max(MIN_EASE, ease - 0.15)
+    nextInterval = repetitions === 0 ? 1 : Math.max(intervalDays + 1, intervalDays * 1.2)
+  } else if (repetitions === 0) {
+    nextInterval = grade === 'easy' ? 4 : 1
+  } else if (repetitions === 1) {
+    nextInterval = grade === 'easy' ? 8 : 6
+  } else {
+    nextInterval = intervalDays * ease * (grade === 'easy' ? 1.3 : 1)
+  }
+  if (grade === 'easy') nextEase = ease + 0.15
+
+  const days = Math.round(nextInterval)
+  return {
+    ...schedule,
+    ease: nextEase,
+    intervalDays: days,
+    repetitions: repetitions + 1,
+    due: now + days * DAY_MS,
+    lastReviewed: now,
+  }
+}
+
+export function isDue(schedule: Schedule, now: number = Date.now()): boolean {
+  return schedule.due <= now
+}
+
+/** Human-readable interval a grade would give, for the answer buttons ("10m", "3d" in English). */
+export function previewInterval(schedule: Schedule, grade: ReviewGrade, now: number = Date.now()): string {
+  const format = (value: number, unit: 'minute' | 'day' | 'month') =>
+    new Intl.NumberFormat(locale(), { style: 'unit', unit, unitDisplay: 'narrow' }).format(value)
+  const ms = review(schedule, grade, now).due - now
+  if (ms < DAY_MS) return format(Math.round(ms / 60_000), 'minute')
+  const days = Math.round(ms / DAY_MS)
+  return days < 60 ? format(days, 'day') : format(Math.round(days / 30), 'month')
+}
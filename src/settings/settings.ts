@@ -0,0 +1,238 @@
+import type { LLMSettings, LLMTask, ProviderId } from '../llm/providers'
+import { PROVIDERS, defaultLLMSettings } from '../llm/providers'
+import type { SpeechSettings } from '../speech/tts'
+import { loadSpeechSettings, normalizeSpeechSettings, saveSpeechSettings } from '../speech/tts'
+import { loadBudget, saveBudget } from '../usage/usage'
+import { parseLanguageCode } from '../languages/languages'
+import type { UserLevel } from '../types'
+import { t } from '../i18n/i18n'
+
+const PREFERENCES_KEY = 'learn-by-songs:settings'
+const API_KEYS_KEY = 'learn-by-songs:api-keys'
+
+const FORMAT = 'learn-by-songs/settings'
+const VERSION = 1
+
+/** Iterations of PBKDF2 turning a passphrase into the key that encrypts API keys. */
+const PBKDF2_ITERATIONS = 310_000
+
+const LEVELS: UserLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2']
+
+/** The analysis form's choices, restored on the next visit. API keys are stored separately. */
+export type Preferences = {
+  level: UserLevel
+  nativeLang: string
+  offlineMode: boolean
+  llm: Omit<LLMSettings, 'apiKey'>
+}
+
+/** An API key as kept in localStorage: as typed, or encrypted with AES-GCM under a passphrase. */
+export type StoredKey =
+  | { encrypted: false; key: string }
+  | { encrypted: true; salt: string; iv: string; data: string }
+
+/** Settings file, re-importable on another browser or device. Only encrypted API keys are included. */
+export type SettingsExport = {
+  format: typeof FORMAT
+  version: number
+  exportedAt: string
+  preferences: Preferences
+  speech: SpeechSettings
+  budget: number | null
+  apiKeys: Partial<Record<ProviderId, StoredKey>>
+}
+
+export function defaultPreferences(): Preferences {
+  const { provider, baseUrl, models } = defaultLLMSettings()
+  return { level: 'B1', nativeLang: 'es', offlineMode: false, llm: { provider, baseUrl, models } }
+}
+
+/** Preferences from storage or an imported file, with defaults for anything missing or invalid. */
+function normalizePreferences(value: unknown): Preferences {
+  const defaults = defaultPreferences()
+  // `customLangCode` was a free-text override of the native language in earlier versions
+  const saved = (value && typeof value === 'object' ? value : {}) as Partial<Preferences> & {
+    customLangCode?: unknown
+  }
+  const llm = (saved.llm && typeof saved.llm === 'object' ? saved.llm : {}) as Partial<Preferences['llm']>
+  const provider = llm.provider && Object.hasOwn(PROVIDERS, llm.provider) ? llm.provider : defaults.llm.provider
+  const models = { ...PROVIDERS[provider].defaultModels }
+  for (const task of Object.keys(models) as LLMTask[]) {
+    const model = llm.models?.[task]
+    if (typeof model === 'string' && model.trim()) models[task] = model
+  }
+  return {
+    level: LEVELS.includes(saved.level as UserLevel) ? (saved.level as UserLevel) : defaults.level,
+    nativeLang:
+      (typeof saved.customLangCode === 'string' && parseLanguageCode(saved.customLangCode)) ||
+      (typeof saved.nativeLang === 'string' && parseLanguageCode(saved.nativeLang)) ||
+      defaults.nativeLang,
+    offlineMode: typeof saved.offlineMode === 'boolean' ? saved.offlineMode : defaults.offlineMode,
+    llm: {
+      provider,
+      baseUrl: typeof llm.baseUrl === 'string' ? llm.baseUrl : defaults.llm.baseUrl,
+      models,
+    },
+  }
+}
+
+function readJSON(key: string): unknown {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null')
+  } catch {
+    return null
+  }
+}
+
+export function loadPreferences(): Preferences {
+  return normalizePreferences(readJSON(PREFERENCES_KEY))
+}
+
+export function savePreferences(preferences: Preferences): void {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences))
+}
+
+function isStoredKey(value: unknown): value is StoredKey {
+  if (!value || typeof value !== 'object') return false
+  const stored = value as Record<string, unknown>
+  return stored.encrypted === true
+    ? typeof stored.salt === 'string' && typeof stored.iv === 'string' && typeof stored.data === 'string'
+    : stored.encrypted === false && typeof stored.key === 'string'
+}
+
+function loadStoredKeys(): Partial<Record<ProviderId, StoredKey>> {
+  const saved = readJSON(API_KEYS_KEY)
+  const keys: Partial<Record<ProviderId, StoredKey>> = {}
+  if (saved && typeof saved === 'object') {
+    for (const [provider, stored] of Object.entries(saved)) {
+      if (Object.hasOwn(PROVIDERS, provider) && isStoredKey(stored)) keys[provider as ProviderId] = stored
+    }
+  }
+  return keys
+}
+
+function saveStoredKeys(keys: Partial<Record<ProviderId, StoredKey>>): void {
+  if (Object.keys(keys).length > 0) localStorage.setItem(API_KEYS_KEY, JSON.stringify(keys))
+  else localStorage.removeItem(API_KEYS_KEY)
+}
+
+export function loadStoredKey(provider: ProviderId): StoredKey | null {
+  return loadStoredKeys()[provider] ?? null
+}
+
+/** The saved key for a provider when it can be used without a passphrase, or ''. */
+export function loadPlainKey(provider: ProviderId): string {
+  const stored = loadStoredKey(provider)
+  return stored && !stored.encrypted ? stored.key : ''
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/** Save a provider's API key, encrypted when a passphrase is given. */
+export async function storeKey(provider: ProviderId, key: string, passphrase: string): Promise<StoredKey> {
+  let stored: StoredKey = { encrypted: false, key }
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await deriveKey(passphrase, salt),
+      new TextEncoder().encode(key),
+    )
+    stored = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+  }
+  saveStoredKeys({ ...loadStoredKeys(), [provider]: stored })
+  return stored
+}
+
+/** The API key in a stored entry. Throws a user-facing error when the passphrase is wrong. */
+export async function unlockKey(stored: StoredKey, passphrase: string): Promise<string> {
+  if (!stored.encrypted) return stored.key
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      await deriveKey(passphrase, fromBase64(stored.salt)),
+      fromBase64(stored.data),
+    )
+    return new TextDecoder().decode(data)
+  } catch {
+    throw new Error(t('error.wrongPassphrase'))
+  }
+}
+
+export function forgetKey(provider: ProviderId): void {
+  const keys = loadStoredKeys()
+  delete keys[provider]
+  saveStoredKeys(keys)
+}
+
+export function toSettingsJSON(): string {
+  const apiKeys = Object.fromEntries(Object.entries(loadStoredKeys()).filter(([, stored]) => stored.encrypted))
+  const data: SettingsExport = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences: loadPreferences(),
+    speech: loadSpeechSettings(),
+    budget: loadBudget(),
+    apiKeys,
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Parse a file written by `toSettingsJSON` and save its settings, replacing the current ones. Keys in
+ * the file are added to the saved keys. Throws a user-facing error for anything else.
+ */
+export function importSettingsJSON(text: string): SettingsExport {
+  let data: Partial<SettingsExport>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error(t('error.invalidJSON'))
+  }
+  if (data.format !== FORMAT || typeof data.version !== 'number') {
+    throw new Error(t('error.notSettingsFile'))
+  }
+  if (data.version > VERSION) {
+    throw new Error(t('error.newerFile'))
+  }
+
+  const imported: SettingsExport = {
+    format: FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    preferences: normalizePreferences(data.preferences),
+    speech: normalizeSpeechSettings(data.speech),
+    budget: typeof data.budget === 'number' && data.budget > 0 ? data.budget : null,
+    apiKeys: {},
+  }
+  for (const [provider, stored] of Object.entries(data.apiKeys ?? {})) {
+    if (Object.hasOwn(PROVIDERS, provider) && isStoredKey(stored)) imported.apiKeys[provider as ProviderId] = stored
+  }
+
+  savePreferences(imported.preferences)
+  saveSpeechSettings(imported.speech)
+  saveBudget(imported.budget)
+  saveStoredKeys({ ...loadStoredKeys(), ...imported.apiKeys })
+  return imported
+}
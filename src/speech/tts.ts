@@ -0,0 +1,205 @@
+import type { MessageKey } from '../i18n/i18n'
+import { t } from '../i18n/i18n'
+import { sameLanguage } from '../offline/detectLanguage'
+
+const SETTINGS_KEY = 'learn-by-songs:speech'
+
+export type SpeechBackendId = 'browser' | 'server'
+
+export type SpeechSettings = {
+  backend: SpeechBackendId
+  /** Only used by the server backend: a local server with an OpenAI-compatible `/audio/speech` endpoint. */
+  serverUrl: string
+  /** Playback speed, 1 being normal. */
+  rate: number
+  /** The voice picked for each language code. */
+  voices: Record<string, string>
+}
+
+export type SpeechVoice = {
+  id: string
+  label: string
+}
+
+/** Turns text into audible speech. */
+export type SpeechBackend = {
+  id: SpeechBackendId
+  /** Voices that can speak the language, best match first. */
+  voices: (langCode: string) => Promise<SpeechVoice[]>
+  /** Resolves when playback ends or is stopped. */
+  speak: (text: string, langCode: string, voice: string | undefined, rate: number) => Promise<void>
+  stop: () => void
+}
+
+export const SPEECH_BACKENDS: Record<SpeechBackendId, { label: MessageKey }> = {
+  browser: { label: 'speech.browser' },
+  server: { label: 'speech.server' },
+}
+
+export const DEFAULT_SERVER_URL = 'http://localhost:8880/v1'
+
+export const MIN_RATE = 0.5
+export const MAX_RATE = 1.25
+
+export function defaultSpeechSettings(): SpeechSettings {
+  return { backend: 'browser', serverUrl: DEFAULT_SERVER_URL, rate: 1, voices: {} }
+}
+
+/** Settings from storage or an imported file, with defaults for anything missing or invalid. */
+export function normalizeSpeechSettings(value: unknown): SpeechSettings {
+  const defaults = defaultSpeechSettings()
+  const saved = (value && typeof value === 'object' ? value : {}) as Partial<SpeechSettings>
+  const voices: Record<string, string> = {}
+  if (saved.voices && typeof saved.voices === 'object' && !Array.isArray(saved.voices)) {
+    for (const [langCode, voice] of Object.entries(saved.voices)) {
+      if (typeof voice === 'string') voices[langCode] = voice
+    }
+  }
+  return {
+    backend: saved.backend && Object.hasOwn(SPEECH_BACKENDS, saved.backend) ? saved.backend : defaults.backend,
+    serverUrl: typeof saved.serverUrl === 'string' ? saved.serverUrl : defaults.serverUrl,
+    rate: typeof saved.rate === 'number' ? Math.min(MAX_RATE, Math.max(MIN_RATE, saved.rate)) : defaults.rate,
+    voices,
+  }
+}
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    return normalizeSpeechSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}'))
+  } catch {
+    return defaultSpeechSettings()
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+/** Browser voices, which some browsers only list after a `voiceschanged` event. */
+function browserVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = speechSynthesis.getVoices()
+  if (voices.length > 0) return Promise.resolve(voices)
+  return new Promise((resolve) => {
+    const done = () => {
+      speechSynthesis.removeEventListener('voiceschanged', done)
+      clearTimeout(timer)
+      resolve(speechSynthesis.getVoices())
+    }
+    const timer = setTimeout(done, 1000)
+    speechSynthesis.addEventListener('voiceschanged', done)
+  })
+}
+
+function createBrowserBackend(): SpeechBackend {
+  const voicesFor = async (langCode: string) =>
+    (await browserVoices())
+      .filter((v) => sameLanguage(v.lang.replace('_', '-'), langCode))
+      // Exact regional matches and local voices, which work offline, first
+      .sort(
+        (a, b) =>
+          Number(b.lang.toLowerCase() === langCode.toLowerCase()) -
+            Number(a.lang.toLowerCase() === langCode.toLowerCase()) ||
+          Number(b.localService) - Number(a.localService),
+      )
+
+  return {
+    id: 'browser',
+    async voices(langCode) {
+      if (!('speechSynthesis' in window)) return []
+      return (await voicesFor(langCode)).map((v) => ({ id: v.voiceURI, label: `${v.name} (${v.lang})` }))
+    },
+    async speak(text, langCode, voice, rate) {
+      if (!('speechSynthesis' in window)) throw new Error(t('speech.unsupported'))
+      const available = await voicesFor(langCode)
+      const utterance = new SpeechSynthesisUtterance(text)
+      utterance.lang = langCode
+      utterance.voice = available.find((v) => v.voiceURI === voice) ?? available[0] ?? null
+      utterance.rate = rate
+      speechSynthesis.cancel()
+      await new Promise<void>((resolve, reject) => {
+        utterance.onend = () => resolve()
+        utterance.onerror = (event) => {
+          if (event.error === 'interrupted' || event.error === 'canceled') resolve()
+          else reject(new Error(t('speech.error', { error: event.error })))
+        }
+        speechSynthesis.speak(utterance)
+      })
+    },
+    stop() {
+      if ('speechSynthesis' in window) speechSynthesis.cancel()
+    },
+  }
+}
+
+/**
+ * A local server such as Kokoro-FastAPI or openedai-speech, speaking the OpenAI `/audio/speech` API.
+ * Voices are listed from `/audio/voices` when the server offers it.
+ */
+function createServerBackend(baseUrl: string): SpeechBackend {
+  const base = baseUrl.replace(/\/+$/, '')
+  let playing: { audio: HTMLAudioElement; finish: () => void } | null = null
+
+  const stop = () => {
+    playing?.audio.pause()
+    playing?.finish()
+    playing = null
+  }
+
+  return {
+    id: 'server',
+    async voices() {
+      try {
+        const response = await fetch(`${base}/audio/voices`)
+        if (!response.ok) return []
+        const data = (await response.json()) as { voices?: unknown }
+        return Array.isArray(data.voices)
+          ? data.voices.filter((v): v is string => typeof v === 'string').map((v) => ({ id: v, label: v }))
+          : []
+      } catch {
+        return []
+      }
+    },
+    async speak(text, langCode, voice, rate) {
+      stop()
+      const response = await fetch(`${base}/audio/speech`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: 'tts-1',
+          input: text,
+          voice: voice || undefined,
+          speed: rate,
+          language: langCode,
+          response_format: 'mp3',
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(t('speech.serverError', { status: response.status, statusText: response.statusText }))
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const audio = new Audio(url)
+      try {
+        await new Promise<void>((resolve, reject) => {
+          playing = { audio, finish: resolve }
+          audio.onended = () => resolve()
+          audio.onerror = () => reject(new Error(t('speech.badAudio')))
+          audio.play().catch(reject)
+        })
+      } finally {
+        if (playing?.audio === audio) playing = null
+        URL.revokeObjectURL(url)
+      }
+    },
+    stop,
+  }
+}
+
+export function createSpeechBackend(id: SpeechBackendId, serverUrl: string): SpeechBackend {
+  switch (id) {
+    case 'browser':
+      return createBrowserBackend()
+    case 'server':
+      return createServerBackend(serverUrl.trim() || DEFAULT_SERVER_URL)
+  }
+}
@@ -0,0 +1,86 @@
+const DB_NAME = 'learn-by-songs'
+/** Bump when adding a store to STORES. */
+const DB_VERSION = 6
+
+/** Object stores and their key paths. */
+const STORES = {
+  reviewCards: 'id',
+  songs: 'id',
+  vocabulary: 'id',
+  quizSessions: 'id',
+  llmCache: 'id',
+  llmUsage: 'id',
+  reviewLog: 'id',
+} as const
+
+export type StoreName = keyof typeof STORES
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(new Error(`Could not open local database: ${request.error?.message ?? 'unknown error'}`))
+    }
+  })
+  return dbPromise
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDB()
+  return toPromise(run(db.transaction(name, mode).objectStore(name)))
+}
+
+export function getAll<T>(name: StoreName): Promise<T[]> {
+  return withStore(name, 'readonly', (store) => store.getAll() as IDBRequest<T[]>)
+}
+
+export function get<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(name, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>)
+}
+
+export async function put<T>(name: StoreName, value: T): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.put(value))
+}
+
+/** Write several records in one transaction. */
+export async function putMany<T>(name: StoreName, values: T[]): Promise<void> {
+  const db = await openDB()
+  const tx = db.transaction(name, 'readwrite')
+  const store = tx.objectStore(name)
+  for (const value of values) store.put(value)
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'))
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+export async function remove(name: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.delete(key))
+}
+
+export async function clear(name: StoreName): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.clear())
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+
+import type { GrammarNote, LearningItem } from '../types'
+import { anchorItems, anchorNotes, highlightSegments, wordsMatch } from './anchor'
+
+const LYRICS = `Ik zie de zon
+De zonnen schijnen
+Ik maak een lied
+
+En ik maken muziek`
+
+function item(word: string, patch: Partial<LearningItem> = {}): LearningItem {
+  return {
+    id: word,
+    word,
+    difficultyScore: 3,
+    difficultyBand: 'comfortable',
+    count: 1,
+    example: '',
+    ...patch,
+  }
+}
+
+function note(text: string, lines: number[]): GrammarNote {
+  return { id: text, kind: 'grammar', title: text, text, rule: '', examples: [], lines }
+}
+
+describe('wordsMatch', () => {
+  it('allows for inflectional endings', () => {
+    expect(wordsMatch('zon', 'zonnen', 'nl')).toBe(true)
+    expect(wordsMatch('maak', 'maken', 'nl')).toBe(true)
+    expect(wordsMatch('zon', 'zien', 'nl')).toBe(false)
+  })
+})
+
+describe('anchorItems', () => {
+  it('counts every occurrence and uses the real lyric line as example', () => {
+    const [zon] = anchorItems([item('zon', { example: 'not in the song' })], LYRICS, 'nl')
+    expect(zon).toMatchObject({ count: 2, lines: [0, 1], example: 'Ik zie de zon' })
+  })
+
+  it('keeps the example line the model chose when the word is on it', () => {
+    const [maak] = anchorItems([item('maak', { example: 'En ik maken muziek' })], LYRICS, 'nl')
+    expect(maak).toMatchObject({ lines: [2, 4], example: 'En ik maken muziek' })
+  })
+
+  it('flags or drops items that are not in the lyrics', () => {
+    expect(anchorItems([item('fiets')], LYRICS, 'nl')[0]).toMatchObject({ count: 0, notInLyrics: true })
+    expect(anchorItems([item('fiets')], LYRICS, 'nl', 'drop')).toEqual([])
+  })
+})
+
+describe('highlightSegments', () => {
+  it('marks the matching words of a line', () => {
+    expect(highlightSegments('De zonnen schijnen', 'zon', 'nl')).toEqual([
+      { text: 'De ', match: false },
+      { text: 'zonnen', match: true },
+      { text: ' schijnen', match: false },
+    ])
+  })
+})
+
+describe('anchorNotes', () => {
+  it('anchors notes to the lines their text occurs on', () => {
+    expect(anchorNotes([note('zie de zon', [3])], LYRICS, 'nl')[0].lines).toEqual([0])
+  })
+
+  it('falls back to the given lines, and drops notes that point nowhere', () => {
+    expect(anchorNotes([note('hoi', [2, 3])], LYRICS, 'nl').map((n) => n.lines)).toEqual([[2]])
+    expect(anchorNotes([note('hoi', [3, 9])], LYRICS, 'nl')).toEqual([])
+  })
+})
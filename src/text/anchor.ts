@@ -0,0 +1,177 @@
+import type { GrammarNote, LearningItem } from '../types'
+import type { Token } from './tokenize'
+import { normalizeWord, splitLines, tokenizeLyrics } from './tokenize'
+
+// Inflectional endings that may differ between the item text and the word in the song
+// (e.g. `oog` ↔ `oogjes`, `luisteren` ↔ `luistert`).
+const ENDINGS: Record<string, string[]> = {
+  en: ['s', 'es', 'ed', 'd', 'ing', 'er', 'est', 'ly'],
+  nl: ['e', 'en', 'n', 's', 'es', 'je', 'jes', 'tje', 'tjes', 't', 'te', 'de', 'st', 'er'],
+  de: ['e', 'en', 'n', 'er', 'es', 's', 'st', 't', 'te', 'ten', 'em', 'ern'],
+  es: ['s', 'es', 'a', 'as', 'o', 'os', 'ar', 'er', 'ir', 'ado', 'ada', 'ando', 'iendo'],
+  fr: ['e', 'es', 's', 'x', 'nt', 'ent', 'er', 'ez', 'é', 'ée', 'és'],
+  it: ['i', 'e', 'a', 'o', 'are', 'ere', 'ire', 'ato', 'ata'],
+  pt: ['s', 'es', 'a', 'as', 'o', 'os', 'ar', 'er', 'ir', 'ado', 'ada'],
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length)
+  let i = 0
+  while (i < max && a[i] === b[i]) i++
+  return i
+}
+
+function isEnding(rest: string, endings: string[] | undefined, stemEnd: string): boolean {
+  if (!rest) return true
+  // Doubled final consonant before an ending: stop → stopped, zon → zonnen
+  const undoubled = rest[0] === stemEnd ? rest.slice(1) : rest
+  if (endings) return endings.includes(rest) || endings.includes(undoubled)
+  return rest.length <= 2
+}
+
+function sameStem(a: string, b: string, langCode?: string): boolean {
+  const common = commonPrefixLength(a, b)
+  if (common < 3 || common < Math.min(a.length, b.length) - 1) return false
+  const endings = langCode ? ENDINGS[langCode] : undefined
+  const stemEnd = a[common - 1]
+  return isEnding(a.slice(common), endings, stemEnd) && isEnding(b.slice(common), endings, stemEnd)
+}
+
+/** True when two normalized words are the same word, allowing for inflectional endings. */
+export function wordsMatch(a: string, b: string, langCode?: string): boolean {
+  if (a === b || sameStem(a, b, langCode)) return true
+  // Dutch halves long vowels in open syllables: maak ↔ maken, hoop ↔ hopen
+  if (langCode === 'nl') {
+    const undouble = (s: string) => s.replace(/([aeou])\1/g, '$1')
+    return sameStem(undouble(a), undouble(b), langCode)
+  }
+  return false
+}
+
+/** Every occurrence of `text` (a word or phrase) in the tokenized lyrics, as the tokens it spans. */
+export function findOccurrences(tokens: Token[], text: string, langCode?: string): Token[][] {
+  const query = tokenizeLyrics(text, langCode).map((t) => t.norm)
+  if (query.length === 0) return []
+
+  const byLine = new Map<number, Token[]>()
+  for (const token of tokens) {
+    const line = byLine.get(token.line)
+    if (line) line.push(token)
+    else byLine.set(token.line, [token])
+  }
+
+  const occurrences: Token[][] = []
+  for (const lineTokens of byLine.values()) {
+    let found = false
+    for (let i = 0; i + query.length <= lineTokens.length; i++) {
+      if (query.every((q, j) => wordsMatch(lineTokens[i + j].norm, q, langCode))) {
+        occurrences.push(lineTokens.slice(i, i + query.length))
+        i += query.length - 1
+        found = true
+      }
+    }
+    if (found || query.length === 1) continue
+    // Separable phrases ("sluit ... toe"): all words present in order on the same line.
+    const span: Token[] = []
+    for (const token of lineTokens) {
+      if (span.length < query.length && wordsMatch(token.norm, query[span.length], langCode)) {
+        span.push(token)
+      }
+    }
+    if (span.length === query.length) occurrences.push(span)
+  }
+  return occurrences
+}
+
+export type LineSegment = {
+  text: string
+  /** True for the part of the line that is the looked-up word or phrase. */
+  match: boolean
+}
+
+/** Split a lyric line into plain and matching segments, for highlighting `text` within it. */
+export function highlightSegments(line: string, text: string, langCode?: string): LineSegment[] {
+  const ranges = findOccurrences(tokenizeLyrics(line, langCode), text, langCode).flatMap((occ) =>
+    occ.map((token) => [token.start, token.end] as const),
+  )
+  ranges.sort((a, b) => a[0] - b[0])
+  const segments: LineSegment[] = []
+  let pos = 0
+  for (const [start, end] of ranges) {
+    if (start < pos) continue
+    if (start > pos) segments.push({ text: line.slice(pos, start), match: false })
+    segments.push({ text: line.slice(start, end), match: true })
+    pos = end
+  }
+  if (pos < line.length) segments.push({ text: line.slice(pos), match: false })
+  return segments
+}
+
+function sameLine(a: string, b: string): boolean {
+  const simplify = (s: string) => normalizeWord(s).replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  return simplify(a) === simplify(b)
+}
+
+/**
+ * Check LLM-returned items against the lyrics: fill in the real occurrence count and line numbers,
+ * replace example lines that aren't in the song, and drop or flag items that never occur. Items
+ * tagged with their own language are matched with that language's rules.
+ */
+export function anchorItems(
+  items: LearningItem[],
+  lyrics: string,
+  langCode?: string,
+  onMissing: 'drop' | 'flag' = 'flag',
+): LearningItem[] {
+  const lines = splitLines(lyrics)
+  const tokensByLang = new Map<string | undefined, Token[]>()
+  const anchored: LearningItem[] = []
+
+  for (const item of items) {
+    const itemLang = item.langCode ?? langCode
+    const tokens = tokensByLang.get(itemLang) ?? tokenizeLyrics(lyrics, itemLang)
+    tokensByLang.set(itemLang, tokens)
+    // A merged item is found by every form of it the song uses
+    const seen = new Set<string>()
+    const occurrences = (item.forms ?? [item.word])
+      .flatMap((form) => findOccurrences(tokens, form, itemLang))
+      .filter((occ) => {
+        const at = `${occ[0].line}:${occ[0].start}`
+        if (seen.has(at)) return false
+        seen.add(at)
+        return true
+      })
+    if (occurrences.length === 0) {
+      if (onMissing === 'flag') anchored.push({ ...item, count: 0, lines: [], notInLyrics: true })
+      continue
+    }
+    const lineNumbers = [...new Set(occurrences.map((occ) => occ[0].line))].sort((a, b) => a - b)
+    const claimed = lineNumbers.find((n) => sameLine(lines[n], item.example))
+    anchored.push({
+      ...item,
+      count: occurrences.length,
+      lines: lineNumbers,
+      example: lines[claimed ?? lineNumbers[0]].trim(),
+      notInLyrics: undefined,
+    })
+  }
+  return anchored
+}
+
+/**
+ * Check grammar notes against the lyrics: anchor each to the lines its text occurs on, falling back
+ * to the lines the model gave when the text can't be matched, and drop notes that point nowhere.
+ */
+export function anchorNotes(notes: GrammarNote[], lyrics: string, langCode?: string): GrammarNote[] {
+  const lines = splitLines(lyrics)
+  const tokensByLang = new Map<string | undefined, Token[]>()
+  return notes.flatMap((note) => {
+    const noteLang = note.langCode ?? langCode
+    const tokens = tokensByLang.get(noteLang) ?? tokenizeLyrics(lyrics, noteLang)
+    tokensByLang.set(noteLang, tokens)
+    const found = findOccurrences(tokens, note.text, noteLang).map((occ) => occ[0].line)
+    const anchored = found.length > 0 ? found : note.lines.filter((n) => lines[n]?.trim())
+    if (anchored.length === 0) return []
+    return [{ ...note, lines: [...new Set(anchored)].sort((a, b) => a - b) }]
+  })
+}
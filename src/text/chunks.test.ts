@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+
+import type { LearningItem } from '../types'
+import { chunkLyrics, chunkStanzas, mergeItems, splitAlbum, splitStanzas } from './chunks'
+
+function item(word: string, patch: Partial<LearningItem> = {}): LearningItem {
+  return {
+    id: word,
+    word,
+    difficultyScore: 3,
+    difficultyBand: 'comfortable',
+    count: 1,
+    example: '',
+    ...patch,
+  }
+}
+
+describe('chunkStanzas', () => {
+  const stanzas = splitStanzas('aaaa\nbbbb\n\ncccc\n\n\ndddd\neeee')
+
+  it('finds stanzas and where they start', () => {
+    expect(stanzas).toEqual([
+      { firstLine: 0, lines: ['aaaa', 'bbbb'] },
+      { firstLine: 3, lines: ['cccc'] },
+      { firstLine: 6, lines: ['dddd', 'eeee'] },
+    ])
+  })
+
+  it('groups whole stanzas up to the size limit', () => {
+    expect(chunkStanzas(stanzas, 15).map((chunk) => chunk.map((s) => s.firstLine))).toEqual([[0, 3], [6]])
+    expect(chunkLyrics('aaaa\nbbbb\n\ncccc', 100)).toEqual(['aaaa\nbbbb\n\ncccc'])
+  })
+
+  it('splits an over-long stanza between lines', () => {
+    expect(chunkStanzas(stanzas, 5)).toEqual([
+      [{ firstLine: 0, lines: ['aaaa'] }],
+      [{ firstLine: 1, lines: ['bbbb'] }],
+      [{ firstLine: 3, lines: ['cccc'] }],
+      [{ firstLine: 6, lines: ['dddd'] }],
+      [{ firstLine: 7, lines: ['eeee'] }],
+    ])
+  })
+})
+
+describe('splitAlbum', () => {
+  it('treats text without separators as one song', () => {
+    expect(splitAlbum('\nla la\nla\n\n')).toEqual([{ title: undefined, lyrics: 'la la\nla', firstLine: 1 }])
+  })
+
+  it('splits at separator lines and takes their titles', () => {
+    const text = 'one\n\n=== Track 2 ===\n\ntwo\n---\nthree\n### Finale\nfour'
+    expect(splitAlbum(text)).toEqual([
+      { title: undefined, lyrics: 'one', firstLine: 0 },
+      { title: 'Track 2', lyrics: 'two', firstLine: 4 },
+      { title: undefined, lyrics: 'three', firstLine: 6 },
+      { title: 'Finale', lyrics: 'four', firstLine: 8 },
+    ])
+  })
+
+  it('does not take short dashes for a separator', () => {
+    expect(splitAlbum('one\n--\ntwo')).toHaveLength(1)
+  })
+})
+
+describe('mergeItems', () => {
+  it('merges inflections of a lemma, summing counts and lines', () => {
+    const merged = mergeItems(
+      [item('ojos', { lemma: 'ojo', lines: [4], count: 2 }), item('Ojo', { lines: [1, 4] }), item('sol')],
+      'es',
+    )
+    expect(merged).toEqual([
+      item('ojos', { lemma: 'ojo', lines: [1, 4], count: 3, forms: ['ojos', 'Ojo'] }),
+      item('sol'),
+    ])
+  })
+
+  it('keeps words spelled alike in two languages apart', () => {
+    const items = [item('die', { langCode: 'de' }), item('die', { langCode: 'en' }), item('die')]
+    expect(mergeItems(items, 'de').map((i) => [i.langCode, i.count])).toEqual([
+      ['de', 2],
+      ['en', 1],
+    ])
+  })
+
+  it('prefers the item that was found in the lyrics', () => {
+    const [merged] = mergeItems([
+      item('sol', { notInLyrics: true, example: 'made up' }),
+      item('sol', { example: 'sol' }),
+    ])
+    expect(merged).toMatchObject({ example: 'sol', notInLyrics: undefined, count: 2 })
+  })
+})
@@ -0,0 +1,183 @@
+import type { LearningItem } from '../types'
+import { normalizeWord, splitLines } from './tokenize'
+
+/** Characters of lyrics per analysis request. Typical songs fit in one; albums and long songs are split. */
+export const CHUNK_SIZE = 4_000
+
+/** A run of non-blank lines, with the index of its first line in the lyrics. */
+export type Stanza = {
+  firstLine: number
+  lines: string[]
+}
+
+/** One song of a pasted album, with the index of its first line in the pasted text. */
+export type AlbumSong = {
+  /** Text on the separator line above the song, if any. */
+  title?: string
+  lyrics: string
+  firstLine: number
+}
+
+// A line of three or more `-`, `=`, `*` or `#`, optionally around a title: `---`, `=== Track 2 ===`.
+const SEPARATOR_RE = /^\s*([-=*#])\1{2,}\s*(.*?)\s*(?:([-=*#])\3{2,})?\s*$/
+
+export function splitStanzas(lyrics: string): Stanza[] {
+  const stanzas: Stanza[] = []
+  let current: Stanza | null = null
+  splitLines(lyrics).forEach((line, i) => {
+    if (!line.trim()) {
+      current = null
+      return
+    }
+    if (!current) {
+      current = { firstLine: i, lines: [] }
+      stanzas.push(current)
+    }
+    current.lines.push(line)
+  })
+  return stanzas
+}
+
+export function stanzaText(stanzas: Stanza[]): string {
+  return stanzas.map((s) => s.lines.join('\n')).join('\n\n')
+}
+
+/**
+ * Group whole stanzas into chunks of at most `maxChars`, so no chunk cuts a stanza in half. A single
+ * stanza longer than that is split between lines.
+ */
+export function chunkStanzas(stanzas: Stanza[], maxChars = CHUNK_SIZE): Stanza[][] {
+  const pieces = stanzas.flatMap((stanza) => {
+    if (stanza.lines.join('\n').length <= maxChars) return [stanza]
+    const split: Stanza[] = []
+    let piece: Stanza = { firstLine: stanza.firstLine, lines: [] }
+    stanza.lines.forEach((line, i) => {
+      if (piece.lines.length > 0 && [...piece.lines, line].join('\n').length > maxChars) {
+        split.push(piece)
+        piece = { firstLine: stanza.firstLine + i, lines: [] }
+      }
+      piece.lines.push(line)
+    })
+    split.push(piece)
+    return split
+  })
+
+  const chunks: Stanza[][] = []
+  let chunk: Stanza[] = []
+  for (const piece of pieces) {
+    if (chunk.length > 0 && stanzaText([...chunk, piece]).length > maxChars) {
+      chunks.push(chunk)
+      chunk = []
+    }
+    chunk.push(piece)
+  }
+  if (chunk.length > 0) chunks.push(chunk)
+  return chunks
+}
+
+/** The lyrics as stanza-aligned chunks of text, one per analysis request. */
+export function chunkLyrics(lyrics: string, maxChars = CHUNK_SIZE): string[] {
+  return chunkStanzas(splitStanzas(lyrics), maxChars).map(stanzaText)
+}
+
+/**
+ * Split pasted text into songs at separator lines. Text without separators is a single song. Blank
+ * lines around each song are dropped, and `firstLine` accounts for them.
+ */
+export function splitAlbum(text: string): AlbumSong[] {
+  const songs: AlbumSong[] = []
+  let title: string | undefined
+  let lines: string[] = []
+  let firstLine = 0
+
+  const finish = () => {
+    const start = lines.findIndex((line) => line.trim())
+    if (start !== -1) {
+      let end = lines.length
+      while (!lines[end - 1].trim()) end--
+      songs.push({ title, lyrics: lines.slice(start, end).join('\n'), firstLine: firstLine + start })
+    }
+  }
+
+  splitLines(text).forEach((line, i) => {
+    const separator = line.match(SEPARATOR_RE)
+    if (!separator) {
+      lines.push(line)
+      return
+    }
+    finish()
+    title = separator[2] || undefined
+    lines = []
+    firstLine = i + 1
+  })
+  finish()
+  return songs
+}
+
+/**
+ * Key under which the same word or phrase from different chunks or songs is merged. Inflections
+ * share their lemma's key; words spelled alike in two languages of a multilingual song stay apart.
+ */
+export function itemKey(item: LearningItem, langCode?: string): string {
+  const lang = item.langCode ?? langCode
+  const words = (item.lemma ?? item.word)
+    .trim()
+    .split(/\s+/)
+    .map((w) => normalizeWord(w, lang))
+  return `${lang ?? ''}:${words.join(' ')}`
+}
+
+/** Shift items' line numbers, e.g. from a song's own lines to the lines of the album it was pasted in. */
+export function offsetLines(items: LearningItem[], offset: number): LearningItem[] {
+  return offset === 0 ? items : items.map((item) => ({ ...item, lines: item.lines?.map((n) => n + offset) }))
+}
+
+/** Forms of an item's word, without duplicates that differ only in case. */
+function formsOf(items: LearningItem[]): string[] | undefined {
+  const forms = new Map<string, string>()
+  for (const item of items) {
+    for (const form of item.forms ?? [item.word]) {
+      if (!forms.has(form.toLowerCase())) forms.set(form.toLowerCase(), form)
+    }
+  }
+  return forms.size > 1 ? [...forms.values()] : undefined
+}
+
+/**
+ * One item standing for two: counts are summed, lines and forms combined, and fields the first lacks
+ * are taken from the second. An item found in the lyrics is preferred as the base, for its example.
+ */
+export function combineItems(first: LearningItem, second: LearningItem): LearningItem {
+  const [base, other] = first.notInLyrics && !second.notInLyrics ? [second, first] : [first, second]
+  return {
+    ...base,
+    count: base.count + other.count,
+    lines:
+      base.lines || other.lines
+        ? [...new Set([...(base.lines ?? []), ...(other.lines ?? [])])].sort((a, b) => a - b)
+        : undefined,
+    notInLyrics: base.notInLyrics && other.notInLyrics ? true : undefined,
+    forms: formsOf([base, other]),
+    lemma: base.lemma ?? other.lemma,
+    partOfSpeech: base.partOfSpeech ?? other.partOfSpeech,
+    gender: base.gender ?? other.gender,
+    article: base.article ?? other.article,
+    ipa: base.ipa ?? other.ipa,
+    explanation: base.explanation ?? other.explanation,
+    translation: base.translation ?? other.translation,
+  }
+}
+
+/**
+ * De-duplicate items found in several chunks or songs, merging inflections of the same lemma into the
+ * first occurrence.
+ */
+export function mergeItems(items: LearningItem[], langCode?: string): LearningItem[] {
+  const merged = new Map<string, LearningItem>()
+  for (const item of items) {
+    const key = itemKey(item, langCode)
+    const existing = merged.get(key)
+    merged.set(key, existing ? combineItems(existing, item) : item)
+  }
+  return [...merged.values()]
+}
@@ -0,0 +1,109 @@
+import { t } from '../i18n/i18n'
+
+/** A lyric line with its playback time, from an `.lrc` or `.srt` file. */
+export type TimedLine = {
+  /** Start time in seconds. */
+  time: number
+  /** End time in seconds, when the file gives one (SRT). Otherwise the next line's start is used. */
+  end?: number
+  text: string
+}
+
+export type SyncedLyrics = {
+  lines: TimedLine[]
+  title?: string
+  artist?: string
+}
+
+const LRC_TIME_RE = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g
+const LRC_TAG_RE = /^\[([a-z]+):(.*)\]$/i
+const SRT_TIME_RE =
+  /(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})/
+
+function fraction(digits: string | undefined): number {
+  return digits ? Number(digits) / 10 ** digits.length : 0
+}
+
+/**
+ * Parse LRC lyrics: `[mm:ss.xx]text`, several timestamps per line, `[ti:]`/`[ar:]` tags and
+ * `[offset:±ms]`. Word-level `<mm:ss.xx>` stamps from enhanced LRC are dropped.
+ */
+export function parseLRC(text: string): SyncedLyrics {
+  const result: SyncedLyrics = { lines: [] }
+  let offset = 0
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim()
+    const tag = line.match(LRC_TAG_RE)
+    if (tag && !/^\d/.test(tag[1])) {
+      const value = tag[2].trim()
+      const key = tag[1].toLowerCase()
+      if (key === 'ti') result.title = value
+      else if (key === 'ar') result.artist = value
+      else if (key === 'offset') offset = Number(value) / 1000 || 0
+      continue
+    }
+
+    const times = [...line.matchAll(LRC_TIME_RE)].map(
+      (m) => Number(m[1]) * 60 + Number(m[2]) + fraction(m[3]),
+    )
+    if (times.length === 0) continue
+    const lyric = line
+      .replace(LRC_TIME_RE, '')
+      .replace(/<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+    for (const time of times) result.lines.push({ time: Math.max(0, time - offset), text: lyric })
+  }
+
+  result.lines.sort((a, b) => a.time - b.time)
+  return result
+}
+
+/** Parse SRT subtitles. Each text line of a cue becomes its own lyric line sharing the cue's times. */
+export function parseSRT(text: string): SyncedLyrics {
+  const lines: TimedLine[] = []
+  for (const block of text.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)) {
+    const rows = block.split(/\r?\n/)
+    const timeRow = rows.findIndex((row) => SRT_TIME_RE.test(row))
+    if (timeRow === -1) continue
+    const m = rows[timeRow].match(SRT_TIME_RE)!
+    const time = Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]) + fraction(m[4])
+    const end = Number(m[5]) * 3600 + Number(m[6]) * 60 + Number(m[7]) + fraction(m[8])
+    for (const row of rows.slice(timeRow + 1)) {
+      const lyric = row.replace(/<[^>]+>|\{[^}]+\}/g, '').trim()
+      if (lyric) lines.push({ time, end, text: lyric })
+    }
+  }
+  lines.sort((a, b) => a.time - b.time)
+  return { lines }
+}
+
+/** Parse an `.lrc` or `.srt` file, chosen by extension and falling back to sniffing the content. */
+export function parseSyncedLyrics(text: string, fileName: string): SyncedLyrics {
+  const isSRT = /\.srt$/i.test(fileName) || (!/\.lrc$/i.test(fileName) && SRT_TIME_RE.test(text))
+  const parsed = isSRT ? parseSRT(text) : parseLRC(text)
+  if (parsed.lines.length === 0) {
+    throw new Error(t('error.noTimedLines', { file: fileName }))
+  }
+  return parsed
+}
+
+/** The plain lyrics of synced lines, one lyric line per timed line so that line numbers match. */
+export function syncedLyricsText(lines: TimedLine[]): string {
+  return lines.map((line) => line.text).join('\n')
+}
+
+/** Index of the line playing at `time`, or -1 before the first line. */
+export function activeLineIndex(lines: TimedLine[], time: number): number {
+  let index = -1
+  for (let i = 0; i < lines.length && lines[i].time <= time; i++) index = i
+  return index
+}
+
+/** When a line stops: its own end time, else the next line's start, else `duration`. */
+export function lineEndTime(lines: TimedLine[], index: number, duration: number): number {
+  const line = lines[index]
+  if (line.end !== undefined) return line.end
+  return lines.slice(index + 1).find((next) => next.time > line.time)?.time ?? duration
+}
@@ -0,0 +1,102 @@
+/** A word in the lyrics, with its position so it can be traced back to the song. */
+export type Token = {
+  /** Surface form exactly as written in the lyrics. */
+  text: string
+  /** Lowercased form with contractions and elisions expanded (e.g. Dutch `'k` → `ik`). */
+  norm: string
+  /** 0-based line index in the lyrics. */
+  line: number
+  /** Character offsets of `text` within its line. */
+  start: number
+  end: number
+}
+
+// Letters (incl. combining marks), optionally joined by apostrophes or hyphens, with an optional
+// leading/trailing apostrophe so that `'k`, `kind'ren` and `Heer'` are kept as one word.
+const WORD_RE = /['’]?[\p{L}\p{M}]+(?:['’-][\p{L}\p{M}]+)*['’]?/gu
+
+const DUTCH_CONTRACTIONS: Record<string, string> = {
+  "'k": 'ik',
+  "'t": 'het',
+  "'n": 'een',
+  "'s": 'des',
+  "m'n": 'mijn',
+  "z'n": 'zijn',
+  "d'r": 'haar',
+  "'r": 'er',
+  "'m": 'hem',
+  "'ns": 'eens',
+}
+
+const ENGLISH_CONTRACTIONS: Record<string, string> = {
+  "can't": 'can',
+  "won't": 'will',
+  "ain't": 'be',
+  "'cause": 'because',
+  "'til": 'until',
+  "'round": 'around',
+  "'em": 'them',
+  "o'": 'of',
+  "y'all": 'you',
+}
+
+// Elided articles/pronouns in front of a word (French `l'amour`, Italian `dell'anima`).
+const ELISION_RE = /^(?:[a-z]{1,4})'(?=[\p{L}])/u
+
+function normalizeDutch(word: string): string {
+  if (DUTCH_CONTRACTIONS[word]) return DUTCH_CONTRACTIONS[word]
+  // Poetic elisions drop an unstressed `e`: kind'ren → kinderen, vriend'lijk → vriendelijk
+  return word.replace(/(\p{L})'(\p{L})/gu, '$1e$2')
+}
+
+function normalizeEnglish(word: string): string {
+  if (ENGLISH_CONTRACTIONS[word]) return ENGLISH_CONTRACTIONS[word]
+  return word
+    .replace(/n't$/, '')
+    .replace(/'(?:m|re|ll|ve|d|s)$/, '')
+    .replace(/(\p{L}{2,})in'$/u, '$1ing')
+}
+
+/** Lowercase a word and expand contractions so it can be compared with dictionary forms. */
+export function normalizeWord(word: string, langCode?: string): string {
+  let norm = word.replace(/’/g, "'").toLocaleLowerCase(langCode)
+  switch (langCode) {
+    case 'nl':
+      norm = normalizeDutch(norm)
+      break
+    case 'en':
+      norm = normalizeEnglish(norm)
+      break
+    case 'fr':
+    case 'it':
+    case 'pt':
+    case 'ca':
+      norm = norm.replace(ELISION_RE, '')
+      break
+  }
+  return norm.replace(/^'+|'+$/g, '')
+}
+
+export function splitLines(lyrics: string): string[] {
+  return lyrics.split(/\r?\n/)
+}
+
+/** Split lyrics into word tokens, keeping line numbers and offsets. */
+export function tokenizeLyrics(lyrics: string, langCode?: string): Token[] {
+  const tokens: Token[] = []
+  splitLines(lyrics).forEach((lineText, line) => {
+    for (const match of lineText.matchAll(WORD_RE)) {
+      let text = match[0]
+      let start = match.index
+      // A leading apostrophe that isn't part of a known contraction is just a quote mark.
+      if (/^['’]/.test(text) && normalizeWord(text, langCode) === normalizeWord(text.slice(1), langCode)) {
+        text = text.slice(1)
+        start += 1
+      }
+      const norm = normalizeWord(text, langCode)
+      if (!norm) continue
+      tokens.push({ text, norm, line, start, end: start + text.length })
+    }
+  })
+  return tokens
+}
@@ -0,0 +1,97 @@
+export type UserLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2'
+
+export type DifficultyBand = 'comfortable' | 'stretch' | 'challenging'
+
+export type PartOfSpeech =
+  | 'noun'
+  | 'verb'
+  | 'adjective'
+  | 'adverb'
+  | 'pronoun'
+  | 'preposition'
+  | 'conjunction'
+  | 'determiner'
+  | 'numeral'
+  | 'interjection'
+  | 'phrase'
+  | 'other'
+
+export type LearningItem = {
+  id: string
+  word: string
+  difficultyScore: number
+  difficultyBand: DifficultyBand
+  count: number
+  example: string
+  /** 0-based indices of the lyric lines where the item occurs. */
+  lines?: number[]
+  /** Set when the item's text could not be found anywhere in the lyrics. */
+  notInLyrics?: boolean
+  /** Language of this word (e.g. `es`), which may differ from the song's in multilingual lyrics. Missing means the song's language. */
+  langCode?: string
+  /** Dictionary form, e.g. `oog` for `oogjes`. */
+  lemma?: string
+  partOfSpeech?: PartOfSpeech
+  /** Grammatical gender (`masculine`, `feminine`, `neuter` or `common`), for languages that have it. */
+  gender?: string
+  /** Article of the dictionary form, e.g. Dutch `het` or German `der`. */
+  article?: string
+  /** Pronunciation in IPA, without slashes. */
+  ipa?: string
+  /** Different forms of the lemma used in the song, once inflections have been merged into one item. */
+  forms?: string[]
+  explanation?: string // LLM-provided explanation
+  translation?: string
+  translationError?: string
+}
+
+/** Raw word item as returned by the analysis prompt. */
+export type LLMWordItem = {
+  word: string
+  phrase?: string
+  difficulty: DifficultyBand
+  explanation: string
+  example: string
+  /** Language code of the word, for lyrics that mix languages. */
+  language?: string
+  lemma?: string
+  partOfSpeech?: PartOfSpeech
+  gender?: string
+  article?: string
+  ipa?: string
+}
+
+export type GrammarNoteKind = 'grammar' | 'idiom'
+
+/** A grammar point or idiom in the lyrics, explained apart from the words to learn. */
+export type GrammarNote = {
+  id: string
+  kind: GrammarNoteKind
+  /** Short name of the point, e.g. "Diminutive with -je". */
+  title: string
+  /** The words in the lyrics that show it, as written. */
+  text: string
+  /** The rule or meaning, in a sentence or two. */
+  rule: string
+  /** Further sentences that use it, each followed by its translation. */
+  examples: string[]
+  /** 0-based indices of the lyric lines where it occurs. */
+  lines: number[]
+  /** Language of the text, when it differs from the song's in multilingual lyrics. */
+  langCode?: string
+}
+
+/** Raw grammar note as returned by the grammar prompt. */
+export type LLMGrammarNote = {
+  kind: GrammarNoteKind
+  title: string
+  text: string
+  rule: string
+  examples: string[]
+  /** 1-based line numbers, as the lines were numbered in the prompt. */
+  lines: number[]
+  language?: string
+}
+
+/** How lyric lines are translated: close to the original wording, or as a fluent speaker would say it. */
+export type TranslationStyle = 'literal' | 'natural'
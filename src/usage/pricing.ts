@@ -0,0 +1,87 @@
+import type { LLMSettings, LLMTask, ProviderId, TokenUsage } from '../llm/providers'
+import { chunkLyrics, splitAlbum } from '../text/chunks'
+
+/** USD per million tokens. */
+type ModelPrice = {
+  input: number
+  output: number
+}
+
+// List prices, matched by model name prefix (longest first), so dated and `-latest` variants are covered.
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['gemini-2.0-flash-lite', { input: 0.075, output: 0.3 }],
+  ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-1.5-flash', { input: 0.075, output: 0.3 }],
+  ['gemini-1.5-pro', { input: 1.25, output: 5 }],
+]
+
+function priceFor(provider: ProviderId, model: string): ModelPrice | null {
+  // Local servers (Ollama, llama.cpp...) cost nothing per token.
+  if (provider === 'openai-compatible') return { input: 0, output: 0 }
+  const name = model.toLowerCase()
+  const matches = MODEL_PRICES.filter(([prefix]) => name.startsWith(prefix))
+  matches.sort((a, b) => b[0].length - a[0].length)
+  return matches[0]?.[1] ?? null
+}
+
+/** Estimated cost in USD, or null when the model's price is unknown. */
+export function estimateCost(provider: ProviderId, model: string, usage: TokenUsage): number | null {
+  const price = priceFor(provider, model)
+  if (!price) return null
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+/** Rough token count for text, for providers that don't report usage and for estimates before a call. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function taskCost(settings: LLMSettings, task: LLMTask, usage: TokenUsage): number {
+  return estimateCost(settings.provider, settings.models[task], usage) ?? 0
+}
+
+/** Expected cost of a full analysis (detection, analysis, word translation) of these lyrics or album. */
+export function estimateAnalysisCost(settings: LLMSettings, lyrics: string): number {
+  const chunks = splitAlbum(lyrics).flatMap((song) => chunkLyrics(song.lyrics))
+  return chunks.reduce((sum, chunk) => {
+    const chunkTokens = estimateTokens(chunk)
+    return (
+      sum +
+      taskCost(settings, 'detect', { inputTokens: Math.min(chunkTokens, 650) + 100, outputTokens: 150 }) +
+      taskCost(settings, 'analyze', { inputTokens: chunkTokens + 700, outputTokens: 3000 }) +
+      taskCost(settings, 'translate', { inputTokens: 400, outputTokens: 400 })
+    )
+  }, 0)
+}
+
+/** Expected cost of translating these lyrics line by line. */
+export function estimateLineTranslationCost(settings: LLMSettings, lyrics: string): number {
+  const lyricTokens = estimateTokens(lyrics)
+  return taskCost(settings, 'translate', {
+    inputTokens: lyricTokens + 200,
+    outputTokens: Math.ceil(lyricTokens * 1.3),
+  })
+}
+
+/** Expected cost of finding the grammar points and idioms in these lyrics. */
+export function estimateGrammarCost(settings: LLMSettings, lyrics: string): number {
+  return chunkLyrics(lyrics).reduce(
+    (sum, chunk) =>
+      sum + taskCost(settings, 'analyze', { inputTokens: estimateTokens(chunk) + 600, outputTokens: 2000 }),
+    0,
+  )
+}
@@ -0,0 +1,92 @@
+import type { LLMTask, ProviderId } from '../llm/providers'
+import { getAll, put } from '../storage/db'
+
+const BUDGET_KEY = 'learn-by-songs:monthly-budget'
+
+/** One LLM call. Cache hits make no call and are not recorded. */
+export type UsageRecord = {
+  id: string
+  task: LLMTask
+  provider: ProviderId
+  model: string
+  inputTokens: number
+  outputTokens: number
+  /** True when the provider didn't report usage and tokens were estimated from text length. */
+  estimated: boolean
+  /** USD, or null when the model's price is unknown. */
+  cost: number | null
+  /** Title of the song the call was made for, if any. */
+  song?: string
+  createdAt: number
+}
+
+export type UsageTotals = {
+  key: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  /** Calls whose cost is unknown and therefore missing from `cost`. */
+  unpriced: number
+}
+
+export function loadUsage(): Promise<UsageRecord[]> {
+  return getAll<UsageRecord>('llmUsage').then((records) =>
+    records.sort((a, b) => b.createdAt - a.createdAt),
+  )
+}
+
+export function recordUsage(record: UsageRecord): Promise<void> {
+  return put('llmUsage', record)
+}
+
+/** `YYYY-MM` in local time. */
+export function monthKey(time: number): string {
+  const date = new Date(time)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/** Sum records per group, keeping the order in which groups first appear. */
+export function totalsBy(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageTotals[] {
+  const groups = new Map<string, UsageTotals>()
+  for (const record of records) {
+    const key = keyOf(record)
+    const totals = groups.get(key) ?? {
+      key,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: 0,
+      unpriced: 0,
+    }
+    totals.calls++
+    totals.inputTokens += record.inputTokens
+    totals.outputTokens += record.outputTokens
+    if (record.cost === null) totals.unpriced++
+    else totals.cost += record.cost
+    groups.set(key, totals)
+  }
+  return [...groups.values()]
+}
+
+export function spentInMonth(records: UsageRecord[], time: number): number {
+  const month = monthKey(time)
+  return records
+    .filter((r) => monthKey(r.createdAt) === month)
+    .reduce((sum, r) => sum + (r.cost ?? 0), 0)
+}
+
+/** Monthly budget in USD, or null when none is set. */
+export function loadBudget(): number | null {
+  const value = Number(localStorage.getItem(BUDGET_KEY))
+  return value > 0 ? value : null
+}
+
+export function saveBudget(budget: number | null): void {
+  if (budget && budget > 0) localStorage.setItem(BUDGET_KEY, String(budget))
+  else localStorage.removeItem(BUDGET_KEY)
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
@@ -0,0 +1,135 @@
+import type { LearningItem } from '../types'
+import { getAll, put, putMany, remove } from '../storage/db'
+import { wordsMatch } from '../text/anchor'
+import { normalizeWord } from '../text/tokenize'
+
+export type WordStatus = 'known' | 'learning' | 'ignored'
+
+export type VocabularyEntry = {
+  /** `<langCode>:<normalized word>` */
+  id: string
+  langCode: string
+  word: string
+  status: WordStatus
+  updatedAt: number
+}
+
+/** Max words sent to the LLM as "already known", to keep the prompt small. */
+const MAX_PROMPT_WORDS = 300
+
+function entryId(word: string, langCode: string): string {
+  return `${langCode}:${normalizeWord(word, langCode)}`
+}
+
+export function loadVocabulary(): Promise<VocabularyEntry[]> {
+  return getAll<VocabularyEntry>('vocabulary')
+}
+
+/** Set a word's status, or remove it from the profile when `status` is null. */
+export async function setWordStatus(
+  word: string,
+  langCode: string,
+  status: WordStatus | null,
+): Promise<VocabularyEntry | null> {
+  const id = entryId(word, langCode)
+  if (!status) {
+    await remove('vocabulary', id)
+    return null
+  }
+  const entry: VocabularyEntry = {
+    id,
+    langCode,
+    word: normalizeWord(word, langCode),
+    status,
+    updatedAt: Date.now(),
+  }
+  await put('vocabulary', entry)
+  return entry
+}
+
+/** Words from a plain text file: one per line, or separated by commas/semicolons/tabs. `#` starts a comment. */
+export function parseWordList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*/, ''))
+    .flatMap((line) => line.split(/[,;\t]/))
+    .map((word) => word.trim())
+    .filter(Boolean)
+}
+
+/** Import a word list with one status. Returns the number of words stored. */
+export async function importWords(
+  words: string[],
+  langCode: string,
+  status: WordStatus,
+): Promise<number> {
+  const now = Date.now()
+  const entries = new Map<string, VocabularyEntry>()
+  for (const word of words) {
+    const norm = normalizeWord(word, langCode)
+    if (!norm) continue
+    entries.set(norm, { id: `${langCode}:${norm}`, langCode, word: norm, status, updatedAt: now })
+  }
+  await putMany('vocabulary', [...entries.values()])
+  return entries.size
+}
+
+/**
+ * Normalized words the learner doesn't want suggested (known or ignored) for one language,
+ * most recently marked first.
+ */
+export function excludedWords(
+  vocabulary: VocabularyEntry[],
+  langCode: string | undefined,
+  limit = Infinity,
+): string[] {
+  if (!langCode) return []
+  return vocabulary
+    .filter((e) => e.langCode === langCode && e.status !== 'learning')
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, limit)
+    .map((e) => e.word)
+}
+
+/** The excluded words, capped for inclusion in an LLM prompt. */
+export function excludedWordsForPrompt(vocabulary: VocabularyEntry[], langCode: string | undefined): string[] {
+  return excludedWords(vocabulary, langCode, MAX_PROMPT_WORDS)
+}
+
+export function statusOf(
+  vocabulary: VocabularyEntry[],
+  word: string,
+  langCode: string | undefined,
+): WordStatus | undefined {
+  if (!langCode) return undefined
+  const id = entryId(word, langCode)
+  return vocabulary.find((e) => e.id === id)?.status
+}
+
+/**
+ * Drop items the learner already knows or has ignored, including inflected forms of those words.
+ * Items tagged with their own language are checked against that language's words.
+ */
+export function filterByVocabulary(
+  items: LearningItem[],
+  vocabulary: VocabularyEntry[],
+  langCode: string | undefined,
+): LearningItem[] {
+  const byLang = new Map<string | undefined, { words: string[]; exact: Set<string> }>()
+  return items.filter((item) => {
+    const itemLang = item.langCode ?? langCode
+    let excluded = byLang.get(itemLang)
+    if (!excluded) {
+      const words = excludedWords(vocabulary, itemLang)
+      excluded = { words, exact: new Set(words) }
+      byLang.set(itemLang, excluded)
+    }
+    if (excluded.words.length === 0) return true
+    const norm = normalizeWord(item.word, itemLang)
+    if (excluded.exact.has(norm)) return false
+    if (item.lemma && excluded.exact.has(normalizeWord(item.lemma, itemLang))) return false
+    // Only single words are matched by inflection; phrases must be marked as a whole.
+    if (/\s/.test(norm)) return true
+    return !excluded.words.some((word) => wordsMatch(norm, word, itemLang))
+  })
+}